@@ -0,0 +1,56 @@
+// scripts/clientid.mjs
+//
+// Writes the Solid-OIDC client ID document from the same settings the app loads at
+// startup: VITE_* env (including .env files for the mode) overridden by config.json.
+//
+//   node scripts/clientid.mjs [--mode <mode>] [--config <path>] [--out <path>]
+//
+// Defaults to public/config.json -> public/clientid.json. For a deployed build, point
+// both at dist/ after replacing config.json with the target environment's.
+import { readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { loadEnv } from "vite";
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+const mode = arg("mode", process.env.NODE_ENV === "production" ? "production" : "development");
+const configPath = arg("config", "public/config.json");
+const outPath = arg("out", "public/clientid.json");
+
+const env = loadEnv(mode, process.cwd(), "VITE_");
+const file = existsSync(configPath) ? JSON.parse(await readFile(configPath, "utf8")) : {};
+
+const appUrl = file.appUrl ?? env.VITE_APP_URL;
+const clientName = file.clientName ?? env.VITE_CLIENT_NAME;
+
+const issues = [];
+if (!appUrl) issues.push("appUrl (or VITE_APP_URL) is required.");
+else if (!/^https?:\/\//.test(appUrl)) issues.push(`appUrl: "${appUrl}" must be an absolute http(s) URL.`);
+if (!clientName) issues.push("clientName (or VITE_CLIENT_NAME) is required.");
+if (issues.length) {
+  console.error(`Cannot generate ${outPath} from ${configPath}:\n  ${issues.join("\n  ")}`);
+  process.exit(1);
+}
+
+const base = appUrl.endsWith("/") ? appUrl : `${appUrl}/`;
+const clientId = new URL("clientid.json", base).toString();
+
+const doc = {
+  "@context": ["https://www.w3.org/ns/solid/oidc-context.jsonld"],
+  client_id: clientId,
+  client_name: clientName,
+  redirect_uris: [base],
+  post_logout_redirect_uris: [base],
+  scope: "openid profile offline_access webid",
+  grant_types: ["authorization_code", "refresh_token"],
+  response_types: ["code"],
+  token_endpoint_auth_method: "none",
+  application_type: "web",
+  client_uri: base,
+};
+
+await writeFile(outPath, `${JSON.stringify(doc, null, 2)}\n`);
+console.log(`Wrote ${outPath} for ${clientId}`);
@@ -1,20 +1,45 @@
 // src/App.tsx
-import React, { useState } from "react";
-import type { PatientFile } from "./solid/healthData";
+import React, { useEffect, useState } from "react";
+import type { FullRecord, PatientFile, RecordVersion } from "./solid/healthData";
 import { session } from "./solid/session";
-import { PATIENTS, DOCTOR_WEBID, EMERGENCY_WEBID, PHARMACY_WEBID, NURSE_WEBID } from "./solid/config";
-import { emptyFullRecord, saveFullRecord, loadPatientFiles, savePatientFile, deletePatientFile } from "./solid/healthData";
-import { applyAccessForFullRecord } from "./solid/acp";
-import { bootstrapGovernanceStore, createGrantAndActivate, revokeActiveGrant } from "./solid/governanceSolid";
+import {
+  emptyFullRecord, loadFullRecord, saveFullRecord, loadPatientFiles, savePatientFile, updatePatientFile,
+  deletePatientFile, patientFileUrl, fullRecordUrl, WriteConflictError, appendRecordVersion,
+  ensureRecordHistoryBaseline, syncPharmacyMedications, uploadAttachment, loadAttachment, deleteAttachment,
+} from "./solid/healthData";
+import {
+  applyAccessForFullRecord, applyAcpForPatientFile, readAccessForFullRecord, ROLE_ACCESS_FLAG,
+} from "./solid/acp";
+import {
+  bootstrapGovernanceStore, createGrantAndActivate, revokeActiveGrant, isGranteeRole, reviewBreakGlass,
+  getLiveGrantScopes, GRANTEE_ROLES, approvePatientRegistration, rejectPatientRegistration, listPatientGrantStates,
+  getLiveGrants, grantTermsOf, sameGrantTerms,
+  logRecordRestore,
+} from "./solid/governanceSolid";
+import { exportFhirBundle, mergeImportedRecord } from "./solid/fhir";
+import type { FhirBundle, FhirImport } from "./solid/fhir";
+import type { BreakGlassGrant, BreakGlassReview, GranteeRole, PendingRegistration } from "./solid/governanceSolid";
 
 // Hooks
 import { useSolidSession }           from "./app/hooks/useSolidSession";
 import { usePatientContext }          from "./app/hooks/usePatientContext";
-import type { PatientKey }            from "./app/hooks/usePatientContext";
-import { useDoctorGate }             from "./app/hooks/useDoctorGate";
+import { usePatientEnrolment }        from "./app/hooks/usePatientEnrolment";
+import { usePatientRegistrations }    from "./app/hooks/usePatientRegistrations";
+import { usePractitionerAdmin }       from "./app/hooks/usePractitionerAdmin";
+import { useGrantGate }              from "./app/hooks/useGrantGate";
 import { useGovernanceAudit }        from "./app/hooks/useGovernanceAudit";
+import { useTermsAdmin }             from "./app/hooks/useTermsAdmin";
 import { usePatientData }            from "./app/hooks/usePatientData";
-import { useDoctorRevocationPolling } from "./app/hooks/useDoctorRevocationPolling";
+import { useGrantRevocationPolling } from "./app/hooks/useGrantRevocationPolling";
+import { useBreakGlassNotices }      from "./app/hooks/useBreakGlassNotices";
+import { useSigningKey }             from "./app/hooks/useSigningKey";
+import { useAccessHistory }          from "./app/hooks/useAccessHistory";
+import { useIssuerChoice }           from "./app/hooks/useIssuerChoice";
+import { useRecordHistory }          from "./app/hooks/useRecordHistory";
+import { stashRecordDraft }          from "./app/recordDraft";
+import { findAllergyConflicts, isBlockingConflict, isNewConflict } from "./app/allergyCheck";
+import { AllergyConflictError }      from "./app/errors";
+import { fmtTime, PATIENT_FILE_MERGE_FIELDS, RECORD_MERGE_FIELDS } from "./app/utils";
 
 // UI utilities
 import { useToast }   from "./components/ui/Toast";
@@ -25,26 +50,44 @@ import { Header }             from "./components/Header";
 import { FullRecordForm }     from "./components/FullRecordForm";
 import { LegalNoticeModal }   from "./components/LegalNoticeModal";
 import { GovernanceDashboard } from "./components/GovernanceDashboard";
+import { TermsPanel } from "./components/TermsPanel";
 import { AccessControls }     from "./components/AccessControls";
 import { RoleNotes }          from "./components/RoleNotes";
 import PatientFileManager     from "./components/PatientFileManager";
 import FileUploadForm         from "./components/FileUploadForm";
+import {
+  BreakGlassActiveNotice, BreakGlassBanner, BreakGlassPanel, BreakGlassPendingNotice,
+} from "./components/BreakGlass";
+import { AccessHistoryPanel }     from "./components/AccessHistoryPanel";
+import { FhirExchangePanel }      from "./components/FhirExchangePanel";
+import { PatientPicker }          from "./components/PatientPicker";
+import { PatientEnrolmentPanel }  from "./components/PatientEnrolmentPanel";
+import { PatientRegistrationQueue } from "./components/PatientRegistrationQueue";
+import { PractitionerRegistryPanel } from "./components/PractitionerRegistryPanel";
+import { IssuerPicker }           from "./components/IssuerPicker";
+import { SessionExpiredModal }    from "./components/SessionExpiredModal";
 
 const App: React.FC = () => {
   const { toast }   = useToast();
-  const { confirm } = useConfirm();
+  const { confirm, merge } = useConfirm();
 
   // ── Session & context ─────────────────────────────────────────
-  const { ready, loggedIn, webId, login, logout } = useSolidSession();
+  const { ready, loggedIn, webId, sessionExpired, login, logout } = useSolidSession();
+  useSigningKey(loggedIn, webId);
+  const issuerChoice = useIssuerChoice();
 
   const {
-    role, selectedPatient, setSelectedPatient,
-    effectivePatient, patientHealthContainerUrl, isGovernance,
+    role, practitioners, patients, patientsLoading, selectedPatient, setSelectedPatient,
+    effectivePatient, patientHealthContainerUrl, isGovernance, needsEnrolment, refreshDirectory,
   } = usePatientContext(loggedIn, webId);
+  const enrolment = usePatientEnrolment(needsEnrolment, webId);
 
-  // ── Doctor gate & governance audit ────────────────────────────
-  const doctorGate = useDoctorGate();
+  // ── Grant gate & governance audit ─────────────────────────────
+  const grantGate = useGrantGate({ webId, role: isGranteeRole(role) ? role : null });
   const audit = useGovernanceAudit(isGovernance);
+  const termsAdmin = useTermsAdmin(isGovernance, audit.refreshAudit);
+  const registrations = usePatientRegistrations(isGovernance);
+  const practitionerAdmin = usePractitionerAdmin(isGovernance);
 
   // ── Patient data ──────────────────────────────────────────────
   const patientData = usePatientData({
@@ -53,29 +96,87 @@ const App: React.FC = () => {
     webId,
     effectivePatient,
     patientHealthContainerUrl,
-    noticeAcceptedTick: doctorGate.noticeAcceptedTick,
-    doctorGate: role === "doctor" ? doctorGate.gateOrThrow : undefined,
+    practitioners,
+    noticeAcceptedTick: grantGate.noticeAcceptedTick,
+    sessionExpired,
+    grantGate: isGranteeRole(role) ? grantGate.gateOrThrow : undefined,
+  });
+
+  // ── Break-glass notices (patient) ─────────────────────────────
+  const breakGlassNotices = useBreakGlassNotices({ loggedIn, role, effectivePatient });
+
+  // ── Access history (patient) ──────────────────────────────────
+  const accessHistory = useAccessHistory({ loggedIn, role, effectivePatient });
+  // A pharmacy is not given the record, nor its history
+  const recordHistory = useRecordHistory({
+    podBaseUrl: role === "pharmacy" ? null : effectivePatient?.podBaseUrl ?? null,
   });
 
   // ── File editor local state ───────────────────────────────────
   const [showFileUpload, setShowFileUpload] = useState(false);
   const [editingFile,    setEditingFile]    = useState<PatientFile | null>(null);
 
-  // ── Revocation polling (doctor) ───────────────────────────────
-  useDoctorRevocationPolling({
-    loggedIn, role, effectivePatient, patientHealthContainerUrl,
-    // Only poll when the doctor has confirmed access and data is loaded
+  // ── Grant durations chosen in the access panel (days; null = no expiry; undefined = keep the live grant's) ──
+  const [grantExpiryDays, setGrantExpiryDays] = useState<Record<GranteeRole, number | null | undefined>>({
+    doctor: undefined, emergency: undefined, nurse: undefined, pharmacy: undefined,
+  });
+
+  // ── Revocation polling (grantee roles) ────────────────────────
+  useGrantRevocationPolling({
+    // An expired session cannot tell a revocation from a refused request
+    loggedIn: loggedIn && !sessionExpired, role, webId, effectivePatient, patientHealthContainerUrl,
+    // Only poll when the grantee has confirmed access and data is loaded
     hasActiveData: patientData.fullRecord !== null || patientData.patientFiles.length > 0,
-    onRevoked: () => {
-      doctorGate.clearGateUi();
+    onRevoked: (reason) => {
+      grantGate.clearGateUi();
       patientData.setFullRecord(null);
       patientData.setFullRecordStatus(403);
-      patientData.setFullRecordError("Access revoked. Data cleared.");
+      patientData.setFullRecordError(
+        reason === "expired" ? "Access expired. Data cleared." : "Access revoked. Data cleared.",
+      );
       patientData.setPatientFiles([]);
     },
   });
 
+  // ── Grants that lapsed since the patient's last session ───────
+  useEffect(() => {
+    if (patientData.expiredRoles.length === 0) return;
+    toast(
+      `Access expired for: ${patientData.expiredRoles.join(", ")}. It has been removed from your pod.`,
+      "info",
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [patientData.expiredRoles]);
+
+  // ── Record edits carried over a re-login ──────────────────────
+  useEffect(() => {
+    if (!patientData.draftRestored) return;
+    toast("Your unsaved changes were restored. Save them to keep them.", "info");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [patientData.draftRestored]);
+
   // ── Actions ───────────────────────────────────────────────────
+  async function handleLogin() {
+    try {
+      await login(issuerChoice.resolvedIssuer());
+    } catch (e) {
+      toast("Login failed: " + (e instanceof Error ? e.message : String(e)), "error");
+    }
+  }
+
+  /** Keeps record edits across the login redirect; usePatientData puts them back. */
+  async function handleRelogin() {
+    if (webId && effectivePatient && patientData.fullRecord && (role === "patient" || role === "doctor")) {
+      stashRecordDraft({
+        webId,
+        recordUrl: fullRecordUrl(effectivePatient.podBaseUrl),
+        record: patientData.fullRecord,
+        etag: patientData.fullRecordEtag,
+      });
+    }
+    await handleLogin();
+  }
+
   async function handleBootstrapGovernance() {
     try {
       await bootstrapGovernanceStore(session.fetch);
@@ -86,96 +187,461 @@ const App: React.FC = () => {
     }
   }
 
-  async function handleSaveRecord() {
-    if (!effectivePatient || !patientData.fullRecord) return;
+  async function handleBreakGlass(justification: string) {
+    if (!effectivePatient || !patientHealthContainerUrl) return;
+    await grantGate.requestBreakGlass(effectivePatient.webId, patientHealthContainerUrl, justification);
+    toast("Break-glass requested. This access is logged and will be reviewed.", "warning");
+  }
+
+  async function handleReviewBreakGlass(grant: BreakGlassGrant, outcome: BreakGlassReview["outcome"], note: string) {
     try {
-      await saveFullRecord(session.fetch, effectivePatient.podBaseUrl, patientData.fullRecord);
+      await reviewBreakGlass(session.fetch, grant, { outcome, note });
+      toast("Break-glass review recorded.", "success");
+      await audit.refreshAudit();
+    } catch (e) {
+      toast("Failed to record review: " + (e instanceof Error ? e.message : String(e)), "error");
+    }
+  }
 
-      // Reload to confirm persisted state
-      const res = await session.fetch(`${effectivePatient.podBaseUrl}health/full-record.json`, {
-        method: "GET",
-        headers: { Accept: "application/json" },
-        cache: "no-store",
+  async function handleApproveRegistration(request: PendingRegistration) {
+    const unverified = request.signature.status === "unsigned";
+    if (unverified) {
+      const ok = await confirm({
+        title: "Approve unverified registration",
+        message:
+          `The request from ${request.registration.label} is not signed, so anyone signed in could have filed it ` +
+          "for this WebID. Approve only if you have confirmed it with the patient.",
+        confirmLabel: "Approve anyway",
+        variant: "danger",
       });
-      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+      if (!ok) return;
+    }
+    try {
+      const entry = await approvePatientRegistration(session.fetch, request, { allowUnverified: unverified });
+      toast(`${entry.label} enrolled.`, "success");
+      await Promise.all([registrations.refreshRegistrations(), audit.refreshAudit()]);
+    } catch (e) {
+      toast("Failed to approve registration: " + (e instanceof Error ? e.message : String(e)), "error");
+    }
+  }
+
+  async function handleRejectRegistration(request: PendingRegistration) {
+    const ok = await confirm({
+      title: "Reject registration",
+      message: `Reject the registration from ${request.registration.label}? They can register again.`,
+      confirmLabel: "Reject",
+      variant: "danger",
+    });
+    if (!ok) return;
+    try {
+      await rejectPatientRegistration(session.fetch, request);
+      toast("Registration rejected.", "success");
+      await registrations.refreshRegistrations();
+    } catch (e) {
+      toast("Failed to reject registration: " + (e instanceof Error ? e.message : String(e)), "error");
+    }
+  }
+
+  /**
+   * Runs a conditional write. If someone else saved in between, the user merges the two
+   * versions field by field and the merge is written against the newer version.
+   * Resolves to null when the user cancels.
+   */
+  async function writeWithMerge<T extends object, R>(args: {
+    what: string;
+    value: T;
+    etag: string | null | undefined;
+    fields: { key: keyof T & string; label: string; format?: (value: unknown) => string }[];
+    write: (value: T, etag: string | null | undefined) => Promise<R>;
+  }): Promise<R | null> {
+    let { value, etag } = args;
+    for (;;) {
+      try {
+        return await args.write(value, etag);
+      } catch (e) {
+        if (!(e instanceof WriteConflictError)) throw e;
+        const conflict = e as WriteConflictError<T>;
 
-      patientData.setFullRecord(await res.json());
-      patientData.setFullRecordStatus(res.status);
-      patientData.setFullRecordError(null);
+        if (!conflict.remote) {
+          const ok = await confirm({
+            title: `${args.what} was deleted`,
+            message: `Someone deleted this ${args.what.toLowerCase()} while you were editing. Save your version again?`,
+            confirmLabel: "Save again",
+          });
+          if (!ok) return null;
+          etag = null;
+          continue;
+        }
+
+        const merged = await merge({
+          title: `${args.what} changed while you were editing`,
+          message: "Someone else saved changes since you loaded it. Pick which version to keep for each field.",
+          fields: args.fields,
+          mine: value,
+          theirs: conflict.remote,
+        });
+        if (!merged) return null;
+        value = merged;
+        etag = conflict.remoteEtag;
+      }
+    }
+  }
+
+  /**
+   * Checks the record's medications against its allergies, writes it (merging on conflict),
+   * reloads what was persisted and appends it to the record history. Every save path goes
+   * through here. Throws AllergyConflictError for a blocking conflict the edit brings in
+   * (see isNewConflict); resolves to false when the user declines a warning or cancels the
+   * merge. `beforeWrite` runs once the checks have passed.
+   */
+  async function persistFullRecord(
+    record: FullRecord,
+    opts?: { restoredFrom?: RecordVersion; beforeWrite?: () => Promise<void> },
+  ): Promise<boolean> {
+    if (!effectivePatient || !webId) return false;
+    const podBaseUrl = effectivePatient.podBaseUrl;
+
+    const conflicts = findAllergyConflicts(record.allergies, record.medications);
+    if (conflicts.some(isBlockingConflict)) {
+      // Only what this edit brings in is blocked; severe conflicts already stored are confirmed
+      const { data: stored } = await loadFullRecord(session.fetch, podBaseUrl, false);
+      const blocking = conflicts.filter((c) => isBlockingConflict(c) && isNewConflict(c, stored));
+      if (blocking.length) throw new AllergyConflictError(blocking);
+    }
+    if (conflicts.length) {
+      const ok = await confirm({
+        title: "Possible allergy conflict",
+        message: `${conflicts.map((c) => c.message).join(" ")} Save anyway?`,
+        confirmLabel: "Save anyway",
+        variant: "danger",
+      });
+      if (!ok) return false;
+    }
+    await opts?.beforeWrite?.();
+
+    try {
+      await ensureRecordHistoryBaseline(session.fetch, podBaseUrl);
+    } catch (e) {
+      // Saving goes ahead; only the version before it cannot be restored
+      toast("The current version could not be added to the record history: " + (e instanceof Error ? e.message : String(e)), "warning");
+    }
+    const saved = await writeWithMerge({
+      what: "Record",
+      value: record,
+      etag: patientData.fullRecordEtag,
+      fields: RECORD_MERGE_FIELDS,
+      write: (value, etag) => saveFullRecord(session.fetch, podBaseUrl, value, etag),
+    });
+    if (saved === null) return false;
+    patientData.auditAccess("WRITE", fullRecordUrl(podBaseUrl));
+
+    // Reload to confirm persisted state
+    const { data: persisted, status, etag } = await loadFullRecord(session.fetch, podBaseUrl, false);
+    if (!persisted) throw new Error(`${status} reloading the saved record`);
+
+    patientData.setFullRecord(persisted);
+    patientData.setFullRecordEtag(etag);
+    patientData.setFullRecordStatus(status);
+    patientData.setFullRecordError(null);
+
+    try {
+      await syncPharmacyMedications(session.fetch, podBaseUrl, persisted);
+    } catch (e) {
+      toast("Saved, but the medications shared with pharmacy could not be updated: " + (e instanceof Error ? e.message : String(e)), "warning");
+    }
+
+    try {
+      await appendRecordVersion(session.fetch, podBaseUrl, {
+        record: persisted,
+        authorWebId: webId,
+        restoredFrom: opts?.restoredFrom,
+      });
+    } catch (e) {
+      // The record itself is saved; only its history entry is missing
+      toast("Saved, but the change was not added to the record history: " + (e instanceof Error ? e.message : String(e)), "warning");
+    }
+    return true;
+  }
+
+  async function handleSaveRecord() {
+    if (!patientData.fullRecord) return;
+    try {
+      if (!(await persistFullRecord(patientData.fullRecord))) {
+        toast("Save cancelled. Your changes are still on screen.", "info");
+        return;
+      }
       toast("Record saved to pod.", "success");
     } catch (e: any) {
+      // The form shows a blocked save next to the record
+      if (e instanceof AllergyConflictError) throw e;
       toast("Failed to save record: " + (e?.message ?? String(e)), "error");
     }
   }
 
+  async function handleRestoreVersion(version: RecordVersion) {
+    if (!effectivePatient || !patientHealthContainerUrl || !webId || !version.url) return;
+    const ok = await confirm({
+      title: "Restore this version",
+      message: `Replace the record with the version saved ${fmtTime(version.savedAt)}? The current version stays in the history.`,
+      confirmLabel: "Restore",
+    });
+    if (!ok) return;
+    const restoredVersionUrl = version.url;
+    // Logged before the record changes, so that no restore goes unaudited
+    const logRestore = async () => {
+      try {
+        await logRecordRestore(session.fetch, {
+          actorWebId: webId,
+          ...(isGranteeRole(role) ? { actorRole: role } : {}),
+          patientWebId: effectivePatient.webId,
+          scopeUrl: patientHealthContainerUrl,
+          resourceUrl: fullRecordUrl(effectivePatient.podBaseUrl),
+          restoredVersionUrl,
+        });
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        throw new Error(`The audit log could not be updated, so nothing was restored. ${reason}`);
+      }
+    };
+    try {
+      if (!(await persistFullRecord(version.record, { restoredFrom: version, beforeWrite: logRestore }))) {
+        toast("Restore cancelled.", "info");
+        return;
+      }
+      toast("Earlier version restored.", "success");
+      await Promise.all([recordHistory.refresh(), accessHistory.refresh()]);
+    } catch (e) {
+      toast("Failed to restore version: " + (e instanceof Error ? e.message : String(e)), "error");
+    }
+  }
+
+  function handleExportFhir(): FhirBundle {
+    return exportFhirBundle({
+      record: patientData.fullRecord,
+      files: patientData.patientFiles,
+      patientWebId: effectivePatient?.webId ?? webId ?? "",
+    });
+  }
+
+  /** Merges the bundle's record fields into the record and saves its files, unshared. */
+  async function handleImportFhir(parsed: FhirImport) {
+    if (!effectivePatient) return;
+    const podBaseUrl = effectivePatient.podBaseUrl;
+    try {
+      if (Object.keys(parsed.record).length) {
+        const merged = mergeImportedRecord(patientData.fullRecord ?? emptyFullRecord(), parsed.record);
+        if (!(await persistFullRecord(merged))) {
+          toast("Import cancelled. Nothing was imported.", "info");
+          return;
+        }
+      }
+      for (const file of parsed.files) {
+        await applyFileAcr(await savePatientFile(session.fetch, podBaseUrl, { ...file, createdBy: file.createdBy || webId || "" }));
+      }
+      if (parsed.files.length) patientData.setPatientFiles(await loadPatientFiles(session.fetch, podBaseUrl));
+
+      const skipped = parsed.issues.length ? ` ${parsed.issues.length} skipped.` : "";
+      toast(`Imported ${parsed.imported} FHIR resource${parsed.imported === 1 ? "" : "s"}.${skipped}`, parsed.issues.length ? "warning" : "success");
+    } catch (e) {
+      toast("FHIR import failed: " + (e instanceof Error ? e.message : String(e)), "error");
+    }
+  }
+
   async function handleApplyAccess() {
     if (!effectivePatient || !patientHealthContainerUrl) {
       toast("No patient selected.", "warning");
       return;
     }
+    const enabledTerms = GRANTEE_ROLES
+      .filter((r) => patientData[ROLE_ACCESS_FLAG[r]])
+      .map((r) => patientData.grantTerms[r]);
+    if (enabledTerms.some((t) => t.scope.kind === "file-types" && t.scope.fileTypes.length === 0)) {
+      toast("Choose at least one file type for each grant limited to file types.", "warning");
+      return;
+    }
+    if (enabledTerms.some((t) => t.scope.kind === "file" && !t.scope.fileId)) {
+      toast("Choose the file for each single-file grant.", "warning");
+      return;
+    }
+    if (GRANTEE_ROLES.some((r) => patientData[ROLE_ACCESS_FLAG[r]] && !patientData.grantees[r])) {
+      toast("Choose a practitioner for each role you grant access to.", "warning");
+      return;
+    }
+
     try {
-      // Step 1 – write ACP policy to the patient pod
-      await applyAccessForFullRecord(session.fetch, {
+      // Step 1 – write ACP policy to the patient pod, limited to each grant's scope
+      const scopes = Object.fromEntries(GRANTEE_ROLES.map((r) => [r, patientData.grantTerms[r].scope]));
+      const accessOptions = {
         resourceUrl:          patientHealthContainerUrl,
         patientWebId:         effectivePatient.webId,
-        doctorWebId:          DOCTOR_WEBID,
-        emergencyWebId:       EMERGENCY_WEBID,
-        pharmacyWebId:        PHARMACY_WEBID,
-        nurseWebId:           NURSE_WEBID,
+        grantees:             patientData.grantees,
         doctorCanReadWrite:   patientData.doctorCanReadWrite,
         emergencyCanRead:     patientData.emergencyCanRead,
-        pharmacyCanRead:      false,
-        nurseCanReadWrite:    false,
+        pharmacyCanRead:      patientData.pharmacyCanRead,
+        nurseCanReadWrite:    patientData.nurseCanReadWrite,
+        scopes,
         restrictToClientAndIssuer: true,
-      });
-      toast("Access policy applied to your pod.", "info");
+      };
+      await applyAccessForFullRecord(session.fetch, accessOptions);
 
-      // Step 2 – update governance grant and notify
-      if (patientData.doctorCanReadWrite) {
-        await createGrantAndActivate(session.fetch, {
-          patientWebId: effectivePatient.webId,
-          doctorWebId:  DOCTOR_WEBID,
-          scopeUrl:     patientHealthContainerUrl,
+      // Per-file ACRs depend on the role toggles too, so re-sync every file
+      for (const file of patientData.patientFiles) {
+        await applyAcpForPatientFile(session.fetch, {
+          ...accessOptions,
+          resourceUrl: patientFileUrl(effectivePatient.podBaseUrl, file.id),
+          sharing:     file,
+          attachmentUrl: file.attachment?.url,
         });
+      }
+      toast("Access policy applied to your pod.", "info");
+
+      // Step 2 – one governance grant per role, naming the chosen practitioner, each with its own audit trail
+      const roles: { label: string; role: GranteeRole }[] = [
+        { label: "Doctor",    role: "doctor" },
+        { label: "Emergency", role: "emergency" },
+        { label: "Nurse",     role: "nurse" },
+        { label: "Pharmacy",  role: "pharmacy" },
+      ];
+      const states = await listPatientGrantStates(session.fetch, {
+        patientWebId: effectivePatient.webId,
+        scopeUrl:     patientHealthContainerUrl,
+      });
+      const granted: string[] = [];
+      const revoked: string[] = [];
+
+      for (const r of roles) {
+        const grantee = patientData[ROLE_ACCESS_FLAG[r.role]] ? patientData.grantees[r.role] : undefined;
+
+        // Whoever held the role before and is no longer named loses their grant
+        let revokedAny = false;
+        for (const st of states) {
+          if (st.granteeRole !== r.role || st.granteeWebId === grantee) continue;
+          const revokeArgs = {
+            patientWebId: effectivePatient.webId,
+            granteeWebId: st.granteeWebId,
+            granteeRole:  r.role,
+            scopeUrl:     patientHealthContainerUrl,
+          };
+          if (await revokeActiveGrant(session.fetch, revokeArgs)) revokedAny = true;
+        }
+        if (revokedAny && !grantee) revoked.push(r.label);
+
+        if (grantee) {
+          const days = grantExpiryDays[r.role];
+          const terms = patientData.grantTerms[r.role];
+          const live = patientData.liveGrants[r.role];
+          const current = live?.granteeWebId === grantee ? live : undefined;
+          // An unchanged grant stays as it is: a new one would need a fresh acknowledgement
+          if (current && days === undefined && sameGrantTerms(grantTermsOf(current), terms)) continue;
+
+          await createGrantAndActivate(session.fetch, {
+            patientWebId:  effectivePatient.webId,
+            granteeWebId:  grantee,
+            granteeRole:   r.role,
+            scopeUrl:      patientHealthContainerUrl,
+            purpose:       terms.purpose,
+            purposeDetail: terms.purposeDetail?.trim() || undefined,
+            scope:         terms.scope,
+            expiresAt: days === undefined
+              ? current?.expiresAt
+              : days ? new Date(Date.now() + days * 86_400_000).toISOString() : undefined,
+          });
+          granted.push(r.label);
+        }
+      }
+
+      patientData.setLiveGrants(await getLiveGrants(session.fetch, {
+        patientWebId: effectivePatient.webId,
+        scopeUrl:     patientHealthContainerUrl,
+      }));
+      setGrantExpiryDays({ doctor: undefined, emergency: undefined, nurse: undefined, pharmacy: undefined });
+
+      if (granted.includes("Doctor")) {
         toast("Doctor access granted. The doctor must accept a legal notice before viewing your record.", "success");
-        toast("Grant recorded in the Governance Pod.", "info");
-      } else {
-        await revokeActiveGrant(session.fetch, {
-          patientWebId: effectivePatient.webId,
-          doctorWebId:  DOCTOR_WEBID,
-          scopeUrl:     patientHealthContainerUrl,
-        });
-        toast("Doctor access revoked. The doctor can no longer view your data.", "success");
-        toast("Revocation recorded in the Governance Pod.", "info");
+      }
+      const otherGrants = granted.filter((l) => l !== "Doctor");
+      if (otherGrants.length) {
+        toast(`${otherGrants.join(", ")} access granted. A legal notice must be accepted before viewing your record.`, "success");
+      }
+      if (revoked.length) {
+        toast(`${revoked.join(", ")} access revoked. They can no longer view your data.`, "success");
+      }
+      if (granted.length || revoked.length) {
+        toast("Grants recorded in the Governance Pod.", "info");
+        await accessHistory.refresh();
       }
     } catch (e: any) {
       toast("Failed to update access control: " + (e?.message ?? String(e)), "error");
     }
   }
 
-  async function handleFileUpload(fileData: PatientFile) {
+  /** Writes the file's ACR from its sharing flags and the role grants currently in the pod. */
+  async function applyFileAcr(file: PatientFile) {
+    if (!effectivePatient || !patientHealthContainerUrl) return;
+    const [granted, scopes] = await Promise.all([
+      readAccessForFullRecord(session.fetch, patientHealthContainerUrl, practitioners),
+      getLiveGrantScopes(session.fetch, { patientWebId: effectivePatient.webId, scopeUrl: patientHealthContainerUrl }),
+    ]);
+    await applyAcpForPatientFile(session.fetch, {
+      resourceUrl:  patientFileUrl(effectivePatient.podBaseUrl, file.id),
+      patientWebId: effectivePatient.webId,
+      ...granted,
+      scopes,
+      sharing:      file,
+      attachmentUrl: file.attachment?.url,
+      restrictToClientAndIssuer: true,
+    });
+  }
+
+  async function handleFileUpload(fileData: PatientFile, upload?: File) {
     if (!effectivePatient) { toast("No patient selected.", "warning"); return; }
+    const podBaseUrl = effectivePatient.podBaseUrl;
     try {
-      if (editingFile) {
-        const updated = patientData.patientFiles.map((f) =>
-          f.id === editingFile.id ? { ...f, ...fileData, updatedAt: new Date().toISOString() } : f,
+      // The binary goes first so the metadata never links to a missing resource
+      const uploaded = upload ? await uploadAttachment(session.fetch, podBaseUrl, upload) : undefined;
+      const value = uploaded ? { ...fileData, attachment: uploaded } : fileData;
+      const saved = editingFile
+        ? await writeWithMerge({
+            what: "File",
+            value: { ...editingFile, attachment: undefined, ...value },
+            etag: editingFile.etag,
+            fields: PATIENT_FILE_MERGE_FIELDS,
+            write: (file, etag) => updatePatientFile(session.fetch, podBaseUrl, { ...file, etag }),
+          })
+        : await savePatientFile(session.fetch, podBaseUrl, value);
+
+      // Best effort: remove attachments no longer linked, i.e. the replaced one, or ours
+      // if the save was cancelled or the merge kept the other version
+      const unlinked = [uploaded?.url, editingFile?.attachment?.url]
+        .filter((url): url is string => !!url && url !== saved?.attachment?.url);
+      for (const url of unlinked) await deleteAttachment(session.fetch, url).catch(() => undefined);
+
+      if (!saved) {
+        toast("Save cancelled. Your changes were not saved.", "info");
+        return;
+      }
+      patientData.auditAccess("WRITE", patientFileUrl(effectivePatient.podBaseUrl, saved.id));
+
+      // Only the patient holds acl:Control, so only they can (re)write the file's ACR
+      if (role === "patient") {
+        await applyFileAcr(saved);
+      }
+
+      setEditingFile(null);
+      setShowFileUpload(false);
+      const files = await loadPatientFiles(session.fetch, effectivePatient.podBaseUrl);
+      patientData.setPatientFiles(files);
+      if (role === "patient") {
+        toast(editingFile ? "File updated." : "File saved.", "success");
+      } else if (!files.some((f) => f.id === saved.id)) {
+        // A new file has no ACR of its own until the patient writes one, so only they can read it
+        toast(
+          "File saved to the patient's pod. It is hidden from you until the patient shares it with you and applies access control.",
+          "warning",
         );
-        const res = await session.fetch(`${effectivePatient.podBaseUrl}health/files.json`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(updated, null, 2),
-        });
-        if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
-        patientData.setPatientFiles(updated);
-        setEditingFile(null);
-        setShowFileUpload(false);
-        toast("File updated.", "success");
       } else {
-        await savePatientFile(session.fetch, effectivePatient.podBaseUrl, fileData);
-        setShowFileUpload(false);
-        toast("File saved.", "success");
+        toast("File saved. Sharing changes take effect when the patient next applies access control.", "success");
       }
-      patientData.setPatientFiles(await loadPatientFiles(session.fetch, effectivePatient.podBaseUrl));
     } catch (e: any) {
       toast("Failed to save file: " + (e?.message ?? String(e)), "error");
     }
@@ -190,15 +656,41 @@ const App: React.FC = () => {
     });
     if (!ok) return;
     if (!effectivePatient) { toast("No patient selected.", "warning"); return; }
+    const file = patientData.patientFiles.find((f) => f.id === fileId);
+    let attachmentUrl = file?.attachment?.url;
     try {
-      await deletePatientFile(session.fetch, effectivePatient.podBaseUrl, fileId);
+      try {
+        await deletePatientFile(session.fetch, effectivePatient.podBaseUrl, fileId, file?.etag);
+      } catch (e) {
+        if (!(e instanceof WriteConflictError)) throw e;
+        const changed = await confirm({
+          title: "File changed",
+          message: "Someone changed this file since you loaded it. Delete it anyway?",
+          confirmLabel: "Delete",
+          variant: "danger",
+        });
+        if (!changed) return;
+        await deletePatientFile(session.fetch, effectivePatient.podBaseUrl, fileId, e.remoteEtag);
+        attachmentUrl = (e.remote as PatientFile | null)?.attachment?.url;
+      }
+      patientData.auditAccess("WRITE", patientFileUrl(effectivePatient.podBaseUrl, fileId));
       patientData.setPatientFiles((files) => files.filter((f) => f.id !== fileId));
+      // Best effort: the file is gone, so a leftover attachment is only unlinked storage
+      if (attachmentUrl) await deleteAttachment(session.fetch, attachmentUrl).catch(() => undefined);
       toast("File deleted.", "success");
     } catch (e: any) {
       toast("Failed to delete file: " + (e?.message ?? String(e)), "error");
     }
   }
 
+  /** Reads a file's attachment for preview; grantees' reads are audited like the file's. */
+  async function handleLoadAttachment(file: PatientFile): Promise<Blob> {
+    if (!effectivePatient || !file.attachment) throw new Error("This file has no attachment.");
+    const blob = await loadAttachment(session.fetch, file.attachment);
+    patientData.auditAccess("READ", patientFileUrl(effectivePatient.podBaseUrl, file.id));
+    return blob;
+  }
+
   function handleEditFile(file: PatientFile) {
     setEditingFile(file);
     setShowFileUpload(true);
@@ -217,6 +709,8 @@ const App: React.FC = () => {
   }
 
   const canEdit = role === "patient" || role === "doctor";
+  // Unknown WebIDs see the registration form instead, or nothing while the registry lookup runs
+  const showsRecord = loggedIn && role !== "governance" && role !== "unknown";
 
   // ── Render ────────────────────────────────────────────────────
   return (
@@ -226,36 +720,99 @@ const App: React.FC = () => {
         webId={webId}
         role={role}
         isGovernance={isGovernance}
-        onLogin={login}
+        onLogin={handleLogin}
         onLogout={logout}
         onBootstrapGovernance={handleBootstrapGovernance}
       />
 
-      {/* Legal notice modal – doctor only */}
-      {doctorGate.showLegalNotice && (
+      {/* Session expired mid-use: re-login keeps record edits */}
+      {loggedIn && sessionExpired && (
+        <SessionExpiredModal
+          hasUnsavedEdits={!!patientData.fullRecord && (role === "patient" || role === "doctor")}
+          onRelogin={handleRelogin}
+        />
+      )}
+
+      {/* Legal notice modal – grantee roles */}
+      {grantGate.showLegalNotice && (
         <LegalNoticeModal
-          noticeText={doctorGate.legalNoticeText}
-          onAccept={doctorGate.acceptNotice}
-          onCancel={doctorGate.cancelNotice}
+          noticeText={grantGate.legalNoticeText}
+          noticeVersion={grantGate.legalNoticeVersion}
+          grantTerms={grantGate.legalNoticeGrant}
+          previousNotice={grantGate.previousNotice}
+          onAccept={grantGate.acceptNotice}
+          onCancel={grantGate.cancelNotice}
         />
       )}
 
       <main className="container mx-auto px-4 pb-12">
         {/* ── Governance view ── */}
         {isGovernance ? (
-          <GovernanceDashboard
-            auditEvents={audit.auditEvents}
-            auditLoading={audit.auditLoading}
-            auditError={audit.auditError}
-            onRefresh={audit.refreshAudit}
-          />
+          <>
+            <GovernanceDashboard
+              auditEvents={audit.auditEvents}
+              grantStates={audit.grantStates}
+              breakGlassGrants={audit.breakGlassGrants}
+              chainReport={audit.chainReport}
+              signatureChecks={audit.signatureChecks}
+              auditLoading={audit.auditLoading}
+              auditError={audit.auditError}
+              onRefresh={audit.refreshAudit}
+              onReviewBreakGlass={handleReviewBreakGlass}
+            />
+            <TermsPanel
+              current={termsAdmin.current}
+              currentText={termsAdmin.currentText}
+              versions={termsAdmin.versions}
+              loading={termsAdmin.termsLoading}
+              error={termsAdmin.termsError}
+              onPublish={termsAdmin.publishTerms}
+            />
+            <PatientRegistrationQueue
+              pending={registrations.pending}
+              onApprove={handleApproveRegistration}
+              onReject={handleRejectRegistration}
+            />
+            <PractitionerRegistryPanel
+              practitioners={practitionerAdmin.practitioners}
+              loading={practitionerAdmin.practitionersLoading}
+              error={practitionerAdmin.practitionersError}
+              lastRevocations={practitionerAdmin.lastRevocations}
+              onAdd={practitionerAdmin.addPractitioner}
+              onRemove={practitionerAdmin.removePractitioner}
+            />
+          </>
         ) : (
           /* ── Main two-column layout ── */
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
             {/* Left column – record + files */}
             <section className="lg:col-span-2 space-y-0">
+              {!loggedIn && (
+                <IssuerPicker
+                  issuer={issuerChoice.issuer}
+                  known={issuerChoice.known}
+                  discovered={issuerChoice.discovered}
+                  discovering={issuerChoice.discovering}
+                  discoverError={issuerChoice.discoverError}
+                  onIssuerChange={issuerChoice.setIssuer}
+                  onDiscover={issuerChoice.discover}
+                  onLogin={handleLogin}
+                />
+              )}
+
+              {/* Unenrolled WebID: registration request */}
+              {needsEnrolment && webId && (
+                <PatientEnrolmentPanel
+                  webId={webId}
+                  suggestedPodUrl={enrolment.suggestedPodUrl}
+                  requested={enrolment.requested}
+                  error={enrolment.enrolmentError}
+                  onRequest={enrolment.requestEnrolment}
+                />
+              )}
+
               {/* Patient selector */}
-              {loggedIn && role !== "governance" && (
+              {showsRecord && (
                 role === "patient" ? (
                   <div className="flex items-center gap-2 mb-4 p-3 bg-teal-50 border border-teal-200 rounded-xl text-sm">
                     <span className="text-teal-600 font-medium">
@@ -263,24 +820,24 @@ const App: React.FC = () => {
                     </span>
                   </div>
                 ) : (
-                  <div className="flex items-center gap-3 mb-4">
-                    <label htmlFor="patientSelect" className="text-sm font-medium text-slate-700">
-                      Patient:
-                    </label>
-                    <select
-                      id="patientSelect"
-                      className="border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
-                      value={selectedPatient}
-                      onChange={(e) => setSelectedPatient(e.target.value as PatientKey)}
-                    >
-                      {(Object.keys(PATIENTS) as PatientKey[]).map((key) => (
-                        <option key={key} value={key}>{PATIENTS[key].label}</option>
-                      ))}
-                    </select>
-                  </div>
+                  <PatientPicker
+                    patients={patients}
+                    selected={selectedPatient}
+                    loading={patientsLoading}
+                    onSelect={setSelectedPatient}
+                    onRefresh={refreshDirectory}
+                  />
                 )
               )}
 
+              {/* Break-glass: patient is told on next login; emergency sees the active window */}
+              {role === "patient" && (
+                <BreakGlassBanner notices={breakGlassNotices.notices} onDismiss={breakGlassNotices.dismiss} />
+              )}
+              {role === "emergency" && grantGate.activeBreakGlass && (
+                <BreakGlassActiveNotice grant={grantGate.activeBreakGlass} />
+              )}
+
               {/* General error banner */}
               {patientData.fullRecordError && ![403, 404].includes(patientData.fullRecordStatus ?? 0) && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl mb-5 text-sm">
@@ -289,8 +846,10 @@ const App: React.FC = () => {
               )}
 
               {/* Full record */}
-              {loggedIn && role !== "governance" && (() => {
+              {showsRecord && (() => {
                 if (!effectivePatient) {
+                  // The picker explains an empty patient list
+                  if (patients.length === 0) return null;
                   return (
                     <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-5 text-red-700 text-sm">
                       Could not determine patient.
@@ -300,12 +859,19 @@ const App: React.FC = () => {
 
                 if (patientData.fullRecordStatus === 403) {
                   return (
-                    <div className="bg-red-50 border border-red-200 rounded-xl p-5 mb-5">
-                      <h2 className="text-sm font-semibold text-slate-800 mb-1">Full Record</h2>
-                      <p className="text-sm text-red-700">
-                        {patientData.fullRecordError ?? "You do not have access to this patient's full record."}
-                      </p>
-                    </div>
+                    <>
+                      <div className="bg-red-50 border border-red-200 rounded-xl p-5 mb-5">
+                        <h2 className="text-sm font-semibold text-slate-800 mb-1">Full Record</h2>
+                        <p className="text-sm text-red-700">
+                          {patientData.fullRecordError ?? "You do not have access to this patient's full record."}
+                        </p>
+                      </div>
+                      {role === "emergency" && !grantGate.showLegalNotice && (
+                        grantGate.breakGlassPending
+                          ? <BreakGlassPendingNotice since={grantGate.breakGlassPendingSince} />
+                          : <BreakGlassPanel onSubmit={handleBreakGlass} declined={grantGate.declinedBreakGlass} />
+                      )}
+                    </>
                   );
                 }
 
@@ -342,12 +908,20 @@ const App: React.FC = () => {
                     fullRecord={patientData.fullRecord}
                     onChange={patientData.setFullRecord}
                     onSave={handleSaveRecord}
+                    clinicianWebId={role === "doctor" ? webId ?? undefined : undefined}
+                    history={role === "pharmacy" ? undefined : {
+                      versions: recordHistory.versions,
+                      loading: recordHistory.loading,
+                      error: recordHistory.error,
+                      onRefresh: recordHistory.refresh,
+                      onRestore: handleRestoreVersion,
+                    }}
                   />
                 );
               })()}
 
               {/* Files section */}
-              {loggedIn && role !== "governance" && (
+              {showsRecord && effectivePatient && (
                 <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-5">
                   <div className="flex items-center justify-between mb-5">
                     <div className="flex items-center gap-2">
@@ -387,6 +961,7 @@ const App: React.FC = () => {
                     canEdit={canEdit}
                     onDelete={handleFileDelete}
                     onEdit={handleEditFile}
+                    onLoadAttachment={handleLoadAttachment}
                     role={role}
                   />
                 </div>
@@ -395,7 +970,7 @@ const App: React.FC = () => {
 
             {/* Right column – access control + role notes */}
             <section className="space-y-5">
-              {loggedIn && role !== "governance" && (
+              {showsRecord && (
                 <>
                   <AccessControls
                     role={role}
@@ -403,14 +978,43 @@ const App: React.FC = () => {
                     webId={webId}
                     doctorCanReadWrite={patientData.doctorCanReadWrite}
                     emergencyCanRead={patientData.emergencyCanRead}
+                    pharmacyCanRead={patientData.pharmacyCanRead}
+                    nurseCanReadWrite={patientData.nurseCanReadWrite}
                     onDoctorChange={patientData.setDoctorCanReadWrite}
                     onEmergencyChange={patientData.setEmergencyCanRead}
+                    onPharmacyChange={patientData.setPharmacyCanRead}
+                    onNurseChange={patientData.setNurseCanReadWrite}
+                    expiryDays={grantExpiryDays}
+                    liveGrants={patientData.liveGrants}
+                    onExpiryChange={(r, days) => setGrantExpiryDays((prev) => ({ ...prev, [r]: days }))}
+                    grantTerms={patientData.grantTerms}
+                    onGrantTermsChange={(r, terms) => patientData.setGrantTerms((prev) => ({ ...prev, [r]: terms }))}
+                    files={patientData.patientFiles}
+                    practitioners={practitioners}
+                    grantees={patientData.grantees}
+                    onGranteeChange={patientData.setGrantee}
                     onApply={handleApplyAccess}
                   />
+                  {role === "patient" && (
+                    <AccessHistoryPanel
+                      events={accessHistory.events}
+                      unverified={accessHistory.unverified}
+                      signatureChecks={accessHistory.signatureChecks}
+                      rejected={accessHistory.rejected}
+                      loading={accessHistory.loading}
+                      error={accessHistory.error}
+                      onRefresh={accessHistory.refresh}
+                    />
+                  )}
+                  {role === "patient" && effectivePatient && (
+                    <FhirExchangePanel onExport={handleExportFhir} onImport={handleImportFhir} />
+                  )}
                   <RoleNotes role={role} />
                 </>
               )}
 
+              {needsEnrolment && <RoleNotes role={role} />}
+
               {!loggedIn && (
                 <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-amber-800 text-sm">
                   Please log in to view or edit health records.
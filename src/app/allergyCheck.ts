@@ -0,0 +1,194 @@
+// src/app/allergyCheck.ts
+import type { Allergy, FullRecord, Medication } from "../solid/healthData";
+
+/**
+ * Offline allergy/medication cross-check run before the record is saved. Substances are
+ * matched by name against a bundled table of drug classes, so an allergy recorded as a
+ * drug ("Penicillin") or a class ("NSAIDs", "sulfa") catches the other members of the
+ * class. It is a prompt to double-check, not a clinical decision support system: brand
+ * names and combination products beyond those listed are not recognised.
+ */
+
+type SubstanceClass = {
+  /** With its article, as in "Amoxicillin is a penicillin". */
+  label: string;
+  /** Names an allergy may give for the class itself. */
+  aliases: string[];
+  members: string[];
+  /** Classes with known cross-reactivity, by key. */
+  crossReactive?: string[];
+};
+
+const SUBSTANCE_CLASSES: Record<string, SubstanceClass> = {
+  penicillins: {
+    label: "a penicillin",
+    aliases: ["penicillins", "beta-lactams", "beta lactams"],
+    members: [
+      "penicillin", "benzylpenicillin", "phenoxymethylpenicillin", "amoxicillin", "amoxycillin", "ampicillin",
+      "flucloxacillin", "cloxacillin", "dicloxacillin", "oxacillin", "nafcillin", "piperacillin", "ticarcillin",
+      "co-amoxiclav", "augmentin", "tazocin",
+    ],
+    crossReactive: ["cephalosporins", "carbapenems"],
+  },
+  cephalosporins: {
+    label: "a cephalosporin",
+    aliases: ["cephalosporins"],
+    members: [
+      "cefalexin", "cephalexin", "cefadroxil", "cefaclor", "cefuroxime", "cefazolin", "cefotaxime", "ceftriaxone",
+      "ceftazidime", "cefixime", "cefepime", "cefpodoxime",
+    ],
+    crossReactive: ["penicillins"],
+  },
+  carbapenems: {
+    label: "a carbapenem",
+    aliases: ["carbapenems"],
+    members: ["meropenem", "imipenem", "ertapenem", "doripenem"],
+    crossReactive: ["penicillins"],
+  },
+  sulfonamides: {
+    label: "a sulfonamide antibiotic",
+    aliases: ["sulfa", "sulpha", "sulfonamides", "sulphonamides", "sulfa drugs", "sulpha drugs"],
+    members: [
+      "sulfamethoxazole", "sulphamethoxazole", "co-trimoxazole", "cotrimoxazole", "bactrim", "septrin",
+      "sulfadiazine", "sulphadiazine", "sulfasalazine", "sulphasalazine",
+    ],
+  },
+  macrolides: {
+    label: "a macrolide",
+    aliases: ["macrolides"],
+    members: ["erythromycin", "clarithromycin", "azithromycin"],
+  },
+  fluoroquinolones: {
+    label: "a fluoroquinolone",
+    aliases: ["fluoroquinolones", "quinolones"],
+    members: ["ciprofloxacin", "levofloxacin", "moxifloxacin", "ofloxacin", "norfloxacin"],
+  },
+  tetracyclines: {
+    label: "a tetracycline",
+    aliases: ["tetracyclines"],
+    members: ["tetracycline", "doxycycline", "minocycline", "lymecycline", "oxytetracycline"],
+  },
+  nsaids: {
+    label: "an NSAID",
+    aliases: ["nsaid", "nsaids", "anti-inflammatories", "salicylates"],
+    members: [
+      "aspirin", "acetylsalicylic acid", "ibuprofen", "naproxen", "diclofenac", "ketoprofen", "ketorolac",
+      "indomethacin", "mefenamic acid", "piroxicam", "meloxicam", "celecoxib", "etoricoxib",
+    ],
+  },
+  opioids: {
+    label: "an opioid",
+    aliases: ["opioids", "opiates"],
+    members: [
+      "codeine", "dihydrocodeine", "morphine", "diamorphine", "oxycodone", "hydrocodone", "hydromorphone",
+      "tramadol", "tapentadol", "fentanyl", "pethidine", "meperidine", "buprenorphine", "methadone",
+    ],
+  },
+  aceInhibitors: {
+    label: "an ACE inhibitor",
+    aliases: ["ace inhibitors", "ace-inhibitors"],
+    members: ["ramipril", "lisinopril", "enalapril", "perindopril", "captopril", "quinapril"],
+  },
+  aromaticAnticonvulsants: {
+    label: "an aromatic anticonvulsant",
+    aliases: ["aromatic anticonvulsants"],
+    members: ["carbamazepine", "oxcarbazepine", "phenytoin", "phenobarbital", "lamotrigine"],
+  },
+};
+
+export type AllergyConflict = {
+  allergy: Allergy;
+  medication: Medication;
+  /** same: the same substance; class: a member of the allergy's class; cross: a cross-reactive class. */
+  kind: "same" | "class" | "cross";
+  message: string;
+};
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9-]+/g, " ").trim()} `;
+}
+
+/** Whether `term` appears in `text` as whole words. */
+function mentions(text: string, term: string): boolean {
+  const t = normalize(term);
+  return t.trim() !== "" && normalize(text).includes(t);
+}
+
+function classesOf(text: string): string[] {
+  return Object.entries(SUBSTANCE_CLASSES)
+    .filter(([, c]) => [...c.aliases, ...c.members].some((term) => mentions(text, term)))
+    .map(([key]) => key);
+}
+
+function describeAllergy(a: Allergy): string {
+  return a.severity ? `${a.substance} (${a.severity})` : a.substance;
+}
+
+function conflictBetween(allergy: Allergy, medication: Medication): AllergyConflict | null {
+  const drug = medication.name.trim();
+  const allergic = describeAllergy(allergy);
+  if (mentions(drug, allergy.substance) || mentions(allergy.substance, drug)) {
+    return { allergy, medication, kind: "same", message: `${drug} matches the allergy to ${allergic}.` };
+  }
+
+  const allergyClasses = classesOf(allergy.substance);
+  const drugClasses = classesOf(drug);
+  const shared = drugClasses.find((key) => allergyClasses.includes(key));
+  if (shared) {
+    const { label } = SUBSTANCE_CLASSES[shared];
+    return { allergy, medication, kind: "class", message: `${drug} is ${label}, and the patient is allergic to ${allergic}.` };
+  }
+
+  for (const key of allergyClasses) {
+    const cross = SUBSTANCE_CLASSES[key].crossReactive?.find((other) => drugClasses.includes(other));
+    if (cross) {
+      return {
+        allergy,
+        medication,
+        kind: "cross",
+        message: `${drug} is ${SUBSTANCE_CLASSES[cross].label}, which can cross-react with ${allergic}.`,
+      };
+    }
+  }
+  return null;
+}
+
+/** Conflicts between the allergies and the active medications, at most one per pair. */
+export function findAllergyConflicts(allergies: Allergy[], medications: Medication[]): AllergyConflict[] {
+  const out: AllergyConflict[] = [];
+  for (const medication of medications) {
+    if (medication.status !== "active" || !medication.name.trim()) continue;
+    for (const allergy of allergies) {
+      if (!allergy.substance.trim()) continue;
+      const conflict = conflictBetween(allergy, medication);
+      if (conflict) out.push(conflict);
+    }
+  }
+  return out;
+}
+
+/**
+ * Conflicts that stop the save: a severe allergy to the drug itself or its class.
+ * Cross-reactivity and milder allergies only warn.
+ */
+export function isBlockingConflict(c: AllergyConflict): boolean {
+  return c.allergy.severity === "severe" && c.kind !== "cross";
+}
+
+/**
+ * Whether the edit brought the conflict in: its allergy or medication is new, or changed
+ * in what the check looks at, compared with `before` (the record as stored). A conflict
+ * already in the stored record was saved past the check once, so it is only confirmed.
+ */
+export function isNewConflict(c: AllergyConflict, before: FullRecord | null): boolean {
+  const allergy = before?.allergies.find((a) => a.id === c.allergy.id);
+  const medication = before?.medications.find((m) => m.id === c.medication.id);
+  return (
+    !allergy ||
+    !medication ||
+    allergy.substance !== c.allergy.substance ||
+    allergy.severity !== c.allergy.severity ||
+    medication.name !== c.medication.name ||
+    medication.status !== c.medication.status
+  );
+}
@@ -1,4 +1,6 @@
 // src/app/errors.ts
+import type { AllergyConflict } from "./allergyCheck";
+
 export class LegalNoticeRequiredError extends Error {
   constructor() {
     super("LEGAL_NOTICE_REQUIRED");
@@ -11,4 +13,26 @@ export class NoActiveGrantError extends Error {
     super("NO_ACTIVE_GRANT");
     this.name = "NoActiveGrantError";
   }
-}
\ No newline at end of file
+}
+export class GrantExpiredError extends Error {
+  constructor() {
+    super("GRANT_EXPIRED");
+    this.name = "GrantExpiredError";
+  }
+}
+export class SessionExpiredError extends Error {
+  constructor() {
+    super("SESSION_EXPIRED");
+    this.name = "SessionExpiredError";
+  }
+}
+
+/** A save refused because the record lists a medication the patient is severely allergic to. */
+export class AllergyConflictError extends Error {
+  conflicts: AllergyConflict[];
+  constructor(conflicts: AllergyConflict[]) {
+    super(`Not saved: ${conflicts.map((c) => c.message).join(" ")}`);
+    this.name = "AllergyConflictError";
+    this.conflicts = conflicts;
+  }
+}
@@ -0,0 +1,70 @@
+// src/app/hooks/useAccessHistory.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import { listPatientAuditEvents, verifyAuditEventHash, verifyAuditSignatures } from "../../solid/governanceSolid";
+import type { AuditEvent } from "../../solid/governanceSolid";
+import type { SignatureCheck } from "../../solid/signing";
+import type { Role } from "./usePatientContext";
+
+/**
+ * The logged-in patient's own audit view: who was granted, read, wrote or was turned away.
+ * Events are checked like on the governance dashboard; tampered or badly signed ones are not shown.
+ * Anyone who may append to the view can also compute an event's hash, so only a valid
+ * signature attributes an event: unsigned ones are kept apart as unverified.
+ */
+export function useAccessHistory(args: {
+  loggedIn: boolean;
+  role: Role;
+  effectivePatient: { webId: string } | null;
+}) {
+  const { loggedIn, role, effectivePatient } = args;
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [unverified, setUnverified] = useState<AuditEvent[]>([]);
+  const [signatureChecks, setSignatureChecks] = useState<Record<string, SignatureCheck>>({});
+  const [rejected, setRejected] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const patientWebId = loggedIn && role === "patient" ? effectivePatient?.webId ?? null : null;
+
+  const refresh = useCallback(async () => {
+    if (!patientWebId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const listed = await listPatientAuditEvents(session.fetch, patientWebId);
+
+      // An event counts once, only in its own patient's view, and only with an intact hash
+      const seen = new Set<string>();
+      const intact: AuditEvent[] = [];
+      for (const ev of listed) {
+        if (seen.has(ev.eventId) || ev.patientWebId !== patientWebId) continue;
+        seen.add(ev.eventId);
+        if (await verifyAuditEventHash(ev)) intact.push(ev);
+      }
+
+      const checks = await verifyAuditSignatures(session.fetch, intact);
+      const status = (ev: AuditEvent) => checks[ev.eventId]?.status;
+      setEvents(intact.filter((ev) => status(ev) === "valid"));
+      setUnverified(intact.filter((ev) => status(ev) === "unsigned"));
+      setSignatureChecks(checks);
+      setRejected(seen.size - intact.filter((ev) => status(ev) !== "invalid").length);
+    } catch {
+      // 403 until governance bootstraps the patient audit views
+      setError("Your access history is not available yet.");
+    } finally {
+      setLoading(false);
+    }
+  }, [patientWebId]);
+
+  useEffect(() => {
+    setEvents([]);
+    setUnverified([]);
+    setSignatureChecks({});
+    setRejected(0);
+    setError(null);
+    refresh();
+  }, [refresh]);
+
+  return { events, unverified, signatureChecks, rejected, loading, error, refresh };
+}
@@ -0,0 +1,57 @@
+// src/app/hooks/useBreakGlassNotices.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import { listBreakGlassForPatient } from "../../solid/governanceSolid";
+import type { BreakGlassGrant } from "../../solid/governanceSolid";
+import { loadSeenBreakGlassIds, saveSeenBreakGlassIds } from "../../solid/healthData";
+import type { Role } from "./usePatientContext";
+
+/**
+ * Break-glass accesses to the logged-in patient's record that they have not
+ * dismissed yet. Shown as a banner until acknowledged.
+ */
+export function useBreakGlassNotices(args: {
+  loggedIn: boolean;
+  role: Role;
+  effectivePatient: { webId: string; podBaseUrl: string } | null;
+}) {
+  const { loggedIn, role, effectivePatient } = args;
+  const [notices, setNotices] = useState<BreakGlassGrant[]>([]);
+  const [seenIds, setSeenIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setNotices([]);
+    if (!loggedIn || role !== "patient" || !effectivePatient) return;
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const [grants, seen] = await Promise.all([
+          listBreakGlassForPatient(session.fetch, effectivePatient.webId),
+          loadSeenBreakGlassIds(session.fetch, effectivePatient.podBaseUrl),
+        ]);
+        if (cancelled) return;
+        setSeenIds(seen);
+        setNotices(grants.filter((g) => !seen.includes(g.id)));
+      } catch {
+        // governance store unreachable; try again next session
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loggedIn, role, effectivePatient?.webId, effectivePatient?.podBaseUrl]);
+
+  const dismiss = useCallback(async () => {
+    if (!effectivePatient || notices.length === 0) return;
+    const next = Array.from(new Set([...seenIds, ...notices.map((n) => n.id)]));
+    await saveSeenBreakGlassIds(session.fetch, effectivePatient.podBaseUrl, next);
+    setSeenIds(next);
+    setNotices([]);
+  }, [effectivePatient, notices, seenIds]);
+
+  return { notices, dismiss };
+}
@@ -1,11 +1,39 @@
 // src/app/hooks/useGovernanceAudit.ts
 import { useCallback, useEffect, useState } from "react";
 import { session } from "../../solid/session";
-import { listAuditEvents } from "../../solid/governanceSolid";
-import type { AuditEvent } from "../../solid/governanceSolid";
+import {
+  getAuditHead,
+  listAuditEvents,
+  listBreakGlassRecords,
+  listGrantStates,
+  processBreakGlassRequests,
+  verifyAuditChain,
+  verifyAuditSignatures,
+} from "../../solid/governanceSolid";
+import type {
+  AuditChainReport,
+  AuditEvent,
+  BreakGlassRecord,
+  GrantState,
+} from "../../solid/governanceSolid";
+import type { SignatureCheck } from "../../solid/signing";
+
+/** Events shown in the table; the chain is always verified over the whole log. */
+const DISPLAY_LIMIT = 300;
+
+/**
+ * How often an open dashboard issues break-glass requests and closes lapsed grants. This
+ * poll is the governance service: with no dashboard open, requests wait (see
+ * processBreakGlassRequests).
+ */
+const BREAK_GLASS_POLL_MS = 10_000;
 
 export function useGovernanceAudit(enabled: boolean) {
   const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [grantStates, setGrantStates] = useState<GrantState[]>([]);
+  const [breakGlassGrants, setBreakGlassGrants] = useState<BreakGlassRecord[]>([]);
+  const [chainReport, setChainReport] = useState<AuditChainReport | null>(null);
+  const [signatureChecks, setSignatureChecks] = useState<Record<string, SignatureCheck>>({});
   const [auditLoading, setAuditLoading] = useState(false);
   const [auditError, setAuditError] = useState<string | null>(null);
 
@@ -13,8 +41,19 @@ export function useGovernanceAudit(enabled: boolean) {
     try {
       setAuditLoading(true);
       setAuditError(null);
-      const events = await listAuditEvents(session.fetch, { limit: 300 });
-      setAuditEvents(events);
+      await processBreakGlassRequests(session.fetch).catch(() => 0);
+      const [events, head, states, breakGlass] = await Promise.all([
+        listAuditEvents(session.fetch, { limit: Number.POSITIVE_INFINITY }),
+        getAuditHead(session.fetch),
+        listGrantStates(session.fetch),
+        listBreakGlassRecords(session.fetch),
+      ]);
+      const shown = events.slice(0, DISPLAY_LIMIT);
+      setAuditEvents(shown);
+      setChainReport(await verifyAuditChain(events, head));
+      setSignatureChecks(await verifyAuditSignatures(session.fetch, shown));
+      setGrantStates(states);
+      setBreakGlassGrants(breakGlass);
     } catch (e: any) {
       setAuditError(e?.message || String(e));
     } finally {
@@ -27,5 +66,29 @@ export function useGovernanceAudit(enabled: boolean) {
     refreshAudit();
   }, [enabled, refreshAudit]);
 
-  return { auditEvents, auditLoading, auditError, refreshAudit };
+  // Break-glass is issued by governance, so an emergency clinician waits on an open dashboard;
+  // BreakGlassPendingNotice tells them
+  useEffect(() => {
+    if (!enabled) return;
+    const id = window.setInterval(async () => {
+      try {
+        if ((await processBreakGlassRequests(session.fetch)) > 0) await refreshAudit();
+        else setBreakGlassGrants(await listBreakGlassRecords(session.fetch));
+      } catch {
+        // governance store unreachable; the next poll retries
+      }
+    }, BREAK_GLASS_POLL_MS);
+    return () => window.clearInterval(id);
+  }, [enabled, refreshAudit]);
+
+  return {
+    auditEvents,
+    grantStates,
+    breakGlassGrants,
+    chainReport,
+    signatureChecks,
+    auditLoading,
+    auditError,
+    refreshAudit,
+  };
 }
\ No newline at end of file
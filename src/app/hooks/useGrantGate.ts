@@ -0,0 +1,196 @@
+// src/app/hooks/useGrantGate.ts
+import { useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import {
+  acknowledgeGrant,
+  breakGlass,
+  getBreakGlassStatus,
+  getActiveGrantState,
+  getCurrentTerms,
+  getGranteeAck,
+  getTermsManifest,
+  getTermsText,
+  grantTermsOf,
+  isGrantExpired,
+  isGrantLive,
+  DEFAULT_GRANT_SCOPE,
+} from "../../solid/governanceSolid";
+import type {
+  BreakGlassGrant,
+  BreakGlassRecord,
+  GranteeRole,
+  GrantScope,
+  GrantState,
+  GrantTerms,
+  TermsVersion,
+} from "../../solid/governanceSolid";
+import { GrantExpiredError, LegalNoticeRequiredError, NoActiveGrantError } from "../errors";
+
+/**
+ * Every grantee role must hold an active governance grant and have acknowledged
+ * the current terms of use on it before patient data is read; publishing new
+ * terms asks again, showing what changed since the accepted version. The
+ * emergency role may instead hold a live break-glass grant, issued by governance
+ * without patient consent.
+ */
+
+/** How often a clinician waiting on a break-glass request checks for governance's decision. */
+const BREAK_GLASS_PENDING_POLL_MS = 5_000;
+
+export function useGrantGate(grantee: { webId?: string; role: GranteeRole | null }) {
+  const [showLegalNotice, setShowLegalNotice] = useState(false);
+  const [legalNoticeText, setLegalNoticeText] = useState("");
+  const [legalNoticeVersion, setLegalNoticeVersion] = useState<string | null>(null);
+  const [previousNotice, setPreviousNotice] = useState<{ version: string; text: string } | null>(null);
+  const [pendingGrant, setPendingGrant] = useState<GrantState | null>(null);
+  const [pendingTerms, setPendingTerms] = useState<TermsVersion | null>(null);
+  const [noticeAcceptedTick, setNoticeAcceptedTick] = useState(0);
+  const [activeBreakGlass, setActiveBreakGlass] = useState<BreakGlassGrant | null>(null);
+  // The record a break-glass request awaits governance on, and the last declined request
+  const [pendingBreakGlass, setPendingBreakGlass] = useState<
+    { patientWebId: string; scopeUrl: string; requestedAt: string } | null
+  >(null);
+  const [declinedBreakGlass, setDeclinedBreakGlass] = useState<BreakGlassRecord | null>(null);
+
+  useEffect(() => {
+    const granteeWebId = grantee.webId;
+    if (!pendingBreakGlass || !granteeWebId) return;
+
+    const id = window.setInterval(async () => {
+      try {
+        const { patientWebId, scopeUrl } = pendingBreakGlass;
+        const status = await getBreakGlassStatus(session.fetch, { patientWebId, scopeUrl, granteeWebId });
+        if (status.pending) return;
+        // Decided: reload through the gate, which picks up the grant or the decline
+        setPendingBreakGlass(null);
+        setNoticeAcceptedTick((n) => n + 1);
+      } catch {
+        // governance store unreachable; the next poll retries
+      }
+    }, BREAK_GLASS_PENDING_POLL_MS);
+    return () => window.clearInterval(id);
+  }, [pendingBreakGlass, grantee.webId]);
+
+  /** Resolves to what the grantee may read; break-glass covers the default scope. */
+  async function gateOrThrow(patientWebId: string, scopeUrl: string): Promise<GrantScope> {
+    const granteeWebId = grantee.webId;
+    if (!granteeWebId || !grantee.role) throw new NoActiveGrantError();
+
+    const st = await getActiveGrantState(session.fetch, {
+      patientWebId,
+      granteeWebId,
+      scopeUrl,
+    });
+
+    setActiveBreakGlass(null);
+    setDeclinedBreakGlass(null);
+    if (grantee.role === "emergency" && !(st && isGrantLive(st))) {
+      const bg = await getBreakGlassStatus(session.fetch, { patientWebId, granteeWebId, scopeUrl });
+      setPendingBreakGlass(bg.pendingSince ? { patientWebId, scopeUrl, requestedAt: bg.pendingSince } : null);
+      setDeclinedBreakGlass(bg.declined);
+      if (bg.active) {
+        setActiveBreakGlass(bg.active);
+        return DEFAULT_GRANT_SCOPE;
+      }
+    }
+
+    if (st && isGrantExpired(st)) {
+      throw new GrantExpiredError();
+    }
+    if (!st || st.status !== "active" || !st.activeGrantUrl) {
+      throw new NoActiveGrantError();
+    }
+
+    const [ack, terms] = await Promise.all([
+      getGranteeAck(session.fetch, st.activeGrantUrl, granteeWebId),
+      getCurrentTerms(session.fetch),
+    ]);
+    if (ack && ack.termsHash === terms.hash) return grantTermsOf(st).scope;
+
+    const termsText = await getTermsText(session.fetch, terms).catch(() => "Terms could not be loaded.");
+
+    // Re-acknowledgement: show what changed since the accepted version
+    let previous: { version: string; text: string } | null = null;
+    if (ack) {
+      const manifest = await getTermsManifest(session.fetch).catch(() => null);
+      const accepted = manifest?.versions.find((v) => v.hash === ack.termsHash);
+      const acceptedText = accepted ? await getTermsText(session.fetch, accepted).catch(() => null) : null;
+      if (accepted && acceptedText !== null) previous = { version: accepted.version, text: acceptedText };
+    }
+
+    setPendingGrant(st);
+    setPendingTerms(terms);
+    setLegalNoticeText(termsText);
+    setLegalNoticeVersion(terms.version);
+    setPreviousNotice(previous);
+    setShowLegalNotice(true);
+
+    throw new LegalNoticeRequiredError();
+  }
+
+  async function acceptNotice() {
+    if (!pendingGrant?.activeGrantUrl || !pendingTerms) return;
+
+    await acknowledgeGrant(session.fetch, {
+      grantUrl: pendingGrant.activeGrantUrl,
+      granteeWebId: pendingGrant.granteeWebId,
+      granteeRole: pendingGrant.granteeRole,
+      patientWebId: pendingGrant.patientWebId,
+      scopeUrl: pendingGrant.scopeUrl,
+      termsVersion: pendingTerms.version,
+      termsHash: pendingTerms.hash,
+    });
+
+    setShowLegalNotice(false);
+    setPendingGrant(null);
+    setPendingTerms(null);
+    setNoticeAcceptedTick((n) => n + 1);
+  }
+
+  async function requestBreakGlass(patientWebId: string, scopeUrl: string, justification: string) {
+    if (!grantee.webId || grantee.role !== "emergency") return;
+
+    await breakGlass(session.fetch, {
+      patientWebId,
+      granteeWebId: grantee.webId,
+      scopeUrl,
+      justification,
+    });
+
+    // Governance issues it; patient data reloads through the gate once it has decided
+    setDeclinedBreakGlass(null);
+    setPendingBreakGlass({ patientWebId, scopeUrl, requestedAt: new Date().toISOString() });
+  }
+
+  function cancelNotice() {
+    setShowLegalNotice(false);
+    setPendingGrant(null);
+    setPendingTerms(null);
+  }
+
+  function clearGateUi() {
+    setShowLegalNotice(false);
+    setPendingGrant(null);
+    setPendingTerms(null);
+  }
+
+  const legalNoticeGrant: GrantTerms | null = pendingGrant ? grantTermsOf(pendingGrant) : null;
+
+  return {
+    showLegalNotice,
+    legalNoticeText,
+    legalNoticeGrant,
+    legalNoticeVersion,
+    previousNotice,
+    noticeAcceptedTick,
+    activeBreakGlass,
+    breakGlassPending: pendingBreakGlass !== null,
+    breakGlassPendingSince: pendingBreakGlass?.requestedAt ?? null,
+    declinedBreakGlass,
+    gateOrThrow,
+    requestBreakGlass,
+    acceptNotice,
+    cancelNotice,
+    clearGateUi,
+  };
+}
\ No newline at end of file
@@ -1,33 +1,39 @@
-// src/app/hooks/useDoctorRevocationPolling.ts
+// src/app/hooks/useGrantRevocationPolling.ts
 import { useEffect } from "react";
 import { session } from "../../solid/session";
-import { getActiveGrantState } from "../../solid/governanceSolid";
-import { DOCTOR_WEBID } from "../../solid/config";
+import {
+  getBreakGlassStatus,
+  getActiveGrantState,
+  isGranteeRole,
+  isGrantExpired,
+  isGrantLive,
+} from "../../solid/governanceSolid";
 import type { Role } from "./usePatientContext";
 
 /** How often to check for revocation. 15 s is frequent enough for a responsive
  *  UX while keeping server traffic low (was 2.5 s → ~24 req/min per patient). */
 const POLL_INTERVAL_MS = 15_000;
 
-export function useDoctorRevocationPolling(args: {
+export function useGrantRevocationPolling(args: {
   loggedIn: boolean;
   role: Role;
+  webId?: string;
   effectivePatient: { webId: string } | null;
   patientHealthContainerUrl: string | null;
-  /** Only poll when the doctor actually has data loaded — no point checking
+  /** Only poll when the grantee actually has data loaded — no point checking
    *  revocation when access was never confirmed in this session. */
   hasActiveData: boolean;
-  onRevoked: () => void;
+  onRevoked: (reason: "revoked" | "expired") => void;
 }) {
   const {
-    loggedIn, role, effectivePatient,
+    loggedIn, role, webId, effectivePatient,
     patientHealthContainerUrl, hasActiveData, onRevoked,
   } = args;
 
   useEffect(() => {
-    if (!loggedIn || role !== "doctor") return;
+    if (!loggedIn || !isGranteeRole(role) || !webId) return;
     if (!effectivePatient || !patientHealthContainerUrl) return;
-    if (!hasActiveData) return;   // skip until the doctor has confirmed access
+    if (!hasActiveData) return;   // skip until the grantee has confirmed access
 
     let stopped = false;
 
@@ -35,11 +41,24 @@ export function useDoctorRevocationPolling(args: {
       try {
         const st = await getActiveGrantState(session.fetch, {
           patientWebId: effectivePatient.webId,
-          doctorWebId:  DOCTOR_WEBID,
+          granteeWebId: webId,
           scopeUrl:     patientHealthContainerUrl,
         });
 
-        if ((!st || st.status !== "active") && !stopped) onRevoked();
+        if (st && isGrantLive(st)) return;
+
+        // Emergency may be reading under break-glass instead of a patient grant
+        if (role === "emergency") {
+          const bg = await getBreakGlassStatus(session.fetch, {
+            patientWebId: effectivePatient.webId,
+            granteeWebId: webId,
+            scopeUrl:     patientHealthContainerUrl,
+          });
+          if (bg.active) return;
+        }
+
+        if (stopped) return;
+        onRevoked(st && isGrantExpired(st) ? "expired" : "revoked");
       } catch {
         // ignore transient polling errors
       }
@@ -53,7 +72,7 @@ export function useDoctorRevocationPolling(args: {
       window.clearInterval(id);
     };
   }, [
-    loggedIn, role,
+    loggedIn, role, webId,
     effectivePatient?.webId, patientHealthContainerUrl,
     hasActiveData, onRevoked,
   ]);
@@ -0,0 +1,39 @@
+// src/app/hooks/useIssuerChoice.ts
+import { useCallback, useMemo, useState } from "react";
+import { discoverOidcIssuers, getLastIssuer, knownIssuers, parseIssuer } from "../../solid/issuers";
+
+/** Logged out: the provider to log in at, starting from the last one used. */
+export function useIssuerChoice() {
+  const [issuer, setIssuer] = useState<string>(getLastIssuer);
+  const [discovered, setDiscovered] = useState<string[]>([]);
+  const [discovering, setDiscovering] = useState(false);
+  const [discoverError, setDiscoverError] = useState<string | null>(null);
+
+  const known = useMemo(() => knownIssuers(), []);
+
+  /** Looks up the providers a WebID's profile names and selects the first. */
+  const discover = useCallback(async (webId: string) => {
+    setDiscoverError(null);
+    if (!URL.canParse(webId.trim())) {
+      setDiscoverError("Please enter a full WebID URL.");
+      return;
+    }
+    setDiscovering(true);
+    try {
+      const found = await discoverOidcIssuers(webId.trim());
+      if (!found.length) throw new Error("That profile does not name a Solid provider.");
+      setDiscovered(found);
+      setIssuer(found[0]);
+    } catch (e) {
+      setDiscovered([]);
+      setDiscoverError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDiscovering(false);
+    }
+  }, []);
+
+  /** The chosen issuer as written; throws with a readable message for bad free text. */
+  const resolvedIssuer = useCallback(() => parseIssuer(issuer), [issuer]);
+
+  return { issuer, setIssuer, known, discovered, discovering, discoverError, discover, resolvedIssuer };
+}
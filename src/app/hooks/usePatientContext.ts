@@ -1,13 +1,14 @@
 // src/app/hooks/usePatientContext.ts
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { session } from "../../solid/session";
+import { GOVERNANCE_WEBID } from "../../solid/config";
 import {
-  PATIENTS,
-  DOCTOR_WEBID,
-  EMERGENCY_WEBID,
-  PHARMACY_WEBID,
-  NURSE_WEBID,
-  GOVERNANCE_WEBID,
-} from "../../solid/config";
+  findDirectoryPatient,
+  findPractitioner,
+  listGranteePatients,
+  listPractitioners,
+} from "../../solid/governanceSolid";
+import type { DirectoryPatient, GranteePatient, Practitioner } from "../../solid/governanceSolid";
 
 export type Role =
   | "patient"
@@ -18,54 +19,81 @@ export type Role =
   | "governance"
   | "unknown";
 
-export type PatientKey = keyof typeof PATIENTS;
-
-function detectRole(id?: string): Role {
-  if (!id) return "unknown";
-  if (id === GOVERNANCE_WEBID) return "governance";
-
-  const patientKeys = Object.keys(PATIENTS) as PatientKey[];
-  if (patientKeys.some((key) => PATIENTS[key].webId === id)) return "patient";
-
-  if (id === DOCTOR_WEBID) return "doctor";
-  if (id === EMERGENCY_WEBID) return "emergency";
-  if (id === PHARMACY_WEBID) return "pharmacy";
-  if (id === NURSE_WEBID) return "nurse";
-
-  return "unknown";
-}
-
-function getEffectivePatientKey(
-  role: Role,
-  webId: string | undefined,
-  selected: PatientKey,
-): PatientKey | null {
-  if (role === "patient") {
-    if (!webId) return null;
-    const keys = Object.keys(PATIENTS) as PatientKey[];
-    return keys.find((k) => PATIENTS[k].webId === webId) ?? null;
-  }
-
-  // Governance must never resolve a patient
-  if (role === "governance") return null;
-
-  return selected;
-}
-
+/**
+ * Resolves the signed-in WebID at login: governance by its fixed WebID, clinicians from
+ * the practitioner registry, patients from the patient registry; anyone else is "unknown"
+ * and may register as a patient.
+ */
 export function usePatientContext(loggedIn: boolean, webId?: string) {
-  const role = useMemo(() => detectRole(webId), [webId]);
-
-  const [selectedPatient, setSelectedPatient] = useState<PatientKey>("patient1");
-
-  const effectivePatientKey = useMemo(() => {
+  const [practitioners, setPractitioners] = useState<Practitioner[]>([]);
+  // Patient: own registry entry; resolvedFor marks which WebID the lookups finished for
+  const [ownEntry, setOwnEntry] = useState<DirectoryPatient | null>(null);
+  const [resolvedFor, setResolvedFor] = useState<string | null>(null);
+
+  // Clinician: patients offered in the picker
+  const [patients, setPatients] = useState<GranteePatient[]>([]);
+  const [patientsLoading, setPatientsLoading] = useState(false);
+  const [selectedPatient, setSelectedPatient] = useState<string>("");
+
+  const isGovernanceWebId = !!webId && webId === GOVERNANCE_WEBID;
+  const practitioner = useMemo(() => findPractitioner(practitioners, webId), [practitioners, webId]);
+  const resolved = resolvedFor === webId;
+
+  let role: Role = "unknown";
+  if (isGovernanceWebId) role = "governance";
+  else if (resolved && practitioner) role = practitioner.role;
+  else if (resolved && ownEntry) role = "patient";
+
+  const refreshDirectory = useCallback(async () => {
+    if (!loggedIn || !webId || isGovernanceWebId) return;
+
+    let registry: Practitioner[] = [];
+    try {
+      registry = await listPractitioners(session.fetch);
+    } catch {
+      // registry unreadable: nobody resolves as a practitioner
+    }
+    setPractitioners(registry);
+
+    const self = findPractitioner(registry, webId);
+    if (!self) {
+      try {
+        setOwnEntry(await findDirectoryPatient(session.fetch, webId));
+      } catch {
+        setOwnEntry(null);
+      } finally {
+        setResolvedFor(webId);
+      }
+      return;
+    }
+
+    setResolvedFor(webId);
+    try {
+      setPatientsLoading(true);
+      const listed = await listGranteePatients(session.fetch, { granteeWebId: webId, granteeRole: self.role });
+      setPatients(listed);
+      setSelectedPatient((cur) => (listed.some((p) => p.id === cur) ? cur : listed[0]?.id ?? ""));
+    } catch {
+      setPatients([]);
+    } finally {
+      setPatientsLoading(false);
+    }
+  }, [loggedIn, webId, isGovernanceWebId]);
+
+  useEffect(() => {
+    setOwnEntry(null);
+    setResolvedFor(null);
+    setPatients([]);
+    refreshDirectory();
+  }, [refreshDirectory]);
+
+  const effectivePatient = useMemo<DirectoryPatient | null>(() => {
     if (!loggedIn) return null;
-    return getEffectivePatientKey(role, webId, selectedPatient);
-  }, [loggedIn, role, webId, selectedPatient]);
-
-  const effectivePatient = useMemo(() => {
-    if (!effectivePatientKey) return null;
-    return PATIENTS[effectivePatientKey];
-  }, [effectivePatientKey]);
+    if (role === "patient") return ownEntry;
+    // Governance must never resolve a patient
+    if (role === "governance") return null;
+    return patients.find((p) => p.id === selectedPatient) ?? null;
+  }, [loggedIn, role, ownEntry, patients, selectedPatient]);
 
   const patientHealthContainerUrl = useMemo(() => {
     if (!effectivePatient) return null;
@@ -74,13 +102,21 @@ export function usePatientContext(loggedIn: boolean, webId?: string) {
 
   const isGovernance = loggedIn && role === "governance";
 
+  // Signed in, in neither registry, and not governance
+  const needsEnrolment = loggedIn && !!webId && resolved && role === "unknown";
+
   return {
     role,
+    practitioner,
+    practitioners,
+    patients,
+    patientsLoading,
     selectedPatient,
     setSelectedPatient,
-    effectivePatientKey,
     effectivePatient,
     patientHealthContainerUrl,
     isGovernance,
+    needsEnrolment,
+    refreshDirectory,
   };
-}
\ No newline at end of file
+}
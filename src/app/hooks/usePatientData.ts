@@ -1,42 +1,121 @@
 // src/app/hooks/usePatientData.ts
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import type { FullRecord, PatientFile } from "../../solid/healthData";
 import {
   emptyFullRecord,
+  fullRecordFromResponse,
+  fullRecordUrl,
+  legacyFullRecordUrl,
   saveFullRecord,
-  loadPatientFiles,
+  loadPatientFilesWithBlocked,
+  loadPharmacyMedications,
+  migrateJsonHealthData,
+  removeMigratedJson,
+  patientFileUrl,
+  pharmacyMedicationsUrl,
+  syncPharmacyMedications,
 } from "../../solid/healthData";
-import { session } from "../../solid/session";
-import { readAccessForFullRecord } from "../../solid/acp";
+import { isLoggedIn, session } from "../../solid/session";
+import {
+  applyAccessForFullRecord,
+  applyAcpForPatientFile,
+  breakGlassAcrsStale,
+  pharmacyAcrsStale,
+  readAccessForFullRecord,
+  ROLE_ACCESS_FLAG,
+  scopeCoversFullRecord,
+} from "../../solid/acp";
+import type { RoleGrantees } from "../../solid/acp";
+import {
+  clearPodSyncPending,
+  expireLapsedGrants,
+  getLiveGrants,
+  getLiveGrantScopes,
+  grantTermsOf,
+  listPodSyncPending,
+  isGranteeRole,
+  logDataAccess,
+  practitionersFor,
+  DEFAULT_GRANT_SCOPE,
+  GRANTEE_ROLES,
+} from "../../solid/governanceSolid";
+import type {
+  DataAccessType,
+  GranteeRole,
+  GrantScope,
+  GrantState,
+  GrantTerms,
+  Practitioner,
+  ReadBlockedReason,
+} from "../../solid/governanceSolid";
 import type { Role } from "./usePatientContext";
-import { LegalNoticeRequiredError, NoActiveGrantError } from "../errors";
+import { GrantExpiredError, LegalNoticeRequiredError, NoActiveGrantError, SessionExpiredError } from "../errors";
+import { takeRecordDraft } from "../recordDraft";
 
-type LoadResult = { data: FullRecord | null; status: number };
+type LoadResult = { data: FullRecord | null; status: number; etag: string | null };
+
+/** What a new grant defaults to in the access panel. */
+function defaultGrantTerms(): Record<GranteeRole, GrantTerms> {
+  return {
+    doctor: { purpose: "treatment", scope: DEFAULT_GRANT_SCOPE },
+    emergency: { purpose: "emergency", scope: DEFAULT_GRANT_SCOPE },
+    nurse: { purpose: "treatment", scope: DEFAULT_GRANT_SCOPE },
+    pharmacy: { purpose: "treatment", scope: DEFAULT_GRANT_SCOPE },
+  };
+}
+
+/** Until the patient picks someone, each role's grant goes to its first registered practitioner. */
+function defaultGrantees(practitioners: Practitioner[]): RoleGrantees {
+  const grantees: RoleGrantees = {};
+  for (const role of GRANTEE_ROLES) {
+    const first = practitionersFor(practitioners, role)[0];
+    if (first) grantees[role] = first.webId;
+  }
+  return grantees;
+}
+
+function blockedReasonFor(err: unknown): ReadBlockedReason | null {
+  if (err instanceof LegalNoticeRequiredError) return "notice-required";
+  if (err instanceof GrantExpiredError) return "expired";
+  if (err instanceof NoActiveGrantError) return "no-grant";
+  return null;
+}
 
 async function safeLoadFullRecord(
   fetchFn: typeof fetch,
   podBaseUrl: string,
   allowCreateIfMissing: boolean,
 ): Promise<LoadResult> {
-  const url = `${podBaseUrl}health/full-record.json`;
+  const url = fullRecordUrl(podBaseUrl);
 
   const res = await fetchFn(url, {
     method: "GET",
-    headers: { Accept: "application/json" },
+    headers: { Accept: "text/turtle" },
     cache: "no-store",
   });
 
-  if (res.status === 403) return { data: null, status: 403 };
+  if (res.status === 401 && !isLoggedIn()) throw new SessionExpiredError();
+  // A live session refused with 401 is as blocked as a 403
+  if (res.status === 401 || res.status === 403) return { data: null, status: 403, etag: null };
 
   if (res.status === 404) {
-    if (!allowCreateIfMissing) return { data: null, status: 404 };
+    if (!allowCreateIfMissing) return { data: null, status: 404, etag: null };
     const empty = emptyFullRecord();
-    await saveFullRecord(fetchFn, podBaseUrl, empty);
-    return { data: empty, status: 200 };
+    const etag = await saveFullRecord(fetchFn, podBaseUrl, empty, null);
+    return { data: empty, status: 200, etag };
   }
 
   if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
-  return { data: (await res.json()) as FullRecord, status: res.status };
+  const etag = res.headers.get("ETag");
+  return { data: await fullRecordFromResponse(res, url), status: res.status, etag };
+}
+
+/** A pharmacy is shown the medications shared with it, as a record holding nothing else. */
+async function safeLoadPharmacyRecord(fetchFn: typeof fetch, podBaseUrl: string): Promise<LoadResult> {
+  const { data, status } = await loadPharmacyMedications(fetchFn, podBaseUrl);
+  if (status === 401 && !isLoggedIn()) throw new SessionExpiredError();
+  if (status === 401 || status === 403) return { data: null, status: 403, etag: null };
+  return { data: data && { ...emptyFullRecord(), medications: data }, status, etag: null };
 }
 
 export function usePatientData(args: {
@@ -45,22 +124,37 @@ export function usePatientData(args: {
   webId?: string;
   effectivePatient: { webId: string; podBaseUrl: string; label: string } | null;
   patientHealthContainerUrl: string | null;
+  /** The practitioner registry; grants and ACRs name practitioners from it. */
+  practitioners: Practitioner[];
   noticeAcceptedTick: number;
-  doctorGate?: (patientWebId: string, scopeUrl: string) => Promise<void>;
+  /** Nothing is (re)loaded while the session is expired, so unsaved edits stay on screen. */
+  sessionExpired?: boolean;
+  /**
+   * Required for grantee roles: throws unless there is an active, acknowledged grant,
+   * and otherwise resolves to what that grant covers.
+   */
+  grantGate?: (patientWebId: string, scopeUrl: string) => Promise<GrantScope>;
 }) {
   const {
     loggedIn,
     role,
+    webId,
     effectivePatient,
     patientHealthContainerUrl,
+    practitioners,
     noticeAcceptedTick,
-    doctorGate,
+    sessionExpired = false,
+    grantGate,
   } = args;
 
   // Full record UI state
   const [fullRecord, setFullRecord] = useState<FullRecord | null>(null);
   const [fullRecordStatus, setFullRecordStatus] = useState<number | null>(null);
   const [fullRecordError, setFullRecordError] = useState<string | null>(null);
+  // Version the on-screen record was loaded at; saves are conditional on it
+  const [fullRecordEtag, setFullRecordEtag] = useState<string | null>(null);
+  // Set when edits stashed before a re-login were put back over the loaded record
+  const [draftRestored, setDraftRestored] = useState(false);
 
   // Files UI state
   const [patientFiles, setPatientFiles] = useState<PatientFile[]>([]);
@@ -70,18 +164,65 @@ export function usePatientData(args: {
   // ACP toggles (patient controls these)
   const [doctorCanReadWrite, setDoctorCanReadWrite] = useState(false);
   const [emergencyCanRead, setEmergencyCanRead] = useState(false);
+  const [pharmacyCanRead, setPharmacyCanRead] = useState(false);
+  const [nurseCanReadWrite, setNurseCanReadWrite] = useState(false);
+
+  // Purpose and scope per role, synced from the patient's live grants
+  const [grantTerms, setGrantTerms] = useState<Record<GranteeRole, GrantTerms>>(defaultGrantTerms);
+
+  // The patient's live grants by role, so applying access can keep what did not change
+  const [liveGrants, setLiveGrants] = useState<Partial<Record<GranteeRole, GrantState>>>({});
+
+  // Practitioner named by each role's grant: the pod's and live grants' choice, else the default
+  const [chosenGrantees, setChosenGrantees] = useState<RoleGrantees>({});
+  const grantees = useMemo(
+    () => ({ ...defaultGrantees(practitioners), ...chosenGrantees }),
+    [practitioners, chosenGrantees],
+  );
+  const setGrantee = useCallback((role: GranteeRole, webId: string) => {
+    setChosenGrantees((prev) => ({ ...prev, [role]: webId }));
+  }, []);
+
+  // Grants that lapsed since the patient's last session (their ACR entries were just removed)
+  const [expiredRoles, setExpiredRoles] = useState<GranteeRole[]>([]);
+
+  /**
+   * Grantee accesses go to the governance audit log ("Access is logged" in the
+   * terms). The patient's own reads and writes are not logged. Never throws.
+   */
+  const auditAccess = useCallback(
+    (type: DataAccessType, resourceUrl: string, blockedReason?: ReadBlockedReason) => {
+      if (!isGranteeRole(role) || !webId || !effectivePatient || !patientHealthContainerUrl) return;
+      logDataAccess(session.fetch, {
+        type,
+        actorWebId: webId,
+        actorRole: role,
+        patientWebId: effectivePatient.webId,
+        scopeUrl: patientHealthContainerUrl,
+        resourceUrl,
+        blockedReason,
+      }).catch(() => {
+        // governance store unreachable; the access itself already happened
+      });
+    },
+    [role, webId, effectivePatient, patientHealthContainerUrl],
+  );
 
   function resetPatientUi() {
     setFullRecord(null);
+    setFullRecordEtag(null);
     setFullRecordStatus(null);
     setFullRecordError(null);
 
     setPatientFiles([]);
     setFilesLoading(false);
     setFilesError(null);
+    setLiveGrants({});
   }
 
   useEffect(() => {
+    if (sessionExpired) return;
+
     // Governance hard stop: never fetch patient data
     if (role === "governance") {
       resetPatientUi();
@@ -96,24 +237,85 @@ export function usePatientData(args: {
 
     (async () => {
       try {
-        // Gate ONCE for doctor, then load everything
-        if (role === "doctor" && doctorGate) {
-          await doctorGate(effectivePatient.webId, patientHealthContainerUrl);
+        // Gate ONCE for any grantee role, then load everything the grant covers
+        let scope: GrantScope = DEFAULT_GRANT_SCOPE;
+        if (isGranteeRole(role)) {
+          if (!grantGate) throw new NoActiveGrantError();
+          scope = await grantGate(effectivePatient.webId, patientHealthContainerUrl);
+        }
+
+        // Patient: convert JSON data from earlier versions to Turtle before anything is read
+        if (role === "patient") {
+          const migration = await migrateJsonHealthData(session.fetch, effectivePatient.podBaseUrl);
+          if (migration.legacyUrls.length > 0) {
+            // Grants are read from the JSON record's ACR, which goes with the JSON
+            const [granted, scopes] = await Promise.all([
+              readAccessForFullRecord(
+                session.fetch,
+                patientHealthContainerUrl,
+                practitioners,
+                migration.record ? legacyFullRecordUrl(effectivePatient.podBaseUrl) : undefined,
+              ),
+              getLiveGrantScopes(session.fetch, {
+                patientWebId: effectivePatient.webId,
+                scopeUrl: patientHealthContainerUrl,
+              }),
+            ]);
+            const accessOptions = {
+              resourceUrl: patientHealthContainerUrl,
+              patientWebId: effectivePatient.webId,
+              ...granted,
+              scopes,
+              restrictToClientAndIssuer: true,
+            };
+            // Also writes health/files/, so migrated files never fall back to what it passes down
+            await applyAccessForFullRecord(session.fetch, accessOptions);
+            for (const file of migration.files) {
+              await applyAcpForPatientFile(session.fetch, {
+                ...accessOptions,
+                resourceUrl: patientFileUrl(effectivePatient.podBaseUrl, file.id),
+                sharing: file,
+              });
+            }
+            await removeMigratedJson(session.fetch, migration.legacyUrls);
+          }
         }
 
-        // Full record
+        // Full record (not requested at all when the grant covers files only)
         const allowCreateIfMissing = role === "patient";
-        const { data, status } = await safeLoadFullRecord(
-          session.fetch,
-          effectivePatient.podBaseUrl,
-          allowCreateIfMissing,
-        );
+        const recordInScope = scopeCoversFullRecord(scope);
+        const recordDocUrl = role === "pharmacy"
+          ? pharmacyMedicationsUrl(effectivePatient.podBaseUrl)
+          : fullRecordUrl(effectivePatient.podBaseUrl);
+        const { data, status, etag } = !recordInScope
+          ? { data: null, status: 403, etag: null }
+          : role === "pharmacy"
+            ? await safeLoadPharmacyRecord(session.fetch, effectivePatient.podBaseUrl)
+            : await safeLoadFullRecord(session.fetch, effectivePatient.podBaseUrl, allowCreateIfMissing);
+
+        if (status === 200) auditAccess("READ", recordDocUrl);
+        if (status === 403 && recordInScope) auditAccess("READ_BLOCKED", recordDocUrl, "forbidden");
+
+        // Patient: bring the pharmacy's copy of the shared medications up to date
+        if (role === "patient" && data && status === 200) {
+          try {
+            await syncPharmacyMedications(session.fetch, effectivePatient.podBaseUrl, data);
+          } catch {
+            // retried on the next save or session
+          }
+        }
 
         if (!cancelled) {
-          setFullRecord(data);
+          const draft = data && webId ? takeRecordDraft(webId, fullRecordUrl(effectivePatient.podBaseUrl)) : null;
+          const restore = !!draft && JSON.stringify(draft.record) !== JSON.stringify(data);
+          setFullRecord(restore ? draft.record : data);
+          setFullRecordEtag(restore ? draft.etag : etag);
+          setDraftRestored(restore);
           setFullRecordStatus(status);
 
-          if (status === 403) {
+          if (!recordInScope) {
+            setFullRecordError("Your access covers selected files only, not the full record.");
+          } else if (status === 403) {
             setFullRecordError("You do not have access to this patient's full record.");
           } else if (status === 404) {
             setFullRecordError("No full record exists yet for this patient.");
@@ -124,7 +326,9 @@ export function usePatientData(args: {
 
         // Files
         if (!cancelled) setFilesLoading(true);
-        const files = await loadPatientFiles(session.fetch, effectivePatient.podBaseUrl);
+        const { files, blockedUrls } = await loadPatientFilesWithBlocked(session.fetch, effectivePatient.podBaseUrl);
+        for (const file of files) auditAccess("READ", patientFileUrl(effectivePatient.podBaseUrl, file.id));
+        for (const url of blockedUrls) auditAccess("READ_BLOCKED", url, "forbidden");
 
         if (!cancelled) {
           setPatientFiles(files);
@@ -132,23 +336,121 @@ export function usePatientData(args: {
           setFilesError(null);
         }
 
+        // Patient: drop lapsed grants and break-glass controls from the pod ACRs before syncing the toggles
+        if (role === "patient") {
+          try {
+            const grantArgs = { patientWebId: effectivePatient.webId, scopeUrl: patientHealthContainerUrl };
+            const expired = await expireLapsedGrants(session.fetch, grantArgs);
+            // Grants governance revoked when their practitioner left the registry
+            const revoked = await listPodSyncPending(session.fetch, grantArgs);
+
+            if (
+              expired.length > 0 ||
+              revoked.length > 0 ||
+              (await breakGlassAcrsStale(session.fetch, patientHealthContainerUrl)) ||
+              (await pharmacyAcrsStale(session.fetch, patientHealthContainerUrl))
+            ) {
+              const [granted, scopes] = await Promise.all([
+                readAccessForFullRecord(session.fetch, patientHealthContainerUrl, practitioners),
+                getLiveGrantScopes(session.fetch, {
+                  patientWebId: effectivePatient.webId,
+                  scopeUrl: patientHealthContainerUrl,
+                }),
+              ]);
+              for (const st of [...expired, ...revoked]) {
+                const grantRole = st.granteeRole;
+                if (granted.grantees[grantRole] === st.granteeWebId) granted[ROLE_ACCESS_FLAG[grantRole]] = false;
+              }
+
+              const accessOptions = {
+                resourceUrl: patientHealthContainerUrl,
+                patientWebId: effectivePatient.webId,
+                ...granted,
+                scopes,
+                restrictToClientAndIssuer: true,
+              };
+              await applyAccessForFullRecord(session.fetch, accessOptions);
+              for (const file of files) {
+                await applyAcpForPatientFile(session.fetch, {
+                  ...accessOptions,
+                  resourceUrl: patientFileUrl(effectivePatient.podBaseUrl, file.id),
+                  sharing: file,
+                  attachmentUrl: file.attachment?.url,
+                });
+              }
+
+              await clearPodSyncPending(session.fetch, revoked);
+
+              if (!cancelled) setExpiredRoles(expired.map((st) => st.granteeRole));
+            }
+          } catch {
+            // governance store unreachable; expiry is retried next session
+          }
+        }
+
         // Patient: sync ACP toggles by reading ACR (not by probing access)
         if (role === "patient") {
           try {
-            const { doctorCanReadWrite: doc, emergencyCanRead: emg } =
-              await readAccessForFullRecord(session.fetch, patientHealthContainerUrl);
+            const granted = await readAccessForFullRecord(
+              session.fetch,
+              patientHealthContainerUrl,
+              practitioners,
+            );
 
             if (!cancelled) {
-              setDoctorCanReadWrite(doc);
-              setEmergencyCanRead(emg);
+              setDoctorCanReadWrite(granted.doctorCanReadWrite);
+              setEmergencyCanRead(granted.emergencyCanRead);
+              setPharmacyCanRead(granted.pharmacyCanRead);
+              setNurseCanReadWrite(granted.nurseCanReadWrite);
+              setChosenGrantees((prev) => ({ ...prev, ...granted.grantees }));
             }
           } catch {
             // keep silent, toggles remain as-is
           }
+
+          // Re-applying must not silently widen a live grant, so start from what it covers
+          try {
+            const live = await getLiveGrants(session.fetch, {
+              patientWebId: effectivePatient.webId,
+              scopeUrl: patientHealthContainerUrl,
+            });
+
+            if (!cancelled) {
+              setLiveGrants(live);
+              setGrantTerms((prev) => {
+                const next = { ...prev };
+                for (const r of GRANTEE_ROLES) {
+                  const st = live[r];
+                  if (st) next[r] = grantTermsOf(st);
+                }
+                return next;
+              });
+              setChosenGrantees((prev) => {
+                const next = { ...prev };
+                for (const r of GRANTEE_ROLES) {
+                  const st = live[r];
+                  if (st) next[r] = st.granteeWebId;
+                }
+                return next;
+              });
+            }
+          } catch {
+            // governance store unreachable; the panel keeps its defaults
+          }
         }
       } catch (err: any) {
+        const blockedReason = blockedReasonFor(err);
+        if (blockedReason) auditAccess("READ_BLOCKED", fullRecordUrl(effectivePatient.podBaseUrl), blockedReason);
+
         if (cancelled) return;
 
+        if (err instanceof SessionExpiredError) {
+          setFullRecordStatus(401);
+          setFullRecordError("Your session has expired. Log in again to load this record.");
+          setFilesLoading(false);
+          return;
+        }
+
         if (err instanceof LegalNoticeRequiredError) {
           setFullRecord(null);
           setFullRecordStatus(403);
@@ -159,6 +461,16 @@ export function usePatientData(args: {
           return;
         }
 
+        if (err instanceof GrantExpiredError) {
+          setFullRecord(null);
+          setFullRecordStatus(403);
+          setFullRecordError("Your access to this record has expired.");
+          setPatientFiles([]);
+          setFilesLoading(false);
+          setFilesError(null);
+          return;
+        }
+
         if (err instanceof NoActiveGrantError) {
           setFullRecord(null);
           setFullRecordStatus(403);
@@ -190,6 +502,7 @@ export function usePatientData(args: {
     effectivePatient?.podBaseUrl,
     patientHealthContainerUrl,
     noticeAcceptedTick,
+    sessionExpired,
   ]);
 
   return {
@@ -200,6 +513,9 @@ export function usePatientData(args: {
     fullRecordError,
     setFullRecordError,
     setFullRecordStatus,
+    fullRecordEtag,
+    setFullRecordEtag,
+    draftRestored,
 
     // files
     patientFiles,
@@ -214,6 +530,26 @@ export function usePatientData(args: {
     setDoctorCanReadWrite,
     emergencyCanRead,
     setEmergencyCanRead,
+    pharmacyCanRead,
+    setPharmacyCanRead,
+    nurseCanReadWrite,
+    setNurseCanReadWrite,
+
+    // grant purpose and scope
+    grantTerms,
+    setGrantTerms,
+    liveGrants,
+    setLiveGrants,
+
+    // practitioner named by each role's grant
+    grantees,
+    setGrantee,
+
+    // grant expiry
+    expiredRoles,
+
+    // audit (App logs grantee writes through this)
+    auditAccess,
 
     // helper
     resetPatientUi,
@@ -0,0 +1,35 @@
+// src/app/hooks/usePatientEnrolment.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import { findProfileStorage, requestPatientRegistration } from "../../solid/governanceSolid";
+
+/** Unenrolled WebID: suggests a pod from the profile and files the registration request. */
+export function usePatientEnrolment(needsEnrolment: boolean, webId?: string) {
+  const [suggestedPodUrl, setSuggestedPodUrl] = useState("");
+  const [requested, setRequested] = useState(false);
+  const [enrolmentError, setEnrolmentError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!needsEnrolment || !webId) return;
+    let cancelled = false;
+    findProfileStorage(session.fetch, webId).then((url) => {
+      if (!cancelled && url) setSuggestedPodUrl(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsEnrolment, webId]);
+
+  const requestEnrolment = useCallback(async (label: string, podBaseUrl: string) => {
+    if (!webId) return;
+    setEnrolmentError(null);
+    try {
+      await requestPatientRegistration(session.fetch, { webId, label, podBaseUrl });
+      setRequested(true);
+    } catch (e) {
+      setEnrolmentError(e instanceof Error ? e.message : String(e));
+    }
+  }, [webId]);
+
+  return { suggestedPodUrl, requested, enrolmentError, requestEnrolment };
+}
@@ -0,0 +1,30 @@
+// src/app/hooks/usePatientRegistrations.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import { listPendingRegistrations } from "../../solid/governanceSolid";
+import type { PendingRegistration } from "../../solid/governanceSolid";
+
+/** Governance: registration requests from patients waiting to be enrolled. */
+export function usePatientRegistrations(enabled: boolean) {
+  const [pending, setPending] = useState<PendingRegistration[]>([]);
+  const [registrationsLoading, setRegistrationsLoading] = useState(false);
+
+  const refreshRegistrations = useCallback(async () => {
+    try {
+      setRegistrationsLoading(true);
+      setPending(await listPendingRegistrations(session.fetch));
+    } catch {
+      // Registry container does not exist until bootstrap
+      setPending([]);
+    } finally {
+      setRegistrationsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refreshRegistrations();
+  }, [enabled, refreshRegistrations]);
+
+  return { pending, registrationsLoading, refreshRegistrations };
+}
@@ -0,0 +1,62 @@
+// src/app/hooks/usePractitionerAdmin.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import { listPractitioners, savePractitioners } from "../../solid/governanceSolid";
+import type { Practitioner, PractitionerRevocations } from "../../solid/governanceSolid";
+
+/** Governance: the practitioner registry, and adding or removing practitioners. */
+export function usePractitionerAdmin(enabled: boolean) {
+  const [practitioners, setPractitioners] = useState<Practitioner[]>([]);
+  const [practitionersLoading, setPractitionersLoading] = useState(false);
+  const [practitionersError, setPractitionersError] = useState<string | null>(null);
+  const [lastRevocations, setLastRevocations] = useState<PractitionerRevocations | null>(null);
+
+  const refreshPractitioners = useCallback(async () => {
+    try {
+      setPractitionersLoading(true);
+      setPractitionersError(null);
+      setPractitioners(await listPractitioners(session.fetch));
+    } catch (e) {
+      setPractitionersError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setPractitionersLoading(false);
+    }
+  }, []);
+
+  const saveRegistry = useCallback(async (next: Practitioner[]): Promise<boolean> => {
+    setPractitionersError(null);
+    try {
+      setLastRevocations(await savePractitioners(session.fetch, next));
+    } catch (e) {
+      setPractitionersError(e instanceof Error ? e.message : String(e));
+      return false;
+    }
+    await refreshPractitioners();
+    return true;
+  }, [refreshPractitioners]);
+
+  const addPractitioner = useCallback(
+    (p: Practitioner) => saveRegistry([...practitioners, p]),
+    [practitioners, saveRegistry],
+  );
+
+  const removePractitioner = useCallback(
+    (webId: string) => saveRegistry(practitioners.filter((p) => p.webId !== webId)),
+    [practitioners, saveRegistry],
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    refreshPractitioners();
+  }, [enabled, refreshPractitioners]);
+
+  return {
+    practitioners,
+    practitionersLoading,
+    practitionersError,
+    lastRevocations,
+    refreshPractitioners,
+    addPractitioner,
+    removePractitioner,
+  };
+}
@@ -0,0 +1,34 @@
+// src/app/hooks/useRecordHistory.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import { listRecordVersions } from "../../solid/healthData";
+import type { RecordVersion } from "../../solid/healthData";
+
+/** Saved versions of the selected patient's full record, loaded when the drawer opens. */
+export function useRecordHistory(args: { podBaseUrl: string | null }) {
+  const { podBaseUrl } = args;
+  const [versions, setVersions] = useState<RecordVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!podBaseUrl) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setVersions(await listRecordVersions(session.fetch, podBaseUrl));
+    } catch {
+      // 403 until the patient re-applies access control with history enabled
+      setError("The record history is not available.");
+    } finally {
+      setLoading(false);
+    }
+  }, [podBaseUrl]);
+
+  useEffect(() => {
+    setVersions([]);
+    setError(null);
+  }, [podBaseUrl]);
+
+  return { versions, loading, error, refresh };
+}
@@ -0,0 +1,17 @@
+// src/app/hooks/useSigningKey.ts
+import { useEffect } from "react";
+import { session } from "../../solid/session";
+import { ensureSigningKey } from "../../solid/signing";
+
+/**
+ * Creates this browser's signing key for the logged-in WebID and publishes it to
+ * their profile, so the acks and audit events they write from now on are signed.
+ */
+export function useSigningKey(loggedIn: boolean, webId: string | undefined) {
+  useEffect(() => {
+    if (!loggedIn || !webId) return;
+    ensureSigningKey(session.fetch, webId).catch(() => {
+      // records stay unsigned (and are flagged on the dashboard); retried next login
+    });
+  }, [loggedIn, webId]);
+}
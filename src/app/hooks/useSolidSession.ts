@@ -6,12 +6,16 @@ import {
   getWebId,
   login,
   logout,
+  onSessionExpired,
 } from "../../solid/session";
 
 export function useSolidSession() {
   const [ready, setReady] = useState(false);
   const [loggedIn, setLoggedIn] = useState(false);
   const [webId, setWebId] = useState<string | undefined>(undefined);
+  // The tokens ran out mid-session. loggedIn stays true so screens (and unsaved edits)
+  // remain; data hooks pause until the user logs in again.
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   useEffect(() => {
     (async () => {
@@ -22,13 +26,15 @@ export function useSolidSession() {
     })();
   }, []);
 
-  async function handleLogin() {
-    await login();
+  useEffect(() => onSessionExpired(() => setSessionExpired(true)), []);
+
+  async function handleLogin(issuer?: string) {
+    await login(issuer);
   }
 
   async function handleLogout() {
     await logout(); // the solid/session.ts already redirects
   }
 
-  return { ready, loggedIn, webId, login: handleLogin, logout: handleLogout };
-}
\ No newline at end of file
+  return { ready, loggedIn, webId, sessionExpired, login: handleLogin, logout: handleLogout };
+}
@@ -0,0 +1,56 @@
+// src/app/hooks/useTermsAdmin.ts
+import { useCallback, useEffect, useState } from "react";
+import { session } from "../../solid/session";
+import {
+  getCurrentTerms,
+  getTermsManifest,
+  getTermsText,
+  publishTermsVersion,
+} from "../../solid/governanceSolid";
+import type { TermsVersion } from "../../solid/governanceSolid";
+
+/** Governance: current terms of use, their version history, and publishing a new version. */
+export function useTermsAdmin(enabled: boolean, onPublished: () => void) {
+  const [current, setCurrent] = useState<TermsVersion | null>(null);
+  const [currentText, setCurrentText] = useState("");
+  const [versions, setVersions] = useState<TermsVersion[]>([]);
+  const [termsLoading, setTermsLoading] = useState(false);
+  const [termsError, setTermsError] = useState<string | null>(null);
+
+  const refreshTerms = useCallback(async () => {
+    try {
+      setTermsLoading(true);
+      setTermsError(null);
+      const [terms, manifest] = await Promise.all([
+        getCurrentTerms(session.fetch),
+        getTermsManifest(session.fetch),
+      ]);
+      setCurrent(terms);
+      setCurrentText(await getTermsText(session.fetch, terms));
+      setVersions([...(manifest?.versions ?? [terms])].reverse());
+    } catch (e) {
+      setTermsError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setTermsLoading(false);
+    }
+  }, []);
+
+  const publishTerms = useCallback(async (text: string) => {
+    setTermsError(null);
+    try {
+      await publishTermsVersion(session.fetch, text);
+    } catch (e) {
+      setTermsError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    await refreshTerms();
+    onPublished();
+  }, [refreshTerms, onPublished]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refreshTerms();
+  }, [enabled, refreshTerms]);
+
+  return { current, currentText, versions, termsLoading, termsError, refreshTerms, publishTerms };
+}
@@ -0,0 +1,39 @@
+// src/app/recordDraft.ts
+import { normalizeFullRecord } from "../solid/healthData";
+import type { FullRecord } from "../solid/healthData";
+
+/**
+ * Unsaved record edits carried across a re-login redirect. Kept in sessionStorage, so
+ * only this tab gets them back, and only for the same WebID and record.
+ */
+const DRAFT_KEY = "solid-healthcare:record-draft";
+
+type RecordDraft = {
+  webId: string;
+  recordUrl: string;
+  record: FullRecord;
+  /** The version the edits were based on, so saving them still detects conflicts. */
+  etag: string | null;
+};
+
+export function stashRecordDraft(draft: RecordDraft): void {
+  try {
+    sessionStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  } catch {
+    // storage disabled or full: the edits are lost with the redirect
+  }
+}
+
+/** Returns and forgets the draft for this WebID and record, if there is one. */
+export function takeRecordDraft(webId: string, recordUrl: string): Pick<RecordDraft, "record" | "etag"> | null {
+  try {
+    const raw = sessionStorage.getItem(DRAFT_KEY);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as RecordDraft;
+    if (draft.webId !== webId || draft.recordUrl !== recordUrl) return null;
+    sessionStorage.removeItem(DRAFT_KEY);
+    return { record: normalizeFullRecord(draft.record), etag: draft.etag ?? null };
+  } catch {
+    return null;
+  }
+}
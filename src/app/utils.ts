@@ -1,10 +1,98 @@
 // src/app/utils.ts
+import type { GrantPurpose, GrantScope, GrantTerms } from "../solid/governanceSolid";
+import { allergySummary, FULL_RECORD_LABELS, medicationSummary } from "../solid/healthData";
+import type { Allergy, FileAttachment, FullRecord, Medication, PatientFile } from "../solid/healthData";
+import { SOLID_ISSUER } from "../solid/config";
+
+/** WebIDs on the configured pod server show as their pod name alone. */
 export function shortId(w?: string) {
   if (!w) return "";
-  return w.replace("http://localhost:3000/", "").replace("/profile/card#me", "");
+  const server = SOLID_ISSUER.replace(/\/+$/, "");
+  const local = server && w.startsWith(`${server}/`) ? w.slice(server.length + 1) : w;
+  return local.replace("/profile/card#me", "");
 }
 
 export function fmtTime(iso: string) {
   const d = new Date(iso);
   return isNaN(d.getTime()) ? iso : d.toLocaleString();
-}
\ No newline at end of file
+}
+export function fmtCountdown(ms: number) {
+  if (ms <= 0) return "lapsed";
+  const s = Math.floor(ms / 1000);
+  const d = Math.floor(s / 86_400);
+  const h = Math.floor((s % 86_400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  if (d > 0) return `${d}d ${h}h`;
+  if (h > 0) return `${h}h ${m}m`;
+  return `${m}m ${s % 60}s`;
+}
+export function fmtBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const GRANT_PURPOSE_LABELS: Record<GrantPurpose, string> = {
+  treatment: "Treatment",
+  emergency: "Emergency care",
+  research:  "Research",
+  billing:   "Billing",
+};
+
+/** Fields shown when merging a file conflict; ids and timestamps are not user edits. */
+export const PATIENT_FILE_MERGE_FIELDS: { key: keyof PatientFile & string; label: string; format?: (value: unknown) => string }[] = [
+  { key: "title",               label: "Title" },
+  { key: "type",                label: "Type" },
+  { key: "description",         label: "Description" },
+  { key: "content",             label: "Content" },
+  { key: "createdBy",           label: "Created by" },
+  { key: "sharedWithDoctor",    label: "Shared with doctor" },
+  { key: "sharedWithEmergency", label: "Shared with emergency" },
+  { key: "sharedWithNurse",     label: "Shared with nurse" },
+  { key: "sharedWithPharmacy",  label: "Shared with pharmacy" },
+  { key: "attachment",          label: "Attachment", format: fmtAttachment },
+];
+
+function fmtAttachment(value: unknown): string {
+  const a = value as FileAttachment | undefined;
+  return a ? `${a.name} (${fmtBytes(a.size)})` : "—";
+}
+
+/** Fields shown when merging a record conflict; allergies and medications one entry per line. */
+export const RECORD_MERGE_FIELDS: { key: keyof FullRecord; label: string; format?: (value: unknown) => string }[] =
+  (Object.keys(FULL_RECORD_LABELS) as (keyof FullRecord)[]).map((key) => ({
+    key,
+    label: FULL_RECORD_LABELS[key],
+    ...(key === "allergies" ? { format: fmtAllergies } : {}),
+    ...(key === "medications" ? { format: fmtMedications } : {}),
+  }));
+
+function fmtAllergies(value: unknown): string {
+  const list = value as Allergy[];
+  if (!list.length) return "—";
+  return list.map((a) => `${allergySummary(a)}${a.verifiedBy ? ` · verified by ${shortId(a.verifiedBy)}` : ""}`).join("\n");
+}
+
+function fmtMedications(value: unknown): string {
+  const list = value as Medication[];
+  if (!list.length) return "—";
+  return list.map((m) => `${medicationSummary(m)}${m.sharedWithPharmacy ? " · pharmacy" : ""}`).join("\n");
+}
+
+export function fmtGrantScope(scope: GrantScope): string {
+  switch (scope.kind) {
+    case "record-and-shared-files":
+      return "Full record and shared files";
+    case "full-record":
+      return "Full record only";
+    case "file-types":
+      return scope.fileTypes.length ? `${scope.fileTypes.join(", ")} files only` : "No files";
+    case "file":
+      return "One file only";
+  }
+}
+
+export function fmtGrantPurpose(terms: Pick<GrantTerms, "purpose" | "purposeDetail">): string {
+  const label = GRANT_PURPOSE_LABELS[terms.purpose];
+  return terms.purposeDetail ? `${label}: ${terms.purposeDetail}` : label;
+}
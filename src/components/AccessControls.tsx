@@ -2,6 +2,159 @@
 import React, { useState } from "react";
 import { ShieldCheck, ShieldOff, ChevronRight, Loader2 } from "lucide-react";
 import type { Role } from "../app/hooks/usePatientContext";
+import type { GranteeRole, GrantScope, GrantState, GrantTerms, Practitioner } from "../solid/governanceSolid";
+import { GRANT_PURPOSES, practitionersFor } from "../solid/governanceSolid";
+import type { RoleGrantees } from "../solid/acp";
+import type { PatientFile } from "../solid/healthData";
+import { GRANT_PURPOSE_LABELS } from "../app/utils";
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "No expiry", days: null },
+  { label: "24 hours",  days: 1 },
+  { label: "7 days",    days: 7 },
+  { label: "30 days",   days: 30 },
+];
+
+/** Select value for "keep the live grant's expiry". */
+const KEEP_EXPIRY = "current";
+
+const SCOPE_OPTIONS: { kind: GrantScope["kind"]; label: string }[] = [
+  { kind: "record-and-shared-files", label: "Full record and shared files" },
+  { kind: "full-record",             label: "Full record only" },
+  { kind: "file-types",              label: "Files of selected types" },
+  { kind: "file",                    label: "A specific file" },
+];
+
+const FILE_TYPES: { value: PatientFile["type"]; label: string }[] = [
+  { value: "lab",          label: "Lab results" },
+  { value: "prescription", label: "Prescriptions" },
+  { value: "imaging",      label: "Imaging" },
+  { value: "report",       label: "Reports" },
+  { value: "note",         label: "Notes" },
+];
+
+const selectBase =
+  "border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-teal-500";
+
+function scopeForKind(kind: GrantScope["kind"], files: PatientFile[]): GrantScope {
+  switch (kind) {
+    case "file-types":
+      return { kind, fileTypes: ["lab"] };
+    case "file":
+      return { kind, fileId: files[0]?.id ?? "" };
+    default:
+      return { kind };
+  }
+}
+
+interface GrantTermsProps {
+  /** Role label used in the controls' accessible names, e.g. "Doctor". */
+  roleLabel: string;
+  terms: GrantTerms;
+  onChange: (terms: GrantTerms) => void;
+  files: PatientFile[];
+  /** Registered practitioners in this role; the grant names one of them. */
+  practitioners: Practitioner[];
+  grantee?: string;
+  onGranteeChange: (webId: string) => void;
+  disabled?: boolean;
+}
+
+/** Practitioner, purpose of use and scope for one role's grant, shown while its toggle is on. */
+function GrantTermsEditor({
+  roleLabel, terms, onChange, files, practitioners, grantee, onGranteeChange, disabled,
+}: GrantTermsProps) {
+  const { scope } = terms;
+
+  function toggleFileType(type: PatientFile["type"], on: boolean) {
+    if (scope.kind !== "file-types") return;
+    const fileTypes = on ? [...scope.fileTypes, type] : scope.fileTypes.filter((t) => t !== type);
+    onChange({ ...terms, scope: { kind: "file-types", fileTypes } });
+  }
+
+  return (
+    <div className="mx-4 mb-4 pt-3 border-t border-slate-100 grid grid-cols-1 sm:grid-cols-2 gap-2">
+      <select
+        aria-label={`${roleLabel} practitioner`}
+        value={grantee ?? ""}
+        disabled={disabled || practitioners.length === 0}
+        onChange={(e) => onGranteeChange(e.target.value)}
+        className={`${selectBase} sm:col-span-2`}
+      >
+        {practitioners.length === 0 && <option value="">No practitioner registered</option>}
+        {practitioners.map((p) => (
+          <option key={p.webId} value={p.webId}>
+            {p.organisation ? `${p.name} — ${p.organisation}` : p.name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label={`${roleLabel} purpose of use`}
+        value={terms.purpose}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...terms, purpose: e.target.value as GrantTerms["purpose"] })}
+        className={selectBase}
+      >
+        {GRANT_PURPOSES.map((p) => (
+          <option key={p} value={p}>{GRANT_PURPOSE_LABELS[p]}</option>
+        ))}
+      </select>
+      <select
+        aria-label={`${roleLabel} access scope`}
+        value={scope.kind}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...terms, scope: scopeForKind(e.target.value as GrantScope["kind"], files) })}
+        className={selectBase}
+      >
+        {SCOPE_OPTIONS.map((o) => (
+          <option key={o.kind} value={o.kind} disabled={o.kind === "file" && files.length === 0}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        aria-label={`${roleLabel} purpose details`}
+        placeholder="Details, e.g. treatment of a specific condition"
+        value={terms.purposeDetail ?? ""}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...terms, purposeDetail: e.target.value })}
+        className={`${selectBase} sm:col-span-2`}
+      />
+
+      {scope.kind === "file-types" && (
+        <div className="sm:col-span-2 flex flex-wrap gap-x-3 gap-y-1">
+          {FILE_TYPES.map((t) => (
+            <label key={t.value} className="inline-flex items-center gap-1 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={scope.fileTypes.includes(t.value)}
+                disabled={disabled}
+                onChange={(e) => toggleFileType(t.value, e.target.checked)}
+                className="accent-teal-600"
+              />
+              {t.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {scope.kind === "file" && (
+        <select
+          aria-label={`${roleLabel} shared file`}
+          value={scope.fileId}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...terms, scope: { kind: "file", fileId: e.target.value } })}
+          className={`${selectBase} sm:col-span-2`}
+        >
+          {files.map((f) => (
+            <option key={f.id} value={f.id}>{f.title}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
 
 interface ToggleProps {
   label: string;
@@ -9,36 +162,73 @@ interface ToggleProps {
   checked: boolean;
   onChange: (v: boolean) => void;
   disabled?: boolean;
+  /** Grant duration, offered while the toggle is on. `undefined` keeps the live grant's expiry. */
+  expiry?: {
+    ariaLabel: string;
+    days: number | null | undefined;
+    /** Set while the role has a live grant; its expiry, if any. */
+    current?: { expiresAt?: string };
+    onChange: (days: number | null | undefined) => void;
+  };
+  /** Purpose and scope controls, shown below the row while the toggle is on. */
+  grantTerms?: Omit<GrantTermsProps, "disabled">;
 }
 
-function ToggleRow({ label, description, checked, onChange, disabled }: ToggleProps) {
+function ToggleRow({ label, description, checked, onChange, disabled, expiry, grantTerms }: ToggleProps) {
   return (
-    <div
-      className={`flex items-center gap-4 p-4 border border-slate-200 rounded-xl transition-colors ${
-        disabled ? "opacity-50 cursor-not-allowed" : "hover:bg-slate-50 cursor-pointer"
-      }`}
-      onClick={() => !disabled && onChange(!checked)}
-    >
+    <div className="border border-slate-200 rounded-xl">
       <div
-        className={`w-11 h-6 rounded-full relative transition-colors flex-shrink-0 ${
-          checked ? "bg-teal-600" : "bg-slate-300"
+        className={`flex items-center gap-4 p-4 rounded-xl transition-colors ${
+          disabled ? "opacity-50 cursor-not-allowed" : "hover:bg-slate-50 cursor-pointer"
         }`}
+        onClick={() => !disabled && onChange(!checked)}
       >
         <div
-          className={`w-4 h-4 bg-white rounded-full absolute top-1 shadow transition-transform ${
-            checked ? "translate-x-6" : "translate-x-1"
+          className={`w-11 h-6 rounded-full relative transition-colors flex-shrink-0 ${
+            checked ? "bg-teal-600" : "bg-slate-300"
           }`}
-        />
-      </div>
-      <div className="flex-1 min-w-0">
-        <div className="text-sm font-medium text-slate-800">{label}</div>
-        <div className="text-xs text-slate-500 mt-0.5">{description}</div>
+        >
+          <div
+            className={`w-4 h-4 bg-white rounded-full absolute top-1 shadow transition-transform ${
+              checked ? "translate-x-6" : "translate-x-1"
+            }`}
+          />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-slate-800">{label}</div>
+          <div className="text-xs text-slate-500 mt-0.5">{description}</div>
+        </div>
+        {checked && expiry && (
+          <select
+            aria-label={expiry.ariaLabel}
+            value={expiry.days === undefined ? (expiry.current ? KEEP_EXPIRY : "") : (expiry.days ?? "")}
+            disabled={disabled}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => {
+              const v = e.target.value;
+              expiry.onChange(v === KEEP_EXPIRY ? undefined : v ? Number(v) : null);
+            }}
+            className="border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            {expiry.current && (
+              <option value={KEEP_EXPIRY}>
+                {expiry.current.expiresAt
+                  ? `Until ${new Date(expiry.current.expiresAt).toLocaleString()}`
+                  : "No expiry (current)"}
+              </option>
+            )}
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.label} value={o.days ?? ""}>{o.label}</option>
+            ))}
+          </select>
+        )}
+        {checked ? (
+          <ShieldCheck className="w-4 h-4 text-teal-600 flex-shrink-0" />
+        ) : (
+          <ShieldOff className="w-4 h-4 text-slate-300 flex-shrink-0" />
+        )}
       </div>
-      {checked ? (
-        <ShieldCheck className="w-4 h-4 text-teal-600 flex-shrink-0" />
-      ) : (
-        <ShieldOff className="w-4 h-4 text-slate-300 flex-shrink-0" />
-      )}
+      {checked && grantTerms && <GrantTermsEditor {...grantTerms} disabled={disabled} />}
     </div>
   );
 }
@@ -49,20 +239,59 @@ interface Props {
   webId?: string;
   doctorCanReadWrite: boolean;
   emergencyCanRead: boolean;
+  pharmacyCanRead: boolean;
+  nurseCanReadWrite: boolean;
   onDoctorChange: (v: boolean) => void;
   onEmergencyChange: (v: boolean) => void;
+  onPharmacyChange: (v: boolean) => void;
+  onNurseChange: (v: boolean) => void;
+  /** Chosen duration per role; `undefined` keeps the live grant's expiry. */
+  expiryDays: Record<GranteeRole, number | null | undefined>;
+  onExpiryChange: (role: GranteeRole, days: number | null | undefined) => void;
+  liveGrants: Partial<Record<GranteeRole, GrantState>>;
+  grantTerms: Record<GranteeRole, GrantTerms>;
+  onGrantTermsChange: (role: GranteeRole, terms: GrantTerms) => void;
+  /** The patient's files, offered for single-file grants. */
+  files: PatientFile[];
+  practitioners: Practitioner[];
+  grantees: RoleGrantees;
+  onGranteeChange: (role: GranteeRole, webId: string) => void;
   onApply: () => Promise<void>;
 }
 
 export const AccessControls: React.FC<Props> = ({
   role, effectivePatientWebId, webId,
-  doctorCanReadWrite, emergencyCanRead,
-  onDoctorChange, onEmergencyChange, onApply,
+  doctorCanReadWrite, emergencyCanRead, pharmacyCanRead, nurseCanReadWrite,
+  onDoctorChange, onEmergencyChange, onPharmacyChange, onNurseChange,
+  expiryDays, onExpiryChange, liveGrants, grantTerms, onGrantTermsChange, files,
+  practitioners, grantees, onGranteeChange, onApply,
 }) => {
   const [applying, setApplying] = useState(false);
 
   const isOwner = role === "patient" && effectivePatientWebId && effectivePatientWebId === webId;
 
+  function expiryFor(r: GranteeRole, ariaLabel: string) {
+    const live = liveGrants[r];
+    return {
+      ariaLabel,
+      days: expiryDays[r],
+      current: live && live.granteeWebId === grantees[r] ? { expiresAt: live.expiresAt } : undefined,
+      onChange: (days: number | null | undefined) => onExpiryChange(r, days),
+    };
+  }
+
+  function termsFor(r: GranteeRole, roleLabel: string) {
+    return {
+      roleLabel,
+      terms: grantTerms[r],
+      onChange: (t: GrantTerms) => onGrantTermsChange(r, t),
+      files,
+      practitioners: practitionersFor(practitioners, r),
+      grantee: grantees[r],
+      onGranteeChange: (webId: string) => onGranteeChange(r, webId),
+    };
+  }
+
   async function handleApply() {
     setApplying(true);
     try {
@@ -83,8 +312,11 @@ export const AccessControls: React.FC<Props> = ({
       ) : (
         <>
           <p className="text-xs text-slate-500 mb-4 leading-relaxed">
-            Control who can access your full record. Doctor grants trigger a governance audit
-            and require legal notice acceptance each session.
+            Control who can access your full record. Every grant and revocation is recorded in
+            the governance audit log; each role must accept a legal notice before viewing. Grants
+            state a purpose of use, can cover only part of your record, and can be limited in time.
+            In an emergency, governance can open your record to a clinician for a short time on a
+            logged justification; you will be told at your next login.
           </p>
           <div className="space-y-3 mb-4">
             <ToggleRow
@@ -93,6 +325,8 @@ export const AccessControls: React.FC<Props> = ({
               checked={doctorCanReadWrite}
               onChange={onDoctorChange}
               disabled={applying}
+              expiry={expiryFor("doctor", "Doctor access duration")}
+              grantTerms={termsFor("doctor", "Doctor")}
             />
             <ToggleRow
               label="Emergency — read only"
@@ -100,6 +334,26 @@ export const AccessControls: React.FC<Props> = ({
               checked={emergencyCanRead}
               onChange={onEmergencyChange}
               disabled={applying}
+              expiry={expiryFor("emergency", "Emergency access duration")}
+              grantTerms={termsFor("emergency", "Emergency")}
+            />
+            <ToggleRow
+              label="Nurse — read & write"
+              description="View the record and assist with data entry"
+              checked={nurseCanReadWrite}
+              onChange={onNurseChange}
+              disabled={applying}
+              expiry={expiryFor("nurse", "Nurse access duration")}
+              grantTerms={termsFor("nurse", "Nurse")}
+            />
+            <ToggleRow
+              label="Pharmacy — read only"
+              description="View the record and prescriptions for dispensing"
+              checked={pharmacyCanRead}
+              onChange={onPharmacyChange}
+              disabled={applying}
+              expiry={expiryFor("pharmacy", "Pharmacy access duration")}
+              grantTerms={termsFor("pharmacy", "Pharmacy")}
             />
           </div>
           <button
@@ -0,0 +1,197 @@
+// src/components/AccessHistoryPanel.tsx
+import React, { useState } from "react";
+import { Ban, Eye, FileText, History, KeyRound, Pencil, RefreshCw, RotateCcw, ShieldCheck, ShieldOff, Siren, Timer, UserPlus } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type { AuditEvent } from "../solid/governanceSolid";
+import { auditEventGrantee } from "../solid/governanceSolid";
+import type { SignatureCheck } from "../solid/signing";
+import { fmtGrantScope, fmtTime, GRANT_PURPOSE_LABELS, shortId } from "../app/utils";
+import { SignatureBadge } from "./GovernanceDashboard";
+
+interface Props {
+  /** Events with a valid signature. */
+  events: AuditEvent[];
+  /** Unsigned events, which cannot be attributed to whoever they name. */
+  unverified: AuditEvent[];
+  signatureChecks: Record<string, SignatureCheck>;
+  /** Entries left out because their hash or signature did not verify. */
+  rejected: number;
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+const BLOCKED_REASONS: Record<NonNullable<AuditEvent["blockedReason"]>, string> = {
+  "no-grant": "no active grant",
+  "notice-required": "data use notice not yet accepted",
+  expired: "grant expired",
+  forbidden: "refused by your pod",
+};
+
+const EVENT_STYLE: Record<AuditEvent["type"], { icon: LucideIcon; dot: string }> = {
+  GRANT:              { icon: KeyRound,    dot: "bg-emerald-500" },
+  NOTICE_ACK:         { icon: ShieldCheck, dot: "bg-teal-500" },
+  READ:               { icon: Eye,         dot: "bg-sky-500" },
+  WRITE:              { icon: Pencil,      dot: "bg-indigo-500" },
+  READ_BLOCKED:       { icon: Ban,         dot: "bg-slate-400" },
+  REVOKE:             { icon: ShieldOff,   dot: "bg-red-500" },
+  EXPIRE:             { icon: Timer,       dot: "bg-amber-500" },
+  BREAK_GLASS:        { icon: Siren,       dot: "bg-red-600" },
+  BREAK_GLASS_REVIEW: { icon: Siren,       dot: "bg-amber-600" },
+  TERMS_PUBLISH:      { icon: FileText,    dot: "bg-slate-500" },
+  PATIENT_ENROL:      { icon: UserPlus,    dot: "bg-teal-600" },
+  RECORD_RESTORE:     { icon: RotateCcw,   dot: "bg-indigo-600" },
+};
+
+function who(ev: AuditEvent): string {
+  const id = shortId(auditEventGrantee(ev));
+  return ev.granteeRole ? `${ev.granteeRole[0].toUpperCase()}${ev.granteeRole.slice(1)} (${id})` : id;
+}
+
+function resourceLabel(url: string | undefined): string {
+  if (!url) return "your record";
+  // Events from before the Turtle migration name full-record.json
+  if (/\/full-record\.(ttl|json)$/.test(url)) return "your full record";
+  if (url.endsWith("/files/")) return "your files";
+  return "a file";
+}
+
+/** " for treatment: <detail> (full record only)" on grants that record their purpose. */
+function grantTerms(ev: AuditEvent): string {
+  if (!ev.purpose) return "";
+  const detail = ev.purposeDetail ? `: ${ev.purposeDetail}` : "";
+  const scope = ev.grantScope ? ` (${fmtGrantScope(ev.grantScope).toLowerCase()})` : "";
+  return ` for ${GRANT_PURPOSE_LABELS[ev.purpose].toLowerCase()}${detail}${scope}`;
+}
+
+function describe(ev: AuditEvent): string {
+  switch (ev.type) {
+    case "GRANT":
+      return `You granted access to ${who(ev)}${grantTerms(ev)}${ev.expiresAt ? ` until ${fmtTime(ev.expiresAt)}` : ""}`;
+    case "NOTICE_ACK":
+      return `${who(ev)} accepted the data use notice`;
+    case "READ":
+      return `${who(ev)} viewed ${resourceLabel(ev.resourceUrl)}`;
+    case "WRITE":
+      return `${who(ev)} changed ${resourceLabel(ev.resourceUrl)}`;
+    case "READ_BLOCKED":
+      return `${who(ev)} was refused access${ev.blockedReason ? ` (${BLOCKED_REASONS[ev.blockedReason]})` : ""}`;
+    case "REVOKE":
+      return `You revoked access for ${who(ev)}`;
+    case "EXPIRE":
+      return `Access for ${who(ev)} expired`;
+    case "BREAK_GLASS":
+      return `${who(ev)} opened your record under emergency break-glass access`;
+    case "BREAK_GLASS_REVIEW":
+      return `Governance reviewed the break-glass access by ${who(ev)}`;
+    case "TERMS_PUBLISH":
+      return `New terms of use published (${ev.termsVersion})`;
+    case "PATIENT_ENROL":
+      return "Governance approved your registration";
+    case "RECORD_RESTORE":
+      return ev.granteeRole
+        ? `${who(ev)} restored an earlier version of your full record`
+        : "You restored an earlier version of your full record";
+  }
+}
+
+const EventRow: React.FC<{ ev: AuditEvent; check?: SignatureCheck }> = ({ ev, check }) => {
+  const style = EVENT_STYLE[ev.type];
+  const Icon = style.icon;
+  return (
+    <li className="ml-4">
+      <span className={`absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full ${style.dot}`} />
+      <div className="flex items-start gap-2">
+        <Icon className="w-3.5 h-3.5 text-slate-400 mt-0.5 flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm text-slate-800">{describe(ev)}</p>
+          {ev.justification && (
+            <p className="text-xs text-slate-600 mt-0.5">“{ev.justification}”</p>
+          )}
+          <div className="flex items-center gap-2 mt-0.5">
+            <p className="text-[11px] text-slate-400">{fmtTime(ev.at)}</p>
+            {check && <SignatureBadge check={check} />}
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+/** Patient: timeline of grants, acknowledgements, reads, writes and revocations on their record. */
+export const AccessHistoryPanel: React.FC<Props> = ({
+  events,
+  unverified,
+  signatureChecks,
+  rejected,
+  loading,
+  error,
+  onRefresh,
+}) => {
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const visible = events.slice(0, shown);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-slate-500" />
+          <h2 className="text-base font-semibold text-slate-900">Who accessed my record</h2>
+        </div>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          aria-label="Refresh access history"
+          className="text-slate-500 hover:text-slate-700 disabled:opacity-50 p-1 rounded-lg transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-slate-500">{error}</p>}
+
+      {!error && rejected > 0 && (
+        <p className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-3">
+          {rejected} {rejected === 1 ? "entry" : "entries"} failed verification and {rejected === 1 ? "is" : "are"} not
+          shown; they may have been altered after they were logged. Please tell your care provider.
+        </p>
+      )}
+
+      {!error && !loading && events.length === 0 && unverified.length === 0 && (
+        <p className="text-xs text-slate-500">Nobody has been granted or used access to your record yet.</p>
+      )}
+
+      {visible.length > 0 && (
+        <ol className="relative border-l border-slate-200 ml-1.5 space-y-3">
+          {visible.map((ev) => <EventRow key={ev.eventId} ev={ev} />)}
+        </ol>
+      )}
+
+      {events.length > shown && (
+        <button
+          onClick={() => setShown((n) => n + PAGE_SIZE)}
+          className="mt-4 text-xs font-medium text-teal-700 hover:text-teal-800"
+        >
+          Show older ({events.length - shown} more)
+        </button>
+      )}
+
+      {!error && unverified.length > 0 && (
+        <details className="mt-4 border border-amber-200 bg-amber-50 rounded-lg px-3 py-2">
+          <summary className="text-xs font-medium text-amber-800 cursor-pointer">
+            {unverified.length} unverified {unverified.length === 1 ? "entry" : "entries"}
+          </summary>
+          <p className="text-xs text-amber-800 mt-2 mb-3">
+            These entries are not signed, so it cannot be confirmed who logged them or that what they say happened.
+            Anyone allowed to add to your access history could have written them.
+          </p>
+          <ol className="relative border-l border-amber-200 ml-1.5 space-y-3">
+            {unverified.map((ev) => <EventRow key={ev.eventId} ev={ev} check={signatureChecks[ev.eventId]} />)}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+// src/components/AllergyListEditor.tsx
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type { Allergy } from "../solid/healthData";
+import { newAllergy } from "../solid/healthData";
+
+type Props = {
+  allergies: Allergy[];
+  onChange: (value: Allergy[]) => void;
+  readOnly: boolean;
+  /** Offered as the verifier; the "Verify" button records it on an entry. */
+  verifierWebId?: string;
+};
+
+type TextColumn = {
+  key: "substance" | "reaction" | "verifiedBy";
+  label: string;
+  placeholder?: string;
+};
+
+const COLUMNS: TextColumn[] = [
+  { key: "substance",  label: "Substance",   placeholder: "Penicillin" },
+  { key: "reaction",   label: "Reaction",    placeholder: "hives" },
+  { key: "verifiedBy", label: "Verified by", placeholder: "https://…/profile/card#me" },
+];
+
+const cellInput =
+  "w-full border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-800 " +
+  "focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent " +
+  "disabled:bg-slate-50 disabled:text-slate-500 transition-colors";
+
+/** Table editor for the allergy list, one row per substance. */
+export const AllergyListEditor: React.FC<Props> = ({ allergies, onChange, readOnly, verifierWebId }) => {
+  function update(id: string, patch: Partial<Allergy>) {
+    onChange(allergies.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+  }
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-x-auto">
+      <table className="w-full min-w-[40rem]">
+        <thead>
+          <tr className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest text-left bg-slate-50">
+            <th className="px-2 py-1.5">{COLUMNS[0].label}</th>
+            <th className="px-2 py-1.5">{COLUMNS[1].label}</th>
+            <th className="px-2 py-1.5">Severity</th>
+            <th className="px-2 py-1.5">{COLUMNS[2].label}</th>
+            {!readOnly && <th className="w-8" />}
+          </tr>
+        </thead>
+        <tbody>
+          {allergies.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-2 py-3 text-xs text-slate-500">No known allergies listed.</td>
+            </tr>
+          )}
+          {allergies.map((a, i) => {
+            const input = (c: TextColumn) => (
+              <input
+                type="text"
+                aria-label={`${c.label} ${i + 1}`}
+                className={cellInput}
+                value={a[c.key]}
+                placeholder={readOnly ? undefined : c.placeholder}
+                disabled={readOnly}
+                onChange={(e) => update(a.id, { [c.key]: e.target.value })}
+              />
+            );
+            return (
+              <tr key={a.id} data-testid="allergy-row" className="border-t border-slate-100">
+                <td className="p-1">{input(COLUMNS[0])}</td>
+                <td className="p-1">{input(COLUMNS[1])}</td>
+                <td className="p-1">
+                  <select
+                    aria-label={`Severity ${i + 1}`}
+                    className={cellInput}
+                    value={a.severity}
+                    disabled={readOnly}
+                    onChange={(e) => update(a.id, { severity: e.target.value as Allergy["severity"] })}
+                  >
+                    <option value="">Not recorded</option>
+                    <option value="mild">Mild</option>
+                    <option value="moderate">Moderate</option>
+                    <option value="severe">Severe</option>
+                  </select>
+                </td>
+                <td className="p-1">
+                  <div className="flex items-center gap-1">
+                    {input(COLUMNS[2])}
+                    {!readOnly && verifierWebId && a.verifiedBy !== verifierWebId && (
+                      <button
+                        type="button"
+                        onClick={() => update(a.id, { verifiedBy: verifierWebId })}
+                        className="text-[11px] font-medium text-teal-700 hover:text-teal-800 whitespace-nowrap px-1"
+                      >
+                        Verify
+                      </button>
+                    )}
+                  </div>
+                </td>
+                {!readOnly && (
+                  <td className="p-1">
+                    <button
+                      type="button"
+                      onClick={() => onChange(allergies.filter((x) => x.id !== a.id))}
+                      aria-label={`Remove allergy ${i + 1}`}
+                      className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {!readOnly && (
+        <button
+          type="button"
+          onClick={() => onChange([...allergies, newAllergy()])}
+          className="inline-flex items-center gap-1 m-2 text-xs font-medium text-teal-700 hover:text-teal-800"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add allergy
+        </button>
+      )}
+    </div>
+  );
+};
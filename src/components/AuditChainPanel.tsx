@@ -0,0 +1,54 @@
+// src/components/AuditChainPanel.tsx
+import React from "react";
+import { Link2, Link2Off } from "lucide-react";
+import type { AuditChainReport } from "../solid/governanceSolid";
+
+const ISSUE_LABELS: Record<AuditChainReport["issues"][number]["kind"], string> = {
+  tampered: "Tampered",
+  missing: "Missing",
+  reordered: "Reordered",
+  "broken-link": "Broken link",
+  fork: "Fork",
+  unchained: "Outside chain",
+};
+
+/** Result of verifyAuditChain over the whole audit log. */
+export const AuditChainPanel: React.FC<{ report: AuditChainReport | null }> = ({ report }) => {
+  if (!report) return null;
+
+  const Icon = report.ok ? Link2 : Link2Off;
+
+  return (
+    <div
+      className={`border rounded-xl p-4 mb-5 ${
+        report.ok ? "border-emerald-200 bg-emerald-50" : "border-red-200 bg-red-50"
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <Icon className={`w-4 h-4 ${report.ok ? "text-emerald-600" : "text-red-600"}`} />
+        <h3 className={`text-sm font-semibold ${report.ok ? "text-emerald-900" : "text-red-900"}`}>
+          {report.ok ? "Audit chain intact" : "Audit chain integrity problems"}
+        </h3>
+        <span className="text-xs text-slate-500">
+          {report.checked} chained event{report.checked === 1 ? "" : "s"} verified
+          {report.headSeq !== null && ` · head at #${report.headSeq}`}
+          {report.unchained > 0 && ` · ${report.unchained} legacy event${report.unchained === 1 ? "" : "s"} (hash only)`}
+        </span>
+      </div>
+
+      {report.issues.length > 0 && (
+        <ul className="mt-3 space-y-1 max-h-48 overflow-auto">
+          {report.issues.map((issue, i) => (
+            <li key={`${issue.kind}-${issue.eventId ?? issue.seq ?? i}-${i}`} className="text-xs text-red-800">
+              <span className="font-semibold">{ISSUE_LABELS[issue.kind]}</span>
+              {issue.seq !== undefined && <span className="font-mono"> #{issue.seq}</span>}
+              {issue.eventId && <span className="font-mono text-red-600"> {issue.eventId.slice(0, 8)}</span>}
+              {" — "}
+              {issue.detail}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+// src/components/BreakGlass.tsx
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Loader2, Siren } from "lucide-react";
+import type { BreakGlassGrant, BreakGlassRecord } from "../solid/governanceSolid";
+import { BREAK_GLASS_DURATION_MS, BREAK_GLASS_MIN_JUSTIFICATION } from "../solid/governanceSolid";
+import { fmtTime, shortId } from "../app/utils";
+
+/** Emergency role, no patient grant: request short-lived access with a justification. */
+export const BreakGlassPanel: React.FC<{
+  onSubmit: (justification: string) => Promise<void>;
+  /** The last request, when governance declined it. */
+  declined?: BreakGlassRecord | null;
+}> = ({ onSubmit, declined }) => {
+  const [justification, setJustification] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tooShort = justification.trim().length < BREAK_GLASS_MIN_JUSTIFICATION;
+
+  async function handleSubmit() {
+    if (tooShort || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(justification);
+      setJustification("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-xl p-5 mb-5">
+      <div className="flex items-center gap-2 mb-2">
+        <Siren className="w-4 h-4 text-amber-700" />
+        <h2 className="text-sm font-semibold text-amber-900">Emergency break-glass access</h2>
+      </div>
+      <p className="text-xs text-amber-800 mb-3 leading-relaxed">
+        The patient has not granted you access. In an emergency governance can open the record to you for{" "}
+        {Math.round(BREAK_GLASS_DURATION_MS / 60_000)} minutes. Your justification is recorded in the
+        audit log, reviewed by governance, and shown to the patient.
+      </p>
+      <p className="text-xs text-amber-800 mb-3 leading-relaxed">
+        Requests are issued by the governance service, which runs only while governance is signed in to its
+        dashboard. Outside those times your request waits until it is.
+      </p>
+      {declined?.declined && (
+        <p role="alert" className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-3">
+          Governance declined your last request: {declined.declined.reason}
+        </p>
+      )}
+      <label htmlFor="breakGlassJustification" className="block text-xs font-medium text-amber-900 mb-1">
+        Justification
+      </label>
+      <textarea
+        id="breakGlassJustification"
+        value={justification}
+        onChange={(e) => setJustification(e.target.value)}
+        rows={3}
+        placeholder="Describe the emergency and why the record is needed now"
+        className="w-full border border-amber-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+      />
+      <div className="flex items-center justify-between gap-3 mt-2">
+        <span className="text-[11px] text-amber-700">
+          At least {BREAK_GLASS_MIN_JUSTIFICATION} characters
+        </span>
+        <button
+          onClick={handleSubmit}
+          disabled={tooShort || submitting}
+          className="inline-flex items-center gap-2 bg-amber-600 hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Break glass
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+/** After this long without a decision the governance service is probably not running. */
+const BREAK_GLASS_ISSUE_EXPECTED_MS = 60_000;
+
+/**
+ * Emergency role, waiting for governance to issue a break-glass request. Issuing needs
+ * the governance service (a signed-in governance dashboard), which may not be running.
+ */
+export const BreakGlassPendingNotice: React.FC<{ since: string | null }> = ({ since }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 5_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const overdue = !!since && now - Date.parse(since) >= BREAK_GLASS_ISSUE_EXPECTED_MS;
+
+  return (
+    <div
+      role="status"
+      className="flex items-start gap-2.5 bg-amber-50 border border-amber-300 rounded-xl p-3 mb-5 text-sm text-amber-900"
+    >
+      <Loader2 className="w-4 h-4 text-amber-700 mt-0.5 flex-shrink-0 animate-spin" />
+      <div>
+        <p>
+          Break-glass request sent{since ? ` at ${fmtTime(since)}` : ""}. The record opens as soon as the governance
+          service issues it, which happens only while governance is signed in to its dashboard.
+        </p>
+        {overdue && (
+          <p className="mt-1 font-medium">
+            It has not been issued yet, so the governance service may not be running. Contact governance directly
+            to have it issued; the request stays valid until it lapses.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/** Emergency role, reading under break-glass. */
+export const BreakGlassActiveNotice: React.FC<{ grant: BreakGlassGrant }> = ({ grant }) => (
+  <div className="flex items-start gap-2.5 bg-amber-50 border border-amber-300 rounded-xl p-3 mb-4 text-sm text-amber-900">
+    <Siren className="w-4 h-4 text-amber-700 mt-0.5 flex-shrink-0" />
+    <span>
+      Break-glass access active until {fmtTime(grant.expiresAt)}. Every access is logged and reviewed.
+    </span>
+  </div>
+);
+
+/** Patient: break-glass accesses since they last dismissed the banner. */
+export const BreakGlassBanner: React.FC<{ notices: BreakGlassGrant[]; onDismiss: () => Promise<void> }> = ({
+  notices, onDismiss,
+}) => {
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="bg-red-50 border-2 border-red-300 rounded-xl p-4 mb-5">
+      <div className="flex items-center gap-2 mb-2">
+        <AlertTriangle className="w-5 h-5 text-red-600" />
+        <h2 className="text-sm font-semibold text-red-900">
+          Your record was opened under emergency break-glass access
+        </h2>
+      </div>
+      <ul className="space-y-2 mb-3">
+        {notices.map((n) => (
+          <li key={n.id} className="text-xs text-red-800">
+            <span className="font-semibold">{fmtTime(n.issuedAt)}</span> by{" "}
+            <span className="font-mono">{shortId(n.granteeWebId)}</span>: “{n.justification}”
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-red-700 mb-3">
+        Governance reviews every break-glass access. Contact them if you believe it was not justified.
+      </p>
+      <button
+        onClick={onDismiss}
+        className="text-xs font-semibold text-red-800 bg-red-100 hover:bg-red-200 px-3 py-1.5 rounded-lg transition-colors"
+      >
+        I have read this
+      </button>
+    </div>
+  );
+};
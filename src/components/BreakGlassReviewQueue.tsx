@@ -0,0 +1,113 @@
+// src/components/BreakGlassReviewQueue.tsx
+import React, { useState } from "react";
+import { Siren } from "lucide-react";
+import type { BreakGlassGrant, BreakGlassRecord, BreakGlassReview } from "../solid/governanceSolid";
+import { fmtTime, shortId } from "../app/utils";
+
+interface Props {
+  grants: BreakGlassRecord[];
+  onReview: (grant: BreakGlassGrant, outcome: BreakGlassReview["outcome"], note: string) => Promise<void>;
+}
+
+function isIssued(record: BreakGlassRecord): record is BreakGlassGrant {
+  return !!record.issuedAt && !!record.expiresAt;
+}
+
+function ReviewRow({ grant, onReview }: { grant: BreakGlassRecord; onReview: Props["onReview"] }) {
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function review(outcome: BreakGlassReview["outcome"]) {
+    if (!isIssued(grant)) return;
+    setBusy(true);
+    try {
+      await onReview(grant, outcome, note);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <li className="border border-slate-200 rounded-lg p-3 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="font-mono text-slate-700">
+          {shortId(grant.granteeWebId)} → {shortId(grant.patientWebId)}
+        </span>
+        <span className="text-slate-500">{fmtTime(grant.issuedAt ?? grant.requestedAt)}</span>
+      </div>
+      <p className="text-sm text-slate-800 mt-1.5">“{grant.justification}”</p>
+
+      {!isIssued(grant) ? (
+        <p className="text-xs text-slate-600 mt-2">
+          {grant.declined
+            ? `Not issued: ${grant.declined.reason}`
+            : "Awaiting issue. If this persists, the patient's pod does not let governance add the policy yet."}
+        </p>
+      ) : grant.review ? (
+        <p className="text-xs mt-2">
+          <span
+            className={`inline-block font-medium px-2 py-0.5 rounded-full ${
+              grant.review.outcome === "justified" ? "bg-emerald-100 text-emerald-800" : "bg-red-100 text-red-800"
+            }`}
+          >
+            {grant.review.outcome}
+          </span>
+          <span className="text-slate-500 ml-2">{fmtTime(grant.review.reviewedAt)}</span>
+          {grant.review.note && <span className="text-slate-600 ml-2">{grant.review.note}</span>}
+        </p>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2 mt-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Review note (optional)"
+            className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          <button
+            onClick={() => review("justified")}
+            disabled={busy}
+            className="text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-60 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            Justified
+          </button>
+          <button
+            onClick={() => review("unjustified")}
+            disabled={busy}
+            className="text-xs font-semibold text-white bg-red-600 hover:bg-red-700 disabled:opacity-60 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            Unjustified
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Every break-glass access awaits a governance review; pending ones are listed first,
+ * then reviewed ones and requests that were not issued.
+ */
+export const BreakGlassReviewQueue: React.FC<Props> = ({ grants, onReview }) => {
+  if (grants.length === 0) return null;
+
+  const pending = grants.filter((g) => isIssued(g) && !g.review);
+  const reviewed = grants.filter((g) => !isIssued(g) || g.review);
+
+  return (
+    <div className="border border-slate-200 bg-slate-50 rounded-xl p-4 mb-5">
+      <div className="flex items-center gap-2 mb-3">
+        <Siren className="w-4 h-4 text-amber-600" />
+        <h3 className="text-sm font-semibold text-slate-900">Break-glass review queue</h3>
+        <span className="text-xs font-semibold bg-amber-100 text-amber-800 rounded-full px-2 py-0.5">
+          {pending.length} pending
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {[...pending, ...reviewed].map((g) => (
+          <ReviewRow key={g.id} grant={g} onReview={onReview} />
+        ))}
+      </ul>
+    </div>
+  );
+};
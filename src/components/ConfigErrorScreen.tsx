@@ -0,0 +1,35 @@
+// src/components/ConfigErrorScreen.tsx
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { ConfigError } from "../solid/config";
+
+/** Shown instead of the app when the runtime configuration is missing or invalid. */
+export const ConfigErrorScreen: React.FC<{ error: unknown }> = ({ error }) => {
+  const source = error instanceof ConfigError ? error.source : null;
+  const issues = error instanceof ConfigError
+    ? error.issues
+    : [error instanceof Error ? error.message : String(error)];
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <div role="alert" className="max-w-lg w-full bg-white border border-red-200 rounded-xl shadow-sm p-6">
+        <div className="flex items-center gap-2 mb-3">
+          <AlertTriangle className="w-5 h-5 text-red-600" />
+          <h1 className="text-base font-semibold text-slate-900">The app is not configured correctly</h1>
+        </div>
+        <p className="text-sm text-slate-600 mb-3">
+          {source ? (
+            <>Fix the following in <code className="font-mono text-xs">{source}</code> and reload:</>
+          ) : (
+            "The configuration could not be loaded:"
+          )}
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-red-700">
+          {issues.map((issue) => (
+            <li key={issue} className="whitespace-pre-wrap">{issue}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
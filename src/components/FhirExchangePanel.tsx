@@ -0,0 +1,133 @@
+// src/components/FhirExchangePanel.tsx
+import React, { useRef, useState } from "react";
+import { Download, FileJson, Upload } from "lucide-react";
+import { FhirFormatError, importFhirBundle } from "../solid/fhir";
+import type { FhirBundle, FhirImport } from "../solid/fhir";
+
+interface Props {
+  onExport: () => FhirBundle;
+  onImport: (parsed: FhirImport) => Promise<void>;
+}
+
+function download(bundle: FhirBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `health-record-${bundle.timestamp.slice(0, 10)}.fhir.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Patient: exchange the record and files with hospital systems as a FHIR R4 Bundle. */
+export const FhirExchangePanel: React.FC<Props> = ({ onExport, onImport }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<FhirImport | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  async function handleFile(file: File | undefined) {
+    setParsed(null);
+    setParseError(null);
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setParsed(importFhirBundle(await file.text()));
+    } catch (e) {
+      setParseError(e instanceof FhirFormatError ? e.message : `Could not read ${file.name}.`);
+    }
+  }
+
+  function reset() {
+    setParsed(null);
+    setParseError(null);
+    if (fileInput.current) fileInput.current.value = "";
+  }
+
+  async function handleImport() {
+    if (!parsed) return;
+    setImporting(true);
+    try {
+      await onImport(parsed);
+      reset();
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-5">
+      <div className="flex items-center gap-2 mb-1">
+        <FileJson className="w-4 h-4 text-slate-500" />
+        <h2 className="text-base font-semibold text-slate-900">FHIR exchange</h2>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Move your record and files to or from hospital systems as a FHIR R4 Bundle. Imported files are not shared until you share them.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => download(onExport())}
+          className="inline-flex items-center gap-1.5 border border-slate-200 hover:bg-slate-50 text-slate-700 text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export as FHIR Bundle
+        </button>
+        <label className="inline-flex items-center gap-1.5 border border-slate-200 hover:bg-slate-50 text-slate-700 text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors cursor-pointer">
+          <Upload className="w-3.5 h-3.5" />
+          Import FHIR Bundle
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            className="sr-only"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+
+      {parseError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg mt-4 text-xs">{parseError}</div>
+      )}
+
+      {parsed && (
+        <div data-testid="fhir-import-preview" className="mt-4 border border-slate-200 rounded-lg p-3">
+          <p className="text-xs text-slate-700">
+            <span className="font-semibold">{fileName}</span>: {parsed.imported} resource{parsed.imported === 1 ? "" : "s"} ready to import
+            {parsed.files.length > 0 && ` (${parsed.files.length} file${parsed.files.length === 1 ? "" : "s"})`}.
+          </p>
+
+          {parsed.issues.length > 0 && (
+            <>
+              <p className="text-xs font-semibold text-red-700 mt-3 mb-1">
+                {parsed.issues.length} resource{parsed.issues.length === 1 ? "" : "s"} will be skipped:
+              </p>
+              <ul className="space-y-1 text-xs">
+                {parsed.issues.map((issue, i) => (
+                  <li key={i} className="bg-red-50 border border-red-100 rounded px-2 py-1">
+                    <span className="font-mono text-red-800">{issue.resource}</span>
+                    <span className="text-red-700">: {issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 mt-3">
+            <button onClick={reset} disabled={importing} className="text-xs font-medium text-slate-600 hover:text-slate-800 px-3 py-1.5">
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={importing || parsed.imported === 0}
+              className="bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors"
+            >
+              {importing ? "Importing…" : "Import"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 // src/components/FileUploadForm.tsx
 import React, { useState } from "react";
-import type { PatientFile } from "../solid/healthData";
-import { X } from "lucide-react";
+import type { FileAttachment, PatientFile } from "../solid/healthData";
+import { MAX_ATTACHMENT_BYTES } from "../solid/healthData";
+import { fmtBytes } from "../app/utils";
+import { Paperclip, X } from "lucide-react";
 
 interface Props {
-  onSubmit: (fileData: PatientFile) => void;
+  /** `upload` is a newly chosen document; `fileData.attachment` is the one kept, if any. */
+  onSubmit: (fileData: PatientFile, upload?: File) => void;
   onCancel: () => void;
   readOnly?: boolean;
   initialFileData?: PatientFile;
@@ -13,6 +16,8 @@ interface Props {
 const inputBase =
   "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-400";
 
+const ATTACHMENT_ACCEPT = "application/pdf,image/*,application/dicom,.dcm";
+
 const SHARE_OPTIONS = [
   { key: "sharedWithDoctor"    as const, label: "Doctor" },
   { key: "sharedWithEmergency" as const, label: "Emergency" },
@@ -26,6 +31,8 @@ const FileUploadForm: React.FC<Props> = ({ onSubmit, onCancel, readOnly = false,
   const [content,     setContent]     = useState(initialFileData?.content ?? "");
   const [fileType,    setFileType]    = useState<PatientFile["type"]>(initialFileData?.type ?? "lab");
   const [createdBy,   setCreatedBy]   = useState(initialFileData?.createdBy ?? "");
+  const [attachment,  setAttachment]  = useState<FileAttachment | undefined>(initialFileData?.attachment);
+  const [upload,      setUpload]      = useState<File | undefined>();
   const [sharing, setSharing] = useState({
     sharedWithDoctor:    initialFileData?.sharedWithDoctor    ?? true,
     sharedWithEmergency: initialFileData?.sharedWithEmergency ?? false,
@@ -33,8 +40,10 @@ const FileUploadForm: React.FC<Props> = ({ onSubmit, onCancel, readOnly = false,
     sharedWithPharmacy:  initialFileData?.sharedWithPharmacy  ?? false,
   });
 
+  const tooLarge = !!upload && upload.size > MAX_ATTACHMENT_BYTES;
+
   function handleSubmit() {
-    if (!title.trim() || !createdBy.trim()) return;
+    if (!title.trim() || !createdBy.trim() || tooLarge) return;
 
     const now = new Date().toISOString();
     onSubmit({
@@ -47,9 +56,14 @@ const FileUploadForm: React.FC<Props> = ({ onSubmit, onCancel, readOnly = false,
       type: fileType,
       createdBy,
       ...sharing,
-    });
+      ...(attachment && !upload ? { attachment } : {}),
+    }, upload);
   }
 
+  const shownAttachment = upload
+    ? { name: upload.name, size: upload.size }
+    : attachment && { name: attachment.name, size: attachment.size };
+
   return (
     <div className="bg-slate-50 border border-slate-200 rounded-xl p-5 mb-5">
       {/* Form header */}
@@ -146,6 +160,41 @@ const FileUploadForm: React.FC<Props> = ({ onSubmit, onCancel, readOnly = false,
         </div>
       </div>
 
+      {/* Attachment */}
+      <div className="mb-4">
+        <div className="text-[10px] font-semibold uppercase tracking-widest text-slate-400 mb-1">
+          Attachment <span className="text-slate-300 font-normal normal-case tracking-normal">(PDF, image or DICOM)</span>
+        </div>
+        {shownAttachment ? (
+          <div className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm">
+            <Paperclip className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <span className="truncate text-slate-700">{shownAttachment.name}</span>
+            <span className="text-xs text-slate-400 flex-shrink-0">{fmtBytes(shownAttachment.size)}</span>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => { setUpload(undefined); setAttachment(undefined); }}
+                className="ml-auto text-xs font-medium text-slate-500 hover:text-red-600"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ) : (
+          <input
+            type="file"
+            aria-label="Attachment"
+            accept={ATTACHMENT_ACCEPT}
+            onChange={(e) => setUpload(e.target.files?.[0])}
+            className="block w-full text-sm text-slate-600 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-semibold file:bg-teal-50 file:text-teal-700 hover:file:bg-teal-100"
+            disabled={readOnly}
+          />
+        )}
+        {tooLarge && (
+          <p className="text-xs text-red-600 mt-1">Attachments can be at most {fmtBytes(MAX_ATTACHMENT_BYTES)}.</p>
+        )}
+      </div>
+
       {/* Share with */}
       <div className="mb-5">
         <div className="text-[10px] font-semibold uppercase tracking-widest text-slate-400 mb-2">Share with</div>
@@ -180,7 +229,7 @@ const FileUploadForm: React.FC<Props> = ({ onSubmit, onCancel, readOnly = false,
         {!readOnly && (
           <button
             onClick={handleSubmit}
-            disabled={!title.trim() || !createdBy.trim()}
+            disabled={!title.trim() || !createdBy.trim() || tooLarge}
             className="px-4 py-2 text-sm font-semibold bg-teal-600 hover:bg-teal-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
           >
             {initialFileData ? "Update File" : "Add File"}
@@ -1,33 +1,46 @@
 // src/components/FullRecordForm.tsx
 import React, { useState, useEffect } from "react";
-import type { FullRecord } from "../solid/healthData";
+import type { Allergy, FullRecord, Medication } from "../solid/healthData";
+import { FULL_RECORD_LABELS } from "../solid/healthData";
 import type { Role } from "../app/hooks/usePatientContext";
-import { Save, Lock } from "lucide-react";
+import type { AllergyConflict } from "../app/allergyCheck";
+import { AllergyConflictError } from "../app/errors";
+import { AllergyListEditor } from "./AllergyListEditor";
+import { MedicationListEditor } from "./MedicationListEditor";
+import { RecordHistoryDrawer } from "./RecordHistoryDrawer";
+import type { RecordHistoryProps } from "./RecordHistoryDrawer";
+import { AlertTriangle, History, Save, Lock } from "lucide-react";
 
 type Props = {
   role: Role;
   fullRecord: FullRecord;
   onChange: (value: FullRecord) => void;
-  /** If provided, the Save button is shown. Should return a promise. */
+  /**
+   * If provided, the Save button is shown. Should return a promise; it runs the allergy
+   * check and rejects with AllergyConflictError when the save is blocked.
+   */
   onSave?: () => Promise<void>;
+  /** If provided, the History button is shown; restoring is offered to editing roles. */
+  history?: RecordHistoryProps;
+  /** The editing doctor: prefilled as prescriber of new medications and offered as verifier of allergies. */
+  clinicianWebId?: string;
 };
 
 type FieldConfig = {
   key: keyof FullRecord;
-  label: string;
-  type: "text" | "date" | "textarea";
+  type: "text" | "date" | "textarea" | "list";
   colSpan?: 2;
 };
 
 const FIELDS: FieldConfig[] = [
-  { key: "patientName",  label: "Patient Name",   type: "text" },
-  { key: "dateOfBirth",  label: "Date of Birth",  type: "date" },
-  { key: "bloodType",    label: "Blood Type",      type: "text" },
-  { key: "address",      label: "Address",         type: "text" },
-  { key: "allergies",    label: "Allergies",       type: "textarea", colSpan: 2 },
-  { key: "diagnoses",    label: "Diagnoses",       type: "textarea", colSpan: 2 },
-  { key: "medications",  label: "Medications",     type: "textarea", colSpan: 2 },
-  { key: "notes",        label: "Notes",           type: "textarea", colSpan: 2 },
+  { key: "patientName",  type: "text" },
+  { key: "dateOfBirth",  type: "date" },
+  { key: "bloodType",    type: "text" },
+  { key: "address",      type: "text" },
+  { key: "allergies",    type: "list", colSpan: 2 },
+  { key: "diagnoses",    type: "textarea", colSpan: 2 },
+  { key: "medications",  type: "list", colSpan: 2 },
+  { key: "notes",        type: "textarea", colSpan: 2 },
 ];
 
 const READONLY_ROLES: Role[] = ["emergency", "pharmacy", "nurse", "governance", "unknown"];
@@ -37,30 +50,45 @@ const inputBase =
   "focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent " +
   "disabled:bg-slate-50 disabled:text-slate-400 transition-colors";
 
-export const FullRecordForm: React.FC<Props> = ({ role, fullRecord, onChange, onSave }) => {
+export const FullRecordForm: React.FC<Props> = ({ role, fullRecord, onChange, onSave, history, clinicianWebId }) => {
   const readOnly = READONLY_ROLES.includes(role);
   const [dirty, setDirty] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [blocked, setBlocked] = useState<AllergyConflict[]>([]);
 
   // Reset dirty when the record identity changes (e.g. patient switched)
   useEffect(() => { setDirty(false); }, [fullRecord]);
 
-  function updateField(field: keyof FullRecord, value: string) {
+  // A pharmacy can read only the medications shared with it, so nothing else is shown
+  const fields = role === "pharmacy" ? FIELDS.filter(({ key }) => key === "medications") : FIELDS;
+
+  function updateField(field: keyof FullRecord, value: string | Allergy[] | Medication[]) {
     onChange({ ...fullRecord, [field]: value });
     setDirty(true);
+    setBlocked([]);
   }
 
   async function handleSave() {
     if (!onSave) return;
+    setBlocked([]);
     setSaving(true);
     try {
       await onSave();
       setDirty(false);
+    } catch (e) {
+      if (!(e instanceof AllergyConflictError)) throw e;
+      setBlocked(e.conflicts);
     } finally {
       setSaving(false);
     }
   }
 
+  function openHistory() {
+    setHistoryOpen(true);
+    history?.onRefresh();
+  }
+
   return (
     <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-6 mb-5">
       {/* Header */}
@@ -74,19 +102,51 @@ export const FullRecordForm: React.FC<Props> = ({ role, fullRecord, onChange, on
             </div>
           )}
         </div>
-        {dirty && !readOnly && (
-          <span className="text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2.5 py-0.5">
-            Unsaved changes
-          </span>
-        )}
+        <div className="flex items-center gap-2">
+          {dirty && !readOnly && (
+            <span className="text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2.5 py-0.5">
+              Unsaved changes
+            </span>
+          )}
+          {history && (
+            <button
+              onClick={openHistory}
+              className="inline-flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-slate-800 border border-slate-200 rounded-lg px-2.5 py-1 transition-colors"
+            >
+              <History className="w-3.5 h-3.5" />
+              History
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Fields grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-5">
-        {FIELDS.map(({ key, label, type, colSpan }) => (
+        {fields.map(({ key, type, colSpan }) => type === "list" ? (
+          <div key={key} role="group" aria-label={FULL_RECORD_LABELS[key]} className="md:col-span-2">
+            <span className="block text-[10px] font-semibold uppercase tracking-widest text-slate-400 mb-1">
+              {FULL_RECORD_LABELS[key]}
+            </span>
+            {key === "allergies" ? (
+              <AllergyListEditor
+                allergies={fullRecord.allergies}
+                onChange={(value) => updateField(key, value)}
+                readOnly={readOnly}
+                verifierWebId={clinicianWebId}
+              />
+            ) : (
+              <MedicationListEditor
+                medications={fullRecord.medications}
+                onChange={(value) => updateField(key, value)}
+                readOnly={readOnly}
+                prescriberWebId={clinicianWebId}
+              />
+            )}
+          </div>
+        ) : (
           <label key={key} className={`block ${colSpan === 2 ? "md:col-span-2" : ""}`}>
             <span className="block text-[10px] font-semibold uppercase tracking-widest text-slate-400 mb-1">
-              {label}
+              {FULL_RECORD_LABELS[key]}
             </span>
             {type === "textarea" ? (
               <textarea
@@ -108,6 +168,17 @@ export const FullRecordForm: React.FC<Props> = ({ role, fullRecord, onChange, on
         ))}
       </div>
 
+      {blocked.length > 0 && (
+        <div role="alert" className="flex items-start gap-2 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg mb-4 text-xs">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold mb-0.5">Not saved: the record lists a medication the patient is severely allergic to.</p>
+            {blocked.map((c) => <p key={`${c.allergy.id}-${c.medication.id}`}>{c.message}</p>)}
+            <p className="mt-0.5">Remove or discontinue the medication, or correct the allergy, then save again.</p>
+          </div>
+        </div>
+      )}
+
       {/* Footer */}
       {onSave && !readOnly && (
         <button
@@ -119,6 +190,15 @@ export const FullRecordForm: React.FC<Props> = ({ role, fullRecord, onChange, on
           {saving ? "Saving…" : "Save to pod"}
         </button>
       )}
+
+      {history && historyOpen && (
+        <RecordHistoryDrawer
+          {...history}
+          onRestore={readOnly ? undefined : history.onRestore}
+          current={fullRecord}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,14 +1,38 @@
 // src/components/GovernanceDashboard.tsx
 import React, { useEffect, useMemo, useState } from "react";
-import type { AuditEvent } from "../solid/governanceSolid";
-import { RefreshCw, Download, Search } from "lucide-react";
-import { fmtTime, shortId } from "../app/utils";
+import type {
+  AuditChainReport,
+  AuditEvent,
+  BreakGlassGrant,
+  BreakGlassRecord,
+  BreakGlassReview,
+  GrantState,
+} from "../solid/governanceSolid";
+import { auditEventGrantee } from "../solid/governanceSolid";
+import type { SignatureCheck } from "../solid/signing";
+import { RefreshCw, Download, Search, Timer } from "lucide-react";
+import { fmtCountdown, fmtGrantPurpose, fmtGrantScope, fmtTime, shortId } from "../app/utils";
+import { BreakGlassReviewQueue } from "./BreakGlassReviewQueue";
+import { AuditChainPanel } from "./AuditChainPanel";
 
 interface Props {
   auditEvents: AuditEvent[];
+  grantStates: GrantState[];
+  breakGlassGrants: BreakGlassRecord[];
+  chainReport: AuditChainReport | null;
+  /** By eventId; events not yet checked have no entry. */
+  signatureChecks: Record<string, SignatureCheck>;
   auditLoading: boolean;
   auditError: string | null;
   onRefresh: () => void;
+  onReviewBreakGlass: (grant: BreakGlassGrant, outcome: BreakGlassReview["outcome"], note: string) => Promise<void>;
+}
+
+/** GRANT events record why and over what access was granted. */
+function grantPurposeLabel(ev: AuditEvent): string {
+  if (!ev.purpose) return "";
+  const purpose = fmtGrantPurpose({ purpose: ev.purpose, purposeDetail: ev.purposeDetail });
+  return ev.grantScope ? `${purpose} (${fmtGrantScope(ev.grantScope)})` : purpose;
 }
 
 const EVENT_BADGES: Record<string, string> = {
@@ -21,8 +45,81 @@ function badgeClass(type: string) {
   return EVENT_BADGES[type] ?? "bg-slate-100 text-slate-700";
 }
 
+const SIGNATURE_BADGES: Record<SignatureCheck["status"], { label: string; className: string }> = {
+  valid:    { label: "Signed",            className: "bg-emerald-100 text-emerald-800" },
+  unsigned: { label: "Unsigned",          className: "bg-amber-100 text-amber-800" },
+  invalid:  { label: "Invalid signature", className: "bg-red-100 text-red-800" },
+};
+
+function signatureTitle(check: SignatureCheck): string {
+  if (check.status === "valid") return `Signed with ${check.keyId}`;
+  if (check.status === "invalid") return check.detail;
+  return "No signature; anyone with write access to the audit log could have written this event.";
+}
+
+export function SignatureBadge({ check }: { check: SignatureCheck | undefined }) {
+  if (!check) return <span className="text-xs text-slate-300">…</span>;
+  const badge = SIGNATURE_BADGES[check.status];
+  return (
+    <span
+      className={`inline-block text-xs font-medium px-2 py-0.5 rounded-full whitespace-nowrap ${badge.className}`}
+      title={signatureTitle(check)}
+    >
+      {badge.label}
+    </span>
+  );
+}
+
+/** Grants lapsing within this window get a countdown. */
+const EXPIRING_SOON_MS = 7 * 86_400_000;
+
+function ExpiringGrants({ grantStates }: { grantStates: GrantState[] }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  // Lapsed grants stay listed until the patient's next session records the expiry
+  const expiring = grantStates
+    .filter((g) => g.status === "active" && g.expiresAt)
+    .map((g) => ({ grant: g, remaining: Date.parse(g.expiresAt!) - now }))
+    .filter((g) => g.remaining < EXPIRING_SOON_MS)
+    .sort((a, b) => a.remaining - b.remaining);
+
+  if (expiring.length === 0) return null;
+
+  return (
+    <div className="border border-amber-200 bg-amber-50 rounded-xl p-4 mb-5">
+      <div className="flex items-center gap-2 mb-3">
+        <Timer className="w-4 h-4 text-amber-600" />
+        <h3 className="text-sm font-semibold text-amber-900">Grants about to lapse</h3>
+      </div>
+      <ul className="space-y-1.5">
+        {expiring.map(({ grant, remaining }) => (
+          <li key={grant.key} className="flex items-center justify-between gap-3 text-xs">
+            <span className="font-mono text-slate-700 truncate">
+              {shortId(grant.patientWebId)} → {shortId(grant.granteeWebId)} ({grant.granteeRole})
+            </span>
+            <span
+              className={`font-semibold tabular-nums whitespace-nowrap ${
+                remaining <= 0 ? "text-red-700" : "text-amber-800"
+              }`}
+              title={fmtTime(grant.expiresAt!)}
+            >
+              {fmtCountdown(remaining)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export const GovernanceDashboard: React.FC<Props> = ({
-  auditEvents, auditLoading, auditError, onRefresh,
+  auditEvents, grantStates, breakGlassGrants, chainReport, signatureChecks, auditLoading, auditError, onRefresh,
+  onReviewBreakGlass,
 }) => {
   const [typeFilter, setTypeFilter] = useState("all");
   const [search, setSearch] = useState("");
@@ -41,8 +138,8 @@ export const GovernanceDashboard: React.FC<Props> = ({
         return (
           e.type.includes(s) ||
           e.actorWebId.toLowerCase().includes(s) ||
-          e.doctorWebId.toLowerCase().includes(s) ||
-          e.scopeUrl.toLowerCase().includes(s)
+          auditEventGrantee(e).toLowerCase().includes(s) ||
+          (e.resourceUrl ?? e.scopeUrl).toLowerCase().includes(s)
         );
       }
       return true;
@@ -57,14 +154,16 @@ export const GovernanceDashboard: React.FC<Props> = ({
   }, [autoRefresh, onRefresh]);
 
   function exportCsv() {
-    const headers = ["Time", "Type", "Actor", "Recipient", "Scope", "Hash"];
+    const headers = ["Time", "Type", "Actor", "Recipient", "Scope", "Purpose", "Hash", "Signature"];
     const rows = filtered.map((ev) => [
       fmtTime(ev.at),
       ev.type,
       shortId(ev.actorWebId),
-      shortId(ev.doctorWebId),
-      ev.scopeUrl,
+      shortId(auditEventGrantee(ev)),
+      ev.resourceUrl ?? ev.scopeUrl,
+      grantPurposeLabel(ev),
       ev.eventHash,
+      signatureChecks[ev.eventId]?.status ?? "",
     ]);
     const csv = [headers, ...rows]
       .map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(","))
@@ -115,6 +214,10 @@ export const GovernanceDashboard: React.FC<Props> = ({
         </div>
       </div>
 
+      <AuditChainPanel report={chainReport} />
+      <BreakGlassReviewQueue grants={breakGlassGrants} onReview={onReviewBreakGlass} />
+      <ExpiringGrants grantStates={grantStates} />
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-2 mb-4">
         <div className="relative flex-1">
@@ -165,7 +268,7 @@ export const GovernanceDashboard: React.FC<Props> = ({
             <table className="min-w-full text-sm">
               <thead>
                 <tr className="bg-slate-50 border-b border-slate-200">
-                  {["Time", "Type", "Actor", "Recipient", "Scope", "Hash"].map((h) => (
+                  {["Time", "Type", "Actor", "Recipient", "Scope", "Purpose", "Hash", "Signature"].map((h) => (
                     <th key={h} className="text-left px-3 py-2.5 text-[10px] font-semibold text-slate-500 uppercase tracking-widest whitespace-nowrap">
                       {h}
                     </th>
@@ -182,13 +285,22 @@ export const GovernanceDashboard: React.FC<Props> = ({
                       </span>
                     </td>
                     <td className="px-3 py-2.5 text-xs font-mono text-slate-700">{shortId(ev.actorWebId)}</td>
-                    <td className="px-3 py-2.5 text-xs font-mono text-slate-700">{shortId(ev.doctorWebId)}</td>
-                    <td className="px-3 py-2.5 max-w-[200px] truncate text-xs text-slate-500" title={ev.scopeUrl}>
-                      {ev.scopeUrl}
+                    <td className="px-3 py-2.5 text-xs font-mono text-slate-700">{shortId(auditEventGrantee(ev))}</td>
+                    <td
+                      className="px-3 py-2.5 max-w-[200px] truncate text-xs text-slate-500"
+                      title={ev.blockedReason ? `${ev.resourceUrl} (blocked: ${ev.blockedReason})` : ev.resourceUrl ?? ev.scopeUrl}
+                    >
+                      {ev.resourceUrl ?? ev.scopeUrl}
+                    </td>
+                    <td className="px-3 py-2.5 max-w-[180px] truncate text-xs text-slate-600" title={grantPurposeLabel(ev)}>
+                      {grantPurposeLabel(ev)}
                     </td>
                     <td className="px-3 py-2.5 text-xs font-mono text-slate-400" title={ev.eventHash}>
                       {ev.eventHash.slice(0, 12)}…
                     </td>
+                    <td className="px-3 py-2.5">
+                      <SignatureBadge check={signatureChecks[ev.eventId]} />
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,119 @@
+// src/components/IssuerPicker.tsx
+import React, { useState } from "react";
+import { Globe, LogIn, Search } from "lucide-react";
+import { sameIssuer } from "../solid/issuers";
+
+interface Props {
+  issuer: string;
+  known: { name: string; url: string }[];
+  discovered: string[];
+  discovering: boolean;
+  discoverError: string | null;
+  onIssuerChange: (issuer: string) => void;
+  onDiscover: (webId: string) => void;
+  onLogin: () => void;
+}
+
+function hostOf(issuer: string): string {
+  try {
+    return new URL(issuer).host;
+  } catch {
+    return issuer;
+  }
+}
+
+/** Logged out: pick a Solid provider from the list, type one, or find it from a WebID. */
+export const IssuerPicker: React.FC<Props> = ({
+  issuer, known, discovered, discovering, discoverError, onIssuerChange, onDiscover, onLogin,
+}) => {
+  const [webId, setWebId] = useState("");
+
+  const listed = [
+    ...known,
+    ...discovered
+      .filter((url) => !known.some((k) => sameIssuer(k.url, url)))
+      .map((url) => ({ name: `${hostOf(url)} (from your WebID)`, url })),
+  ];
+  const isListed = listed.some((i) => sameIssuer(i.url, issuer));
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-5 mb-5">
+      <div className="flex items-center gap-2 mb-1">
+        <Globe className="w-4 h-4 text-slate-500" />
+        <h2 className="text-base font-semibold text-slate-900">Choose your Solid provider</h2>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">Log in where your pod is hosted. We remember your last choice.</p>
+
+      <fieldset className="space-y-2 mb-4">
+        <legend className="sr-only">Solid provider</legend>
+        {listed.map((i) => (
+          <label key={i.url} className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="radio"
+              name="issuer"
+              value={i.url}
+              checked={sameIssuer(issuer, i.url)}
+              onChange={() => onIssuerChange(i.url)}
+              className="accent-teal-600"
+            />
+            <span className="font-medium">{i.name}</span>
+            <span className="text-xs text-slate-400 font-mono truncate">{i.url}</span>
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="radio"
+            name="issuer"
+            checked={!isListed}
+            onChange={() => onIssuerChange("")}
+            className="accent-teal-600"
+          />
+          <span className="font-medium">Other</span>
+          <input
+            type="url"
+            aria-label="Provider URL"
+            value={isListed ? "" : issuer}
+            onChange={(e) => onIssuerChange(e.target.value)}
+            placeholder="https://your-provider.example/"
+            className="flex-1 min-w-0 border border-slate-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+        </label>
+      </fieldset>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onDiscover(webId);
+        }}
+        className="flex items-center gap-2 mb-1"
+      >
+        <input
+          type="url"
+          aria-label="Your WebID"
+          value={webId}
+          onChange={(e) => setWebId(e.target.value)}
+          placeholder="Or find it from your WebID"
+          className="flex-1 min-w-0 border border-slate-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <button
+          type="submit"
+          disabled={discovering || !webId.trim()}
+          className="inline-flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 py-2 px-3 rounded-lg transition-colors"
+        >
+          <Search className="w-3.5 h-3.5" />
+          {discovering ? "Looking up…" : "Find provider"}
+        </button>
+      </form>
+      {discoverError && <p className="text-xs text-red-600 mb-1">{discoverError}</p>}
+
+      <button
+        onClick={onLogin}
+        disabled={!issuer.trim()}
+        className="mt-3 inline-flex items-center gap-1.5 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors shadow-sm"
+      >
+        <LogIn className="w-4 h-4" />
+        Continue to {issuer.trim() ? hostOf(issuer.trim()) : "provider"}
+      </button>
+    </div>
+  );
+};
@@ -1,16 +1,41 @@
 // src/components/LegalNoticeModal.tsx
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { ShieldCheck, X } from "lucide-react";
+import { diffLines } from "../app/diff";
+import type { GrantTerms } from "../solid/governanceSolid";
+import { fmtGrantPurpose, fmtGrantScope } from "../app/utils";
 
 interface Props {
   noticeText: string;
+  /** Terms version being accepted, e.g. "v2.0". */
+  noticeVersion?: string | null;
+  /** The version this grantee accepted before, when the terms have since changed. */
+  previousNotice?: { version: string; text: string } | null;
+  /** Purpose and scope the patient granted; the grantee agrees to use the data only for these. */
+  grantTerms?: GrantTerms | null;
   onAccept: () => Promise<void>;
   onCancel: () => void;
 }
 
-export const LegalNoticeModal: React.FC<Props> = ({ noticeText, onAccept, onCancel }) => {
+const DIFF_STYLES = {
+  same: "text-slate-600",
+  added: "bg-emerald-50 text-emerald-800",
+  removed: "bg-red-50 text-red-700 line-through",
+} as const;
+
+const DIFF_MARKS = { same: " ", added: "+", removed: "-" } as const;
+
+export const LegalNoticeModal: React.FC<Props> = ({
+  noticeText, noticeVersion, previousNotice, grantTerms, onAccept, onCancel,
+}) => {
   const [checked, setChecked] = useState(false);
   const [accepting, setAccepting] = useState(false);
+  const [showChanges, setShowChanges] = useState(true);
+
+  const diff = useMemo(
+    () => (previousNotice ? diffLines(previousNotice.text, noticeText) : null),
+    [previousNotice, noticeText],
+  );
 
   async function handleAccept() {
     if (!checked || accepting) return;
@@ -31,9 +56,13 @@ export const LegalNoticeModal: React.FC<Props> = ({ noticeText, onAccept, onCanc
             <ShieldCheck className="w-5 h-5 text-teal-700" />
           </div>
           <div className="flex-1">
-            <h2 className="text-base font-semibold text-slate-900">Data Access Legal Notice</h2>
+            <h2 className="text-base font-semibold text-slate-900">
+              Data Access Legal Notice{noticeVersion ? ` (${noticeVersion})` : ""}
+            </h2>
             <p className="text-xs text-slate-500 mt-0.5">
-              This notice must be accepted each time access is granted
+              {previousNotice
+                ? `The terms have changed since you accepted ${previousNotice.version}. Please review and accept them again.`
+                : "This notice must be accepted each time access is granted"}
             </p>
           </div>
           <button
@@ -46,9 +75,49 @@ export const LegalNoticeModal: React.FC<Props> = ({ noticeText, onAccept, onCanc
 
         {/* Notice text */}
         <div className="px-6 py-4">
-          <div className="border border-slate-200 rounded-xl p-4 bg-slate-50 text-sm text-slate-700 whitespace-pre-wrap max-h-60 overflow-auto font-mono leading-relaxed">
-            {noticeText}
-          </div>
+          {grantTerms && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mb-3 text-sm border border-teal-200 bg-teal-50 rounded-xl px-4 py-3">
+              <dt className="text-teal-700 font-medium">Purpose of use</dt>
+              <dd className="text-slate-800">{fmtGrantPurpose(grantTerms)}</dd>
+              <dt className="text-teal-700 font-medium">Access covers</dt>
+              <dd className="text-slate-800">{fmtGrantScope(grantTerms.scope)}</dd>
+            </dl>
+          )}
+
+          {diff && (
+            <div className="flex gap-1 mb-2 text-xs">
+              <button
+                onClick={() => setShowChanges(true)}
+                className={`px-2.5 py-1 rounded-lg ${showChanges ? "bg-teal-100 text-teal-800 font-semibold" : "text-slate-500 hover:bg-slate-100"}`}
+              >
+                Changes since {previousNotice!.version}
+              </button>
+              <button
+                onClick={() => setShowChanges(false)}
+                className={`px-2.5 py-1 rounded-lg ${!showChanges ? "bg-teal-100 text-teal-800 font-semibold" : "text-slate-500 hover:bg-slate-100"}`}
+              >
+                Full text
+              </button>
+            </div>
+          )}
+
+          {diff && showChanges ? (
+            <div
+              data-testid="legal-notice-diff"
+              className="border border-slate-200 rounded-xl py-2 bg-white text-sm max-h-60 overflow-auto font-mono leading-relaxed"
+            >
+              {diff.map((line, i) => (
+                <div key={i} className={`px-4 whitespace-pre-wrap ${DIFF_STYLES[line.kind]}`}>
+                  <span className="select-none text-slate-400 mr-2">{DIFF_MARKS[line.kind]}</span>
+                  {line.text || " "}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="border border-slate-200 rounded-xl p-4 bg-slate-50 text-sm text-slate-700 whitespace-pre-wrap max-h-60 overflow-auto font-mono leading-relaxed">
+              {noticeText}
+            </div>
+          )}
 
           {/* Checkbox acknowledgement */}
           <label className="flex items-start gap-3 mt-4 cursor-pointer group">
@@ -0,0 +1,140 @@
+// src/components/MedicationListEditor.tsx
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type { Medication } from "../solid/healthData";
+import { isWebIdUrl, newMedication } from "../solid/healthData";
+
+type Props = {
+  medications: Medication[];
+  onChange: (value: Medication[]) => void;
+  readOnly: boolean;
+  /** Prefilled as the prescriber of new entries. */
+  prescriberWebId?: string;
+};
+
+type TextColumn = {
+  key: "name" | "strength" | "route" | "frequency" | "startDate" | "stopDate" | "prescriberWebId";
+  label: string;
+  type: "text" | "date" | "url";
+  placeholder?: string;
+};
+
+const COLUMNS: TextColumn[] = [
+  { key: "name",            label: "Drug",       type: "text", placeholder: "Metformin" },
+  { key: "strength",        label: "Strength",   type: "text", placeholder: "500 mg" },
+  { key: "route",           label: "Route",      type: "text", placeholder: "oral" },
+  { key: "frequency",       label: "Frequency",  type: "text", placeholder: "twice daily" },
+  { key: "startDate",       label: "Start",      type: "date" },
+  { key: "stopDate",        label: "Stop",       type: "date" },
+  { key: "prescriberWebId", label: "Prescriber", type: "url",  placeholder: "https://…/profile/card#me" },
+];
+
+/** The inline error for a cell, if its value is not what the column expects. */
+function cellError(c: TextColumn, value: string): string | null {
+  if (c.key === "prescriberWebId" && value && !isWebIdUrl(value)) {
+    return "Not a WebID (https://…); it is saved as the prescriber's name.";
+  }
+  return null;
+}
+
+const cellInput =
+  "w-full border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-800 " +
+  "focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent " +
+  "disabled:bg-slate-50 disabled:text-slate-500 transition-colors";
+
+/** Table editor for the medication list, one row per entry. */
+export const MedicationListEditor: React.FC<Props> = ({ medications, onChange, readOnly, prescriberWebId }) => {
+  function update(id: string, patch: Partial<Medication>) {
+    onChange(medications.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+  }
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-x-auto">
+      <table className="w-full min-w-[56rem]">
+        <thead>
+          <tr className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest text-left bg-slate-50">
+            {COLUMNS.map((c) => <th key={c.key} className="px-2 py-1.5">{c.label}</th>)}
+            <th className="px-2 py-1.5">Status</th>
+            <th className="px-2 py-1.5" title="Shown to a pharmacy with access to the record">Pharmacy</th>
+            {!readOnly && <th className="w-8" />}
+          </tr>
+        </thead>
+        <tbody>
+          {medications.length === 0 && (
+            <tr>
+              <td colSpan={COLUMNS.length + 3} className="px-2 py-3 text-xs text-slate-500">No medications listed.</td>
+            </tr>
+          )}
+          {medications.map((m, i) => (
+            <tr key={m.id} data-testid="medication-row" className="border-t border-slate-100">
+              {COLUMNS.map((c) => {
+                const error = readOnly ? null : cellError(c, m[c.key]);
+                const errorId = `${c.key}-error-${m.id}`;
+                return (
+                  <td key={c.key} className="p-1 align-top">
+                    <input
+                      type={c.type}
+                      aria-label={`${c.label} ${i + 1}`}
+                      aria-invalid={error ? true : undefined}
+                      aria-describedby={error ? errorId : undefined}
+                      className={`${cellInput} ${error ? "border-red-300" : ""}`}
+                      value={m[c.key]}
+                      placeholder={readOnly ? undefined : c.placeholder}
+                      disabled={readOnly}
+                      onChange={(e) => update(m.id, { [c.key]: e.target.value })}
+                    />
+                    {error && <p id={errorId} className="text-[11px] text-red-600 mt-0.5">{error}</p>}
+                  </td>
+                );
+              })}
+              <td className="p-1">
+                <select
+                  aria-label={`Status ${i + 1}`}
+                  className={cellInput}
+                  value={m.status}
+                  disabled={readOnly}
+                  onChange={(e) => update(m.id, { status: e.target.value as Medication["status"] })}
+                >
+                  <option value="active">Active</option>
+                  <option value="discontinued">Discontinued</option>
+                </select>
+              </td>
+              <td className="p-1 text-center">
+                <input
+                  type="checkbox"
+                  aria-label={`Share ${m.name || `medication ${i + 1}`} with pharmacy`}
+                  className="accent-teal-600"
+                  checked={m.sharedWithPharmacy}
+                  disabled={readOnly}
+                  onChange={(e) => update(m.id, { sharedWithPharmacy: e.target.checked })}
+                />
+              </td>
+              {!readOnly && (
+                <td className="p-1">
+                  <button
+                    type="button"
+                    onClick={() => onChange(medications.filter((x) => x.id !== m.id))}
+                    aria-label={`Remove medication ${i + 1}`}
+                    className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {!readOnly && (
+        <button
+          type="button"
+          onClick={() => onChange([...medications, newMedication(prescriberWebId)])}
+          className="inline-flex items-center gap-1 m-2 text-xs font-medium text-teal-700 hover:text-teal-800"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add medication
+        </button>
+      )}
+    </div>
+  );
+};
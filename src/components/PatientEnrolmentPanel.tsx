@@ -0,0 +1,88 @@
+// src/components/PatientEnrolmentPanel.tsx
+import React, { useEffect, useState } from "react";
+import { UserPlus } from "lucide-react";
+
+interface Props {
+  webId: string;
+  suggestedPodUrl: string;
+  requested: boolean;
+  error: string | null;
+  onRequest: (label: string, podBaseUrl: string) => Promise<void>;
+}
+
+/** Unenrolled WebID: asks governance to add this patient to the registry. */
+export const PatientEnrolmentPanel: React.FC<Props> = ({ webId, suggestedPodUrl, requested, error, onRequest }) => {
+  const [label, setLabel] = useState("");
+  const [podBaseUrl, setPodBaseUrl] = useState(suggestedPodUrl);
+  const [submitting, setSubmitting] = useState(false);
+
+  // The profile lookup may finish after the form is shown; never overwrite a typed URL
+  useEffect(() => {
+    setPodBaseUrl((cur) => cur || suggestedPodUrl);
+  }, [suggestedPodUrl]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await onRequest(label, podBaseUrl);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const inputClass =
+    "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50";
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-6 mb-5">
+      <div className="flex items-center gap-2 mb-1">
+        <UserPlus className="w-4 h-4 text-teal-600" />
+        <h2 className="text-base font-semibold text-slate-900">Register as a patient</h2>
+      </div>
+      <p className="text-xs text-slate-500 mb-4 break-all">
+        {webId} is not in the patient registry yet. Governance reviews each registration before clinicians can find you.
+      </p>
+
+      {requested ? (
+        <div className="bg-teal-50 border border-teal-200 text-teal-800 px-4 py-3 rounded-lg text-sm">
+          Your registration is waiting for approval. Sign in again once governance has approved it.
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+          )}
+          <label className="block text-xs font-medium text-slate-700">
+            Your name
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              disabled={submitting}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="block text-xs font-medium text-slate-700">
+            Pod URL
+            <input
+              type="url"
+              value={podBaseUrl}
+              onChange={(e) => setPodBaseUrl(e.target.value)}
+              disabled={submitting}
+              placeholder="https://pod.example/alice/"
+              className={`mt-1 font-mono ${inputClass}`}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={submitting || !label.trim() || !podBaseUrl.trim()}
+            className="text-sm font-semibold text-white bg-teal-600 hover:bg-teal-700 disabled:opacity-60 px-4 py-2 rounded-lg transition-colors"
+          >
+            {submitting ? "Sending…" : "Request registration"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
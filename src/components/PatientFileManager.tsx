@@ -1,8 +1,9 @@
 // src/components/PatientFileManager.tsx
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import type { PatientFile } from "../solid/healthData";
 import type { Role } from "../app/hooks/usePatientContext";
-import { Pencil, Trash2, ChevronDown, ChevronUp, Search, ArrowUpDown } from "lucide-react";
+import { fmtBytes } from "../app/utils";
+import { Pencil, Trash2, ChevronDown, ChevronUp, Search, ArrowUpDown, Paperclip, Eye, Download, X } from "lucide-react";
 
 interface Props {
   files: PatientFile[];
@@ -11,6 +12,8 @@ interface Props {
   canEdit: boolean;
   onDelete: (fileId: string) => void;
   onEdit: (file: PatientFile) => void;
+  /** Reads a file's attachment, checked against its SHA-256. */
+  onLoadAttachment: (file: PatientFile) => Promise<Blob>;
   role: Role;
 }
 
@@ -35,14 +38,109 @@ const SHARE_BADGES = [
 
 type SortKey = "createdAt" | "updatedAt" | "title" | "type";
 
+/** Browsers render PDFs and images themselves; DICOM and the rest can only be downloaded. */
+function previewKind(contentType: string): "pdf" | "image" | null {
+  if (contentType === "application/pdf") return "pdf";
+  if (contentType.startsWith("image/") && contentType !== "image/tiff") return "image";
+  return null;
+}
+
+function saveBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const AttachmentPreview: React.FC<{
+  file: PatientFile;
+  onLoad: (file: PatientFile) => Promise<Blob>;
+  onClose: () => void;
+}> = ({ file, onLoad, onClose }) => {
+  const attachment = file.attachment!;
+  const kind = previewKind(attachment.contentType);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    onLoad(file)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch((e) => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+    // Load once per file: handlers from App change identity on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={`Preview of ${attachment.name}`}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-200">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-slate-900 truncate">{attachment.name}</h3>
+            <p className="text-[11px] text-slate-400 truncate">
+              {attachment.contentType} · {fmtBytes(attachment.size)} · SHA-256 {attachment.sha256.slice(0, 12)}…
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close preview"
+            className="text-slate-400 hover:text-slate-600 p-1 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-50 rounded-b-2xl overflow-auto">
+          {error && <p className="text-sm text-red-700 px-5">{error}</p>}
+          {!error && !objectUrl && (
+            <div className="animate-spin rounded-full h-7 w-7 border-2 border-teal-600 border-t-transparent" />
+          )}
+          {objectUrl && kind === "image" && (
+            <img src={objectUrl} alt={attachment.name} className="max-w-full max-h-full object-contain" />
+          )}
+          {objectUrl && kind === "pdf" && (
+            <iframe src={objectUrl} title={attachment.name} className="w-full h-full rounded-b-2xl" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const PatientFileManager: React.FC<Props> = ({
-  files, loading, error, canEdit, onDelete, onEdit, role,
+  files, loading, error, canEdit, onDelete, onEdit, onLoadAttachment, role,
 }) => {
   const [search, setSearch] = useState("");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [sortKey, setSortKey] = useState<SortKey>("createdAt");
   const [sortDesc, setSortDesc] = useState(true);
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [previewing, setPreviewing] = useState<PatientFile | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  async function handleDownload(file: PatientFile) {
+    setDownloadError(null);
+    try {
+      saveBlob(await onLoadAttachment(file), file.attachment?.name ?? file.title);
+    } catch (e) {
+      setDownloadError(e instanceof Error ? e.message : String(e));
+    }
+  }
 
   const visibleFiles = useMemo(() => files.filter((f) => {
     if (role === "pharmacy")  return f.type === "prescription";
@@ -195,6 +293,29 @@ const PatientFileManager: React.FC<Props> = ({
                     ))}
                   </div>
                   {file.description && <p className="text-xs text-slate-600 mt-1.5 leading-relaxed">{file.description}</p>}
+                  {file.attachment && (
+                    <div data-testid="file-attachment" className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                      <Paperclip className="w-3.5 h-3.5 text-slate-400" />
+                      <span className="text-slate-700">{file.attachment.name}</span>
+                      <span className="text-slate-400">{fmtBytes(file.attachment.size)}</span>
+                      {previewKind(file.attachment.contentType) && (
+                        <button
+                          onClick={() => setPreviewing(file)}
+                          className="inline-flex items-center gap-1 font-medium text-teal-700 hover:text-teal-800"
+                        >
+                          <Eye className="w-3.5 h-3.5" />
+                          Preview
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDownload(file)}
+                        className="inline-flex items-center gap-1 font-medium text-teal-700 hover:text-teal-800"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                        Download
+                      </button>
+                    </div>
+                  )}
                   <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-400">
                     <span>Created {new Date(file.createdAt).toLocaleDateString()}</span>
                     {file.updatedAt !== file.createdAt && <span>Updated {new Date(file.updatedAt).toLocaleDateString()}</span>}
@@ -215,6 +336,14 @@ const PatientFileManager: React.FC<Props> = ({
       {displayFiles.length > 0 && (
         <p className="text-xs text-slate-400 mt-3">{displayFiles.length} of {visibleFiles.length} files</p>
       )}
+
+      {downloadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg mt-3 text-xs">{downloadError}</div>
+      )}
+
+      {previewing && (
+        <AttachmentPreview file={previewing} onLoad={onLoadAttachment} onClose={() => setPreviewing(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+// src/components/PatientPicker.tsx
+import React, { useState } from "react";
+import { RefreshCw, Search } from "lucide-react";
+import type { GranteePatient, PatientAccess } from "../solid/governanceSolid";
+
+interface Props {
+  patients: GranteePatient[];
+  selected: string;
+  loading: boolean;
+  onSelect: (id: string) => void;
+  onRefresh: () => void;
+}
+
+const ACCESS_SUFFIX: Record<PatientAccess, string> = {
+  granted: "",
+  "break-glass": " (break-glass only)",
+  ended: " (access ended)",
+};
+
+/** Clinician: patients who have granted this WebID access, filtered by name or WebID. */
+export const PatientPicker: React.FC<Props> = ({ patients, selected, loading, onSelect, onRefresh }) => {
+  const [query, setQuery] = useState("");
+
+  const q = query.trim().toLowerCase();
+  // Keep the current patient listed so the select never shows a stale value
+  const shown = patients.filter(
+    (p) => p.id === selected || !q || p.label.toLowerCase().includes(q) || p.webId.toLowerCase().includes(q),
+  );
+
+  if (!loading && patients.length === 0) {
+    return (
+      <div className="flex items-center justify-between gap-3 mb-4 p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-600">
+        <span>No patient has granted you access. Access is not currently granted or has been revoked.</span>
+        <button
+          onClick={onRefresh}
+          aria-label="Refresh patient list"
+          className="text-slate-500 hover:text-slate-700 p-1 rounded-lg transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4">
+      <label htmlFor="patientSelect" className="text-sm font-medium text-slate-700">
+        Patient:
+      </label>
+      <div className="relative">
+        <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          aria-label="Search patients"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search patients"
+          className="border border-slate-200 rounded-lg pl-8 pr-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+      </div>
+      {patients.length > 0 && (
+        <select
+          id="patientSelect"
+          className="border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+          value={selected}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {shown.map((p) => (
+            <option key={p.id} value={p.id}>{p.label}{ACCESS_SUFFIX[p.access]}</option>
+          ))}
+        </select>
+      )}
+      <button
+        onClick={onRefresh}
+        disabled={loading}
+        aria-label="Refresh patient list"
+        className="text-slate-500 hover:text-slate-700 disabled:opacity-50 p-1 rounded-lg transition-colors"
+      >
+        <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+      </button>
+    </div>
+  );
+};
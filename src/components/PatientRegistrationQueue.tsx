@@ -0,0 +1,85 @@
+// src/components/PatientRegistrationQueue.tsx
+import React, { useState } from "react";
+import { UserPlus } from "lucide-react";
+import type { PendingRegistration } from "../solid/governanceSolid";
+import { fmtTime } from "../app/utils";
+import { SignatureBadge } from "./GovernanceDashboard";
+
+interface Props {
+  pending: PendingRegistration[];
+  onApprove: (request: PendingRegistration) => Promise<void>;
+  onReject: (request: PendingRegistration) => Promise<void>;
+}
+
+function RequestRow({ request, onApprove, onReject }: { request: PendingRegistration } & Omit<Props, "pending">) {
+  const [busy, setBusy] = useState(false);
+  const { registration, signature } = request;
+
+  async function decide(fn: Props["onApprove"]) {
+    setBusy(true);
+    try {
+      await fn(request);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <li className="border border-slate-200 rounded-lg p-3 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="text-sm font-medium text-slate-900">{registration.label}</span>
+        <span className="flex items-center gap-2">
+          <SignatureBadge check={signature} />
+          <span className="text-slate-500">{fmtTime(registration.requestedAt)}</span>
+        </span>
+      </div>
+      <p className="text-xs font-mono text-slate-600 mt-1 break-all">{registration.webId}</p>
+      <p className="text-xs font-mono text-slate-500 break-all">{registration.podBaseUrl}</p>
+      {signature.status === "unsigned" && (
+        <p className="text-xs text-amber-700 mt-1.5">
+          Unverified: this request is not signed, so it may not come from this WebID. Confirm with the patient
+          before approving.
+        </p>
+      )}
+
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={() => decide(onApprove)}
+          disabled={busy || signature.status === "invalid"}
+          className="text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-60 px-3 py-1.5 rounded-lg transition-colors"
+        >
+          Approve
+        </button>
+        <button
+          onClick={() => decide(onReject)}
+          disabled={busy}
+          className="text-xs font-semibold text-white bg-red-600 hover:bg-red-700 disabled:opacity-60 px-3 py-1.5 rounded-lg transition-colors"
+        >
+          Reject
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/** Governance: patients who asked to join the registry. Approving one enrols them. */
+export const PatientRegistrationQueue: React.FC<Props> = ({ pending, onApprove, onReject }) => {
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="border border-slate-200 bg-slate-50 rounded-xl p-4 mt-5">
+      <div className="flex items-center gap-2 mb-3">
+        <UserPlus className="w-4 h-4 text-teal-600" />
+        <h3 className="text-sm font-semibold text-slate-900">Patient registrations</h3>
+        <span className="text-xs font-semibold bg-teal-100 text-teal-800 rounded-full px-2 py-0.5">
+          {pending.length} pending
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {pending.map((r) => (
+          <RequestRow key={r.url} request={r} onApprove={onApprove} onReject={onReject} />
+        ))}
+      </ul>
+    </div>
+  );
+};
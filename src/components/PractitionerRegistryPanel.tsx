@@ -0,0 +1,157 @@
+// src/components/PractitionerRegistryPanel.tsx
+import React, { useState } from "react";
+import { Stethoscope, Trash2, UserPlus } from "lucide-react";
+import type { GranteeRole, Practitioner, PractitionerRevocations } from "../solid/governanceSolid";
+import { GRANTEE_ROLES } from "../solid/governanceSolid";
+import { shortId } from "../app/utils";
+
+interface Props {
+  practitioners: Practitioner[];
+  loading: boolean;
+  error: string | null;
+  /** What the last save ended for practitioners no longer registered in their role. */
+  lastRevocations: PractitionerRevocations | null;
+  onAdd: (practitioner: Practitioner) => Promise<boolean>;
+  onRemove: (webId: string) => Promise<boolean>;
+}
+
+const inputClass =
+  "border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50";
+
+/** Governance: who may act as doctor, emergency, nurse or pharmacy, and for which organisation. */
+export const PractitionerRegistryPanel: React.FC<Props> = ({
+  practitioners,
+  loading,
+  error,
+  lastRevocations,
+  onAdd,
+  onRemove,
+}) => {
+  const [webId, setWebId] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<GranteeRole>("doctor");
+  const [organisation, setOrganisation] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const added = await onAdd({ webId: webId.trim(), name: name.trim(), role, organisation: organisation.trim() });
+      if (added) {
+        setWebId("");
+        setName("");
+        setOrganisation("");
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRemove(id: string) {
+    setSaving(true);
+    try {
+      await onRemove(id);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const busy = loading || saving;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-6 mt-5">
+      <div className="flex items-center gap-2 mb-1">
+        <Stethoscope className="w-4 h-4 text-slate-500" />
+        <h2 className="text-base font-semibold text-slate-900">Practitioner registry</h2>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Roles are resolved from this registry at login. Patients choose a registered practitioner for each grant.
+        Removing a practitioner revokes their grants and ends their break-glass access at once; each patient's pod
+        stops admitting them the next time that patient signs in.
+      </p>
+
+      {lastRevocations && lastRevocations.revokedGrants + lastRevocations.closedBreakGlass > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg mb-4 text-sm">
+          Revoked {lastRevocations.revokedGrants} grant{lastRevocations.revokedGrants === 1 ? "" : "s"} and closed{" "}
+          {lastRevocations.closedBreakGlass} break-glass access{lastRevocations.closedBreakGlass === 1 ? "" : "es"}.
+          The affected patients' pods are updated at their next sign-in.
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+      )}
+
+      {practitioners.length > 0 && (
+        <ul className="divide-y divide-slate-100 text-sm mb-4">
+          {practitioners.map((p) => (
+            <li key={p.webId} className="flex flex-wrap items-center gap-2 py-2">
+              <span className="font-medium text-slate-800">{p.name}</span>
+              <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-100 text-slate-700">{p.role}</span>
+              {p.organisation && <span className="text-xs text-slate-500">{p.organisation}</span>}
+              <span className="text-xs font-mono text-slate-400" title={p.webId}>{shortId(p.webId)}</span>
+              <button
+                onClick={() => handleRemove(p.webId)}
+                disabled={busy}
+                aria-label={`Remove ${p.name}`}
+                className="ml-auto text-slate-400 hover:text-red-600 disabled:opacity-50 p-1 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          type="url"
+          aria-label="Practitioner WebID"
+          placeholder="WebID"
+          value={webId}
+          onChange={(e) => setWebId(e.target.value)}
+          disabled={busy}
+          className={`${inputClass} font-mono sm:col-span-2`}
+        />
+        <input
+          type="text"
+          aria-label="Practitioner name"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={busy}
+          className={inputClass}
+        />
+        <select
+          aria-label="Practitioner role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as GranteeRole)}
+          disabled={busy}
+          className={inputClass}
+        >
+          {GRANTEE_ROLES.map((r) => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          aria-label="Practitioner organisation"
+          placeholder="Organisation"
+          value={organisation}
+          onChange={(e) => setOrganisation(e.target.value)}
+          disabled={busy}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={busy || !webId.trim() || !name.trim()}
+          className="inline-flex items-center justify-center gap-1.5 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          <UserPlus className="w-4 h-4" />
+          Add practitioner
+        </button>
+      </form>
+    </div>
+  );
+};
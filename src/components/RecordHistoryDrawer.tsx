@@ -0,0 +1,149 @@
+// src/components/RecordHistoryDrawer.tsx
+import React, { useState } from "react";
+import { History, RefreshCw, RotateCcw, X } from "lucide-react";
+import { changedRecordFields, FULL_RECORD_LABELS, recordFieldText } from "../solid/healthData";
+import type { FullRecord, RecordVersion } from "../solid/healthData";
+import { diffLines } from "../app/diff";
+import { fmtTime, shortId } from "../app/utils";
+
+export interface RecordHistoryProps {
+  versions: RecordVersion[];
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  /** Omitted for roles that cannot write the record. */
+  onRestore?: (version: RecordVersion) => Promise<void>;
+}
+
+const DIFF_STYLES = {
+  same: "text-slate-600",
+  added: "bg-emerald-50 text-emerald-800",
+  removed: "bg-red-50 text-red-700 line-through",
+} as const;
+
+const DIFF_MARKS = { same: " ", added: "+", removed: "-" } as const;
+
+/** Per-field line diff from the record on screen to an earlier version. */
+const VersionDiff: React.FC<{ current: FullRecord; version: FullRecord }> = ({ current, version }) => {
+  const changed = changedRecordFields(current, version);
+  if (changed.length === 0) return <p className="text-xs text-slate-500">Same as the record on screen.</p>;
+
+  return (
+    <div data-testid="record-version-diff" className="space-y-2">
+      {changed.map((key) => (
+        <div key={key}>
+          <div className="text-[10px] font-semibold uppercase tracking-widest text-slate-400 mb-0.5">
+            {FULL_RECORD_LABELS[key]}
+          </div>
+          <div className="border border-slate-200 rounded-lg py-1 text-xs font-mono leading-relaxed">
+            {diffLines(recordFieldText(current, key), recordFieldText(version, key)).map((line, i) => (
+              <div key={i} className={`px-2 whitespace-pre-wrap ${DIFF_STYLES[line.kind]}`}>
+                <span className="select-none text-slate-400 mr-1.5">{DIFF_MARKS[line.kind]}</span>
+                {line.text || " "}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** Side drawer listing saved versions of the record, newest first. */
+export const RecordHistoryDrawer: React.FC<RecordHistoryProps & { current: FullRecord; onClose: () => void }> = ({
+  versions, loading, error, onRefresh, onRestore, current, onClose,
+}) => {
+  const [openUrl, setOpenUrl] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  async function handleRestore(version: RecordVersion) {
+    if (!onRestore) return;
+    setRestoring(true);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-label="Record history"
+        onClick={(e) => e.stopPropagation()}
+        className="h-full w-full max-w-md bg-white shadow-2xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-slate-500" />
+            <h2 className="text-base font-semibold text-slate-900">Record history</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onRefresh}
+              disabled={loading}
+              aria-label="Refresh record history"
+              className="text-slate-500 hover:text-slate-700 disabled:opacity-50 p-1 rounded-lg transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            </button>
+            <button onClick={onClose} aria-label="Close record history" className="text-slate-500 hover:text-slate-700 p-1 rounded-lg">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {error && <p className="text-xs text-slate-500">{error}</p>}
+          {!error && !loading && versions.length === 0 && (
+            <p className="text-xs text-slate-500">No earlier versions have been saved yet.</p>
+          )}
+
+          <ol className="space-y-2">
+            {versions.map((v, i) => {
+              const open = openUrl === v.url;
+              return (
+                <li key={v.url ?? v.savedAt} className="border border-slate-200 rounded-xl">
+                  <button
+                    onClick={() => setOpenUrl(open ? null : v.url ?? null)}
+                    aria-expanded={open}
+                    className="w-full text-left px-3 py-2.5"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-slate-800">{fmtTime(v.savedAt)}</span>
+                      {i === 0 && (
+                        <span className="text-[10px] font-semibold uppercase tracking-widest text-teal-700">Latest</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-600 mt-0.5">{v.summary}</p>
+                    {v.authorWebId && (
+                      <p className="text-[11px] text-slate-400 mt-0.5">by {shortId(v.authorWebId)}</p>
+                    )}
+                  </button>
+
+                  {open && (
+                    <div className="px-3 pb-3 border-t border-slate-100 pt-2">
+                      <p className="text-[11px] text-slate-500 mb-2">Changes from the record on screen to this version:</p>
+                      <VersionDiff current={current} version={v.record} />
+                      {onRestore && (
+                        <button
+                          onClick={() => handleRestore(v)}
+                          disabled={restoring}
+                          className="mt-3 inline-flex items-center gap-1.5 text-xs font-semibold bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white py-1.5 px-3 rounded-lg transition-colors"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          {restoring ? "Restoring…" : "Restore this version"}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </aside>
+    </div>
+  );
+};
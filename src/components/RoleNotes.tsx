@@ -7,15 +7,15 @@ const NOTES: Partial<Record<Role, string>> = {
   doctor:
     "You can view and edit the patient's full record when granted access. Each access requires accepting a legal notice. If access is revoked, data is cleared shortly after.",
   emergency:
-    "As the emergency profile, you can only see records where ACP explicitly grants read access.",
+    "As the emergency profile, you can see records where the patient grants read access (each access requires accepting a legal notice), or break glass with a written justification for one hour of read access.",
   patient:
     "You are logged in as the patient. Manage your records and files, and use the Access Control panel to grant or revoke access for other roles.",
   pharmacy:
-    "As a pharmacy, you can view files that have been shared with you (prescriptions only).",
+    "As a pharmacy, you can view files that have been shared with you (prescriptions only) and the medications the patient shares with pharmacy. Each access requires accepting a legal notice.",
   nurse:
-    "As a nurse, you can view patient files and assist with data entry when enabled by policy.",
+    "As a nurse, you can view patient files and assist with data entry when enabled by policy. Each access requires accepting a legal notice.",
   unknown:
-    "Your WebID is not recognised as a configured role. Update src/solid/config.ts if this is a new actor.",
+    "Your WebID is not a configured staff role or an enrolled patient. Patients can register above; governance approves each registration.",
 };
 
 export const RoleNotes: React.FC<{ role: Role }> = ({ role }) => {
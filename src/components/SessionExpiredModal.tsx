@@ -0,0 +1,49 @@
+// src/components/SessionExpiredModal.tsx
+import React, { useState } from "react";
+import { Clock } from "lucide-react";
+
+interface Props {
+  /** Whether there are record edits that will be carried over the re-login. */
+  hasUnsavedEdits: boolean;
+  onRelogin: () => Promise<void>;
+}
+
+/** Shown when the session runs out mid-use; the app stays on screen underneath. */
+export const SessionExpiredModal: React.FC<Props> = ({ hasUnsavedEdits, onRelogin }) => {
+  const [redirecting, setRedirecting] = useState(false);
+
+  async function handleRelogin() {
+    setRedirecting(true);
+    try {
+      await onRelogin();
+    } finally {
+      setRedirecting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div role="alertdialog" aria-labelledby="session-expired-title" className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-10 h-10 rounded-full bg-amber-100 flex items-center justify-center flex-shrink-0">
+            <Clock className="w-5 h-5 text-amber-700" />
+          </div>
+          <h2 id="session-expired-title" className="text-base font-semibold text-slate-900">
+            Your session has expired
+          </h2>
+        </div>
+        <p className="text-sm text-slate-600 mb-5">
+          Log in again to keep working.
+          {hasUnsavedEdits && " Your unsaved changes to the record are kept and will be back after you log in."}
+        </p>
+        <button
+          onClick={handleRelogin}
+          disabled={redirecting}
+          className="w-full bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          {redirecting ? "Redirecting…" : "Log in again"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+// src/components/TermsPanel.tsx
+import React, { useEffect, useState } from "react";
+import { FileText, Upload } from "lucide-react";
+import type { TermsVersion } from "../solid/governanceSolid";
+import { fmtTime, shortId } from "../app/utils";
+
+interface Props {
+  current: TermsVersion | null;
+  currentText: string;
+  versions: TermsVersion[];
+  loading: boolean;
+  error: string | null;
+  onPublish: (text: string) => Promise<void>;
+}
+
+/** Governance: publish a new version of the data use notice. Grantees must accept it again. */
+export const TermsPanel: React.FC<Props> = ({ current, currentText, versions, loading, error, onPublish }) => {
+  const [draft, setDraft] = useState(currentText);
+  const [publishing, setPublishing] = useState(false);
+
+  // Start each edit from the text that is actually in force
+  useEffect(() => setDraft(currentText), [currentText]);
+
+  const unchanged = draft.trim() === currentText.trim();
+
+  async function handlePublish() {
+    setPublishing(true);
+    try {
+      await onPublish(draft);
+    } finally {
+      setPublishing(false);
+    }
+  }
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-6 mt-5">
+      <div className="flex items-center gap-2 mb-1">
+        <FileText className="w-4 h-4 text-slate-500" />
+        <h2 className="text-base font-semibold text-slate-900">Terms of use</h2>
+        {current && (
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-teal-100 text-teal-800">
+            Current: {current.version}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Publishing a new version asks every grantee to review the changes and accept the notice again before reading.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+      )}
+
+      <textarea
+        aria-label="Terms of use text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={loading || publishing}
+        rows={8}
+        className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+      />
+
+      <div className="flex justify-end mt-2">
+        <button
+          onClick={handlePublish}
+          disabled={loading || publishing || unchanged || !draft.trim()}
+          className="inline-flex items-center gap-1.5 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          {publishing ? "Publishing…" : "Publish new version"}
+        </button>
+      </div>
+
+      {versions.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-100 text-xs">
+          {versions.map((v) => (
+            <li key={v.version} className="flex flex-wrap items-center gap-2 py-2">
+              <span className="font-semibold text-slate-800">{v.version}</span>
+              <span className="text-slate-500">{fmtTime(v.publishedAt)}</span>
+              <span className="text-slate-500">by {shortId(v.publishedBy)}</span>
+              <span className="font-mono text-slate-400 truncate max-w-[12rem]" title={v.hash}>{v.hash}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
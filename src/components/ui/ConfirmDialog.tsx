@@ -1,6 +1,6 @@
 // src/components/ui/ConfirmDialog.tsx
 import React, { createContext, useCallback, useContext, useRef, useState } from "react";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, GitMerge } from "lucide-react";
 
 interface ConfirmOptions {
   title?: string;
@@ -9,11 +9,130 @@ interface ConfirmOptions {
   variant?: "danger" | "primary";
 }
 
+/** Two versions of the same object; the user picks one side per differing field. */
+interface MergeOptions<T extends object> {
+  title?: string;
+  message: string;
+  /** `format` renders values that are not plain text, such as lists. */
+  fields: { key: keyof T & string; label: string; format?: (value: unknown) => string }[];
+  mine: T;
+  theirs: T;
+}
+
 interface ConfirmContextValue {
   confirm: (opts: ConfirmOptions) => Promise<boolean>;
+  /** Resolves to `mine` with the fields the user took from `theirs`, or null if cancelled. */
+  merge: <T extends object>(opts: MergeOptions<T>) => Promise<T | null>;
+}
+
+const ConfirmContext = createContext<ConfirmContextValue>({
+  confirm: async () => false,
+  merge: async () => null,
+});
+
+type Side = "mine" | "theirs";
+
+function show(value: unknown): string {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return value === undefined || value === null || value === "" ? "—" : String(value);
 }
 
-const ConfirmContext = createContext<ConfirmContextValue>({ confirm: async () => false });
+const MergeDialog: React.FC<{
+  opts: MergeOptions<Record<string, unknown>>;
+  onDone: (merged: Record<string, unknown> | null) => void;
+}> = ({ opts, onDone }) => {
+  const text = (f: (typeof opts.fields)[number], value: unknown) => (f.format ? f.format(value) : show(value));
+  const differing = opts.fields.filter((f) => text(f, opts.mine[f.key]) !== text(f, opts.theirs[f.key]));
+  const [picked, setPicked] = useState<Record<string, Side>>({});
+
+  const sideOf = (key: string): Side => picked[key] ?? "mine";
+  const pickAll = (side: Side) => setPicked(Object.fromEntries(differing.map((f) => [f.key, side])));
+
+  function handleSave() {
+    const merged = { ...opts.mine };
+    for (const f of differing) if (sideOf(f.key) === "theirs") merged[f.key] = opts.theirs[f.key];
+    onDone(merged);
+  }
+
+  const cell = (key: string, side: Side, value: string) => (
+    <td className="p-1 align-top">
+      <button
+        type="button"
+        onClick={() => setPicked((p) => ({ ...p, [key]: side }))}
+        aria-pressed={sideOf(key) === side}
+        className={`w-full text-left whitespace-pre-wrap break-words rounded-lg border px-2 py-1.5 text-xs transition-colors ${
+          sideOf(key) === side
+            ? "border-teal-500 bg-teal-50 text-slate-900"
+            : "border-slate-200 bg-white text-slate-500 hover:border-slate-300"
+        }`}
+      >
+        {value}
+      </button>
+    </td>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div role="dialog" aria-labelledby="merge-title" className="bg-white rounded-2xl shadow-2xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full bg-amber-100 flex items-center justify-center flex-shrink-0">
+            <GitMerge className="w-5 h-5 text-amber-700" />
+          </div>
+          <div>
+            <h3 id="merge-title" className="text-base font-semibold text-slate-900 mb-1">
+              {opts.title ?? "Resolve conflicting changes"}
+            </h3>
+            <p className="text-sm text-slate-600">{opts.message}</p>
+          </div>
+        </div>
+
+        {differing.length === 0 ? (
+          <p className="text-sm text-slate-600 mb-5">Both versions are the same; saving keeps them as they are.</p>
+        ) : (
+          <>
+            <div className="flex justify-end gap-3 mb-2 text-xs font-medium">
+              <button onClick={() => pickAll("mine")} className="text-teal-700 hover:text-teal-800">Keep all mine</button>
+              <button onClick={() => pickAll("theirs")} className="text-teal-700 hover:text-teal-800">Take all theirs</button>
+            </div>
+            <table className="w-full table-fixed mb-5">
+              <thead>
+                <tr className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest text-left">
+                  <th className="p-1 w-1/5">Field</th>
+                  <th className="p-1">Your version</th>
+                  <th className="p-1">Saved version</th>
+                </tr>
+              </thead>
+              <tbody>
+                {differing.map((f) => (
+                  <tr key={f.key}>
+                    <td className="p-1 align-top text-xs font-medium text-slate-700">{f.label}</td>
+                    {cell(f.key, "mine", text(f, opts.mine[f.key]))}
+                    {cell(f.key, "theirs", text(f, opts.theirs[f.key]))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => onDone(null)}
+            className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-semibold rounded-lg transition-colors bg-teal-600 hover:bg-teal-700 text-white"
+          >
+            Save merged version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
 
 export function useConfirm() {
   return useContext(ConfirmContext);
@@ -23,6 +142,10 @@ export function ConfirmDialogProvider({ children }: { children: React.ReactNode
   const [open, setOpen] = useState(false);
   const [opts, setOpts] = useState<ConfirmOptions>({ message: "" });
   const resolveRef = useRef<((v: boolean) => void) | null>(null);
+  const [mergeOpts, setMergeOpts] = useState<MergeOptions<Record<string, unknown>> | null>(null);
+  const mergeResolveRef = useRef<((v: Record<string, unknown> | null) => void) | null>(null);
+  // A conflict right after a merge reopens the dialog; the key resets its choices
+  const [mergeKey, setMergeKey] = useState(0);
 
   const confirm = useCallback((options: ConfirmOptions): Promise<boolean> => {
     setOpts(options);
@@ -32,17 +155,39 @@ export function ConfirmDialogProvider({ children }: { children: React.ReactNode
     });
   }, []);
 
+  const merge = useCallback(<T extends object>(options: MergeOptions<T>): Promise<T | null> => {
+    setMergeOpts(options as unknown as MergeOptions<Record<string, unknown>>);
+    setMergeKey((k) => k + 1);
+    return new Promise<T | null>((resolve) => {
+      mergeResolveRef.current = resolve as (v: Record<string, unknown> | null) => void;
+    });
+  }, []);
+
+  const handleMerge = (merged: Record<string, unknown> | null) => {
+    setMergeOpts(null);
+    mergeResolveRef.current?.(merged);
+    mergeResolveRef.current = null;
+  };
+
   const handle = (result: boolean) => {
     setOpen(false);
     resolveRef.current?.(result);
     resolveRef.current = null;
   };
 
-  if (!open) return <ConfirmContext.Provider value={{ confirm }}>{children}</ConfirmContext.Provider>;
+  if (!open) {
+    return (
+      <ConfirmContext.Provider value={{ confirm, merge }}>
+        {children}
+        {mergeOpts && <MergeDialog key={mergeKey} opts={mergeOpts} onDone={handleMerge} />}
+      </ConfirmContext.Provider>
+    );
+  }
 
   return (
-    <ConfirmContext.Provider value={{ confirm }}>
+    <ConfirmContext.Provider value={{ confirm, merge }}>
       {children}
+      {mergeOpts && <MergeDialog key={mergeKey} opts={mergeOpts} onDone={handleMerge} />}
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
         <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-sm w-full">
           <div className="flex items-start gap-3 mb-5">
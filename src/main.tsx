@@ -1,10 +1,21 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
-import App from './App.tsx'
+import { loadRuntimeConfig } from './solid/config'
+import { ConfigErrorScreen } from './components/ConfigErrorScreen'
 import './index.css'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
\ No newline at end of file
+const root = createRoot(document.getElementById('root')!)
+
+// Solid modules read the runtime config when first evaluated, so the app loads after it
+loadRuntimeConfig()
+  .then(() => import('./App.tsx'))
+  .then(({ default: App }) => {
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
+  .catch((error: unknown) => {
+    root.render(<ConfigErrorScreen error={error} />)
+  })
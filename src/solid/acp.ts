@@ -1,148 +1,267 @@
 // src/solid/acp.ts
+import { Parser, Writer } from "n3";
+import type { Quad } from "n3";
 import type { AuthenticatedFetch } from "./session";
-import { SOLID_ISSUER, CLIENT_ID } from "./config";
+import type { PatientFile } from "./healthData";
+import { FULL_RECORD_DOC, PHARMACY_MEDICATIONS_DOC } from "./healthData";
+import type { GranteeRole, GrantScope, Practitioner } from "./governanceSolid";
+import { DEFAULT_GRANT_SCOPE, GRANTEE_ROLES, practitionersFor } from "./governanceSolid";
+import { SOLID_ISSUER, CLIENT_ID, GOVERNANCE_WEBID } from "./config";
+import { resolveAgentIssuers } from "./issuers";
+import type { AgentIssuers } from "./issuers";
+import { ensureContainer, ensureDocument } from "./ldp";
+import { parseTurtle, termId, NS } from "./rdf";
+import type { Graph } from "./rdf";
 
-type AccessOptions = {
+export type AccessOptions = {
   resourceUrl: string;
   patientWebId: string;
 
-  doctorWebId: string;
-  emergencyWebId: string;
-  pharmacyWebId: string;
-  nurseWebId: string;
+  /** The practitioner each role's grant names; a role without one is granted to nobody. */
+  grantees: RoleGrantees;
 
   doctorCanReadWrite: boolean;
   emergencyCanRead: boolean;
   pharmacyCanRead: boolean;
   nurseCanReadWrite: boolean;
 
+  /** What each role's grant covers; roles without an entry get DEFAULT_GRANT_SCOPE. */
+  scopes?: Partial<Record<GranteeRole, GrantScope>>;
+
   restrictToClientAndIssuer?: boolean;
+  /**
+   * Issuers each agent may log in through, from their profiles' solid:oidcIssuer. The
+   * apply* functions look them up when absent; agents missing here get SOLID_ISSUER.
+   */
+  agentIssuers?: AgentIssuers;
+};
+
+export type RoleGrantees = Partial<Record<GranteeRole, string>>;
+
+export type RoleAccess = Pick<
+  AccessOptions,
+  "doctorCanReadWrite" | "emergencyCanRead" | "pharmacyCanRead" | "nurseCanReadWrite"
+>;
+
+/** The RoleAccess flag behind each grantee role's toggle. */
+export const ROLE_ACCESS_FLAG: Record<GranteeRole, keyof RoleAccess> = {
+  doctor: "doctorCanReadWrite",
+  emergency: "emergencyCanRead",
+  nurse: "nurseCanReadWrite",
+  pharmacy: "pharmacyCanRead",
+};
+
+export type FileSharing = Pick<
+  PatientFile,
+  "id" | "type" | "sharedWithDoctor" | "sharedWithEmergency" | "sharedWithNurse" | "sharedWithPharmacy"
+>;
+
+const SHARED_WITH_FLAG: Record<GranteeRole, keyof FileSharing & `sharedWith${string}`> = {
+  doctor: "sharedWithDoctor",
+  emergency: "sharedWithEmergency",
+  nurse: "sharedWithNurse",
+  pharmacy: "sharedWithPharmacy",
+};
+
+export function scopeCoversFullRecord(scope: GrantScope): boolean {
+  return scope.kind === "record-and-shared-files" || scope.kind === "full-record";
+}
+
+/**
+ * The record and its history. A pharmacy is never given them: what it may see is the
+ * medications shared with it, in PHARMACY_MEDICATIONS_DOC.
+ */
+function scopeCoversRecordFor(scope: GrantScope, role: GranteeRole): boolean {
+  return role !== "pharmacy" && scopeCoversFullRecord(scope);
+}
+
+export function scopeCoversFiles(scope: GrantScope): boolean {
+  return scope.kind !== "full-record";
+}
+
+/** Under the default scope the file's sharing flag decides; file scopes select files themselves. */
+export function scopeCoversFile(scope: GrantScope, file: FileSharing, role: GranteeRole): boolean {
+  switch (scope.kind) {
+    case "record-and-shared-files":
+      return file[SHARED_WITH_FLAG[role]];
+    case "full-record":
+      return false;
+    case "file-types":
+      return scope.fileTypes.includes(file.type);
+    case "file":
+      return scope.fileId === file.id;
+  }
+}
+
+/** Keeps each role's grant only where its scope covers the resource being written. */
+function narrowToScope(
+  opts: AccessOptions,
+  covers: (scope: GrantScope, role: GranteeRole) => boolean,
+): AccessOptions {
+  const narrowed = { ...opts };
+  for (const role of GRANTEE_ROLES) {
+    const flag = ROLE_ACCESS_FLAG[role];
+    narrowed[flag] = opts[flag] && covers(opts.scopes?.[role] ?? DEFAULT_GRANT_SCOPE, role);
+  }
+  return narrowed;
+}
+
+export type FileAccessOptions = AccessOptions & {
+  sharing: FileSharing;
+  /** The file's uploaded document under health/attachments/, which gets the same ACR. */
+  attachmentUrl?: string;
+};
+
+type Grant = {
+  id: string;
+  agentWebIds: string[];
+  modes: string;
 };
 
-function matcherBlock(agentWebId: string, restrict: boolean): string {
+/**
+ * Unrestricted grants match the agents alone. Restricted grants get one matcher per
+ * agent, since a matcher admits any of its issuers for any of its agents and each
+ * agent must only be admitted through its own provider.
+ */
+function matcherBlock(agentWebIds: string[], restrict: boolean, issuers: AgentIssuers): string {
   if (!restrict) {
+    const agents = agentWebIds.map((a) => `<${a}>`).join(", ");
     return `
     acp:anyOf [
       a acp:Matcher;
-      acp:agent <${agentWebId}>;
+      acp:agent ${agents};
     ];`.trim();
   }
 
-  const issuer = SOLID_ISSUER.endsWith("/") ? SOLID_ISSUER : SOLID_ISSUER + "/";
-
-  return `
-    acp:anyOf [
+  const matchers = agentWebIds.map((agent) => {
+    const agentIssuers = (issuers[agent]?.length ? issuers[agent] : [SOLID_ISSUER]).map((i) => `<${i}>`);
+    return `[
       a acp:Matcher;
-      acp:agent <${agentWebId}>;
+      acp:agent <${agent}>;
       acp:client <${CLIENT_ID}>;
-      acp:issuer <${issuer}>;
-    ];`.trim();
-}
+      acp:issuer ${agentIssuers.join(", ")};
+    ]`;
+  });
 
-function buildAcrTurtle(opts: AccessOptions): string {
-  const {
-    resourceUrl,
-    patientWebId,
-    doctorWebId,
-    emergencyWebId,
-    pharmacyWebId,
-    nurseWebId,
-    doctorCanReadWrite,
-    emergencyCanRead,
-    pharmacyCanRead,
-    nurseCanReadWrite,
-    restrictToClientAndIssuer = true,
-  } = opts;
-
-  const accessControls: string[] = ["<#ownerAccessControl>"];
-  if (doctorCanReadWrite) accessControls.push("<#doctorAccessControl>");
-  if (emergencyCanRead) accessControls.push("<#emergencyAccessControl>");
-  if (pharmacyCanRead) accessControls.push("<#pharmacyAccessControl>");
-  if (nurseCanReadWrite) accessControls.push("<#nurseAccessControl>");
+  return `acp:anyOf ${matchers.join(", ")};`;
+}
 
+function accessControlBlock(grant: Grant, restrict: boolean, issuers: AgentIssuers): string {
   return `
-@prefix acp: <http://www.w3.org/ns/solid/acp#>.
-@prefix acl: <http://www.w3.org/ns/auth/acl#>.
-
-<#root>
-  a acp:AccessControlResource;
-  acp:resource <${resourceUrl}>;
-  acp:accessControl ${accessControls.join(", ")};
-  acp:memberAccessControl ${accessControls.join(", ")} .
-
-<#filesJsonACR>
-  a acp:AccessControlResource;
-  acp:resource <${resourceUrl}files.json>;
-  acp:accessControl ${accessControls.join(", ")} .
-
-<#fullRecordJsonACR>
-  a acp:AccessControlResource;
-  acp:resource <${resourceUrl}full-record.json>;
-  acp:accessControl ${accessControls.join(", ")} .
-
-<#ownerAccessControl>
+<#${grant.id}>
   a acp:AccessControl;
   acp:apply [
     a acp:Policy;
-    acp:allow acl:Read, acl:Write, acl:Append, acl:Control;
-${matcherBlock(patientWebId, restrictToClientAndIssuer)}
+    acp:allow ${grant.modes};
+${matcherBlock(grant.agentWebIds, restrict, issuers)}
   ] .
-
-${
-  doctorCanReadWrite
-    ? `
-<#doctorAccessControl>
-  a acp:AccessControl;
-  acp:apply [
-    a acp:Policy;
-    acp:allow acl:Read, acl:Write;
-${matcherBlock(doctorWebId, restrictToClientAndIssuer)}
-  ] .
-`
-    : ""
+`;
 }
 
-${
-  emergencyCanRead
-    ? `
-<#emergencyAccessControl>
-  a acp:AccessControl;
-  acp:apply [
-    a acp:Policy;
-    acp:allow acl:Read;
-${matcherBlock(emergencyWebId, restrictToClientAndIssuer)}
-  ] .
-`
-    : ""
+/**
+ * Break-glass read access, placed on health/ by governance when it issues an emergency
+ * record (see addBreakGlassControl) and removed when the record lapses or is reviewed.
+ * Each control names one clinician, is limited to this app's client and their issuers,
+ * and states its expiry, so the patient's own sessions can drop any that governance missed.
+ */
+export type BreakGlassControl = {
+  /** The break-glass record's id. */
+  id: string;
+  granteeWebId: string;
+  issuers: string[];
+  expiresAt: string;
+};
+
+const BREAK_GLASS_CONTROL_PREFIX = "breakGlass-";
+/** The standing emergency control earlier versions put on every patient ACR. */
+const LEGACY_BREAK_GLASS_CONTROL = "breakGlassAccessControl";
+/** Lets governance edit health/'s ACR to place and remove break-glass controls; no data access. */
+const GOVERNANCE_ACCESS_CONTROL = "governanceAccessControl";
+const SCHEMA_EXPIRES = `${NS.schema}expires`;
+
+export function isBreakGlassControlLive(control: BreakGlassControl, now = Date.now()): boolean {
+  return Date.parse(control.expiresAt) > now;
 }
 
-${
-  pharmacyCanRead
-    ? `
-<#pharmacyAccessControl>
-  a acp:AccessControl;
-  acp:apply [
-    a acp:Policy;
-    acp:allow acl:Read;
-${matcherBlock(pharmacyWebId, restrictToClientAndIssuer)}
-  ] .
-`
-    : ""
+function breakGlassControlBlock(control: BreakGlassControl): string {
+  const id = `${BREAK_GLASS_CONTROL_PREFIX}${control.id}`;
+  const grant: Grant = { id, agentWebIds: [control.granteeWebId], modes: "acl:Read" };
+  return `${accessControlBlock(grant, true, { [control.granteeWebId]: control.issuers })}
+<#${id}> <${SCHEMA_EXPIRES}> "${control.expiresAt}"^^<${NS.xsd}dateTime> .
+`;
 }
 
-${
-  nurseCanReadWrite
-    ? `
-<#nurseAccessControl>
-  a acp:AccessControl;
-  acp:apply [
-    a acp:Policy;
-    acp:allow acl:Read, acl:Write;
-${matcherBlock(nurseWebId, restrictToClientAndIssuer)}
-  ] .
-`
-    : ""
+/** What each role's grant allows on records and files. */
+const ROLE_MODES: Record<GranteeRole, AcpMode[]> = {
+  doctor: ["Read", "Write"],
+  emergency: ["Read"],
+  nurse: ["Read", "Write"],
+  pharmacy: ["Read"],
+};
+
+/**
+ * Role grants as configured by the patient, each naming the practitioner chosen for
+ * the role. `modes` is what the role gets on records and files; containers only ever
+ * expose listing (see containerGrants).
+ */
+function roleGrants(opts: AccessOptions): Grant[] {
+  const grants: Grant[] = [];
+  for (const role of GRANTEE_ROLES) {
+    const grantee = opts.grantees[role];
+    if (!opts[ROLE_ACCESS_FLAG[role]] || !grantee) continue;
+    const modes = ROLE_MODES[role].map((m) => `acl:${m}`).join(", ");
+    grants.push({ id: `${role}AccessControl`, agentWebIds: [grantee], modes });
+  }
+  return grants;
 }
+
+/**
+ * Builds the ACR for a single resource. Role grants apply to the resource itself only;
+ * for containers, `acp:memberAccessControl` carries the owner alone so that members
+ * (notably health/files/<id>.ttl) are governed by their own ACRs rather than inheriting
+ * every role grant from health/. `memberGrants` adds role grants that members do inherit.
+ * Break-glass controls are the exception: they cover the container and everything below it.
+ */
+function buildAcrTurtle(args: {
+  resourceUrl: string;
+  patientWebId: string;
+  grants: Grant[];
+  memberGrants?: Grant[];
+  /** Live break-glass controls to keep (health/ only). */
+  breakGlass?: BreakGlassControl[];
+  /** Let governance manage break-glass controls on this ACR (health/ only). */
+  governance?: boolean;
+  restrict: boolean;
+  issuers: AgentIssuers;
+}): string {
+  const { resourceUrl, patientWebId, memberGrants = [], breakGlass = [], restrict, issuers } = args;
+  const isContainer = resourceUrl.endsWith("/");
+
+  const owner: Grant = {
+    id: "ownerAccessControl",
+    agentWebIds: [patientWebId],
+    modes: "acl:Read, acl:Write, acl:Append, acl:Control",
+  };
+  const grants = args.governance
+    ? [...args.grants, { id: GOVERNANCE_ACCESS_CONTROL, agentWebIds: [GOVERNANCE_WEBID], modes: "acl:Control" }]
+    : args.grants;
+  const breakGlassIds = breakGlass.map((c) => `<#${BREAK_GLASS_CONTROL_PREFIX}${c.id}>`);
+  const accessControls = [...[owner, ...grants].map((g) => `<#${g.id}>`), ...breakGlassIds];
+  const memberControls = [...[owner, ...memberGrants].map((g) => `<#${g.id}>`), ...breakGlassIds];
+
+  return `
+@prefix acp: <http://www.w3.org/ns/solid/acp#>.
+@prefix acl: <http://www.w3.org/ns/auth/acl#>.
+
+<#root>
+  a acp:AccessControlResource;
+  acp:resource <${resourceUrl}>;
+  acp:accessControl ${accessControls.join(", ")}${
+    isContainer ? `;\n  acp:memberAccessControl ${memberControls.join(", ")}` : ""
+  } .
+${accessControlBlock(owner, restrict, issuers)}
+${[...grants, ...memberGrants].map((g) => accessControlBlock(g, restrict, issuers)).join("\n")}
+${breakGlass.map(breakGlassControlBlock).join("\n")}
 `.trim();
 }
 
@@ -150,14 +269,8 @@ function acrUrlForResource(resourceUrl: string): string {
   return `${resourceUrl}.acr`;
 }
 
-export async function applyAcpForResource(
-  fetchFn: AuthenticatedFetch,
-  options: AccessOptions,
-): Promise<void> {
-  const acrUrl = acrUrlForResource(options.resourceUrl);
-  const turtle = buildAcrTurtle(options);
-
-  const res = await fetchFn(acrUrl, {
+async function putAcr(fetchFn: AuthenticatedFetch, resourceUrl: string, turtle: string): Promise<void> {
+  const res = await fetchFn(acrUrlForResource(resourceUrl), {
     method: "PUT",
     headers: { "Content-Type": "text/turtle" },
     body: turtle,
@@ -169,35 +282,540 @@ export async function applyAcpForResource(
   }
 }
 
-export const applyAccessForFullRecord = applyAcpForResource;
+/** Looks up the issuers of every agent the ACRs may name, unless the caller already has. */
+async function withAgentIssuers<T extends AccessOptions>(fetchFn: AuthenticatedFetch, opts: T): Promise<T> {
+  if (opts.agentIssuers) return opts;
+  const webIds = [opts.patientWebId, GOVERNANCE_WEBID, ...Object.values(opts.grantees)].filter(
+    (w): w is string => !!w,
+  );
+  return { ...opts, agentIssuers: await resolveAgentIssuers(fetchFn, webIds) };
+}
+
+/** Containers only grant listing (plus Append for roles that may add files). */
+function containerGrants(grants: Grant[], allowAppend: boolean): Grant[] {
+  return grants.map((g) => ({
+    ...g,
+    modes: allowAppend && g.modes.includes("acl:Write") ? "acl:Read, acl:Append" : "acl:Read",
+  }));
+}
+
+export async function applyAcpForResource(
+  fetchFn: AuthenticatedFetch,
+  opts: AccessOptions,
+): Promise<void> {
+  const options = await withAgentIssuers(fetchFn, opts);
+  const restrict = options.restrictToClientAndIssuer ?? true;
+  const isContainer = options.resourceUrl.endsWith("/");
+  const grants = roleGrants(options);
+
+  await putAcr(
+    fetchFn,
+    options.resourceUrl,
+    buildAcrTurtle({
+      resourceUrl: options.resourceUrl,
+      patientWebId: options.patientWebId,
+      grants: isContainer ? containerGrants(grants, false) : grants,
+      restrict,
+      issuers: options.agentIssuers ?? {},
+    }),
+  );
+}
 
 /**
- * Read ACP “intent” by inspecting the ACR Turtle for policy blocks.
- * This fixes the previous approach that probed access with the patient’s own fetch (always succeeds).
+ * Applies the patient's role toggles to health/ (listing, for every granted role),
+ * health/full-record.ttl, the medications shared with pharmacy, health/files/ and
+ * health/attachments/ (listing + adding) and the record's history (see
+ * recordHistoryAcr), each limited to the roles whose scope covers it. Individual
+ * files and their attachments are handled by applyAcpForPatientFile, since each one is
+ * shared separately. health/ keeps the break-glass controls governance has issued that
+ * have not lapsed.
  */
-export async function readAccessForFullRecord(
+export async function applyAccessForFullRecord(
   fetchFn: AuthenticatedFetch,
-  resourceUrl: string, // health/ container URL
-): Promise<{ doctorCanReadWrite: boolean; emergencyCanRead: boolean }> {
-  const acrUrl = acrUrlForResource(resourceUrl);
-  const res = await fetchFn(acrUrl, {
+  opts: AccessOptions,
+): Promise<void> {
+  const options = await withAgentIssuers(fetchFn, opts);
+  const healthUrl = options.resourceUrl;
+  const restrict = options.restrictToClientAndIssuer ?? true;
+
+  const current = await fetchAcrTurtle(fetchFn, healthUrl);
+  const breakGlass = current ? breakGlassControlsIn(current.turtle, acrUrlForResource(healthUrl)) : [];
+  await putAcr(
+    fetchFn,
+    healthUrl,
+    buildAcrTurtle({
+      resourceUrl: healthUrl,
+      patientWebId: options.patientWebId,
+      grants: containerGrants(roleGrants(options), false),
+      breakGlass: breakGlass.filter((c) => isBreakGlassControlLive(c)),
+      governance: true,
+      restrict,
+      issuers: options.agentIssuers ?? {},
+    }),
+  );
+  await applyAcpForResource(fetchFn, {
+    ...narrowToScope(options, scopeCoversRecordFor),
+    resourceUrl: `${healthUrl}${FULL_RECORD_DOC}`,
+  });
+  // Roles that may read the record may read these too; the pharmacy reads nothing else
+  const pharmacyMedicationsUrl = `${healthUrl}${PHARMACY_MEDICATIONS_DOC}`;
+  await ensureDocument(fetchFn, pharmacyMedicationsUrl);
+  await applyAcpForResource(fetchFn, {
+    ...narrowToScope(options, scopeCoversFullRecord),
+    resourceUrl: pharmacyMedicationsUrl,
+  });
+
+  for (const containerUrl of [`${healthUrl}files/`, `${healthUrl}attachments/`]) {
+    await ensureContainer(fetchFn, containerUrl);
+    await putAcr(
+      fetchFn,
+      containerUrl,
+      buildAcrTurtle({
+        resourceUrl: containerUrl,
+        patientWebId: options.patientWebId,
+        grants: containerGrants(roleGrants(narrowToScope(options, scopeCoversFiles)), true),
+        restrict,
+        issuers: options.agentIssuers ?? {},
+      }),
+    );
+  }
+
+  const historyUrl = `${healthUrl}history/full-record/`;
+  await ensureContainer(fetchFn, historyUrl);
+  await putAcr(fetchFn, historyUrl, recordHistoryAcr(historyUrl, options, restrict));
+}
+
+/**
+ * Record history is append-only for grantees: roles that may write the record may add
+ * entries, and every role that may read the record may list and read them. Only the
+ * patient can change or remove an entry.
+ */
+function recordHistoryAcr(historyUrl: string, options: AccessOptions, restrict: boolean): string {
+  const grants = roleGrants(narrowToScope(options, scopeCoversRecordFor));
+  return buildAcrTurtle({
+    resourceUrl: historyUrl,
+    patientWebId: options.patientWebId,
+    grants: containerGrants(grants, true),
+    memberGrants: grants.map((g) => ({ ...g, id: `${g.id}Members`, modes: "acl:Read" })),
+    restrict,
+    issuers: options.agentIssuers ?? {},
+  });
+}
+
+/**
+ * Per-file ACR: a role gets access only if it currently holds a role grant
+ * AND its grant scope covers the file (see scopeCoversFile), so revoking the
+ * role also revokes every file shared with it.
+ */
+export function buildFileAcrTurtle(opts: FileAccessOptions): string {
+  const grants = roleGrants(narrowToScope(opts, (scope, role) => scopeCoversFile(scope, opts.sharing, role)));
+
+  return buildAcrTurtle({
+    resourceUrl: opts.resourceUrl,
+    patientWebId: opts.patientWebId,
+    grants,
+    restrict: opts.restrictToClientAndIssuer ?? true,
+    issuers: opts.agentIssuers ?? {},
+  });
+}
+
+export async function applyAcpForPatientFile(
+  fetchFn: AuthenticatedFetch,
+  options: FileAccessOptions,
+): Promise<void> {
+  const resolved = await withAgentIssuers(fetchFn, options);
+  await putAcr(fetchFn, options.resourceUrl, buildFileAcrTurtle(resolved));
+  if (options.attachmentUrl) {
+    await putAcr(fetchFn, options.attachmentUrl, buildFileAcrTurtle({ ...resolved, resourceUrl: options.attachmentUrl }));
+  }
+}
+
+// =======================
+// ACR parsing
+// =======================
+
+export type AcpMode = "Read" | "Write" | "Append" | "Control";
+
+export type AcpMatcher = {
+  id: string;
+  agents: string[];
+  clients: string[];
+  issuers: string[];
+};
+
+export type AcpPolicy = {
+  id: string;
+  allow: AcpMode[];
+  deny: AcpMode[];
+  allOf: AcpMatcher[];
+  anyOf: AcpMatcher[];
+  noneOf: AcpMatcher[];
+};
+
+export type AcpAccessControl = {
+  id: string;
+  policies: AcpPolicy[];
+};
+
+export type AccessControlResource = {
+  url: string;
+  resources: string[];
+  accessControls: AcpAccessControl[];
+  memberAccessControls: AcpAccessControl[];
+};
+
+const ACP = (term: string) => `${NS.acp}${term}`;
+const ACL_MODES: AcpMode[] = ["Read", "Write", "Append", "Control"];
+
+function readModes(graph: Graph, policyId: string, predicate: string): AcpMode[] {
+  return graph
+    .objectIds(policyId, ACP(predicate))
+    .map((iri) => ACL_MODES.find((m) => iri === `${NS.acl}${m}`))
+    .filter((m): m is AcpMode => !!m);
+}
+
+function readMatcher(graph: Graph, id: string): AcpMatcher {
+  return {
+    id,
+    agents: graph.objectIds(id, ACP("agent")),
+    clients: graph.objectIds(id, ACP("client")),
+    issuers: graph.objectIds(id, ACP("issuer")),
+  };
+}
+
+function readPolicy(graph: Graph, id: string): AcpPolicy {
+  const matchers = (predicate: string) =>
+    graph.objectIds(id, ACP(predicate)).map((m) => readMatcher(graph, m));
+
+  return {
+    id,
+    allow: readModes(graph, id, "allow"),
+    deny: readModes(graph, id, "deny"),
+    allOf: matchers("allOf"),
+    anyOf: matchers("anyOf"),
+    noneOf: matchers("noneOf"),
+  };
+}
+
+function readAccessControl(graph: Graph, id: string): AcpAccessControl {
+  return {
+    id,
+    policies: graph.objectIds(id, ACP("apply")).map((p) => readPolicy(graph, p)),
+  };
+}
+
+/**
+ * Parses an ACR document into a typed model. Policies and matchers may be
+ * named or blank nodes, and may be shared between access controls; anything
+ * the server or another app adds is read the same way as our own output.
+ */
+export function parseAcr(turtle: string, acrUrl: string): AccessControlResource {
+  return acrFromGraph(parseTurtle(turtle, acrUrl), acrUrl);
+}
+
+/**
+ * Servers differ on whether the ACR subject is typed, so fall back to any
+ * subject that carries acp:accessControl / acp:memberAccessControl.
+ */
+function acrRoots(graph: Graph): string[] {
+  const typed = graph.subjectsOfType(ACP("AccessControlResource"));
+  if (typed.length) return typed;
+  return Array.from(
+    new Set(
+      graph.quads
+        .filter((q) => [ACP("accessControl"), ACP("memberAccessControl")].includes(q.predicate.value))
+        .map((q) => termId(q.subject)),
+    ),
+  );
+}
+
+function acrFromGraph(graph: Graph, acrUrl: string): AccessControlResource {
+  const roots = acrRoots(graph);
+
+  const collect = (predicate: string) =>
+    Array.from(new Set(roots.flatMap((r) => graph.objectIds(r, ACP(predicate))))).map((id) =>
+      readAccessControl(graph, id),
+    );
+
+  return {
+    url: acrUrl,
+    resources: roots.flatMap((r) => graph.objectIds(r, ACP("resource"))),
+    accessControls: collect("accessControl"),
+    memberAccessControls: collect("memberAccessControl"),
+  };
+}
+
+const PUBLIC_AGENT = ACP("PublicAgent");
+const AUTHENTICATED_AGENT = ACP("AuthenticatedAgent");
+
+/**
+ * Agent-side view of a matcher: client and issuer constraints are assumed to be
+ * satisfied, since the agents we ask about sign in through this app.
+ */
+function matcherMatchesAgent(matcher: AcpMatcher, agentWebId: string): boolean {
+  return matcher.agents.some((a) => a === agentWebId || a === PUBLIC_AGENT || a === AUTHENTICATED_AGENT);
+}
+
+function policyAppliesTo(policy: AcpPolicy, agentWebId: string): boolean {
+  if (policy.allOf.length === 0 && policy.anyOf.length === 0) return false;
+  if (!policy.allOf.every((m) => matcherMatchesAgent(m, agentWebId))) return false;
+  if (policy.anyOf.length && !policy.anyOf.some((m) => matcherMatchesAgent(m, agentWebId))) return false;
+  return !policy.noneOf.some((m) => matcherMatchesAgent(m, agentWebId));
+}
+
+/** Modes granted to an agent by a set of access controls (allow minus deny). */
+export function modesGrantedTo(accessControls: AcpAccessControl[], agentWebId: string): Set<AcpMode> {
+  const allowed = new Set<AcpMode>();
+  const denied = new Set<AcpMode>();
+
+  for (const ac of accessControls) {
+    for (const policy of ac.policies) {
+      if (!policyAppliesTo(policy, agentWebId)) continue;
+      policy.allow.forEach((m) => allowed.add(m));
+      policy.deny.forEach((m) => denied.add(m));
+    }
+  }
+
+  denied.forEach((m) => allowed.delete(m));
+  return allowed;
+}
+
+async function fetchAcrTurtle(
+  fetchFn: AuthenticatedFetch,
+  resourceUrl: string,
+): Promise<{ turtle: string; etag: string | null } | null> {
+  const res = await fetchFn(acrUrlForResource(resourceUrl), {
     method: "GET",
     headers: { Accept: "text/turtle" },
     cache: "no-store",
   });
+  if (!res.ok) return null;
+  return { turtle: await res.text(), etag: res.headers.get("ETag") };
+}
+
+async function fetchAcr(
+  fetchFn: AuthenticatedFetch,
+  resourceUrl: string,
+): Promise<AccessControlResource | null> {
+  // If ACR can't be read, treat it as granting nothing (don’t auto-check toggles on)
+  const current = await fetchAcrTurtle(fetchFn, resourceUrl);
+  if (!current) return null;
+
+  try {
+    return parseAcr(current.turtle, acrUrlForResource(resourceUrl));
+  } catch {
+    return null;
+  }
+}
+
+// =======================
+// Break-glass controls
+// =======================
+
+function isBreakGlassControlId(id: string): boolean {
+  const fragment = id.slice(id.indexOf("#") + 1);
+  return fragment.startsWith(BREAK_GLASS_CONTROL_PREFIX) || fragment === LEGACY_BREAK_GLASS_CONTROL;
+}
+
+/** The break-glass controls in an ACR document (not the legacy standing one). */
+function breakGlassControlsIn(turtle: string, acrUrl: string): BreakGlassControl[] {
+  let graph: Graph;
+  try {
+    graph = parseTurtle(turtle, acrUrl);
+  } catch {
+    return [];
+  }
+
+  const controls: BreakGlassControl[] = [];
+  for (const ac of acrFromGraph(graph, acrUrl).accessControls) {
+    const fragment = ac.id.slice(ac.id.indexOf("#") + 1);
+    if (!fragment.startsWith(BREAK_GLASS_CONTROL_PREFIX)) continue;
+    const matcher = ac.policies[0]?.anyOf[0];
+    const [expiresAt] = graph.objectIds(ac.id, SCHEMA_EXPIRES);
+    if (!matcher?.agents[0] || !expiresAt) continue;
+    controls.push({
+      id: fragment.slice(BREAK_GLASS_CONTROL_PREFIX.length),
+      granteeWebId: matcher.agents[0],
+      issuers: matcher.issuers,
+      expiresAt,
+    });
+  }
+  return controls;
+}
+
+function writeTurtle(quads: Quad[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const writer = new Writer({ format: "text/turtle" });
+    writer.addQuads(quads);
+    writer.end((err, result) => (err ? reject(err) : resolve(result)));
+  });
+}
 
-  if (res.status === 404) {
-    return { doctorCanReadWrite: false, emergencyCanRead: false };
+/** Drops an access control, its links from the ACR and the policies and matchers only it uses. */
+function withoutAccessControl(quads: Quad[], controlId: string): Quad[] {
+  const dropped = new Set([controlId]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const q of quads) {
+      const object = termId(q.object);
+      if (dropped.has(termId(q.subject)) && q.object.termType === "BlankNode" && !dropped.has(object)) {
+        dropped.add(object);
+        grew = true;
+      }
+    }
   }
+  const linksToControl = (q: Quad) => q.object.termType === "NamedNode" && q.object.value === controlId;
+  return quads.filter((q) => !dropped.has(termId(q.subject)) && !linksToControl(q));
+}
 
-  if (!res.ok) {
-    // If ACR can't be read, default to false (don’t auto-check toggles on)
-    return { doctorCanReadWrite: false, emergencyCanRead: false };
+const ACR_EDIT_ATTEMPTS = 3;
+
+/**
+ * Rewrites an ACR through its quads, so controls written by the patient, the server or
+ * other apps survive. Guarded by the ACR's ETag; a concurrent change is re-read and the
+ * edit applied again.
+ */
+async function editAcr(
+  fetchFn: AuthenticatedFetch,
+  resourceUrl: string,
+  edit: (quads: Quad[], root: string, acrUrl: string) => Quad[],
+): Promise<void> {
+  const acrUrl = acrUrlForResource(resourceUrl);
+
+  for (let attempt = 0; attempt < ACR_EDIT_ATTEMPTS; attempt++) {
+    const current = await fetchAcrTurtle(fetchFn, resourceUrl);
+    if (!current) throw new Error(`Cannot read the access control resource of ${resourceUrl}.`);
+
+    const graph = parseTurtle(current.turtle, acrUrl);
+    const [root] = acrRoots(graph);
+    if (!root) throw new Error(`${acrUrl} has no access control resource.`);
+
+    const res = await fetchFn(acrUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "text/turtle",
+        ...(current.etag ? { "If-Match": current.etag } : {}),
+      },
+      body: await writeTurtle(edit(graph.quads, root, acrUrl)),
+    });
+    if (res.status === 412) continue;
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`Failed to update ACR: ${res.status} ${res.statusText}\n${text}`);
+    }
+    return;
+  }
+
+  throw new Error(`${acrUrl} kept changing; please retry.`);
+}
+
+/** Governance: admits a break-glass clinician to health/ and everything below it. */
+export async function addBreakGlassControl(
+  fetchFn: AuthenticatedFetch,
+  healthUrl: string,
+  control: BreakGlassControl,
+): Promise<void> {
+  await editAcr(fetchFn, healthUrl, (quads, root, acrUrl) => {
+    const id = `<#${BREAK_GLASS_CONTROL_PREFIX}${control.id}>`;
+    const added = new Parser({ baseIRI: acrUrl, format: "text/turtle" }).parse(`
+@prefix acp: <${NS.acp}>.
+@prefix acl: <${NS.acl}>.
+<${root}> acp:accessControl ${id}; acp:memberAccessControl ${id} .
+${breakGlassControlBlock(control)}`);
+    const existing = `${acrUrl}#${BREAK_GLASS_CONTROL_PREFIX}${control.id}`;
+    return [...withoutAccessControl(quads, existing), ...added];
+  });
+}
+
+/** Governance: removes a break-glass clinician's access (lapsed or reviewed record). */
+export async function removeBreakGlassControl(
+  fetchFn: AuthenticatedFetch,
+  healthUrl: string,
+  id: string,
+): Promise<void> {
+  await editAcr(fetchFn, healthUrl, (quads, _root, acrUrl) =>
+    withoutAccessControl(quads, `${acrUrl}#${BREAK_GLASS_CONTROL_PREFIX}${id}`),
+  );
+}
+
+/**
+ * Whether the patient's ACRs need writing again for break-glass: health/ still carries
+ * the standing emergency control of earlier versions (which is on every record and file
+ * ACR too), does not let governance place break-glass controls yet, or keeps a lapsed one.
+ */
+export async function breakGlassAcrsStale(fetchFn: AuthenticatedFetch, healthUrl: string): Promise<boolean> {
+  const current = await fetchAcrTurtle(fetchFn, healthUrl);
+  if (!current) return false;
+
+  const acrUrl = acrUrlForResource(healthUrl);
+  let acr: AccessControlResource;
+  try {
+    acr = parseAcr(current.turtle, acrUrl);
+  } catch {
+    return false;
   }
+  const ids = [...acr.accessControls, ...acr.memberAccessControls].map((ac) => ac.id);
+  if (ids.includes(`${acrUrl}#${LEGACY_BREAK_GLASS_CONTROL}`)) return true;
+  if (!ids.includes(`${acrUrl}#${GOVERNANCE_ACCESS_CONTROL}`)) return true;
+  return breakGlassControlsIn(current.turtle, acrUrl).some((c) => !isBreakGlassControlLive(c));
+}
 
-  const ttl = await res.text();
-  const doctorCanReadWrite = ttl.includes("<#doctorAccessControl>");
-  const emergencyCanRead = ttl.includes("<#emergencyAccessControl>");
+/**
+ * Whether the record's ACR still grants the pharmacy, as earlier versions did before its
+ * medications had their own document; writing the ACRs again takes that grant away.
+ */
+export async function pharmacyAcrsStale(fetchFn: AuthenticatedFetch, healthUrl: string): Promise<boolean> {
+  const recordUrl = `${healthUrl}${FULL_RECORD_DOC}`;
+  const acr = await fetchAcr(fetchFn, recordUrl);
+  return !!acr?.accessControls.some((ac) => ac.id === `${acrUrlForResource(recordUrl)}#pharmacyAccessControl`);
+}
+
+export type RoleGrantsInPod = RoleAccess & Pick<AccessOptions, "grantees">;
+
+/**
+ * Reads which roles are actually granted, and to which registered practitioner: on
+ * health/full-record.ttl (its own ACR plus whatever health/ passes down through
+ * acp:memberAccessControl, as older pods granted roles that way), or on the health/
+ * listing alone for grants scoped away from the full record. Toggles reflect granted
+ * agents and modes, not our own access-control naming, so edits by the server or other
+ * apps are honoured; the one exception is break-glass controls, which are not patient
+ * grants (the patient is told about them separately).
+ */
+export async function readAccessForFullRecord(
+  fetchFn: AuthenticatedFetch,
+  resourceUrl: string, // health/ container URL
+  practitioners: Practitioner[],
+  /** The record document to read, when it is not the current one (JSON migration). */
+  recordUrl = `${resourceUrl}${FULL_RECORD_DOC}`,
+): Promise<RoleGrantsInPod> {
+  const [containerAcr, recordAcr] = await Promise.all([
+    fetchAcr(fetchFn, resourceUrl),
+    fetchAcr(fetchFn, recordUrl),
+  ]);
+
+  const notBreakGlass = (ac: AcpAccessControl) => !isBreakGlassControlId(ac.id);
+  const effective = [
+    ...(containerAcr?.memberAccessControls ?? []),
+    ...(recordAcr?.accessControls ?? []),
+  ].filter(notBreakGlass);
+  const listing = (containerAcr?.accessControls ?? []).filter(notBreakGlass);
+
+  const has = (agent: string, ...modes: AcpMode[]) => {
+    const granted = modesGrantedTo(effective, agent);
+    return modes.every((m) => granted.has(m)) || modesGrantedTo(listing, agent).has("Read");
+  };
 
-  return { doctorCanReadWrite, emergencyCanRead };
-}
\ No newline at end of file
+  const grantees: RoleGrantees = {};
+  for (const role of GRANTEE_ROLES) {
+    const holder = practitionersFor(practitioners, role).find((p) => has(p.webId, ...ROLE_MODES[role]));
+    if (holder) grantees[role] = holder.webId;
+  }
+
+  return {
+    doctorCanReadWrite: !!grantees.doctor,
+    emergencyCanRead: !!grantees.emergency,
+    pharmacyCanRead: !!grantees.pharmacy,
+    nurseCanReadWrite: !!grantees.nurse,
+    grantees,
+  };
+}
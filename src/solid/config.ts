@@ -1,45 +1,221 @@
-export function requireEnv(name: string): string {
-  const v = import.meta.env[name];
-  if (!v || typeof v !== "string")
-    throw new Error(`Missing required env variable: ${name}`);
-  return v;
+// src/solid/config.ts
+import type { GranteeRole, Practitioner } from "./governanceSolid";
+
+/**
+ * Deployment settings, resolved once at startup by loadRuntimeConfig():
+ * - Build-time defaults from VITE_SOLID_ISSUER, VITE_APP_URL, VITE_CLIENT_NAME,
+ *   VITE_GOVERNANCE_POD_BASE and VITE_GOVERNANCE_WEBID.
+ * - Overridden by `config.json` next to index.html (or VITE_CONFIG_URL), so one build
+ *   can be deployed against different pod servers.
+ *
+ * The exported values below are empty until loading succeeds; main.tsx imports the app
+ * only afterwards. scripts/clientid.mjs generates clientid.json from the same sources.
+ */
+export type RuntimeConfig = {
+  /** OIDC issuer, which is also the pod server; exactly as the provider writes it in tokens. */
+  solidIssuer: string;
+  /** Where the app is served; redirect, logout and client ID URLs derive from it. */
+  appUrl: string;
+  clientName: string;
+  /** Other Solid providers offered at login, besides solidIssuer. */
+  issuers: { name: string; url: string }[];
+  governancePodBase: string;
+  governanceWebId: string;
+  /** Patient accounts bootstrap enrols in the governance patient registry. */
+  seedPatients: Record<string, { label: string; webId: string; podBaseUrl: string }>;
+  /** Practitioner accounts bootstrap writes to the governance practitioner registry. */
+  seedPractitioners: Practitioner[];
+};
+
+export class ConfigError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid runtime configuration (${source}):\n${issues.join("\n")}`);
+    this.name = "ConfigError";
+    this.source = source;
+    this.issues = issues;
+  }
 }
 
-export const SOLID_ISSUER = "http://localhost:3000/";
-export const CLIENT_ID = "http://localhost:5173/clientid.json";
-export const REDIRECT_URL = "http://localhost:5173/";
-export const POST_LOGOUT_URL = "http://localhost:5173/";
-
-export const DOCTOR_WEBID = "http://localhost:3000/doctor/profile/card#me";
-
-export const EMERGENCY_WEBID = "http://localhost:3000/emergency/profile/card#me";
-
-export const PHARMACY_WEBID = "http://localhost:3000/pharmacy/profile/card#me";
-
-export const NURSE_WEBID = "http://localhost:3000/nurse/profile/card#me";
-
-export const GOVERNANCE_POD_BASE = "http://localhost:3000/governance/";
-export const GOVERNANCE_WEBID = "http://localhost:3000/governance/profile/card#me";
-
-export const PATIENTS = {
-  patient1: {
-    label: "Patient 1",
-    webId: "http://localhost:3000/patient/profile/card#me",
-    podBaseUrl: "http://localhost:3000/patient/",
-  },
-  patient2: {
-    label: "Patient 2",
-    webId: "http://localhost:3000/patient2/profile/card#me",
-    podBaseUrl: "http://localhost:3000/patient2/",
-  },
-  patient3: {
-    label: "Patient 3",
-    webId: "http://localhost:3000/patient3/profile/card#me",
-    podBaseUrl: "http://localhost:3000/patient3/",
-  },
-  patient4: {
-    label: "Patient 4",
-    webId: "http://localhost:3000/patient4/profile/card#me",
-    podBaseUrl: "http://localhost:3000/patient4/",
-  }
-} as const;
+export let SOLID_ISSUER = "";
+export let CLIENT_ID = "";
+export let REDIRECT_URL = "";
+export let POST_LOGOUT_URL = "";
+export let KNOWN_ISSUERS: readonly { name: string; url: string }[] = [];
+
+export let GOVERNANCE_POD_BASE = "";
+export let GOVERNANCE_WEBID = "";
+
+export let SEED_PRACTITIONERS: readonly Practitioner[] = [];
+export let SEED_PATIENTS: RuntimeConfig["seedPatients"] = {};
+
+const PRACTITIONER_ROLES: readonly GranteeRole[] = ["doctor", "emergency", "nurse", "pharmacy"];
+
+function envDefaults(): Record<string, unknown> {
+  const env = import.meta.env;
+  const out: Record<string, unknown> = {};
+  const pick = (key: keyof RuntimeConfig, name: string) => {
+    const v = env[name];
+    if (typeof v === "string" && v.trim()) out[key] = v.trim();
+  };
+  pick("solidIssuer", "VITE_SOLID_ISSUER");
+  pick("appUrl", "VITE_APP_URL");
+  pick("clientName", "VITE_CLIENT_NAME");
+  pick("governancePodBase", "VITE_GOVERNANCE_POD_BASE");
+  pick("governanceWebId", "VITE_GOVERNANCE_WEBID");
+  return out;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+/** Checks a raw settings object and normalises base URLs to end with "/". Issuers are kept as written. */
+export function validateRuntimeConfig(raw: unknown, source: string): RuntimeConfig {
+  const issues: string[] = [];
+  if (!isObject(raw)) throw new ConfigError(source, ["Expected a JSON object."]);
+
+  function text(path: string, v: unknown): string {
+    if (typeof v !== "string" || !v.trim()) {
+      issues.push(`${path}: required text is missing.`);
+      return "";
+    }
+    return v.trim();
+  }
+
+  function url(path: string, v: unknown, base = false): string {
+    const s = text(path, v);
+    if (!s) return "";
+    let parsed: URL;
+    try {
+      parsed = new URL(s);
+    } catch {
+      issues.push(`${path}: "${s}" is not an absolute URL.`);
+      return "";
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      issues.push(`${path}: "${s}" must use http or https.`);
+      return "";
+    }
+    return base && !s.endsWith("/") ? `${s}/` : s;
+  }
+
+  const issuers: RuntimeConfig["issuers"] = [];
+  if (raw.issuers !== undefined) {
+    if (!Array.isArray(raw.issuers)) issues.push("issuers: expected a list.");
+    else {
+      raw.issuers.forEach((p: unknown, i) => {
+        const path = `issuers[${i}]`;
+        if (!isObject(p)) {
+          issues.push(`${path}: expected an object.`);
+          return;
+        }
+        issuers.push({ name: text(`${path}.name`, p.name), url: url(`${path}.url`, p.url) });
+      });
+    }
+  }
+
+  const seedPatients: RuntimeConfig["seedPatients"] = {};
+  if (raw.seedPatients !== undefined) {
+    if (!isObject(raw.seedPatients)) issues.push("seedPatients: expected an object keyed by patient id.");
+    else {
+      for (const [id, p] of Object.entries(raw.seedPatients)) {
+        const path = `seedPatients.${id}`;
+        if (!isObject(p)) {
+          issues.push(`${path}: expected an object.`);
+          continue;
+        }
+        seedPatients[id] = {
+          label: text(`${path}.label`, p.label),
+          webId: url(`${path}.webId`, p.webId),
+          podBaseUrl: url(`${path}.podBaseUrl`, p.podBaseUrl, true),
+        };
+      }
+    }
+  }
+
+  const seedPractitioners: Practitioner[] = [];
+  if (raw.seedPractitioners !== undefined) {
+    if (!Array.isArray(raw.seedPractitioners)) issues.push("seedPractitioners: expected a list.");
+    else {
+      raw.seedPractitioners.forEach((p: unknown, i) => {
+        const path = `seedPractitioners[${i}]`;
+        if (!isObject(p)) {
+          issues.push(`${path}: expected an object.`);
+          return;
+        }
+        const role = p.role as GranteeRole;
+        if (!PRACTITIONER_ROLES.includes(role)) {
+          issues.push(`${path}.role: must be one of ${PRACTITIONER_ROLES.join(", ")}.`);
+        }
+        seedPractitioners.push({
+          webId: url(`${path}.webId`, p.webId),
+          role,
+          name: text(`${path}.name`, p.name),
+          organisation: text(`${path}.organisation`, p.organisation),
+        });
+      });
+    }
+  }
+
+  const config: RuntimeConfig = {
+    solidIssuer: url("solidIssuer", raw.solidIssuer),
+    appUrl: url("appUrl", raw.appUrl, true),
+    clientName: text("clientName", raw.clientName),
+    issuers,
+    governancePodBase: url("governancePodBase", raw.governancePodBase, true),
+    governanceWebId: url("governanceWebId", raw.governanceWebId),
+    seedPatients,
+    seedPractitioners,
+  };
+
+  if (issues.length) throw new ConfigError(source, issues);
+  return config;
+}
+
+function applyRuntimeConfig(config: RuntimeConfig): void {
+  SOLID_ISSUER = config.solidIssuer;
+  CLIENT_ID = new URL("clientid.json", config.appUrl).toString();
+  REDIRECT_URL = config.appUrl;
+  POST_LOGOUT_URL = config.appUrl;
+  KNOWN_ISSUERS = config.issuers;
+  GOVERNANCE_POD_BASE = config.governancePodBase;
+  GOVERNANCE_WEBID = config.governanceWebId;
+  SEED_PRACTITIONERS = config.seedPractitioners;
+  SEED_PATIENTS = config.seedPatients;
+}
+
+/**
+ * Fetches config.json, layers it over the build-time defaults and publishes the result.
+ * A missing config.json is fine when the env supplies everything; anything else that
+ * goes wrong surfaces as a ConfigError for the startup error screen.
+ */
+export async function loadRuntimeConfig(): Promise<RuntimeConfig> {
+  const source = import.meta.env.VITE_CONFIG_URL || `${import.meta.env.BASE_URL}config.json`;
+
+  let file: unknown = {};
+  let res: Response;
+  try {
+    res = await fetch(source, { cache: "no-store" });
+  } catch (e) {
+    throw new ConfigError(source, [`Could not be fetched: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+  // Dev servers answer unknown paths with index.html, so only a JSON body counts
+  const isJson = (res.headers.get("Content-Type") ?? "").includes("json");
+  if (res.ok && isJson) {
+    try {
+      file = await res.json();
+    } catch {
+      throw new ConfigError(source, ["Is not valid JSON."]);
+    }
+  } else if (!res.ok && res.status !== 404) {
+    throw new ConfigError(source, [`Could not be fetched: HTTP ${res.status}.`]);
+  }
+
+  const merged = isObject(file) ? { ...envDefaults(), ...file } : file;
+  const config = validateRuntimeConfig(merged, source);
+  applyRuntimeConfig(config);
+  return config;
+}
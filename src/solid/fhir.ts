@@ -0,0 +1,695 @@
+// src/solid/fhir.ts
+import { emptyFullRecord, isWebIdUrl, newAllergy, newMedication, parseLegacyMedications } from "./healthData";
+import type { Allergy, FullRecord, Medication, PatientFile } from "./healthData";
+
+/**
+ * FHIR R4 mapping for exchanging records with hospital systems:
+ * - FullRecord: Patient (name, birth date, address, record notes as an extension),
+ *   one AllergyIntolerance per allergy (reaction and severity as its reaction, the
+ *   verifying clinician as asserter), one Condition per line of the diagnoses, one
+ *   MedicationStatement per medication (strength, route and frequency as its dosage,
+ *   start/stop dates as effectivePeriod, the prescriber as informationSource), and the
+ *   blood type as an Observation (LOINC 882-1).
+ * - PatientFile: lab and imaging files as DiagnosticReport, the rest as
+ *   DocumentReference, with the content as a text/plain attachment. An uploaded document
+ *   follows as a second attachment by URL; import reads only the inline text.
+ *
+ * Only the subset of FHIR these resources use is typed here. Sharing flags are not
+ * exported; imported files and medications start unshared.
+ */
+
+export type Coding = { system?: string; code?: string; display?: string };
+export type CodeableConcept = { coding?: Coding[]; text?: string };
+export type Reference = { reference?: string; display?: string };
+export type Attachment = { contentType?: string; data?: string; url?: string; size?: number; title?: string; creation?: string };
+export type Extension = { url: string; valueString?: string };
+
+type Base = { id?: string; meta?: { lastUpdated?: string } };
+
+export type FhirPatient = Base & {
+  resourceType: "Patient";
+  identifier?: { system?: string; value?: string }[];
+  name?: { text?: string; family?: string; given?: string[] }[];
+  birthDate?: string;
+  address?: { text?: string; line?: string[]; city?: string; postalCode?: string; country?: string }[];
+  extension?: Extension[];
+};
+
+export type FhirAllergyIntolerance = Base & {
+  resourceType: "AllergyIntolerance";
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  criticality?: "low" | "high" | "unable-to-assess";
+  code?: CodeableConcept;
+  patient?: Reference;
+  asserter?: Reference;
+  reaction?: { manifestation?: CodeableConcept[]; severity?: string; description?: string }[];
+};
+
+export type FhirCondition = Base & {
+  resourceType: "Condition";
+  clinicalStatus?: CodeableConcept;
+  code?: CodeableConcept;
+  subject?: Reference;
+};
+
+export type Dosage = {
+  text?: string;
+  route?: CodeableConcept;
+  timing?: { code?: CodeableConcept };
+  doseAndRate?: { doseQuantity?: { value?: number; unit?: string } }[];
+};
+
+export type FhirMedicationStatement = Base & {
+  resourceType: "MedicationStatement";
+  status?: string;
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: Reference;
+  subject?: Reference;
+  effectivePeriod?: { start?: string; end?: string };
+  informationSource?: Reference;
+  dosage?: Dosage[];
+};
+
+export type FhirObservation = Base & {
+  resourceType: "Observation";
+  status?: string;
+  code?: CodeableConcept;
+  subject?: Reference;
+  valueString?: string;
+  valueCodeableConcept?: CodeableConcept;
+};
+
+export type FhirDocumentReference = Base & {
+  resourceType: "DocumentReference";
+  status?: string;
+  type?: CodeableConcept;
+  subject?: Reference;
+  date?: string;
+  author?: Reference[];
+  description?: string;
+  content?: { attachment?: Attachment }[];
+};
+
+export type FhirDiagnosticReport = Base & {
+  resourceType: "DiagnosticReport";
+  status?: string;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  subject?: Reference;
+  issued?: string;
+  performer?: Reference[];
+  conclusion?: string;
+  presentedForm?: Attachment[];
+};
+
+export type FhirResource =
+  | FhirPatient
+  | FhirAllergyIntolerance
+  | FhirCondition
+  | FhirMedicationStatement
+  | FhirObservation
+  | FhirDocumentReference
+  | FhirDiagnosticReport;
+
+export type FhirBundle = {
+  resourceType: "Bundle";
+  type: "collection";
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+};
+
+/** A resource that was skipped on import, and why. */
+export type FhirIssue = { resource: string; message: string };
+
+export type NewPatientFile = Omit<PatientFile, "id" | "createdAt" | "updatedAt" | "etag">;
+
+export type FhirImport = {
+  /** Fields found in the bundle; diagnoses hold one entry per line. */
+  record: Partial<FullRecord>;
+  files: NewPatientFile[];
+  issues: FhirIssue[];
+  /** Resources that were read without issues. */
+  imported: number;
+};
+
+export class FhirFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FhirFormatError";
+  }
+}
+
+const LOINC = "http://loinc.org";
+const URI_IDENTIFIER = "urn:ietf:rfc:3986";
+const DIAGNOSTIC_SERVICE = "http://terminology.hl7.org/CodeSystem/v2-0074";
+const ALLERGY_CLINICAL = "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical";
+const ALLERGY_VERIFICATION = "http://terminology.hl7.org/CodeSystem/allergyintolerance-verification";
+const CONDITION_CLINICAL = "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const RECORD_NOTES_EXTENSION = "urn:solid-healthcare:fhir:record-notes";
+
+const BLOOD_TYPE_CODE: Coding = { system: LOINC, code: "882-1", display: "ABO and Rh group [Type] in Blood" };
+
+const DOCUMENT_TYPES: Record<"prescription" | "report" | "note", Coding> = {
+  prescription: { system: LOINC, code: "57833-6", display: "Prescription for medication" },
+  report:       { system: LOINC, code: "34133-9", display: "Summary of episode note" },
+  note:         { system: LOINC, code: "34109-9", display: "Note" },
+};
+
+const REPORT_CATEGORIES: Record<"lab" | "imaging", Coding> = {
+  lab:     { system: DIAGNOSTIC_SERVICE, code: "LAB", display: "Laboratory" },
+  imaging: { system: DIAGNOSTIC_SERVICE, code: "RAD", display: "Radiology" },
+};
+
+const FULL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const QUANTITY = /^(\d+(?:\.\d+)?)\s*(\S.*)$/;
+
+/** The JSON types of the members import reads; anything else in a resource is ignored. */
+type Shape = "string" | "number" | Shape[] | { [member: string]: Shape };
+
+const CONCEPT_SHAPE: Shape = { coding: [{ system: "string", code: "string", display: "string" }], text: "string" };
+const REFERENCE_SHAPE: Shape = { reference: "string", display: "string" };
+const ATTACHMENT_SHAPE: Shape = {
+  contentType: "string", data: "string", url: "string", size: "number", title: "string", creation: "string",
+};
+
+const RESOURCE_SHAPES: Record<FhirResource["resourceType"], Shape> = {
+  Patient: {
+    name: [{ text: "string", family: "string", given: ["string"] }],
+    birthDate: "string",
+    address: [{ text: "string", line: ["string"], city: "string", postalCode: "string", country: "string" }],
+    extension: [{ url: "string", valueString: "string" }],
+  },
+  AllergyIntolerance: {
+    verificationStatus: CONCEPT_SHAPE,
+    criticality: "string",
+    code: CONCEPT_SHAPE,
+    patient: REFERENCE_SHAPE,
+    asserter: REFERENCE_SHAPE,
+    reaction: [{ manifestation: [CONCEPT_SHAPE], severity: "string", description: "string" }],
+  },
+  Condition: { code: CONCEPT_SHAPE, subject: REFERENCE_SHAPE },
+  MedicationStatement: {
+    status: "string",
+    medicationCodeableConcept: CONCEPT_SHAPE,
+    medicationReference: REFERENCE_SHAPE,
+    subject: REFERENCE_SHAPE,
+    effectivePeriod: { start: "string", end: "string" },
+    informationSource: REFERENCE_SHAPE,
+    dosage: [{
+      text: "string",
+      route: CONCEPT_SHAPE,
+      timing: { code: CONCEPT_SHAPE },
+      doseAndRate: [{ doseQuantity: { value: "number", unit: "string" } }],
+    }],
+  },
+  Observation: {
+    status: "string", code: CONCEPT_SHAPE, subject: REFERENCE_SHAPE, valueString: "string", valueCodeableConcept: CONCEPT_SHAPE,
+  },
+  DocumentReference: {
+    status: "string",
+    type: CONCEPT_SHAPE,
+    subject: REFERENCE_SHAPE,
+    description: "string",
+    author: [REFERENCE_SHAPE],
+    content: [{ attachment: ATTACHMENT_SHAPE }],
+  },
+  DiagnosticReport: {
+    status: "string",
+    category: [CONCEPT_SHAPE],
+    code: CONCEPT_SHAPE,
+    subject: REFERENCE_SHAPE,
+    conclusion: "string",
+    performer: [REFERENCE_SHAPE],
+    presentedForm: [ATTACHMENT_SHAPE],
+  },
+};
+
+/** FHIR statuses that mean the patient no longer takes the medication. */
+const STOPPED_STATUSES = ["stopped", "completed", "not-taken"];
+
+function uuid(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function lines(text: string): string[] {
+  return text.split("\n").map((l) => l.trim()).filter(Boolean);
+}
+
+function conceptText(c: CodeableConcept | undefined): string {
+  return (c?.text ?? c?.coding?.find((x) => x.display)?.display ?? "").trim();
+}
+
+function hasCode(c: CodeableConcept | undefined, coding: Coding): boolean {
+  return !!c?.coding?.some((x) => x.system === coding.system && x.code === coding.code);
+}
+
+function toBase64(text: string): string {
+  let bin = "";
+  for (const b of new TextEncoder().encode(text)) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
+
+function fromBase64(data: string): string {
+  return new TextDecoder().decode(Uint8Array.from(atob(data), (c) => c.charCodeAt(0)));
+}
+
+// =======================
+// Export
+// =======================
+
+/** The record as FHIR resources about `patient`, the Patient resource first. */
+export function fullRecordToFhir(record: FullRecord, patient: { webId: string; ref: string; id: string }): FhirResource[] {
+  const subject: Reference = { reference: patient.ref };
+  const out: FhirResource[] = [];
+
+  out.push({
+    resourceType: "Patient",
+    id: patient.id,
+    identifier: [{ system: URI_IDENTIFIER, value: patient.webId }],
+    ...(record.patientName.trim() ? { name: [{ text: record.patientName.trim() }] } : {}),
+    ...(record.dateOfBirth ? { birthDate: record.dateOfBirth } : {}),
+    ...(record.address.trim() ? { address: [{ text: record.address.trim() }] } : {}),
+    ...(record.notes.trim() ? { extension: [{ url: RECORD_NOTES_EXTENSION, valueString: record.notes }] } : {}),
+  });
+
+  for (const a of record.allergies) {
+    out.push(allergyToFhir(a, subject));
+  }
+  for (const text of lines(record.diagnoses)) {
+    out.push({
+      resourceType: "Condition",
+      id: uuid(),
+      clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: "active" }] },
+      code: { text },
+      subject,
+    });
+  }
+  for (const m of record.medications) {
+    out.push(medicationToFhir(m, subject));
+  }
+  if (record.bloodType.trim()) {
+    out.push({
+      resourceType: "Observation",
+      id: uuid(),
+      status: "final",
+      code: { coding: [BLOOD_TYPE_CODE], text: "Blood type" },
+      subject,
+      valueString: record.bloodType.trim(),
+    });
+  }
+  return out;
+}
+
+function allergyToFhir(a: Allergy, patient: Reference): FhirAllergyIntolerance {
+  const asserter = isWebIdUrl(a.verifiedBy) ? { reference: a.verifiedBy } : { display: a.verifiedBy };
+  return {
+    resourceType: "AllergyIntolerance",
+    id: a.id,
+    clinicalStatus: { coding: [{ system: ALLERGY_CLINICAL, code: "active" }] },
+    verificationStatus: { coding: [{ system: ALLERGY_VERIFICATION, code: a.verifiedBy ? "confirmed" : "unconfirmed" }] },
+    ...(a.severity ? { criticality: a.severity === "severe" ? "high" : "low" } : {}),
+    code: { text: a.substance },
+    patient,
+    ...(a.verifiedBy ? { asserter } : {}),
+    // FHIR requires a manifestation on each reaction, so a severity alone goes in criticality
+    ...(a.reaction
+      ? { reaction: [{ manifestation: [{ text: a.reaction }], ...(a.severity ? { severity: a.severity } : {}) }] }
+      : {}),
+  };
+}
+
+function medicationToFhir(m: Medication, subject: Reference): FhirMedicationStatement {
+  const quantity = m.strength.replace(",", ".").match(QUANTITY);
+  const text = [m.strength, m.route, m.frequency].filter(Boolean).join(" ");
+  const dosage: Dosage = {
+    ...(text ? { text } : {}),
+    ...(m.route ? { route: { text: m.route } } : {}),
+    ...(m.frequency ? { timing: { code: { text: m.frequency } } } : {}),
+    ...(quantity ? { doseAndRate: [{ doseQuantity: { value: Number(quantity[1]), unit: quantity[2] } }] } : {}),
+  };
+  return {
+    resourceType: "MedicationStatement",
+    id: m.id,
+    status: m.status === "discontinued" ? "stopped" : "active",
+    medicationCodeableConcept: { text: m.name },
+    subject,
+    ...(m.startDate || m.stopDate
+      ? { effectivePeriod: { ...(m.startDate ? { start: m.startDate } : {}), ...(m.stopDate ? { end: m.stopDate } : {}) } }
+      : {}),
+    ...(m.prescriberWebId
+      ? { informationSource: isWebIdUrl(m.prescriberWebId) ? { reference: m.prescriberWebId } : { display: m.prescriberWebId } }
+      : {}),
+    ...(Object.keys(dosage).length ? { dosage: [dosage] } : {}),
+  };
+}
+
+export function patientFileToFhir(file: PatientFile, patientRef: string): FhirDocumentReference | FhirDiagnosticReport {
+  const attachment: Attachment = {
+    contentType: "text/plain; charset=utf-8",
+    data: toBase64(file.content),
+    title: file.title,
+    creation: file.createdAt,
+  };
+  const attachments: Attachment[] = [
+    attachment,
+    ...(file.attachment
+      ? [{ contentType: file.attachment.contentType, url: file.attachment.url, size: file.attachment.size, title: file.attachment.name }]
+      : []),
+  ];
+  const subject: Reference = { reference: patientRef };
+  const meta = { lastUpdated: file.updatedAt };
+
+  if (file.type === "lab" || file.type === "imaging") {
+    return {
+      resourceType: "DiagnosticReport",
+      id: file.id,
+      meta,
+      status: "final",
+      category: [{ coding: [REPORT_CATEGORIES[file.type]] }],
+      code: { text: file.title },
+      subject,
+      issued: file.createdAt,
+      ...(file.createdBy ? { performer: [{ reference: file.createdBy }] } : {}),
+      ...(file.description ? { conclusion: file.description } : {}),
+      presentedForm: attachments,
+    };
+  }
+
+  return {
+    resourceType: "DocumentReference",
+    id: file.id,
+    meta,
+    status: "current",
+    type: { coding: [DOCUMENT_TYPES[file.type]], text: file.title },
+    subject,
+    date: file.createdAt,
+    ...(file.createdBy ? { author: [{ reference: file.createdBy }] } : {}),
+    ...(file.description ? { description: file.description } : {}),
+    content: attachments.map((a) => ({ attachment: a })),
+  };
+}
+
+/** A collection Bundle of the record and files, referencing the patient by urn:uuid. */
+export function exportFhirBundle(args: { record: FullRecord | null; files: PatientFile[]; patientWebId: string }): FhirBundle {
+  const patientId = uuid();
+  const patient = { webId: args.patientWebId, ref: `urn:uuid:${patientId}`, id: patientId };
+
+  const resources: FhirResource[] = [
+    ...fullRecordToFhir({ ...emptyFullRecord(), ...args.record }, patient),
+    ...args.files.map((f) => patientFileToFhir(f, patient.ref)),
+  ];
+
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: resources.map((resource) => ({ fullUrl: `urn:uuid:${resource.id}`, resource })),
+  };
+}
+
+// =======================
+// Import
+// =======================
+
+/**
+ * Reads one PatientFile from a DocumentReference or DiagnosticReport. Throws a
+ * FhirFormatError naming what is missing or unsupported.
+ */
+export function patientFileFromFhir(resource: FhirDocumentReference | FhirDiagnosticReport): NewPatientFile {
+  const attachment = resource.resourceType === "DiagnosticReport"
+    ? resource.presentedForm?.[0]
+    : resource.content?.[0]?.attachment;
+
+  let content = "";
+  if (attachment?.data) {
+    if (attachment.contentType && !attachment.contentType.startsWith("text/")) {
+      throw new FhirFormatError(`Attachment type ${attachment.contentType} is not supported; only text can be imported.`);
+    }
+    try {
+      content = fromBase64(attachment.data);
+    } catch {
+      throw new FhirFormatError("Attachment data is not valid base64.");
+    }
+  } else if (attachment?.url) {
+    throw new FhirFormatError("Attachments stored by URL are not supported; the content must be inline.");
+  }
+
+  const shared = { sharedWithDoctor: false, sharedWithEmergency: false, sharedWithNurse: false, sharedWithPharmacy: false };
+
+  if (resource.resourceType === "DiagnosticReport") {
+    if (!resource.status) throw new FhirFormatError("status is required.");
+    const title = conceptText(resource.code) || attachment?.title || "";
+    if (!title) throw new FhirFormatError("code is required.");
+    const imaging = resource.category?.some((c) => hasCode(c, REPORT_CATEGORIES.imaging)) ?? false;
+    return {
+      title,
+      description: resource.conclusion ?? "",
+      content,
+      type: imaging ? "imaging" : "lab",
+      createdBy: resource.performer?.[0]?.reference ?? resource.performer?.[0]?.display ?? "",
+      ...shared,
+    };
+  }
+
+  if (!resource.status) throw new FhirFormatError("status is required.");
+  if (!resource.content?.length) throw new FhirFormatError("content is required.");
+  const type = (Object.keys(DOCUMENT_TYPES) as (keyof typeof DOCUMENT_TYPES)[])
+    .find((t) => hasCode(resource.type, DOCUMENT_TYPES[t])) ?? "note";
+  const title = attachment?.title || conceptText(resource.type) || resource.description || "";
+  if (!title) throw new FhirFormatError("A title is required on the attachment or type.");
+  return {
+    title,
+    description: resource.description ?? "",
+    content,
+    type,
+    createdBy: resource.author?.[0]?.reference ?? resource.author?.[0]?.display ?? "",
+    ...shared,
+  };
+}
+
+function allergyFromFhir(resource: FhirAllergyIntolerance, substance: string): Allergy {
+  const reaction = resource.reaction?.[0];
+  const severity = reaction?.severity;
+  return {
+    ...newAllergy(),
+    substance,
+    reaction: conceptText(reaction?.manifestation?.[0]) || (reaction?.description ?? ""),
+    severity: severity === "mild" || severity === "moderate" || severity === "severe"
+      ? severity
+      : resource.criticality === "high" ? "severe" : "",
+    verifiedBy: hasCode(resource.verificationStatus, { system: ALLERGY_VERIFICATION, code: "confirmed" })
+      ? resource.asserter?.reference ?? resource.asserter?.display ?? ""
+      : "",
+  };
+}
+
+function medicationFromFhir(resource: FhirMedicationStatement, name: string): Medication {
+  const dosage = resource.dosage?.[0];
+  const quantity = dosage?.doseAndRate?.[0]?.doseQuantity;
+  const route = conceptText(dosage?.route);
+  const frequency = conceptText(dosage?.timing?.code);
+  // Dosages from other systems may only have free text; read it as the legacy list did
+  const parsed = dosage?.text ? parseLegacyMedications(`${name} ${dosage.text}`)[0] : undefined;
+  const period = resource.effectivePeriod;
+  for (const [field, value] of [["effectivePeriod.start", period?.start], ["effectivePeriod.end", period?.end]]) {
+    if (value && !/^\d{4}-\d{2}-\d{2}/.test(value)) throw new FhirFormatError(`${field} "${value}" must be a full date.`);
+  }
+  return {
+    ...newMedication(),
+    name,
+    strength: quantity?.value !== undefined ? `${quantity.value} ${quantity.unit ?? ""}`.trim() : parsed?.strength ?? "",
+    route: route || (parsed?.route ?? ""),
+    frequency: frequency || (parsed?.frequency ?? ""),
+    startDate: period?.start?.slice(0, 10) ?? "",
+    stopDate: period?.end?.slice(0, 10) ?? "",
+    prescriberWebId: isWebIdUrl(resource.informationSource?.reference ?? "")
+      ? resource.informationSource?.reference ?? ""
+      : resource.informationSource?.display ?? "",
+    status: STOPPED_STATUSES.includes(resource.status ?? "") ? "discontinued" : "active",
+  };
+}
+
+/** Throws a FhirFormatError naming the first member whose JSON type is not the one import reads. */
+function checkShape(value: unknown, shape: Shape, path: string): void {
+  if (shape === "string" || shape === "number") {
+    if (typeof value !== shape) throw new FhirFormatError(`${path} must be ${shape === "string" ? "text" : "a number"}.`);
+    return;
+  }
+  if (Array.isArray(shape)) {
+    if (!Array.isArray(value)) throw new FhirFormatError(`${path} must be a list.`);
+    value.forEach((item, i) => checkShape(item, shape[0], `${path}[${i}]`));
+    return;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) throw new FhirFormatError(`${path} must be an object.`);
+  for (const [member, memberShape] of Object.entries(shape)) {
+    const memberValue = (value as Record<string, unknown>)[member];
+    if (memberValue !== undefined) checkShape(memberValue, memberShape, path ? `${path}.${member}` : member);
+  }
+}
+
+function label(resource: { resourceType?: unknown; id?: unknown }, index: number): string {
+  const type = typeof resource.resourceType === "string" ? resource.resourceType : "Resource";
+  return typeof resource.id === "string" && resource.id ? `${type}/${resource.id}` : `${type} (entry ${index + 1})`;
+}
+
+/**
+ * Parses a FHIR R4 Bundle (or a single resource). Resources that fail validation, or
+ * whose members do not have the JSON types FHIR gives them, are reported in `issues`
+ * and left out; the rest are returned for the caller to save. Throws FhirFormatError
+ * when the text is not a Bundle at all.
+ */
+export function importFhirBundle(text: string): FhirImport {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new FhirFormatError("The file is not valid JSON.");
+  }
+  if (!json || typeof json !== "object") throw new FhirFormatError("The file is not a FHIR resource.");
+
+  const root = json as { resourceType?: unknown; entry?: unknown };
+  let entries: { fullUrl?: string; resource?: FhirResource }[];
+  if (root.resourceType === "Bundle") {
+    if (!Array.isArray(root.entry)) throw new FhirFormatError("The Bundle has no entries.");
+    entries = root.entry as typeof entries;
+  } else if (typeof root.resourceType === "string") {
+    entries = [{ resource: root as FhirResource }];
+  } else {
+    throw new FhirFormatError("The file is not a FHIR resource: resourceType is missing.");
+  }
+
+  const result: FhirImport = { record: {}, files: [], issues: [], imported: 0 };
+  const listed: Record<"diagnoses", string[]> = { diagnoses: [] };
+  const allergies: Allergy[] = [];
+  const medications: Medication[] = [];
+
+  // References to the patient may use the entry's fullUrl or Patient/<id>
+  const patientEntry = entries.find((e) => e?.resource?.resourceType === "Patient");
+  const patientRefs = new Set<string>();
+  if (patientEntry?.fullUrl) patientRefs.add(patientEntry.fullUrl);
+  if (patientEntry?.resource?.id) patientRefs.add(`Patient/${patientEntry.resource.id}`);
+
+  function checkSubject(ref: Reference | undefined, field: string): void {
+    if (!ref?.reference && !ref?.display) throw new FhirFormatError(`${field} is required.`);
+    if (patientRefs.size && ref.reference && !patientRefs.has(ref.reference)) {
+      throw new FhirFormatError(`${field} refers to ${ref.reference}, not the patient in this bundle.`);
+    }
+  }
+
+  entries.forEach((entry, i) => {
+    const resource = entry?.resource;
+    if (!resource || typeof resource !== "object") {
+      result.issues.push({ resource: `entry ${i + 1}`, message: "The entry has no resource." });
+      return;
+    }
+    const name = label(resource, i);
+
+    try {
+      const shape = RESOURCE_SHAPES[resource.resourceType as FhirResource["resourceType"]];
+      if (shape) checkShape(resource, shape, "");
+
+      switch (resource.resourceType) {
+        case "Patient": {
+          if (entry !== patientEntry) throw new FhirFormatError("Only one Patient per bundle can be imported.");
+          const name0 = resource.name?.[0];
+          const fullName = name0?.text ?? [...(name0?.given ?? []), name0?.family ?? ""].join(" ").trim();
+          if (resource.birthDate && !FULL_DATE.test(resource.birthDate)) {
+            throw new FhirFormatError(`birthDate "${resource.birthDate}" must be a full date (YYYY-MM-DD).`);
+          }
+          const addr = resource.address?.[0];
+          const addressText = addr?.text
+            ?? [...(addr?.line ?? []), addr?.postalCode, addr?.city, addr?.country].filter(Boolean).join(", ");
+          const notes = resource.extension?.find((x) => x.url === RECORD_NOTES_EXTENSION)?.valueString;
+
+          if (fullName) result.record.patientName = fullName;
+          if (resource.birthDate) result.record.dateOfBirth = resource.birthDate;
+          if (addressText) result.record.address = addressText;
+          if (notes) result.record.notes = notes;
+          break;
+        }
+        case "AllergyIntolerance": {
+          checkSubject(resource.patient, "patient");
+          const text = conceptText(resource.code);
+          if (!text) throw new FhirFormatError("code is required.");
+          allergies.push(allergyFromFhir(resource, text));
+          break;
+        }
+        case "Condition": {
+          checkSubject(resource.subject, "subject");
+          const text = conceptText(resource.code);
+          if (!text) throw new FhirFormatError("code is required.");
+          listed.diagnoses.push(text);
+          break;
+        }
+        case "MedicationStatement": {
+          checkSubject(resource.subject, "subject");
+          if (!resource.status) throw new FhirFormatError("status is required.");
+          if (resource.medicationReference) {
+            throw new FhirFormatError("medicationReference is not supported; use medicationCodeableConcept.");
+          }
+          const text = conceptText(resource.medicationCodeableConcept);
+          if (!text) throw new FhirFormatError("medicationCodeableConcept is required.");
+          medications.push(medicationFromFhir(resource, text));
+          break;
+        }
+        case "Observation": {
+          if (!hasCode(resource.code, BLOOD_TYPE_CODE)) {
+            throw new FhirFormatError("Only blood type observations (LOINC 882-1) can be imported.");
+          }
+          checkSubject(resource.subject, "subject");
+          const value = resource.valueString ?? conceptText(resource.valueCodeableConcept);
+          if (!value) throw new FhirFormatError("The observation has no value.");
+          result.record.bloodType = value;
+          break;
+        }
+        case "DocumentReference":
+        case "DiagnosticReport":
+          checkSubject(resource.subject, "subject");
+          result.files.push(patientFileFromFhir(resource));
+          break;
+        default:
+          throw new FhirFormatError(`${String((resource as { resourceType?: unknown }).resourceType)} resources are not supported.`);
+      }
+      result.imported++;
+    } catch (e) {
+      // Anything a malformed resource throws is that resource's issue, not the import's
+      const message = e instanceof FhirFormatError ? e.message : `The resource could not be read: ${String(e)}`;
+      result.issues.push({ resource: name, message });
+    }
+  });
+
+  if (listed.diagnoses.length) result.record.diagnoses = listed.diagnoses.join("\n");
+  if (allergies.length) result.record.allergies = allergies;
+  if (medications.length) result.record.medications = medications;
+  return result;
+}
+
+/**
+ * Merges imported fields into the record: single-value fields take the imported value,
+ * diagnoses gain the imported lines they do not already contain, allergies the
+ * substances and medications the name and strength not already listed, and imported
+ * notes are appended unless already present.
+ */
+export function mergeImportedRecord(current: FullRecord, imported: Partial<FullRecord>): FullRecord {
+  const next = { ...current };
+  for (const key of ["patientName", "dateOfBirth", "bloodType", "address"] as const) {
+    if (imported[key]) next[key] = imported[key];
+  }
+  const have = new Set(lines(next.diagnoses));
+  const fresh = lines(imported.diagnoses ?? "").filter((l) => !have.has(l));
+  if (fresh.length) next.diagnoses = [...lines(next.diagnoses), ...fresh].join("\n");
+  const allergyKey = (a: Allergy) => a.substance.toLowerCase().replace(/\s+/g, "");
+  const haveAllergies = new Set(next.allergies.map(allergyKey));
+  const freshAllergies = (imported.allergies ?? []).filter((a) => !haveAllergies.has(allergyKey(a)));
+  if (freshAllergies.length) next.allergies = [...next.allergies, ...freshAllergies];
+  const medKey = (m: Medication) => `${m.name}|${m.strength}`.toLowerCase().replace(/\s+/g, "");
+  const haveMeds = new Set(next.medications.map(medKey));
+  const freshMeds = (imported.medications ?? []).filter((m) => !haveMeds.has(medKey(m)));
+  if (freshMeds.length) next.medications = [...next.medications, ...freshMeds];
+  const notes = imported.notes?.trim();
+  if (notes && !next.notes.includes(notes)) next.notes = next.notes.trim() ? `${next.notes.trimEnd()}\n\n${notes}` : notes;
+  return next;
+}
@@ -3,20 +3,54 @@ import type { AuthenticatedFetch } from "./session";
 import {
   GOVERNANCE_POD_BASE,
   GOVERNANCE_WEBID,
-  DOCTOR_WEBID,
-  PATIENTS,
+  SEED_PATIENTS,
+  SEED_PRACTITIONERS,
 } from "./config";
+import { ensureContainer, listContainerMembers } from "./ldp";
+import { canonicalize } from "./jcs";
+import { createKeyResolver, ensureSigningKey, signRecord, verifyRecordSignature } from "./signing";
+import type { KeyResolver, Signature, SignatureCheck } from "./signing";
+import type { PatientFile } from "./healthData";
+import { NS, parseTurtle } from "./rdf";
+import { resolveAgentIssuers } from "./issuers";
+import { addBreakGlassControl, removeBreakGlassControl } from "./acp";
 
 /**
  * Minimal, stable governance layer:
- * - Terms: plain text file
- * - Grant state: JSON at /governance/grants/state/<key>.json (patient writes, doctor reads)
- * - Acknowledgement: JSON at /governance/grants/acks/<key>-<grantId>.json (doctor writes)
- * - Audit: JSON event files at /governance/audit/events/<uuid>.json (patient/doctor write)
+ * - Terms: immutable plain text versions at /governance/notices/terms/vN.txt, listed in
+ *   notices/terms/manifest.json. Acks record the terms hash they accepted; a newer current
+ *   version makes every grantee acknowledge again.
+ * - Grant state: JSON at /governance/grants/state/<key>.json (patient writes, grantee reads)
+ * - Acknowledgement: JSON at /governance/grants/acks/<key>-<grantId>.json (grantee writes)
+ * - Audit: JSON event files at /governance/audit/events/<uuid>.json (patient/grantee write),
+ *   hash-chained: each event carries `seq` and the previous event's hash (`prevHash`); the
+ *   chain tip lives at /governance/audit/chain/head.json and is advanced with If-Match.
+ * - Patient audit view: a copy of every event about a patient at
+ *   /governance/audit/patients/<patientKey>/<uuid>.json, readable by that patient only.
+ *   The governance log stays authoritative; the copy is what the patient's timeline reads.
+ * - Signatures: acks and audit events are signed by their writer (see signing.ts) when the
+ *   writer's browser has a published key; the hash chain alone can be recomputed by anyone
+ *   with write access, a signature cannot.
+ * - Practitioner registry: /governance/registry/practitioners.ttl (RDF, schema.org terms) maps
+ *   each clinician's WebID to a grantee role and organisation; roles are resolved from it at login.
+ * - Patient registry: /governance/registry/patients/<key>.json per enrolled patient (clinicians
+ *   and that patient read). Patients file a signed request at registry/requests/<key>.json,
+ *   which governance approves; approval re-applies the governance ACRs to include them.
+ * - Break-glass: emergency clinicians append a signed request to
+ *   /governance/grants/break-glass/<patientKey>/requests/; governance issues it by writing its
+ *   decision one level up and placing an expiring read policy on the patient's health/ ACR,
+ *   which it removes again when the grant lapses or is reviewed. Only the patient reads the
+ *   container; each decision is also readable by its requester.
  *
- * Uses only GET/PUT so it works reliably on CSS without PATCH/POST dependencies.
+ * A grantee is any clinician role that reads patient data (doctor, emergency, nurse,
+ * pharmacy); all of them go through the same grant → notice → acknowledgement flow.
+ * Each grant names a purpose of use and a scope within the patient's health/ container;
+ * the patient's ACRs (acp.ts) are generated to match the scope.
+ *
+ * Uses GET/PUT, plus POST where writers may only append to a container.
  */
 
+/** The seed (v1) terms, written by bootstrap when no manifest exists yet. */
 const TERMS_VERSION = "v1.0";
 const TERMS_TEXT =
   "Data Use Notice: You may access this patient record only for the authorised care purpose.\n" +
@@ -26,24 +60,95 @@ const TERMS_TEXT =
 
 const GOV = {
   noticesContainer: `${GOVERNANCE_POD_BASE}notices/`,
-  termsUrl: `${GOVERNANCE_POD_BASE}notices/terms/v1.txt`,
+  termsContainer: `${GOVERNANCE_POD_BASE}notices/terms/`,
+  termsManifestUrl: `${GOVERNANCE_POD_BASE}notices/terms/manifest.json`,
 
   grantsContainer: `${GOVERNANCE_POD_BASE}grants/`,
   grantsStateContainer: `${GOVERNANCE_POD_BASE}grants/state/`,
   grantsAcksContainer: `${GOVERNANCE_POD_BASE}grants/acks/`,
+  breakGlassContainer: `${GOVERNANCE_POD_BASE}grants/break-glass/`,
 
   auditContainer: `${GOVERNANCE_POD_BASE}audit/`,
   auditEventsContainer: `${GOVERNANCE_POD_BASE}audit/events/`,
+  auditChainContainer: `${GOVERNANCE_POD_BASE}audit/chain/`,
+  auditPatientsContainer: `${GOVERNANCE_POD_BASE}audit/patients/`,
+  auditHeadUrl: `${GOVERNANCE_POD_BASE}audit/chain/head.json`,
+
+  registryContainer: `${GOVERNANCE_POD_BASE}registry/`,
+  practitionersUrl: `${GOVERNANCE_POD_BASE}registry/practitioners.ttl`,
+  registryPatientsContainer: `${GOVERNANCE_POD_BASE}registry/patients/`,
+  registryRequestsContainer: `${GOVERNANCE_POD_BASE}registry/requests/`,
+};
+
+export type GranteeRole = "doctor" | "emergency" | "nurse" | "pharmacy";
+
+export const GRANTEE_ROLES: GranteeRole[] = ["doctor", "emergency", "nurse", "pharmacy"];
+
+export function isGranteeRole(role: string): role is GranteeRole {
+  return (GRANTEE_ROLES as string[]).includes(role);
+}
+
+export type GrantPurpose = "treatment" | "emergency" | "research" | "billing";
+
+export const GRANT_PURPOSES: GrantPurpose[] = ["treatment", "emergency", "research", "billing"];
+
+/**
+ * What a grant covers within scopeUrl. "record-and-shared-files" is how grants behaved
+ * before scopes existed: the full record plus every file the patient shared with the
+ * role. The file scopes select files themselves, regardless of the per-file sharing flags.
+ */
+export type GrantScope =
+  | { kind: "record-and-shared-files" }
+  | { kind: "full-record" }
+  | { kind: "file-types"; fileTypes: PatientFile["type"][] }
+  | { kind: "file"; fileId: string };
+
+export const DEFAULT_GRANT_SCOPE: GrantScope = { kind: "record-and-shared-files" };
+
+/** What the patient agreed to when granting: why, and over what. */
+export type GrantTerms = {
+  purpose: GrantPurpose;
+  purposeDetail?: string;
+  scope: GrantScope;
 };
 
+/** Grants made before purposes and scopes were recorded are for treatment, over the default scope. */
+export function grantTermsOf(state: Pick<GrantState, "purpose" | "purposeDetail" | "scope">): GrantTerms {
+  return {
+    purpose: state.purpose ?? "treatment",
+    ...(state.purposeDetail ? { purposeDetail: state.purposeDetail } : {}),
+    scope: state.scope ?? DEFAULT_GRANT_SCOPE,
+  };
+}
+
+/** Whether two sets of terms grant the same thing; file types compare as a set. */
+export function sameGrantTerms(a: GrantTerms, b: GrantTerms): boolean {
+  const norm = (t: GrantTerms) => ({
+    purpose: t.purpose,
+    purposeDetail: t.purposeDetail?.trim() || undefined,
+    scope: t.scope.kind === "file-types" ? { ...t.scope, fileTypes: [...t.scope.fileTypes].sort() } : t.scope,
+  });
+  return JSON.stringify(norm(a)) === JSON.stringify(norm(b));
+}
+
 export type GrantState = {
   key: string;
   patientWebId: string;
-  doctorWebId: string;
+  granteeWebId: string;
+  granteeRole: GranteeRole;
   scopeUrl: string;
 
-  status: "active" | "revoked";
+  status: "active" | "revoked" | "expired";
   updatedAt: string;
+  /** ISO timestamp after which the grant no longer admits the grantee; absent = no expiry. */
+  expiresAt?: string;
+
+  /** Absent on grants made before purposes were recorded; read through grantTermsOf. */
+  purpose?: GrantPurpose;
+  /** Patient's wording, e.g. "treatment of condition X". */
+  purposeDetail?: string;
+  /** Absent on grants made before scopes were recorded; read through grantTermsOf. */
+  scope?: GrantScope;
 
   termsVersion: string;
   termsUrl: string;
@@ -51,37 +156,159 @@ export type GrantState = {
 
   grantId: string;
 
+  /** Set when governance revoked the grant; cleared once the patient's session has dropped it from the pod ACRs. */
+  podSyncPending?: boolean;
+
   // App.tsx expects this name.
-  // In this minimal design, activeGrantUrl is the acknowledgement URL (doctor writes it).
+  // In this minimal design, activeGrantUrl is the acknowledgement URL (grantee writes it).
   activeGrantUrl: string;
 };
 
-type Ack = {
+export type TermsVersion = {
+  /** Label stored on grants and acks ("v1.0", "v2.0", …); part of the hash. */
+  version: string;
+  number: number;
+  url: string;
+  hash: string;
+  publishedAt: string;
+  publishedBy: string;
+};
+
+export type TermsManifest = {
+  current: string;
+  versions: TermsVersion[];
+};
+
+export type Ack = {
   acknowledgedBy: string;
   acknowledgedAt: string;
+  /** Where the ack was written, so a signed ack cannot be replayed for another grant. */
+  ackUrl?: string;
   termsVersion: string;
   termsHash: string;
+  /** By acknowledgedBy, over every other member. */
+  signature?: Signature;
 };
 
 export type AuditEvent = {
   eventId: string;
   at: string;
-  type: "GRANT" | "NOTICE_ACK" | "REVOKE" | "READ_BLOCKED";
+  type:
+    | "GRANT"
+    | "NOTICE_ACK"
+    | "REVOKE"
+    | "EXPIRE"
+    | "BREAK_GLASS"
+    | "BREAK_GLASS_REVIEW"
+    | "READ"
+    | "READ_BLOCKED"
+    | "WRITE"
+    | "TERMS_PUBLISH"
+    | "PATIENT_ENROL"
+    | "RECORD_RESTORE";
   actorWebId: string;
   patientWebId: string;
-  doctorWebId: string;
+  granteeWebId?: string;
+  granteeRole?: GranteeRole;
+  /** Events written before grants were generalised name the grantee here instead. */
+  doctorWebId?: string;
   scopeUrl: string;
   grantId?: string;
   ackUrl?: string;
+  expiresAt?: string;
+  /** GRANT: purpose of use and what within scopeUrl was granted. */
+  purpose?: GrantPurpose;
+  purposeDetail?: string;
+  grantScope?: GrantScope;
+  justification?: string;
+  /** READ / READ_BLOCKED / WRITE: the resource within scopeUrl that was accessed. */
+  resourceUrl?: string;
+  blockedReason?: ReadBlockedReason;
+  /** RECORD_RESTORE: the history entry whose record was made current again. */
+  restoredVersionUrl?: string;
   termsVersion?: string;
   termsHash?: string;
+  /** Position in the hash chain; absent on events written before chaining. */
+  seq?: number;
+  /** eventHash of the event at seq - 1 (GENESIS_PREV_HASH for seq 1). */
+  prevHash?: string;
+  /** How eventHash was computed; absent on events written before versioning (= LEGACY_HASH_ALG). */
+  hashAlg?: AuditHashAlg;
   eventHash: string;
+  /** By actorWebId, over every other member (eventHash included). */
+  signature?: Signature;
+};
+
+export type ReadBlockedReason = "no-grant" | "notice-required" | "expired" | "forbidden";
+
+/** SHA-256 over the shallow-sorted JSON of the event minus eventHash. */
+export const LEGACY_HASH_ALG = "sha256-shallow-v1";
+/** SHA-256 over the RFC 8785 (JCS) canonical form of the event minus eventHash. */
+export const CURRENT_HASH_ALG = "sha256-jcs-v2";
+
+export type AuditHashAlg = typeof LEGACY_HASH_ALG | typeof CURRENT_HASH_ALG;
+
+export const GENESIS_PREV_HASH = "0".repeat(64);
+
+/** Tip of the audit hash chain. */
+export type AuditHead = {
+  seq: number;
+  eventId: string | null;
+  eventHash: string;
+};
+
+/** How long a break-glass grant admits the emergency clinician. */
+export const BREAK_GLASS_DURATION_MS = 60 * 60_000;
+export const BREAK_GLASS_MIN_JUSTIFICATION = 20;
+
+export type BreakGlassReview = {
+  reviewedBy: string;
+  reviewedAt: string;
+  outcome: "justified" | "unjustified";
+  note?: string;
+};
+
+/** Filed by an emergency clinician; only governance decides on it. */
+export type BreakGlassRequest = {
+  id: string;
+  patientWebId: string;
+  granteeWebId: string;
+  scopeUrl: string;
+  justification: string;
+  requestedAt: string;
+  /** By granteeWebId, over every other member. */
+  signature?: Signature;
+};
+
+/** A request as governance keeps it, with its decision. Written by governance only. */
+export type BreakGlassRecord = BreakGlassRequest & {
+  url: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  issuedBy?: string;
+  declined?: { at: string; reason: string };
+  review?: BreakGlassReview;
+  /** When the patient pod policy was removed (expiry or review). */
+  closedAt?: string;
 };
 
+export type BreakGlassGrant = BreakGlassRecord & { issuedAt: string; expiresAt: string };
+
 function nowIso() {
   return new Date().toISOString();
 }
 
+/** True once the grant has lapsed, whether or not the patient's session has recorded it yet. */
+export function isGrantExpired(state: GrantState, now = Date.now()): boolean {
+  if (state.status === "expired") return true;
+  return state.status === "active" && !!state.expiresAt && Date.parse(state.expiresAt) <= now;
+}
+
+/** A grant admits its grantee only while active and not past its expiry. */
+export function isGrantLive(state: GrantState, now = Date.now()): boolean {
+  return state.status === "active" && !isGrantExpired(state, now);
+}
+
 function uuid(): string {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
@@ -94,49 +321,29 @@ async function sha256Hex(text: string): Promise<string> {
   return bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-// Stable enough for this demo (shallow key sort)
-function canonicalJson(obj: unknown): string {
-  const anyObj = obj as any;
-  return JSON.stringify(anyObj, Object.keys(anyObj).sort());
-}
-
-async function ensureContainer(fetchFn: AuthenticatedFetch, containerUrl: string): Promise<void> {
-  const res = await fetchFn(containerUrl, { method: "GET", cache: "no-store" });
-  if (res.ok) return;
-
-  if (res.status !== 404) {
-    const t = await res.text().catch(() => "");
-    throw new Error(`Cannot access container ${containerUrl}: ${res.status}\n${t}`);
-  }
-
-  const turtle = `
-@prefix ldp: <http://www.w3.org/ns/ldp#>.
-<> a ldp:BasicContainer, ldp:Container .
-`.trim();
-
-  const created = await fetchFn(containerUrl, {
-    method: "PUT",
-    headers: { "Content-Type": "text/turtle; charset=utf-8" },
-    body: turtle,
-  });
-
-  if (!created.ok && created.status !== 412) {
-    const t = await created.text().catch(() => "");
-    throw new Error(`Failed to create container ${containerUrl}: ${created.status}\n${t}`);
-  }
+/**
+ * Original event hashing: JSON.stringify with the sorted top-level keys as a
+ * replacer array. Nested object members not named at the top level are dropped,
+ * so it is kept only to verify events written before hashAlg existed.
+ */
+function legacyShallowJson(obj: object): string {
+  return JSON.stringify(obj, Object.keys(obj).sort());
 }
 
-async function putText(fetchFn: AuthenticatedFetch, url: string, text: string): Promise<void> {
+/** Creates a text resource; 412 (it already exists) resolves to false and leaves it untouched. */
+async function createText(fetchFn: AuthenticatedFetch, url: string, text: string): Promise<boolean> {
   const res = await fetchFn(url, {
     method: "PUT",
-    headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+    headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store", "If-None-Match": "*" },
     body: text,
   });
 
-  if (!res.ok && res.status !== 412) {
+  if (res.status === 412) return false;
+  if (!res.ok) {
     const t = await res.text().catch(() => "");
     throw new Error(`Failed PUT text ${url}: ${res.status}\n${t}`);
   }
+  return true;
 }
 
 async function putJson(fetchFn: AuthenticatedFetch, url: string, body: unknown): Promise<void> {
@@ -152,6 +359,23 @@ async function putJson(fetchFn: AuthenticatedFetch, url: string, body: unknown):
   }
 }
 
+/** Appends to a container the writer may not otherwise write to; resolves to the new member's URL. */
+async function postJson(fetchFn: AuthenticatedFetch, containerUrl: string, slug: string, body: unknown): Promise<string> {
+  const res = await fetchFn(containerUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", Slug: slug },
+    body: JSON.stringify(body, null, 2),
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed POST json ${containerUrl}: ${res.status}\n${t}`);
+  }
+  const location = res.headers.get("Location");
+  if (!location) throw new Error(`Failed POST json ${containerUrl}: no Location`);
+  return new URL(location, containerUrl).toString();
+}
+
 async function getJson<T>(fetchFn: AuthenticatedFetch, url: string): Promise<T | null> {
   const res = await fetchFn(url, { method: "GET", cache: "no-store" });
   if (res.status === 404) return null;
@@ -171,18 +395,25 @@ function matcherAgentsBlock(agentWebIds: string[]): string {
     ];`.trim();
 }
 
+/**
+ * Readers and writers get the same access to the container and its members. Appenders
+ * may only add members (POST): they get no access to what they, or anyone, added.
+ */
 function buildContainerAcr(args: {
   resourceUrl: string;
   ownerWebId: string;
   readers?: string[];
   writers?: string[];
+  appenders?: string[];
 }): string {
   const readers = args.readers ?? [];
   const writers = args.writers ?? [];
+  const appenders = args.appenders ?? [];
 
-  const accessControls: string[] = ["<#owner>"];
-  if (readers.length) accessControls.push("<#readers>");
-  if (writers.length) accessControls.push("<#writers>");
+  const memberControls: string[] = ["<#owner>"];
+  if (readers.length) memberControls.push("<#readers>");
+  if (writers.length) memberControls.push("<#writers>");
+  const accessControls = appenders.length ? [...memberControls, "<#appenders>"] : memberControls;
 
   return `
 @prefix acp: <http://www.w3.org/ns/solid/acp#>.
@@ -192,7 +423,7 @@ function buildContainerAcr(args: {
   a acp:AccessControlResource ;
   acp:resource <${args.resourceUrl}> ;
   acp:accessControl ${accessControls.join(", ")} ;
-  acp:memberAccessControl ${accessControls.join(", ")} .
+  acp:memberAccessControl ${memberControls.join(", ")} .
 
 <#owner>
   a acp:AccessControl ;
@@ -229,6 +460,20 @@ ${matcherAgentsBlock(writers)}
 `
     : ""
 }
+
+${
+  appenders.length
+    ? `
+<#appenders>
+  a acp:AccessControl ;
+  acp:apply [
+    a acp:Policy ;
+    acp:allow acl:Append ;
+${matcherAgentsBlock(appenders)}
+  ] .
+`
+    : ""
+}
 `.trim();
 }
 
@@ -288,8 +533,9 @@ async function putAcr(fetchFn: AuthenticatedFetch, resourceUrl: string, turtle:
   }
 }
 
-async function makeKey(patientWebId: string, doctorWebId: string, scopeUrl: string): Promise<string> {
-  const raw = `${patientWebId}::${doctorWebId}::${scopeUrl}`;
+// Same input layout as when the grantee was always the doctor, so existing keys stay valid.
+async function makeKey(patientWebId: string, granteeWebId: string, scopeUrl: string): Promise<string> {
+  const raw = `${patientWebId}::${granteeWebId}::${scopeUrl}`;
   const h = await sha256Hex(raw);
   return h.slice(0, 20);
 }
@@ -302,34 +548,375 @@ function ackUrlFor(key: string, grantId: string): string {
   return `${GOV.grantsAcksContainer}${key}-${grantId}.json`;
 }
 
+async function patientAuditContainerUrl(patientWebId: string): Promise<string> {
+  const key = (await sha256Hex(patientWebId)).slice(0, 20);
+  return `${GOV.auditPatientsContainer}${key}/`;
+}
+
+async function patientBreakGlassContainerUrl(patientWebId: string): Promise<string> {
+  const key = (await sha256Hex(patientWebId)).slice(0, 20);
+  return `${GOV.breakGlassContainer}${key}/`;
+}
+
+/** Grantee of an audit event, including events written before grants were generalised. */
+export function auditEventGrantee(ev: AuditEvent): string {
+  return ev.granteeWebId ?? ev.doctorWebId ?? "";
+}
+
+type LegacyGrantState = Omit<GrantState, "granteeWebId" | "granteeRole"> & { doctorWebId: string };
+
+function isLegacyGrantState(raw: GrantState | LegacyGrantState): raw is LegacyGrantState {
+  return !("granteeWebId" in raw) && "doctorWebId" in raw;
+}
+
+/** State files written before grants were generalised always had the doctor as grantee. */
+function migrateGrantState(raw: GrantState | LegacyGrantState): GrantState {
+  if (!isLegacyGrantState(raw)) return raw;
+  const { doctorWebId, ...rest } = raw;
+  return { ...rest, granteeWebId: doctorWebId, granteeRole: "doctor" };
+}
+
+async function getGrantState(fetchFn: AuthenticatedFetch, url: string): Promise<GrantState | null> {
+  const raw = await getJson<GrantState | LegacyGrantState>(fetchFn, url);
+  return raw ? migrateGrantState(raw) : null;
+}
+
+/**
+ * Rewrites legacy grant state files in place. Governance only (it owns grants/state/);
+ * readers also migrate on the fly, so this only makes the stored files consistent.
+ */
+export async function migrateGrantStates(fetchFn: AuthenticatedFetch): Promise<number> {
+  const members = await listContainerMembers(fetchFn, GOV.grantsStateContainer);
+  let migrated = 0;
+
+  for (const url of members.filter((u) => u.endsWith(".json"))) {
+    const raw = await getJson<GrantState | LegacyGrantState>(fetchFn, url);
+    if (!raw || !isLegacyGrantState(raw)) continue;
+    await putJson(fetchFn, url, migrateGrantState(raw));
+    migrated++;
+  }
+
+  return migrated;
+}
+
+type AuditEventInput = Omit<
+  AuditEvent,
+  "eventId" | "at" | "eventHash" | "doctorWebId" | "granteeWebId" | "seq" | "prevHash" | "hashAlg" | "signature"
+> & {
+  granteeWebId: string;
+};
+
+const GENESIS_HEAD: AuditHead = { seq: 0, eventId: null, eventHash: GENESIS_PREV_HASH };
+const HEAD_CLAIM_ATTEMPTS = 5;
+
+/** hashAlg is itself part of the hashed content, so an event cannot be downgraded. */
+async function hashAuditEvent(ev: Omit<AuditEvent, "eventHash" | "signature">): Promise<string> {
+  const alg = ev.hashAlg ?? LEGACY_HASH_ALG;
+  if (alg === CURRENT_HASH_ALG) return sha256Hex(canonicalize(ev));
+  if (alg === LEGACY_HASH_ALG) return sha256Hex(legacyShallowJson(ev));
+  throw new Error(`Unknown audit hashAlg: ${alg}`);
+}
+
+/** The members eventHash covers: everything but the hash itself and the signature over it. */
+function hashedContent(ev: AuditEvent): Omit<AuditEvent, "eventHash" | "signature"> {
+  const copy: Partial<AuditEvent> = { ...ev };
+  delete copy.eventHash;
+  delete copy.signature;
+  return copy as Omit<AuditEvent, "eventHash" | "signature">;
+}
+
+/** Recomputes an event's hash under the algorithm it declares. */
+export async function verifyAuditEventHash(ev: AuditEvent): Promise<boolean> {
+  try {
+    return (await hashAuditEvent(hashedContent(ev))) === ev.eventHash;
+  } catch {
+    return false;
+  }
+}
+
+async function readAuditHead(
+  fetchFn: AuthenticatedFetch,
+): Promise<{ head: AuditHead; etag: string | null } | "unavailable"> {
+  const res = await fetchFn(GOV.auditHeadUrl, { method: "GET", cache: "no-store" });
+  if (res.status === 404) return { head: GENESIS_HEAD, etag: null };
+  if (res.status === 401 || res.status === 403) return "unavailable";
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed GET ${GOV.auditHeadUrl}: ${res.status}\n${t}`);
+  }
+  return { head: (await res.json()) as AuditHead, etag: res.headers.get("ETag") };
+}
+
+/** Moves the chain tip only if nobody else has since (412 → caller retries). */
+async function claimAuditHead(
+  fetchFn: AuthenticatedFetch,
+  next: AuditHead,
+  etag: string | null,
+): Promise<boolean> {
+  const res = await fetchFn(GOV.auditHeadUrl, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+      ...(etag ? { "If-Match": etag } : { "If-None-Match": "*" }),
+    },
+    body: JSON.stringify(next, null, 2),
+  });
+
+  if (res.status === 412) return false;
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed PUT json ${GOV.auditHeadUrl}: ${res.status}\n${t}`);
+  }
+  return true;
+}
+
+/**
+ * Copies an event into its patient's audit view. Actors may only append there,
+ * so the copy is POSTed. Best effort: the event is already in the governance log,
+ * and stores bootstrapped before patient views existed have no container to write to.
+ */
+async function projectForPatient(fetchFn: AuthenticatedFetch, ev: AuditEvent): Promise<void> {
+  if (ev.patientWebId === GOVERNANCE_WEBID) return;
+  try {
+    await postJson(fetchFn, await patientAuditContainerUrl(ev.patientWebId), `${ev.eventId}.json`, ev);
+  } catch {
+    // governance re-bootstrap creates the container; the event is not lost
+  }
+}
+
+async function signAuditEvent(ev: AuditEvent): Promise<AuditEvent> {
+  const signature = await signRecord(ev.actorWebId, ev);
+  return signature ? { ...ev, signature } : ev;
+}
+
+/**
+ * Appends an event to the hash chain. The head is claimed before the event is
+ * written, so a failed event write shows up as a gap rather than a silent fork.
+ * An event is never written outside the chain: without a readable head (stores
+ * bootstrapped before chaining, or a writer the chain ACR does not name yet) it fails.
+ */
 async function writeAudit(
   fetchFn: AuthenticatedFetch,
-  ev: Omit<AuditEvent, "eventId" | "at" | "eventHash">,
+  ev: AuditEventInput,
 ): Promise<void> {
   const eventId = uuid();
-  const at = nowIso();
-  const base = { eventId, at, ...ev };
-  const eventHash = await sha256Hex(canonicalJson(base));
-  const full: AuditEvent = { ...(base as any), eventHash };
 
-  await putJson(fetchFn, `${GOV.auditEventsContainer}${eventId}.json`, full);
+  for (let attempt = 0; attempt < HEAD_CLAIM_ATTEMPTS; attempt++) {
+    const current = await readAuditHead(fetchFn);
+    const at = nowIso();
+
+    if (current === "unavailable") {
+      throw new Error("The audit chain cannot be read, so the event was not logged. Ask governance to re-bootstrap.");
+    }
+
+    const base: Omit<AuditEvent, "eventHash"> = {
+      eventId,
+      at,
+      ...ev,
+      seq: current.head.seq + 1,
+      prevHash: current.head.eventHash,
+      hashAlg: CURRENT_HASH_ALG,
+    };
+    const full = await signAuditEvent({ ...base, eventHash: await hashAuditEvent(base) });
+
+    const claimed = await claimAuditHead(
+      fetchFn,
+      { seq: full.seq!, eventId, eventHash: full.eventHash },
+      current.etag,
+    );
+    if (!claimed) continue;
+
+    await putJson(fetchFn, `${GOV.auditEventsContainer}${eventId}.json`, full);
+    await projectForPatient(fetchFn, full);
+    return;
+  }
+
+  throw new Error("Audit chain is busy; could not append event. Please retry.");
+}
+
+export async function getAuditHead(fetchFn: AuthenticatedFetch): Promise<AuditHead | null> {
+  const current = await readAuditHead(fetchFn);
+  return current === "unavailable" ? null : current.head;
+}
+
+// =======================
+// Terms of use
+// =======================
+
+function termsUrlFor(n: number): string {
+  return `${GOV.termsContainer}v${n}.txt`;
+}
+
+function termsHashFor(version: string, text: string): Promise<string> {
+  return sha256Hex(`${version}::${text}`);
+}
+
+/** Clinicians and patients read the terms through the container's member access control. */
+async function putNoticeAcr(fetchFn: AuthenticatedFetch, url: string): Promise<void> {
+  await putAcr(fetchFn, url, buildResourceAcr({ resourceUrl: url, ownerWebId: GOVERNANCE_WEBID }));
+}
+
+async function readTermsManifest(
+  fetchFn: AuthenticatedFetch,
+): Promise<{ manifest: TermsManifest; etag: string | null } | null> {
+  const res = await fetchFn(GOV.termsManifestUrl, { method: "GET", cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed GET ${GOV.termsManifestUrl}: ${res.status}\n${t}`);
+  }
+  return { manifest: (await res.json()) as TermsManifest, etag: res.headers.get("ETag") };
+}
+
+export async function getTermsManifest(fetchFn: AuthenticatedFetch): Promise<TermsManifest | null> {
+  return (await readTermsManifest(fetchFn))?.manifest ?? null;
+}
+
+/** The version new grants are made under and acks must match. Stores without a manifest are on v1. */
+export async function getCurrentTerms(fetchFn: AuthenticatedFetch): Promise<TermsVersion> {
+  const manifest = await getTermsManifest(fetchFn);
+  const current = manifest?.versions.find((v) => v.version === manifest.current);
+  if (current) return current;
+
+  return {
+    version: TERMS_VERSION,
+    number: 1,
+    url: termsUrlFor(1),
+    hash: await termsHashFor(TERMS_VERSION, TERMS_TEXT),
+    publishedAt: "",
+    publishedBy: GOVERNANCE_WEBID,
+  };
+}
+
+export async function getTermsText(fetchFn: AuthenticatedFetch, terms: Pick<TermsVersion, "url">): Promise<string> {
+  const res = await fetchFn(terms.url, { method: "GET", cache: "no-store" });
+  if (!res.ok) throw new Error(`Failed GET ${terms.url}: ${res.status}`);
+  return res.text();
 }
 
 /**
- * Run once while logged in as Governance WebID.
+ * Seeds v1 and the manifest. The manifest entry hashes the text actually on the
+ * pod, so stores bootstrapped before versioning keep their existing acks valid.
  */
-export async function bootstrapGovernanceStore(fetchFn: AuthenticatedFetch): Promise<void> {
-  await ensureContainer(fetchFn, GOV.noticesContainer);
-  await ensureContainer(fetchFn, GOV.grantsContainer);
-  await ensureContainer(fetchFn, GOV.grantsStateContainer);
-  await ensureContainer(fetchFn, GOV.grantsAcksContainer);
-  await ensureContainer(fetchFn, GOV.auditContainer);
-  await ensureContainer(fetchFn, GOV.auditEventsContainer);
+async function ensureTermsManifest(fetchFn: AuthenticatedFetch): Promise<void> {
+  const v1Url = termsUrlFor(1);
+  if (await createText(fetchFn, v1Url, TERMS_TEXT)) await putNoticeAcr(fetchFn, v1Url);
+  if (await readTermsManifest(fetchFn)) return;
+
+  const v1: TermsVersion = {
+    version: TERMS_VERSION,
+    number: 1,
+    url: v1Url,
+    hash: await termsHashFor(TERMS_VERSION, await getTermsText(fetchFn, { url: v1Url })),
+    publishedAt: nowIso(),
+    publishedBy: GOVERNANCE_WEBID,
+  };
+  const manifest: TermsManifest = { current: v1.version, versions: [v1] };
+
+  const res = await fetchFn(GOV.termsManifestUrl, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", "If-None-Match": "*" },
+    body: JSON.stringify(manifest, null, 2),
+  });
+  if (!res.ok && res.status !== 412) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed PUT json ${GOV.termsManifestUrl}: ${res.status}\n${t}`);
+  }
+  await putNoticeAcr(fetchFn, GOV.termsManifestUrl);
+}
 
-  await putText(fetchFn, GOV.termsUrl, TERMS_TEXT);
+/**
+ * Governance only. Writes the next vN.txt (never overwriting) and makes it
+ * current; grantees must acknowledge it before their next read.
+ */
+export async function publishTermsVersion(fetchFn: AuthenticatedFetch, text: string): Promise<TermsVersion> {
+  const body = text.trim();
+  if (!body) throw new Error("Terms text must not be empty.");
+
+  const current = await readTermsManifest(fetchFn);
+  if (!current) throw new Error("Bootstrap the governance store before publishing terms.");
+  const { manifest, etag } = current;
+
+  const latest = manifest.versions.find((v) => v.version === manifest.current);
+  if (latest && (await getTermsText(fetchFn, latest)).trim() === body) {
+    throw new Error(`The text is identical to the current terms (${latest.version}).`);
+  }
+
+  const number = Math.max(0, ...manifest.versions.map((v) => v.number)) + 1;
+  const version = `v${number}.0`;
+  const url = termsUrlFor(number);
+
+  if (!(await createText(fetchFn, url, body))) {
+    throw new Error(`Terms ${version} were published by someone else. Reload and try again.`);
+  }
+  await putNoticeAcr(fetchFn, url);
+
+  const entry: TermsVersion = {
+    version,
+    number,
+    url,
+    hash: await termsHashFor(version, body),
+    publishedAt: nowIso(),
+    publishedBy: GOVERNANCE_WEBID,
+  };
+  const next: TermsManifest = { current: version, versions: [...manifest.versions, entry] };
+
+  const res = await fetchFn(GOV.termsManifestUrl, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+      ...(etag ? { "If-Match": etag } : {}),
+    },
+    body: JSON.stringify(next, null, 2),
+  });
+  if (res.status === 412) throw new Error("The terms manifest changed meanwhile. Reload and try again.");
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed PUT json ${GOV.termsManifestUrl}: ${res.status}\n${t}`);
+  }
+
+  await writeAudit(fetchFn, {
+    type: "TERMS_PUBLISH",
+    actorWebId: GOVERNANCE_WEBID,
+    patientWebId: GOVERNANCE_WEBID,
+    granteeWebId: GOVERNANCE_WEBID,
+    scopeUrl: GOV.termsContainer,
+    termsVersion: entry.version,
+    termsHash: entry.hash,
+  });
+
+  return entry;
+}
+
+/** Copies events logged before patient views existed (or while one was unwritable). */
+async function backfillPatientAuditViews(fetchFn: AuthenticatedFetch, patientWebIds: string[]): Promise<void> {
+  const events = await readAuditEvents(fetchFn, GOV.auditEventsContainer);
+
+  for (const patientWebId of patientWebIds) {
+    const containerUrl = await patientAuditContainerUrl(patientWebId);
+    const present = new Set(await listContainerMembers(fetchFn, containerUrl));
 
-  const patientWebIds = Object.values(PATIENTS).map((p) => p.webId);
-  const actors = [DOCTOR_WEBID, ...patientWebIds];
+    for (const ev of events) {
+      if (ev.patientWebId !== patientWebId) continue;
+      const url = `${containerUrl}${ev.eventId}.json`;
+      if (!present.has(url)) await putJson(fetchFn, url, ev);
+    }
+  }
+}
+
+/**
+ * Gives every registered practitioner and enrolled patient their access to the governance
+ * store. ACRs name agents explicitly, so this runs again whenever either registry changes.
+ */
+async function applyGovernanceAcrs(
+  fetchFn: AuthenticatedFetch,
+  patientWebIds: string[],
+  practitioners: Practitioner[],
+): Promise<void> {
+  const clinicianWebIds = practitioners.map((p) => p.webId);
+  const actors = [...clinicianWebIds, ...patientWebIds];
 
   // Terms readable by everyone in demo
   await putAcr(
@@ -345,15 +932,16 @@ export async function bootstrapGovernanceStore(fetchFn: AuthenticatedFetch): Pro
 
   await putAcr(
     fetchFn,
-    GOV.termsUrl,
-    buildResourceAcr({
-      resourceUrl: GOV.termsUrl,
+    GOV.termsContainer,
+    buildContainerAcr({
+      resourceUrl: GOV.termsContainer,
       ownerWebId: GOVERNANCE_WEBID,
       readers: actors,
+      writers: [],
     }),
   );
 
-  // State: doctor + patients read; patients write
+  // State: clinicians + patients read; patients write
   await putAcr(
     fetchFn,
     GOV.grantsStateContainer,
@@ -365,7 +953,7 @@ export async function bootstrapGovernanceStore(fetchFn: AuthenticatedFetch): Pro
     }),
   );
 
-  // Acks: doctor writes; doctor + patients read
+  // Acks: clinicians write; clinicians + patients read
   await putAcr(
     fetchFn,
     GOV.grantsAcksContainer,
@@ -373,7 +961,17 @@ export async function bootstrapGovernanceStore(fetchFn: AuthenticatedFetch): Pro
       resourceUrl: GOV.grantsAcksContainer,
       ownerWebId: GOVERNANCE_WEBID,
       readers: actors,
-      writers: [DOCTOR_WEBID],
+      writers: clinicianWebIds,
+    }),
+  );
+
+  // Break-glass: governance only; each patient has their own container (see ensurePatientBreakGlass)
+  await putAcr(
+    fetchFn,
+    GOV.breakGlassContainer,
+    buildContainerAcr({
+      resourceUrl: GOV.breakGlassContainer,
+      ownerWebId: GOVERNANCE_WEBID,
     }),
   );
 
@@ -389,37 +987,641 @@ export async function bootstrapGovernanceStore(fetchFn: AuthenticatedFetch): Pro
     }),
   );
 
-  await writeAudit(fetchFn, {
-    type: "GRANT",
-    actorWebId: GOVERNANCE_WEBID,
-    patientWebId: GOVERNANCE_WEBID,
-    doctorWebId: DOCTOR_WEBID,
-    scopeUrl: GOV.auditEventsContainer,
-    termsVersion: TERMS_VERSION,
-    termsHash: await sha256Hex(`${TERMS_VERSION}::${TERMS_TEXT}`),
-  });
-}
-
-export async function createGrantAndActivate(
-  fetchFn: AuthenticatedFetch,
-  args: { patientWebId: string; doctorWebId: string; scopeUrl: string },
-): Promise<{ grantId: string; grantUrl: string }> {
-  const key = await makeKey(args.patientWebId, args.doctorWebId, args.scopeUrl);
-  const grantId = uuid();
-  const updatedAt = nowIso();
+  // Chain head: every audit writer reads and advances it
+  await putAcr(
+    fetchFn,
+    GOV.auditChainContainer,
+    buildContainerAcr({
+      resourceUrl: GOV.auditChainContainer,
+      ownerWebId: GOVERNANCE_WEBID,
+      readers: actors,
+      writers: actors,
+    }),
+  );
 
-  const termsHash = await sha256Hex(`${TERMS_VERSION}::${TERMS_TEXT}`);
-  const ackUrl = ackUrlFor(key, grantId);
+  // Patient audit views: each patient reads only their own; every actor appends
+  await putAcr(
+    fetchFn,
+    GOV.auditPatientsContainer,
+    buildContainerAcr({
+      resourceUrl: GOV.auditPatientsContainer,
+      ownerWebId: GOVERNANCE_WEBID,
+    }),
+  );
+
+  const emergencyWebIds = practitionersFor(practitioners, "emergency").map((p) => p.webId);
+  for (const patientWebId of patientWebIds) {
+    await ensurePatientAuditView(fetchFn, patientWebId, actors);
+    await ensurePatientBreakGlass(fetchFn, patientWebId, emergencyWebIds);
+  }
+
+  // Registry: clinicians list and read enrolled patients; each entry is also readable by its patient
+  await putAcr(
+    fetchFn,
+    GOV.registryPatientsContainer,
+    buildContainerAcr({
+      resourceUrl: GOV.registryPatientsContainer,
+      ownerWebId: GOVERNANCE_WEBID,
+      readers: clinicianWebIds,
+    }),
+  );
+
+  // Registration requests: anyone signed in may append one; only governance reads or removes them
+  await putAcr(
+    fetchFn,
+    GOV.registryRequestsContainer,
+    buildContainerAcr({
+      resourceUrl: GOV.registryRequestsContainer,
+      ownerWebId: GOVERNANCE_WEBID,
+      appenders: [AUTHENTICATED_AGENT],
+    }),
+  );
+}
+
+async function ensurePatientAuditView(
+  fetchFn: AuthenticatedFetch,
+  patientWebId: string,
+  actors: string[],
+): Promise<void> {
+  const containerUrl = await patientAuditContainerUrl(patientWebId);
+  await ensureContainer(fetchFn, containerUrl);
+  await putAcr(
+    fetchFn,
+    containerUrl,
+    buildContainerAcr({
+      resourceUrl: containerUrl,
+      ownerWebId: GOVERNANCE_WEBID,
+      readers: [patientWebId],
+      // Append only: nobody but governance may rewrite or delete an event once it is there
+      appenders: actors,
+    }),
+  );
+}
+
+/**
+ * A patient's break-glass records: only the patient reads them (each decision is also
+ * readable by its requester), and emergency practitioners may only append requests.
+ */
+async function ensurePatientBreakGlass(
+  fetchFn: AuthenticatedFetch,
+  patientWebId: string,
+  emergencyWebIds: string[],
+): Promise<void> {
+  const containerUrl = await patientBreakGlassContainerUrl(patientWebId);
+  const requestsUrl = `${containerUrl}requests/`;
+  await ensureContainer(fetchFn, containerUrl);
+  await ensureContainer(fetchFn, requestsUrl);
+  await putAcr(
+    fetchFn,
+    containerUrl,
+    buildContainerAcr({ resourceUrl: containerUrl, ownerWebId: GOVERNANCE_WEBID, readers: [patientWebId] }),
+  );
+  await putAcr(
+    fetchFn,
+    requestsUrl,
+    buildContainerAcr({
+      resourceUrl: requestsUrl,
+      ownerWebId: GOVERNANCE_WEBID,
+      readers: [patientWebId],
+      appenders: emergencyWebIds,
+    }),
+  );
+}
+
+/** Re-runs applyGovernanceAcrs from both registries; returns the enrolled patients' WebIDs. */
+async function reapplyGovernanceAcrs(fetchFn: AuthenticatedFetch): Promise<string[]> {
+  const [patients, practitioners] = await Promise.all([listDirectoryPatients(fetchFn), listPractitioners(fetchFn)]);
+  const patientWebIds = patients.map((p) => p.webId);
+  await applyGovernanceAcrs(fetchFn, patientWebIds, practitioners);
+  return patientWebIds;
+}
+
+// =======================
+// Practitioner registry
+// =======================
+
+/** A clinician allowed to act in a grantee role, resolved from their WebID at login. */
+export type Practitioner = {
+  webId: string;
+  role: GranteeRole;
+  name: string;
+  organisation: string;
+};
+
+const SCHEMA_PERSON = `${NS.schema}Person`;
+const SCHEMA_NAME = `${NS.schema}name`;
+const SCHEMA_ROLE_NAME = `${NS.schema}roleName`;
+const SCHEMA_WORKS_FOR = `${NS.schema}worksFor`;
+
+/**
+ * The registry document: one schema:Person per practitioner, with the grantee role as
+ * schema:roleName and the organisation as a blank schema:worksFor node.
+ */
+export function serializePractitioners(practitioners: Practitioner[]): string {
+  const people = practitioners.map(
+    (p) => `<${p.webId}> a schema:Person ;
+  schema:name ${JSON.stringify(p.name)} ;
+  schema:roleName ${JSON.stringify(p.role)} ;
+  schema:worksFor [ a schema:Organization ; schema:name ${JSON.stringify(p.organisation)} ] .`,
+  );
+  return [`@prefix schema: <${NS.schema}>.`, ...people].join("\n\n");
+}
+
+/** Reads the registry document; people without a known grantee role are ignored. */
+export function parsePractitioners(turtle: string, baseIri: string): Practitioner[] {
+  const graph = parseTurtle(turtle, baseIri);
+  const practitioners: Practitioner[] = [];
+
+  for (const webId of graph.subjectsOfType(SCHEMA_PERSON)) {
+    const role = graph.objectIds(webId, SCHEMA_ROLE_NAME).find(isGranteeRole);
+    if (!role) continue;
+    const [org] = graph.objectIds(webId, SCHEMA_WORKS_FOR);
+    practitioners.push({
+      webId,
+      role,
+      name: graph.objectIds(webId, SCHEMA_NAME)[0] ?? webId,
+      organisation: (org && graph.objectIds(org, SCHEMA_NAME)[0]) ?? "",
+    });
+  }
+
+  return practitioners;
+}
+
+export function findPractitioner(practitioners: Practitioner[], webId: string | undefined): Practitioner | null {
+  return practitioners.find((p) => p.webId === webId) ?? null;
+}
+
+export function practitionersFor(practitioners: Practitioner[], role: GranteeRole): Practitioner[] {
+  return practitioners.filter((p) => p.role === role);
+}
+
+/** Every registered practitioner. Until bootstrap has written the registry, the seed accounts stand in for it. */
+export async function listPractitioners(fetchFn: AuthenticatedFetch): Promise<Practitioner[]> {
+  const res = await fetchFn(GOV.practitionersUrl, {
+    method: "GET",
+    headers: { Accept: "text/turtle" },
+    cache: "no-store",
+  });
+  if (res.status === 404) return [...SEED_PRACTITIONERS];
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed to read practitioner registry: ${res.status}\n${t}`);
+  }
+  return parsePractitioners(await res.text(), GOV.practitionersUrl);
+}
+
+async function putPractitioners(fetchFn: AuthenticatedFetch, practitioners: Practitioner[]): Promise<void> {
+  const res = await fetchFn(GOV.practitionersUrl, {
+    method: "PUT",
+    headers: { "Content-Type": "text/turtle; charset=utf-8" },
+    body: serializePractitioners(practitioners),
+  });
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed PUT ${GOV.practitionersUrl}: ${res.status}\n${t}`);
+  }
+
+  // Every signed-in agent resolves its own role from the registry at login
+  await putAcr(
+    fetchFn,
+    GOV.practitionersUrl,
+    buildResourceAcr({ resourceUrl: GOV.practitionersUrl, ownerWebId: GOVERNANCE_WEBID, readers: [AUTHENTICATED_AGENT] }),
+  );
+}
+
+/** Governance: writes the seed practitioners if there is no registry yet. */
+async function ensurePractitionerRegistry(fetchFn: AuthenticatedFetch): Promise<void> {
+  const res = await fetchFn(GOV.practitionersUrl, { method: "HEAD", cache: "no-store" });
+  if (res.status === 404) await putPractitioners(fetchFn, [...SEED_PRACTITIONERS]);
+}
+
+/** What removing practitioners (or changing their role) ended. */
+export type PractitionerRevocations = {
+  revokedGrants: number;
+  closedBreakGlass: number;
+};
+
+/**
+ * Governance: replaces the registry and re-applies the governance ACRs so that added
+ * practitioners can act and removed ones cannot. Live grants to anyone no longer registered
+ * in their role are revoked at once and their break-glass access is closed; the patient
+ * pod ACRs only drop revoked grants at each patient's next session, as only the patient
+ * may rewrite them.
+ */
+export async function savePractitioners(
+  fetchFn: AuthenticatedFetch,
+  practitioners: Practitioner[],
+): Promise<PractitionerRevocations> {
+  const seen = new Set<string>();
+  for (const p of practitioners) {
+    try {
+      new URL(p.webId);
+    } catch {
+      throw new Error(`Not a WebID: ${p.webId}`);
+    }
+    if (seen.has(p.webId)) throw new Error(`${p.webId} is listed twice.`);
+    if (p.webId === GOVERNANCE_WEBID) throw new Error("Governance cannot also be a practitioner.");
+    seen.add(p.webId);
+  }
+
+  await putPractitioners(fetchFn, practitioners);
+  await reapplyGovernanceAcrs(fetchFn);
+  return revokeUnregistered(fetchFn, practitioners);
+}
+
+async function revokeUnregistered(
+  fetchFn: AuthenticatedFetch,
+  practitioners: Practitioner[],
+): Promise<PractitionerRevocations> {
+  const registered = (webId: string, role: GranteeRole) =>
+    practitionersFor(practitioners, role).some((p) => p.webId === webId);
+  const revocations: PractitionerRevocations = { revokedGrants: 0, closedBreakGlass: 0 };
+
+  for (const state of await listGrantStates(fetchFn)) {
+    if (!isGrantLive(state) || registered(state.granteeWebId, state.granteeRole)) continue;
+
+    const next: GrantState = { ...state, status: "revoked", updatedAt: nowIso(), podSyncPending: true };
+    await putJson(fetchFn, stateUrlForKey(state.key), next);
+
+    await writeAudit(fetchFn, {
+      type: "REVOKE",
+      actorWebId: GOVERNANCE_WEBID,
+      patientWebId: state.patientWebId,
+      granteeWebId: state.granteeWebId,
+      granteeRole: state.granteeRole,
+      scopeUrl: state.scopeUrl,
+      grantId: state.grantId,
+      ackUrl: state.activeGrantUrl,
+      termsVersion: state.termsVersion,
+      termsHash: state.termsHash,
+    });
+    revocations.revokedGrants++;
+  }
+
+  for (const record of await listBreakGlassRecords(fetchFn)) {
+    if (!isBreakGlassLive(record) || registered(record.granteeWebId, "emergency")) continue;
+    try {
+      await closeBreakGlass(fetchFn, record);
+      revocations.closedBreakGlass++;
+    } catch {
+      // the policy states its expiry, so the patient's next session drops it too
+    }
+  }
+
+  return revocations;
+}
+
+// =======================
+// Patient registry
+// =======================
+
+/** A patient as clinicians and the app see them. `id` is stable; seed accounts keep their config key. */
+export type DirectoryPatient = {
+  id: string;
+  label: string;
+  webId: string;
+  podBaseUrl: string;
+};
+
+export type RegisteredPatient = DirectoryPatient & {
+  approvedAt: string;
+  approvedBy: string;
+};
+
+/** Filed by the patient; governance approves it into a RegisteredPatient. */
+export type PatientRegistration = {
+  webId: string;
+  label: string;
+  podBaseUrl: string;
+  requestedAt: string;
+  /** By webId, over every other member. */
+  signature?: Signature;
+};
+
+export type PendingRegistration = {
+  url: string;
+  registration: PatientRegistration;
+  signature: SignatureCheck;
+};
+
+const AUTHENTICATED_AGENT = "http://www.w3.org/ns/solid/acp#AuthenticatedAgent";
+
+async function registryKey(webId: string): Promise<string> {
+  return (await sha256Hex(webId)).slice(0, 20);
+}
+
+function seedPatients(): DirectoryPatient[] {
+  return Object.entries(SEED_PATIENTS).map(([id, p]) => ({ id, ...p }));
+}
+
+async function registryEntryUrl(webId: string): Promise<string> {
+  return `${GOV.registryPatientsContainer}${await registryKey(webId)}.json`;
+}
+
+async function putRegistryEntry(fetchFn: AuthenticatedFetch, entry: RegisteredPatient): Promise<void> {
+  const url = await registryEntryUrl(entry.webId);
+  await putJson(fetchFn, url, entry);
+  await putAcr(
+    fetchFn,
+    url,
+    buildResourceAcr({
+      resourceUrl: url,
+      ownerWebId: GOVERNANCE_WEBID,
+      readers: [entry.webId],
+    }),
+  );
+}
+
+/** Governance: enrols the seed accounts that are not in the registry yet. */
+async function enrolSeedPatients(fetchFn: AuthenticatedFetch): Promise<void> {
+  for (const seed of seedPatients()) {
+    if (await getJson<RegisteredPatient>(fetchFn, await registryEntryUrl(seed.webId))) continue;
+    await putRegistryEntry(fetchFn, { ...seed, approvedAt: nowIso(), approvedBy: GOVERNANCE_WEBID });
+  }
+}
+
+/**
+ * Enrolled patients (clinicians and governance). Before bootstrap has created the
+ * registry, the seed accounts stand in for it.
+ */
+export async function listDirectoryPatients(fetchFn: AuthenticatedFetch): Promise<DirectoryPatient[]> {
+  let members: string[];
+  try {
+    members = await listContainerMembers(fetchFn, GOV.registryPatientsContainer);
+  } catch {
+    return seedPatients();
+  }
+  // Bootstrap enrols the seed accounts, so an empty listing means the registry is missing
+  if (members.length === 0) return seedPatients();
+
+  const patients: DirectoryPatient[] = [];
+  for (const url of members.filter((u) => u.endsWith(".json"))) {
+    try {
+      const entry = await getJson<RegisteredPatient>(fetchFn, url);
+      if (entry) patients.push(entry);
+    } catch {
+      // skip unreadable entries
+    }
+  }
+
+  return patients.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/** The signed-in patient's own entry, or null if they are not enrolled (yet). */
+export async function findDirectoryPatient(
+  fetchFn: AuthenticatedFetch,
+  webId: string,
+): Promise<DirectoryPatient | null> {
+  const res = await fetchFn(await registryEntryUrl(webId), { method: "GET", cache: "no-store" });
+  if (res.ok) return (await res.json()) as RegisteredPatient;
+  if (res.status === 404) return null;
+
+  // Registry not bootstrapped yet, or not readable: fall back to the seed accounts
+  return seedPatients().find((p) => p.webId === webId) ?? null;
+}
+
+export type PatientAccess = "granted" | "ended" | "break-glass";
+
+export type GranteePatient = DirectoryPatient & { access: PatientAccess };
+
+/**
+ * Clinician: the enrolled patients whose grants name this grantee, live grants first.
+ * Emergency may open any record under break-glass, so it is offered every patient.
+ */
+export async function listGranteePatients(
+  fetchFn: AuthenticatedFetch,
+  args: { granteeWebId: string; granteeRole: GranteeRole },
+): Promise<GranteePatient[]> {
+  const [patients, states] = await Promise.all([
+    listDirectoryPatients(fetchFn),
+    listGrantStates(fetchFn).catch(() => [] as GrantState[]),
+  ]);
+
+  const access = new Map<string, PatientAccess>();
+  for (const st of states) {
+    if (st.granteeWebId !== args.granteeWebId) continue;
+    if (isGrantLive(st)) access.set(st.patientWebId, "granted");
+    else if (!access.has(st.patientWebId)) access.set(st.patientWebId, "ended");
+  }
+
+  const order: Record<PatientAccess, number> = { granted: 0, "break-glass": 1, ended: 2 };
+  const listed: GranteePatient[] = [];
+  for (const p of patients) {
+    let a = access.get(p.webId);
+    if (args.granteeRole === "emergency" && a !== "granted") a = "break-glass";
+    if (a) listed.push({ ...p, access: a });
+  }
+
+  return listed.sort((x, y) => order[x.access] - order[y.access] || x.label.localeCompare(y.label));
+}
+
+/** The pod advertised by pim:storage in a WebID profile, to prefill the registration form. */
+export async function findProfileStorage(fetchFn: AuthenticatedFetch, webId: string): Promise<string | null> {
+  const doc = webId.split("#")[0];
+  try {
+    const res = await fetchFn(doc, { method: "GET", headers: { Accept: "text/turtle" }, cache: "no-store" });
+    if (!res.ok) return null;
+    return parseTurtle(await res.text(), doc).objectIds(webId, `${NS.pim}storage`)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Patient: files a registration request, signed with this browser's published key.
+ * Requesters may only append, so a repeat request is filed alongside the first.
+ */
+export async function requestPatientRegistration(
+  fetchFn: AuthenticatedFetch,
+  args: { webId: string; label: string; podBaseUrl: string },
+): Promise<void> {
+  const label = args.label.trim();
+  if (!label) throw new Error("Please enter your name.");
+
+  let podBaseUrl: string;
+  try {
+    podBaseUrl = new URL(args.podBaseUrl.trim()).toString();
+  } catch {
+    throw new Error("Please enter the URL of your pod.");
+  }
+  if (!podBaseUrl.endsWith("/")) podBaseUrl += "/";
+
+  const registration: PatientRegistration = {
+    webId: args.webId,
+    label,
+    podBaseUrl,
+    requestedAt: nowIso(),
+  };
+  // Unsigned requests are not approved by default, so wait for this browser's key
+  await ensureSigningKey(fetchFn, args.webId).catch(() => undefined);
+  const signature = await signRecord(args.webId, registration);
+
+  try {
+    await postJson(
+      fetchFn,
+      GOV.registryRequestsContainer,
+      `${await registryKey(args.webId)}-${uuid()}.json`,
+      signature ? { ...registration, signature } : registration,
+    );
+  } catch (e) {
+    throw new Error(`Registration failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/** Governance: pending registration requests, oldest first, with their signature checks. */
+export async function listPendingRegistrations(fetchFn: AuthenticatedFetch): Promise<PendingRegistration[]> {
+  const members = await listContainerMembers(fetchFn, GOV.registryRequestsContainer).catch(() => []);
+  const resolveKey = createKeyResolver(fetchFn);
+  const pending: PendingRegistration[] = [];
+
+  for (const url of members.filter((u) => u.endsWith(".json"))) {
+    try {
+      const registration = await getJson<PatientRegistration>(fetchFn, url);
+      if (!registration) continue;
+      // Anyone signed in may file a request, so only its signature ties it to the WebID it names
+      const signature = await verifyRecordSignature(resolveKey, registration.webId, registration);
+      pending.push({ url, registration, signature });
+    } catch {
+      // skip unreadable requests
+    }
+  }
+
+  return pending.sort((a, b) => a.registration.requestedAt.localeCompare(b.registration.requestedAt));
+}
+
+/**
+ * Governance: enrols the patient, grants them their governance access, and removes every
+ * request filed for that WebID. Only validly signed requests are approved, unless governance
+ * has confirmed an unsigned one with the patient and passes `allowUnverified`.
+ */
+export async function approvePatientRegistration(
+  fetchFn: AuthenticatedFetch,
+  pending: PendingRegistration,
+  opts?: { allowUnverified?: boolean },
+): Promise<RegisteredPatient> {
+  if (pending.signature.status === "invalid") {
+    throw new Error(`Registration signature is invalid: ${pending.signature.detail}`);
+  }
+  if (pending.signature.status === "unsigned" && !opts?.allowUnverified) {
+    throw new Error("Registration is not signed, so it cannot be attributed to its WebID.");
+  }
+
+  const { webId, label, podBaseUrl } = pending.registration;
+  const entry: RegisteredPatient = {
+    id: await registryKey(webId),
+    label,
+    webId,
+    podBaseUrl,
+    approvedAt: nowIso(),
+    approvedBy: GOVERNANCE_WEBID,
+  };
+  await putRegistryEntry(fetchFn, entry);
+
+  await reapplyGovernanceAcrs(fetchFn);
+
+  for (const other of await listPendingRegistrations(fetchFn)) {
+    if (other.url !== pending.url && other.registration.webId === webId) await deleteRegistration(fetchFn, other.url);
+  }
+  await deleteRegistration(fetchFn, pending.url);
+
+  await writeAudit(fetchFn, {
+    type: "PATIENT_ENROL",
+    actorWebId: GOVERNANCE_WEBID,
+    patientWebId: webId,
+    granteeWebId: GOVERNANCE_WEBID,
+    scopeUrl: podBaseUrl,
+  });
+
+  return entry;
+}
+
+/** Governance: drops a registration request without enrolling anyone. */
+export async function rejectPatientRegistration(
+  fetchFn: AuthenticatedFetch,
+  pending: PendingRegistration,
+): Promise<void> {
+  await deleteRegistration(fetchFn, pending.url);
+}
+
+async function deleteRegistration(fetchFn: AuthenticatedFetch, url: string): Promise<void> {
+  const res = await fetchFn(url, { method: "DELETE" });
+  if (!res.ok && res.status !== 404) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed DELETE ${url}: ${res.status}\n${t}`);
+  }
+}
+
+/**
+ * Run once while logged in as Governance WebID.
+ */
+export async function bootstrapGovernanceStore(fetchFn: AuthenticatedFetch): Promise<void> {
+  await ensureContainer(fetchFn, GOV.noticesContainer);
+  await ensureContainer(fetchFn, GOV.termsContainer);
+  await ensureContainer(fetchFn, GOV.grantsContainer);
+  await ensureContainer(fetchFn, GOV.grantsStateContainer);
+  await ensureContainer(fetchFn, GOV.grantsAcksContainer);
+  await ensureContainer(fetchFn, GOV.breakGlassContainer);
+  await ensureContainer(fetchFn, GOV.auditContainer);
+  await ensureContainer(fetchFn, GOV.auditEventsContainer);
+  await ensureContainer(fetchFn, GOV.auditChainContainer);
+  await ensureContainer(fetchFn, GOV.auditPatientsContainer);
+  await ensureContainer(fetchFn, GOV.registryContainer);
+  await ensureContainer(fetchFn, GOV.registryPatientsContainer);
+  await ensureContainer(fetchFn, GOV.registryRequestsContainer);
+
+  await ensureTermsManifest(fetchFn);
+
+  await ensurePractitionerRegistry(fetchFn);
+  await enrolSeedPatients(fetchFn);
+  const patientWebIds = await reapplyGovernanceAcrs(fetchFn);
+  await backfillPatientAuditViews(fetchFn, patientWebIds);
+  await migrateGrantStates(fetchFn);
+
+  const terms = await getCurrentTerms(fetchFn);
+  await writeAudit(fetchFn, {
+    type: "GRANT",
+    actorWebId: GOVERNANCE_WEBID,
+    patientWebId: GOVERNANCE_WEBID,
+    granteeWebId: GOVERNANCE_WEBID,
+    scopeUrl: GOV.auditEventsContainer,
+    termsVersion: terms.version,
+    termsHash: terms.hash,
+  });
+}
+
+type GrantArgs = {
+  patientWebId: string;
+  granteeWebId: string;
+  granteeRole: GranteeRole;
+  scopeUrl: string;
+};
+
+export async function createGrantAndActivate(
+  fetchFn: AuthenticatedFetch,
+  args: GrantArgs & GrantTerms & { expiresAt?: string },
+): Promise<{ grantId: string; grantUrl: string }> {
+  const key = await makeKey(args.patientWebId, args.granteeWebId, args.scopeUrl);
+  const grantId = uuid();
+  const updatedAt = nowIso();
+
+  const terms = await getCurrentTerms(fetchFn);
+  const termsHash = terms.hash;
+  const ackUrl = ackUrlFor(key, grantId);
 
   const state: GrantState = {
     key,
     patientWebId: args.patientWebId,
-    doctorWebId: args.doctorWebId,
+    granteeWebId: args.granteeWebId,
+    granteeRole: args.granteeRole,
     scopeUrl: args.scopeUrl,
     status: "active",
     updatedAt,
-    termsVersion: TERMS_VERSION,
-    termsUrl: GOV.termsUrl,
+    ...(args.expiresAt ? { expiresAt: args.expiresAt } : {}),
+    purpose: args.purpose,
+    ...(args.purposeDetail ? { purposeDetail: args.purposeDetail } : {}),
+    scope: args.scope,
+    termsVersion: terms.version,
+    termsUrl: terms.url,
     termsHash,
     grantId,
     activeGrantUrl: ackUrl,
@@ -431,26 +1633,32 @@ export async function createGrantAndActivate(
     type: "GRANT",
     actorWebId: args.patientWebId,
     patientWebId: args.patientWebId,
-    doctorWebId: args.doctorWebId,
+    granteeWebId: args.granteeWebId,
+    granteeRole: args.granteeRole,
     scopeUrl: args.scopeUrl,
     grantId,
     ackUrl,
-    termsVersion: TERMS_VERSION,
+    expiresAt: args.expiresAt,
+    purpose: args.purpose,
+    purposeDetail: args.purposeDetail,
+    grantScope: args.scope,
+    termsVersion: terms.version,
     termsHash,
   });
 
   return { grantId, grantUrl: ackUrl };
 }
 
+/** Returns true if an active grant was revoked, false if there was nothing to revoke. */
 export async function revokeActiveGrant(
   fetchFn: AuthenticatedFetch,
-  args: { patientWebId: string; doctorWebId: string; scopeUrl: string },
-): Promise<void> {
-  const key = await makeKey(args.patientWebId, args.doctorWebId, args.scopeUrl);
+  args: GrantArgs,
+): Promise<boolean> {
+  const key = await makeKey(args.patientWebId, args.granteeWebId, args.scopeUrl);
   const url = stateUrlForKey(key);
-  const state = await getJson<GrantState>(fetchFn, url);
+  const state = await getGrantState(fetchFn, url);
 
-  if (!state) return;
+  if (!state || state.status !== "active") return false;
 
   const updatedAt = nowIso();
   const next: GrantState = { ...state, status: "revoked", updatedAt };
@@ -461,37 +1669,132 @@ export async function revokeActiveGrant(
     type: "REVOKE",
     actorWebId: args.patientWebId,
     patientWebId: args.patientWebId,
-    doctorWebId: args.doctorWebId,
+    granteeWebId: args.granteeWebId,
+    granteeRole: args.granteeRole,
     scopeUrl: args.scopeUrl,
     grantId: state.grantId,
     ackUrl: state.activeGrantUrl,
     termsVersion: state.termsVersion,
     termsHash: state.termsHash,
   });
+
+  return true;
+}
+
+/**
+ * Marks the patient's lapsed grants as expired and logs an EXPIRE event for each.
+ * Runs in the patient's session because only the patient can also drop the pod ACR.
+ */
+export async function expireLapsedGrants(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; scopeUrl: string },
+): Promise<GrantState[]> {
+  const expired: GrantState[] = [];
+
+  for (const state of await listPatientGrantStates(fetchFn, args)) {
+    if (state.status !== "active" || !isGrantExpired(state)) continue;
+    const url = stateUrlForKey(state.key);
+
+    const next: GrantState = { ...state, status: "expired", updatedAt: nowIso() };
+    await putJson(fetchFn, url, next);
+
+    await writeAudit(fetchFn, {
+      type: "EXPIRE",
+      actorWebId: args.patientWebId,
+      patientWebId: args.patientWebId,
+      granteeWebId: state.granteeWebId,
+      granteeRole: state.granteeRole,
+      scopeUrl: args.scopeUrl,
+      grantId: state.grantId,
+      ackUrl: state.activeGrantUrl,
+      expiresAt: state.expiresAt,
+      termsVersion: state.termsVersion,
+      termsHash: state.termsHash,
+    });
+
+    expired.push(next);
+  }
+
+  return expired;
 }
 
 export async function getActiveGrantState(
   fetchFn: AuthenticatedFetch,
-  args: { patientWebId: string; doctorWebId: string; scopeUrl: string },
+  args: { patientWebId: string; granteeWebId: string; scopeUrl: string },
 ): Promise<GrantState | null> {
-  const key = await makeKey(args.patientWebId, args.doctorWebId, args.scopeUrl);
-  return getJson<GrantState>(fetchFn, stateUrlForKey(key));
+  const key = await makeKey(args.patientWebId, args.granteeWebId, args.scopeUrl);
+  return getGrantState(fetchFn, stateUrlForKey(key));
+}
+
+/** Every grant state for one patient and scope, whoever the grantee. */
+export async function listPatientGrantStates(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; scopeUrl: string },
+): Promise<GrantState[]> {
+  const states = await listGrantStates(fetchFn);
+  return states.filter((st) => st.patientWebId === args.patientWebId && st.scopeUrl === args.scopeUrl);
 }
 
-export async function hasDoctorAcknowledged(
+/** Grants governance revoked that the patient's pod ACRs may still admit. */
+export async function listPodSyncPending(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; scopeUrl: string },
+): Promise<GrantState[]> {
+  return (await listPatientGrantStates(fetchFn, args)).filter((st) => st.podSyncPending);
+}
+
+/** Patient: records that the pod ACRs no longer admit these revoked grants. */
+export async function clearPodSyncPending(fetchFn: AuthenticatedFetch, states: GrantState[]): Promise<void> {
+  for (const state of states) {
+    const next: GrantState = { ...state };
+    delete next.podSyncPending;
+    await putJson(fetchFn, stateUrlForKey(state.key), next);
+  }
+}
+
+/** The patient's live grants by role; each role's grant names one practitioner. */
+export async function getLiveGrants(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; scopeUrl: string },
+): Promise<Partial<Record<GranteeRole, GrantState>>> {
+  const live: Partial<Record<GranteeRole, GrantState>> = {};
+  for (const st of await listPatientGrantStates(fetchFn, args)) {
+    if (isGrantLive(st)) live[st.granteeRole] = st;
+  }
+  return live;
+}
+
+/**
+ * Scopes of the patient's live grants, by role. ACR writers use this so that re-syncing
+ * a file or dropping an expired grant never widens what another grant covers.
+ */
+export async function getLiveGrantScopes(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; scopeUrl: string },
+): Promise<Partial<Record<GranteeRole, GrantScope>>> {
+  const live = await getLiveGrants(fetchFn, args);
+  const scopes: Partial<Record<GranteeRole, GrantScope>> = {};
+  for (const role of GRANTEE_ROLES) {
+    const st = live[role];
+    if (st) scopes[role] = grantTermsOf(st).scope;
+  }
+  return scopes;
+}
+
+/** The grantee's acknowledgement of a grant, or null if they have not acknowledged it. */
+export async function getGranteeAck(
   fetchFn: AuthenticatedFetch,
   ackUrl: string,
-  doctorWebId: string,
-): Promise<boolean> {
+  granteeWebId: string,
+): Promise<Ack | null> {
   const res = await fetchFn(ackUrl, { method: "GET", cache: "no-store" });
-  if (res.status === 404) return false;
-  if (!res.ok) return false;
+  if (!res.ok) return null;
 
   try {
     const ack = (await res.json()) as Ack;
-    return ack.acknowledgedBy === doctorWebId;
+    return ack.acknowledgedBy === granteeWebId ? ack : null;
   } catch {
-    return true;
+    return null;
   }
 }
 
@@ -499,7 +1802,8 @@ export async function acknowledgeGrant(
   fetchFn: AuthenticatedFetch,
   args: {
     grantUrl: string; // ackUrl
-    doctorWebId: string;
+    granteeWebId: string;
+    granteeRole: GranteeRole;
     patientWebId: string;
     scopeUrl: string;
     termsVersion: string;
@@ -507,19 +1811,22 @@ export async function acknowledgeGrant(
   },
 ): Promise<void> {
   const ack: Ack = {
-    acknowledgedBy: args.doctorWebId,
+    acknowledgedBy: args.granteeWebId,
     acknowledgedAt: nowIso(),
+    ackUrl: args.grantUrl,
     termsVersion: args.termsVersion,
     termsHash: args.termsHash,
   };
+  const signature = await signRecord(args.granteeWebId, ack);
 
-  await putJson(fetchFn, args.grantUrl, ack);
+  await putJson(fetchFn, args.grantUrl, signature ? { ...ack, signature } : ack);
 
   await writeAudit(fetchFn, {
     type: "NOTICE_ACK",
-    actorWebId: args.doctorWebId,
+    actorWebId: args.granteeWebId,
     patientWebId: args.patientWebId,
-    doctorWebId: args.doctorWebId,
+    granteeWebId: args.granteeWebId,
+    granteeRole: args.granteeRole,
     scopeUrl: args.scopeUrl,
     ackUrl: args.grantUrl,
     termsVersion: args.termsVersion,
@@ -528,63 +1835,462 @@ export async function acknowledgeGrant(
 }
 
 // =======================
-// Governance log listing
+// Data access logging
 // =======================
 
-async function listContainerMembers(fetchFn: AuthenticatedFetch, containerUrl: string): Promise<string[]> {
-  const res = await fetchFn(containerUrl, {
-    method: "GET",
-    headers: { Accept: "text/turtle", "Cache-Control": "no-store" },
-    cache: "no-store",
+export type DataAccessType = "READ" | "READ_BLOCKED" | "WRITE";
+
+/** A repeat of the same read (or blocked read) within this window is not logged again. */
+export const ACCESS_LOG_DEBOUNCE_MS = 5 * 60_000;
+
+const lastAccessLogged = new Map<string, number>();
+let accessLogQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Logs a grantee's access to patient data. Reloads after notices, patient
+ * switches and revocation checks repeat the same reads, so READ and READ_BLOCKED
+ * are debounced per actor, resource and type; every WRITE is logged. Writes from
+ * one tab are queued so they do not race each other for the chain head.
+ * Resolves to whether an event was written.
+ */
+export function logDataAccess(
+  fetchFn: AuthenticatedFetch,
+  args: {
+    type: DataAccessType;
+    actorWebId: string;
+    actorRole: GranteeRole;
+    patientWebId: string;
+    scopeUrl: string;
+    resourceUrl: string;
+    blockedReason?: ReadBlockedReason;
+  },
+): Promise<boolean> {
+  const key = [args.type, args.actorWebId, args.patientWebId, args.resourceUrl, args.blockedReason ?? ""].join("::");
+  const now = Date.now();
+
+  if (args.type !== "WRITE") {
+    const last = lastAccessLogged.get(key);
+    if (last !== undefined && now - last < ACCESS_LOG_DEBOUNCE_MS) return Promise.resolve(false);
+    lastAccessLogged.set(key, now);
+  }
+
+  const write = accessLogQueue.then(() =>
+    writeAudit(fetchFn, {
+      type: args.type,
+      actorWebId: args.actorWebId,
+      patientWebId: args.patientWebId,
+      granteeWebId: args.actorWebId,
+      granteeRole: args.actorRole,
+      scopeUrl: args.scopeUrl,
+      resourceUrl: args.resourceUrl,
+      ...(args.blockedReason ? { blockedReason: args.blockedReason } : {}),
+    }),
+  );
+  accessLogQueue = write.catch(() => undefined);
+
+  return write.then(
+    () => true,
+    (e) => {
+      // Let the next attempt log it instead
+      if (lastAccessLogged.get(key) === now) lastAccessLogged.delete(key);
+      throw e;
+    },
+  );
+}
+
+/**
+ * Logs that an earlier version of the full record was restored. Restores are logged
+ * for every actor, the patient included, and never debounced.
+ */
+export async function logRecordRestore(
+  fetchFn: AuthenticatedFetch,
+  args: {
+    actorWebId: string;
+    /** Omitted when the patient restores their own record. */
+    actorRole?: GranteeRole;
+    patientWebId: string;
+    scopeUrl: string;
+    resourceUrl: string;
+    restoredVersionUrl: string;
+  },
+): Promise<void> {
+  const write = accessLogQueue.then(() =>
+    writeAudit(fetchFn, {
+      type: "RECORD_RESTORE",
+      actorWebId: args.actorWebId,
+      patientWebId: args.patientWebId,
+      granteeWebId: args.actorWebId,
+      ...(args.actorRole ? { granteeRole: args.actorRole } : {}),
+      scopeUrl: args.scopeUrl,
+      resourceUrl: args.resourceUrl,
+      restoredVersionUrl: args.restoredVersionUrl,
+    }),
+  );
+  accessLogQueue = write.catch(() => undefined);
+  await write;
+}
+
+// =======================
+// Break-glass access
+// =======================
+
+/** A break-glass record admits its clinician only once issued, until it expires or is reviewed. */
+export function isBreakGlassLive(g: BreakGlassRecord, now = Date.now()): g is BreakGlassGrant {
+  return !!g.issuedAt && !!g.expiresAt && !g.review && !g.closedAt && Date.parse(g.expiresAt) > now;
+}
+
+const BREAK_GLASS_REQUESTS_KEY = "solid-healthcare:break-glass-requests";
+
+type RememberedBreakGlassRequest = { url: string; key: string; requestedAt: string };
+
+/**
+ * Requests filed from this browser. Clinicians may only append to a patient's request
+ * container, so the URL the server gave each request is how they find its outcome.
+ */
+function rememberedBreakGlassRequests(): RememberedBreakGlassRequest[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(BREAK_GLASS_REQUESTS_KEY) ?? "[]") as RememberedBreakGlassRequest[];
+    const cutoff = Date.now() - 24 * 60 * 60_000;
+    return Array.isArray(raw) ? raw.filter((r) => Date.parse(r.requestedAt) > cutoff) : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberBreakGlassRequest(request: RememberedBreakGlassRequest): void {
+  try {
+    localStorage.setItem(BREAK_GLASS_REQUESTS_KEY, JSON.stringify([...rememberedBreakGlassRequests(), request]));
+  } catch {
+    // storage disabled: the request is still issued, but this browser will not find it
+  }
+}
+
+/** Where governance records its decision on a request: same name, one level up. */
+function breakGlassDecisionUrl(requestUrl: string): string {
+  const name = requestUrl.slice(requestUrl.lastIndexOf("/") + 1);
+  return new URL(`../${name}`, requestUrl).toString();
+}
+
+/** The members the clinician signed. */
+function breakGlassRequestOf(record: BreakGlassRequest): BreakGlassRequest {
+  return {
+    id: record.id,
+    patientWebId: record.patientWebId,
+    granteeWebId: record.granteeWebId,
+    scopeUrl: record.scopeUrl,
+    justification: record.justification,
+    requestedAt: record.requestedAt,
+    ...(record.signature ? { signature: record.signature } : {}),
+  };
+}
+
+/**
+ * Emergency clinician: asks governance for short-lived read access without patient
+ * consent. The signed request is appended to the patient's break-glass requests and
+ * logged (BREAK_GLASS) with its mandatory justification; governance issues it.
+ */
+export async function breakGlass(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; granteeWebId: string; scopeUrl: string; justification: string },
+): Promise<void> {
+  const justification = args.justification.trim();
+  if (justification.length < BREAK_GLASS_MIN_JUSTIFICATION) {
+    throw new Error(`A justification of at least ${BREAK_GLASS_MIN_JUSTIFICATION} characters is required.`);
+  }
+
+  // Governance only issues requests it can attribute, so wait for this browser's key
+  await ensureSigningKey(fetchFn, args.granteeWebId).catch(() => undefined);
+
+  const key = await makeKey(args.patientWebId, args.granteeWebId, args.scopeUrl);
+  const request: BreakGlassRequest = {
+    id: uuid(),
+    patientWebId: args.patientWebId,
+    granteeWebId: args.granteeWebId,
+    scopeUrl: args.scopeUrl,
+    justification,
+    requestedAt: nowIso(),
+  };
+  const signature = await signRecord(args.granteeWebId, request);
+  const containerUrl = `${await patientBreakGlassContainerUrl(args.patientWebId)}requests/`;
+  const body = signature ? { ...request, signature } : request;
+  const url = await postJson(fetchFn, containerUrl, `${key}-${request.id}.json`, body);
+  rememberBreakGlassRequest({ url, key, requestedAt: request.requestedAt });
+
+  await writeAudit(fetchFn, {
+    type: "BREAK_GLASS",
+    actorWebId: args.granteeWebId,
+    patientWebId: args.patientWebId,
+    granteeWebId: args.granteeWebId,
+    granteeRole: "emergency",
+    scopeUrl: args.scopeUrl,
+    grantId: request.id,
+    justification,
   });
-  if (res.status === 404) return [];
+}
+
+export type BreakGlassStatus = {
+  /** Issued and neither expired nor reviewed. */
+  active: BreakGlassGrant | null;
+  /** Filed from this browser and awaiting governance. */
+  pending: boolean;
+  /** When the pending request was filed. */
+  pendingSince: string | null;
+  /** Governance declined the latest request. */
+  declined: BreakGlassRecord | null;
+};
+
+/** Emergency clinician: the outcome of their latest request on this patient's record. */
+export async function getBreakGlassStatus(
+  fetchFn: AuthenticatedFetch,
+  args: { patientWebId: string; granteeWebId: string; scopeUrl: string },
+): Promise<BreakGlassStatus> {
+  const none: BreakGlassStatus = { active: null, pending: false, pendingSince: null, declined: null };
+  const key = await makeKey(args.patientWebId, args.granteeWebId, args.scopeUrl);
+  const latest = rememberedBreakGlassRequests()
+    .filter((r) => r.key === key)
+    .sort((a, b) => (a.requestedAt < b.requestedAt ? 1 : -1))[0];
+  if (!latest) return none;
+
+  const url = breakGlassDecisionUrl(latest.url);
+  const res = await fetchFn(url, { method: "GET", cache: "no-store" });
+  // Undecided: the decision does not exist yet, and this clinician may not look
+  if ([401, 403, 404].includes(res.status)) {
+    const pending = Date.now() - Date.parse(latest.requestedAt) < BREAK_GLASS_DURATION_MS;
+    return { ...none, pending, pendingSince: pending ? latest.requestedAt : null };
+  }
   if (!res.ok) {
     const t = await res.text().catch(() => "");
-    throw new Error(`Failed to list container ${containerUrl}: ${res.status}\n${t}`);
+    throw new Error(`Failed GET ${url}: ${res.status}\n${t}`);
+  }
+
+  const record = { ...((await res.json()) as BreakGlassRecord), url };
+  if (isBreakGlassLive(record)) return { ...none, active: record };
+  return record.declined ? { ...none, declined: record } : none;
+}
+
+function byRequestedAtDesc(a: BreakGlassRecord, b: BreakGlassRecord): number {
+  return a.requestedAt < b.requestedAt ? 1 : a.requestedAt > b.requestedAt ? -1 : 0;
+}
+
+async function readBreakGlassRecords(fetchFn: AuthenticatedFetch, containerUrl: string): Promise<BreakGlassRecord[]> {
+  const members = await listContainerMembers(fetchFn, containerUrl);
+  const records: BreakGlassRecord[] = [];
+
+  for (const url of members.filter((u) => u.endsWith(".json"))) {
+    try {
+      const r = await getJson<BreakGlassRecord>(fetchFn, url);
+      // Records from before requests existed were issued on the spot
+      if (r) records.push({ ...r, requestedAt: r.requestedAt ?? r.issuedAt, url });
+    } catch {
+      // skip unreadable records
+    }
   }
 
-  const body = await res.text();
-  const urls = new Set<string>();
+  return records.sort(byRequestedAtDesc);
+}
+
+/** Governance's decisions on one patient's record plus requests it has not decided yet. */
+async function readPatientBreakGlass(
+  fetchFn: AuthenticatedFetch,
+  containerUrl: string,
+): Promise<{ decided: BreakGlassRecord[]; undecided: BreakGlassRecord[] }> {
+  const [decided, requests] = await Promise.all([
+    readBreakGlassRecords(fetchFn, containerUrl),
+    readBreakGlassRecords(fetchFn, `${containerUrl}requests/`),
+  ]);
+  const decisionUrls = new Set(decided.map((r) => r.url));
+  return { decided, undecided: requests.filter((r) => !decisionUrls.has(breakGlassDecisionUrl(r.url))) };
+}
+
+/** Break-glass access issued on one patient's record, newest first (patient banner). */
+export async function listBreakGlassForPatient(
+  fetchFn: AuthenticatedFetch,
+  patientWebId: string,
+): Promise<BreakGlassGrant[]> {
+  const records = await readBreakGlassRecords(fetchFn, await patientBreakGlassContainerUrl(patientWebId));
+  return records.filter((r): r is BreakGlassGrant => !!r.issuedAt && !!r.expiresAt);
+}
+
+/**
+ * Every break-glass record, newest first (governance review queue): issued and declined
+ * ones, undecided requests, and records kept at the top level by earlier versions.
+ */
+export async function listBreakGlassRecords(fetchFn: AuthenticatedFetch): Promise<BreakGlassRecord[]> {
+  const members = await listContainerMembers(fetchFn, GOV.breakGlassContainer);
+  const records = await readBreakGlassRecords(fetchFn, GOV.breakGlassContainer);
 
-  // CSS puts ldp:contains on a single line with comma-separated relative IRIs:
-  // <> posix:mtime 123; ldp:contains <a.json>, <b.json>, <c.json>.
-  // We find the ldp:contains line, then extract all <...> IRIs from it.
-  const lines = body.split("\n");
-  let inContains = false;
+  for (const containerUrl of members.filter((u) => u.endsWith("/"))) {
+    const { decided, undecided } = await readPatientBreakGlass(fetchFn, containerUrl);
+    records.push(...decided, ...undecided);
+  }
+  return records.sort(byRequestedAtDesc);
+}
 
-  for (const line of lines) {
-    const isContainsLine = inContains || line.includes("ldp:contains");
-    if (!isContainsLine) continue;
+/** Why governance will not issue a request, or null when it may. */
+async function breakGlassRequestProblem(
+  request: BreakGlassRecord,
+  patient: DirectoryPatient,
+  emergencyWebIds: Set<string>,
+  resolveKey: KeyResolver,
+): Promise<string | null> {
+  if (request.patientWebId !== patient.webId) return "The request names a different patient.";
+  if (request.scopeUrl !== new URL("health/", patient.podBaseUrl).toString()) {
+    return "The request is not for the patient's health record.";
+  }
+  if (!emergencyWebIds.has(request.granteeWebId)) return "The requester is not a registered emergency practitioner.";
+  if ((request.justification ?? "").trim().length < BREAK_GLASS_MIN_JUSTIFICATION) {
+    return "The justification is too short.";
+  }
+  if (Date.now() - Date.parse(request.requestedAt) >= BREAK_GLASS_DURATION_MS) {
+    return "The request lapsed before governance could issue it.";
+  }
 
-    inContains = true;
+  const check = await verifyRecordSignature(resolveKey, request.granteeWebId, breakGlassRequestOf(request));
+  if (check.status === "unsigned") return "The request is unsigned, so it cannot be attributed to its requester.";
+  if (check.status === "invalid") return `The request signature is invalid: ${check.detail}`;
+  return null;
+}
 
-    // Extract all relative IRIs on this line
-    const iriRe = /<([^>]+)>/g;
-    let m: RegExpExecArray | null;
-    while ((m = iriRe.exec(line))) {
-      const raw = m[1];
-      // Skip the self-referential <> and absolute URIs that aren't members
-      if (raw && !raw.startsWith("http") && raw !== "") {
-        urls.add(new URL(raw, containerUrl).toString());
+/** Writes a decision readable by the patient and the requester only. */
+async function putBreakGlassDecision(fetchFn: AuthenticatedFetch, record: BreakGlassRecord): Promise<void> {
+  await putJson(fetchFn, record.url, record);
+  await putAcr(
+    fetchFn,
+    record.url,
+    buildResourceAcr({
+      resourceUrl: record.url,
+      ownerWebId: GOVERNANCE_WEBID,
+      readers: [record.patientWebId, record.granteeWebId],
+    }),
+  );
+}
+
+/** Places the expiring read policy on the patient's health/ ACR, then records the grant. */
+async function issueBreakGlass(fetchFn: AuthenticatedFetch, request: BreakGlassRecord): Promise<void> {
+  const issuedAt = nowIso();
+  const expiresAt = new Date(Date.parse(issuedAt) + BREAK_GLASS_DURATION_MS).toISOString();
+  const issuers = await resolveAgentIssuers(fetchFn, [request.granteeWebId]);
+
+  await addBreakGlassControl(fetchFn, request.scopeUrl, {
+    id: request.id,
+    granteeWebId: request.granteeWebId,
+    issuers: issuers[request.granteeWebId] ?? [],
+    expiresAt,
+  });
+  await putBreakGlassDecision(fetchFn, {
+    ...breakGlassRequestOf(request),
+    url: breakGlassDecisionUrl(request.url),
+    issuedAt,
+    expiresAt,
+    issuedBy: GOVERNANCE_WEBID,
+  });
+}
+
+/** Removes the patient pod policy of a lapsed or reviewed grant. */
+async function closeBreakGlass(fetchFn: AuthenticatedFetch, grant: BreakGlassRecord): Promise<BreakGlassRecord> {
+  await removeBreakGlassControl(fetchFn, grant.scopeUrl, grant.id);
+  const closed = { ...grant, closedAt: nowIso() };
+  await putJson(fetchFn, grant.url, closed);
+  return closed;
+}
+
+/**
+ * Governance: issues undecided break-glass requests that are signed by a registered
+ * emergency practitioner, declines the rest, and removes the pod policies of grants
+ * that have lapsed. Patient pods that do not let governance edit their ACR yet are
+ * retried on the next pass. Resolves to how many records changed.
+ *
+ * Only governance may edit a patient's health/ ACR, so nothing is issued unless this
+ * runs: it does while a governance session has the dashboard open (useGovernanceAudit).
+ * Until then a request stays pending, and the clinician is told so.
+ */
+export async function processBreakGlassRequests(fetchFn: AuthenticatedFetch): Promise<number> {
+  const [patients, practitioners] = await Promise.all([listDirectoryPatients(fetchFn), listPractitioners(fetchFn)]);
+  const emergencyWebIds = new Set(practitionersFor(practitioners, "emergency").map((p) => p.webId));
+  const resolveKey = createKeyResolver(fetchFn);
+  let changed = 0;
+
+  for (const patient of patients) {
+    const containerUrl = await patientBreakGlassContainerUrl(patient.webId);
+    const { decided, undecided } = await readPatientBreakGlass(fetchFn, containerUrl).catch(() => ({
+      decided: [],
+      undecided: [],
+    }));
+
+    for (const request of undecided) {
+      try {
+        const problem = await breakGlassRequestProblem(request, patient, emergencyWebIds, resolveKey);
+        if (problem) {
+          await putBreakGlassDecision(fetchFn, {
+            ...breakGlassRequestOf(request),
+            url: breakGlassDecisionUrl(request.url),
+            declined: { at: nowIso(), reason: problem },
+          });
+        } else {
+          await issueBreakGlass(fetchFn, request);
+        }
+        changed++;
+      } catch {
+        // patient pod unreachable or not open to governance yet
       }
     }
 
-    // The statement ends with a period (possibly after the last IRI)
-    if (line.trimEnd().endsWith(".")) {
-      inContains = false;
+    for (const record of decided) {
+      if (!record.issuedAt || record.closedAt || isBreakGlassLive(record)) continue;
+      try {
+        await closeBreakGlass(fetchFn, record);
+        changed++;
+      } catch {
+        // the policy states its expiry, so the patient's next session drops it too
+      }
     }
   }
 
-  return Array.from(urls);
+  return changed;
 }
 
-export async function listAuditEvents(
+/** Governance: records the review; a grant still running ends with it. */
+export async function reviewBreakGlass(
   fetchFn: AuthenticatedFetch,
-  opts?: { limit?: number },
-): Promise<AuditEvent[]> {
-  const limit = opts?.limit ?? 300;
+  grant: BreakGlassGrant,
+  review: { outcome: BreakGlassReview["outcome"]; note?: string },
+): Promise<BreakGlassGrant> {
+  const reviewedAt = nowIso();
+  const live = isBreakGlassLive(grant);
+  const next: BreakGlassGrant = {
+    ...grant,
+    review: {
+      reviewedBy: GOVERNANCE_WEBID,
+      reviewedAt,
+      outcome: review.outcome,
+      ...(review.note?.trim() ? { note: review.note.trim() } : {}),
+    },
+    ...(live ? { closedAt: reviewedAt } : {}),
+  };
+
+  if (live) await removeBreakGlassControl(fetchFn, grant.scopeUrl, grant.id);
+  await putJson(fetchFn, grant.url, next);
+
+  await writeAudit(fetchFn, {
+    type: "BREAK_GLASS_REVIEW",
+    actorWebId: GOVERNANCE_WEBID,
+    patientWebId: grant.patientWebId,
+    granteeWebId: grant.granteeWebId,
+    granteeRole: "emergency",
+    scopeUrl: grant.scopeUrl,
+    grantId: grant.id,
+    justification: grant.justification,
+  });
+
+  return next;
+}
+
+// =======================
+// Governance log listing
+// =======================
 
-  const members = await listContainerMembers(fetchFn, GOV.auditEventsContainer);
+async function readAuditEvents(fetchFn: AuthenticatedFetch, containerUrl: string): Promise<AuditEvent[]> {
+  const members = await listContainerMembers(fetchFn, containerUrl);
   const eventUrls = members.filter((u) => u.endsWith(".json"));
 
   const events: AuditEvent[] = [];
@@ -610,5 +2316,212 @@ export async function listAuditEvents(
   }
 
   events.sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0));
+  return events;
+}
+
+export async function listAuditEvents(
+  fetchFn: AuthenticatedFetch,
+  opts?: { limit?: number },
+): Promise<AuditEvent[]> {
+  const limit = opts?.limit ?? 300;
+  const events = await readAuditEvents(fetchFn, GOV.auditEventsContainer);
+  return events.slice(0, limit);
+}
+
+/** Newest first. Readable by the patient themselves (and governance). */
+export async function listPatientAuditEvents(
+  fetchFn: AuthenticatedFetch,
+  patientWebId: string,
+  opts?: { limit?: number },
+): Promise<AuditEvent[]> {
+  const limit = opts?.limit ?? 200;
+  const events = await readAuditEvents(fetchFn, await patientAuditContainerUrl(patientWebId));
   return events.slice(0, limit);
 }
+
+// =======================
+// Signature verification
+// =======================
+
+async function verifyAckSignature(
+  fetchFn: AuthenticatedFetch,
+  resolveKey: KeyResolver,
+  ev: AuditEvent,
+): Promise<SignatureCheck> {
+  if (!ev.ackUrl) return { status: "invalid", detail: "NOTICE_ACK names no acknowledgement." };
+
+  let ack: Ack | null;
+  try {
+    ack = await getJson<Ack>(fetchFn, ev.ackUrl);
+  } catch {
+    return { status: "invalid", detail: "Acknowledgement could not be read." };
+  }
+  if (!ack) return { status: "invalid", detail: "Acknowledgement is missing." };
+  if (ack.acknowledgedBy !== ev.actorWebId) {
+    return { status: "invalid", detail: "Acknowledgement was made by someone else." };
+  }
+  if (ack.ackUrl && ack.ackUrl !== ev.ackUrl) {
+    return { status: "invalid", detail: "Acknowledgement belongs to another grant." };
+  }
+
+  const check = await verifyRecordSignature(resolveKey, ack.acknowledgedBy, ack);
+  return check.status === "invalid" ? { status: "invalid", detail: `Acknowledgement: ${check.detail}` } : check;
+}
+
+/**
+ * Verifies each event's signature against its actor's published key, keyed by
+ * eventId. A NOTICE_ACK only counts as signed if the ack it points to is signed too.
+ */
+export async function verifyAuditSignatures(
+  fetchFn: AuthenticatedFetch,
+  events: AuditEvent[],
+): Promise<Record<string, SignatureCheck>> {
+  const resolveKey = createKeyResolver(fetchFn);
+  const checks: Record<string, SignatureCheck> = {};
+
+  for (const ev of events) {
+    let check = await verifyRecordSignature(resolveKey, ev.actorWebId, ev);
+    if (check.status === "valid" && ev.type === "NOTICE_ACK") {
+      check = await verifyAckSignature(fetchFn, resolveKey, ev);
+    }
+    checks[ev.eventId] = check;
+  }
+
+  return checks;
+}
+
+// =======================
+// Audit chain verification
+// =======================
+
+export type AuditChainIssue = {
+  kind: "tampered" | "missing" | "reordered" | "broken-link" | "fork" | "unchained";
+  seq?: number;
+  eventId?: string;
+  detail: string;
+};
+
+export type AuditChainReport = {
+  ok: boolean;
+  /** Chained events checked. */
+  checked: number;
+  /** Events without seq/prevHash from before the chain began; hash-checked only. */
+  unchained: number;
+  headSeq: number | null;
+  issues: AuditChainIssue[];
+};
+
+/**
+ * Walks listAuditEvents output (any order) and checks every event's own hash,
+ * then the chain: seq must run 1..head without gaps or duplicates, each prevHash
+ * must equal the previous event's eventHash, and timestamps must not go backwards.
+ * Events without seq/prevHash are legacy only if they predate the first chained event;
+ * any later one sits outside the chain and is an issue. Pass the head so that events
+ * deleted from the tip are also caught.
+ */
+export async function verifyAuditChain(
+  events: AuditEvent[],
+  head?: AuditHead | null,
+): Promise<AuditChainReport> {
+  const issues: AuditChainIssue[] = [];
+
+  for (const ev of events) {
+    if (!(await verifyAuditEventHash(ev))) {
+      issues.push({ kind: "tampered", seq: ev.seq, eventId: ev.eventId, detail: "Content does not match eventHash." });
+    }
+  }
+
+  const chained = events
+    .filter((ev) => typeof ev.seq === "number")
+    .sort((a, b) => a.seq! - b.seq!);
+
+  const chainStart = chained.reduce<string | null>((min, ev) => (min === null || ev.at < min ? ev.at : min), null);
+  let legacy = 0;
+  for (const ev of events) {
+    if (typeof ev.seq === "number") continue;
+    if (chainStart === null || ev.at < chainStart) {
+      legacy++;
+    } else {
+      issues.push({ kind: "unchained", eventId: ev.eventId, detail: "Written after the chain began, but outside it." });
+    }
+  }
+
+  let prev: AuditEvent | null = null;
+  let expectedSeq = 1;
+
+  for (const ev of chained) {
+    const seq = ev.seq!;
+
+    if (prev && seq === prev.seq) {
+      issues.push({ kind: "fork", seq, eventId: ev.eventId, detail: `Two events claim seq ${seq}.` });
+      continue;
+    }
+
+    if (seq > expectedSeq) {
+      issues.push({
+        kind: "missing",
+        seq: expectedSeq,
+        detail: seq - expectedSeq === 1 ? `Event ${expectedSeq} is missing.` : `Events ${expectedSeq}–${seq - 1} are missing.`,
+      });
+    }
+
+    const expectedPrev = seq === 1 ? GENESIS_PREV_HASH : prev && prev.seq === seq - 1 ? prev.eventHash : null;
+    if (expectedPrev !== null && ev.prevHash !== expectedPrev) {
+      issues.push({
+        kind: "broken-link",
+        seq,
+        eventId: ev.eventId,
+        detail: `prevHash does not match event ${seq - 1}.`,
+      });
+    }
+
+    if (prev && ev.at < prev.at) {
+      issues.push({
+        kind: "reordered",
+        seq,
+        eventId: ev.eventId,
+        detail: `Timestamp is earlier than event ${prev.seq}.`,
+      });
+    }
+
+    prev = ev;
+    expectedSeq = seq + 1;
+  }
+
+  if (head && head.seq >= expectedSeq) {
+    issues.push({
+      kind: "missing",
+      seq: expectedSeq,
+      detail: head.seq === expectedSeq
+        ? `Event ${expectedSeq} (chain head) is missing.`
+        : `Events ${expectedSeq}–${head.seq} (up to chain head) are missing.`,
+    });
+  } else if (head && prev && head.seq === prev.seq && head.eventHash !== prev.eventHash) {
+    issues.push({ kind: "broken-link", seq: head.seq, detail: "Chain head does not match the last event." });
+  }
+
+  return {
+    ok: issues.length === 0,
+    checked: chained.length,
+    unchained: legacy,
+    headSeq: head?.seq ?? null,
+    issues,
+  };
+}
+
+/** All grant state records (governance view), legacy files migrated on the fly. */
+export async function listGrantStates(fetchFn: AuthenticatedFetch): Promise<GrantState[]> {
+  const members = await listContainerMembers(fetchFn, GOV.grantsStateContainer);
+  const states: GrantState[] = [];
+
+  for (const url of members.filter((u) => u.endsWith(".json"))) {
+    try {
+      const st = await getGrantState(fetchFn, url);
+      if (st) states.push(st);
+    } catch {
+      // skip unreadable records
+    }
+  }
+
+  return states;
+}
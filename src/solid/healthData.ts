@@ -1,16 +1,54 @@
 // src/solid/healthData.ts
+import type { SolidDataset } from "@inrupt/solid-client";
+import { ensureContainer, listContainerMembers } from "./ldp";
+import {
+  datasetFromResponse, fullRecordFromDataset, fullRecordToTurtle, patientFileFromDataset, patientFileToTurtle,
+  pharmacyMedicationsFromDataset, pharmacyMedicationsToTurtle,
+} from "./healthRdf";
 
 export type FullRecord = {
   patientName: string;
   dateOfBirth: string;
   bloodType: string;
   address: string;
-  allergies: string;
+  allergies: Allergy[];
   diagnoses: string;
-  medications: string;
+  medications: Medication[];
   notes: string;
 };
 
+/** One entry of the allergy list. */
+export type Allergy = {
+  id: string;
+  /** A drug, drug class or other substance, e.g. "Penicillin", "NSAIDs", "Latex". */
+  substance: string;
+  /** e.g. "hives", "anaphylaxis" */
+  reaction: string;
+  /** Empty when not recorded. */
+  severity: "" | "mild" | "moderate" | "severe";
+  /** WebID (or name) of the clinician who confirmed the allergy; empty if unverified. */
+  verifiedBy: string;
+};
+
+/** One entry of the medication list. Dates are YYYY-MM-DD or empty. */
+export type Medication = {
+  id: string;
+  name: string;
+  /** e.g. "500 mg" */
+  strength: string;
+  /** e.g. "oral", "inhaled" */
+  route: string;
+  /** e.g. "twice daily", "every 8 hours" */
+  frequency: string;
+  startDate: string;
+  stopDate: string;
+  /** The prescriber's WebID, or their name when they are not known by one. */
+  prescriberWebId: string;
+  status: "active" | "discontinued";
+  /** Whether a pharmacy with access to the record is shown this entry. */
+  sharedWithPharmacy: boolean;
+};
+
 export type PatientFile = {
   id: string;
   title: string;
@@ -24,6 +62,110 @@ export type PatientFile = {
   sharedWithEmergency: boolean;
   sharedWithNurse: boolean;
   sharedWithPharmacy: boolean;
+  /** The uploaded document (PDF, image, DICOM…), stored as its own resource. */
+  attachment?: FileAttachment;
+  /** ETag of the stored resource when loaded; never written to the pod. */
+  etag?: string | null;
+};
+
+/** A binary under health/attachments/, described in its file's metadata. */
+export type FileAttachment = {
+  url: string;
+  /** The uploaded file's name. */
+  name: string;
+  contentType: string;
+  /** In bytes. */
+  size: number;
+  /** Hex SHA-256 of the bytes, checked when the attachment is read. */
+  sha256: string;
+};
+
+/**
+ * A conditional write was refused because the resource changed since it was read.
+ * `remote` is the current version (null if it was deleted) and `remoteEtag` its ETag,
+ * for retrying the merged result.
+ */
+export class WriteConflictError<T> extends Error {
+  readonly url: string;
+  readonly remote: T | null;
+  readonly remoteEtag: string | null;
+
+  constructor(url: string, remote: T | null, remoteEtag: string | null) {
+    super(`${url} was changed by someone else since it was loaded.`);
+    this.name = "WriteConflictError";
+    this.url = url;
+    this.remote = remote;
+    this.remoteEtag = remoteEtag;
+  }
+}
+
+/** An attachment's bytes do not match the SHA-256 recorded in its file's metadata. */
+export class AttachmentIntegrityError extends Error {
+  readonly url: string;
+
+  constructor(url: string) {
+    super(`${url} does not match the checksum recorded when it was uploaded.`);
+    this.name = "AttachmentIntegrityError";
+    this.url = url;
+  }
+}
+
+/**
+ * Conditional headers for a write. A known ETag must still match; null means the
+ * resource was absent when read, so it must not exist now; undefined writes blindly.
+ */
+function preconditions(etag: string | null | undefined): Record<string, string> {
+  if (etag === undefined) return {};
+  return etag === null ? { "If-None-Match": "*" } : { "If-Match": etag };
+}
+
+/** Reads the current version after a 412 so the caller can merge. */
+async function conflictFor<T>(
+  fetchFn: typeof fetch,
+  url: string,
+  read: (res: Response) => Promise<T>,
+): Promise<WriteConflictError<T>> {
+  const res = await fetchFn(url, { headers: { Accept: "text/turtle" }, cache: "no-store" });
+  if (res.status === 404) return new WriteConflictError<T>(url, null, null);
+  if (!res.ok) throw new Error(res.statusText);
+  const etag = res.headers.get("ETag");
+  return new WriteConflictError<T>(url, await read(res), etag);
+}
+
+/**
+ * The document as stored, so a write can keep what other apps added to it. Unless the
+ * caller says the document is new (etag null), it is read first; its ETag then guards
+ * the write when the caller has none.
+ */
+async function storedDocument(
+  fetchFn: typeof fetch,
+  url: string,
+  etag: string | null | undefined,
+): Promise<{ dataset: SolidDataset | null; etag: string | null }> {
+  if (etag === null) return { dataset: null, etag: null };
+  const res = await fetchFn(url, { headers: { Accept: "text/turtle" }, cache: "no-store" });
+  if (res.status === 404) return { dataset: null, etag: etag ?? null };
+  if (!res.ok) throw new Error(res.statusText);
+  return { dataset: await datasetFromResponse(res), etag: etag ?? res.headers.get("ETag") };
+}
+
+/** The ETag after a successful write; servers that omit it on PUT are asked with HEAD. */
+async function etagAfterWrite(fetchFn: typeof fetch, url: string, res: Response): Promise<string | null> {
+  const etag = res.headers.get("ETag");
+  if (etag) return etag;
+  const head = await fetchFn(url, { method: "HEAD", cache: "no-store" });
+  return head.ok ? head.headers.get("ETag") : null;
+}
+
+export const FULL_RECORD_LABELS: Record<keyof FullRecord, string> = {
+  patientName: "Patient Name",
+  dateOfBirth: "Date of Birth",
+  bloodType:   "Blood Type",
+  address:     "Address",
+  allergies:   "Allergies",
+  diagnoses:   "Diagnoses",
+  medications: "Medications",
+  notes:       "Notes",
 };
 
 export function emptyFullRecord(): FullRecord {
@@ -32,107 +174,672 @@ export function emptyFullRecord(): FullRecord {
     dateOfBirth: "",
     bloodType: "",
     address: "",
-    allergies: "",
+    allergies: [],
     diagnoses: "",
-    medications: "",
+    medications: [],
     notes: "",
   };
 }
 
+export function newMedication(prescriberWebId = ""): Medication {
+  return {
+    id: newFileId(),
+    name: "",
+    strength: "",
+    route: "",
+    frequency: "",
+    startDate: "",
+    stopDate: "",
+    prescriberWebId,
+    status: "active",
+    sharedWithPharmacy: false,
+  };
+}
+
+/**
+ * Whether a prescriber, verifier or author is given as a WebID, so it is stored as a link;
+ * anything else (a name) is stored as text.
+ */
+export function isWebIdUrl(value: string): boolean {
+  if (!/^https?:\/\//.test(value)) return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "Metformin 500 mg oral, twice daily (discontinued)" */
+export function medicationSummary(m: Medication): string {
+  const dose = [m.name, m.strength, m.route].filter(Boolean).join(" ");
+  const text = m.frequency ? `${dose}, ${m.frequency}` : dose;
+  return m.status === "discontinued" ? `${text} (discontinued)` : text;
+}
+
+export function newAllergy(): Allergy {
+  return { id: newFileId(), substance: "", reaction: "", severity: "", verifiedBy: "" };
+}
+
+/** "Penicillin: hives (severe)" */
+export function allergySummary(a: Allergy): string {
+  const text = a.reaction ? `${a.substance}: ${a.reaction}` : a.substance;
+  return a.severity ? `${text} (${a.severity})` : text;
+}
+
+const SEVERITY = /\(?\b(mild|moderate|severe)\b\)?/i;
+const SEVERE_REACTION = /\banaphyla/i;
+
+/**
+ * Reads the free-text allergy list of earlier versions, one entry per line:
+ * "Penicillin - hives (severe)", "Peanuts: anaphylaxis", "Latex". The text before the
+ * first dash, colon, comma or bracket is the substance, the rest the reaction.
+ * Anaphylaxis counts as severe when no severity is given.
+ */
+export function parseLegacyAllergies(text: string): Allergy[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim().replace(/^[-*•]\s*/, ""))
+    .filter(Boolean)
+    .map((line, i) => {
+      const severity = line.match(SEVERITY)?.[1].toLowerCase() as Allergy["severity"] | undefined;
+      const rest = line.replace(SEVERITY, " ").replace(/\(\s*\)/g, " ").trim();
+      const parts = rest.match(/^(.+?)(?:\s*[-–—:,(]\s*(.*))?$/);
+      const substance = parts?.[1] ?? rest;
+      const cleanReaction = (parts?.[2] ?? "").replace(/[)\s]+$/, "").trim();
+      return {
+        id: `legacy-${i + 1}`,
+        substance: substance.trim() || line,
+        reaction: cleanReaction,
+        severity: severity ?? (SEVERE_REACTION.test(cleanReaction) ? "severe" : ""),
+        verifiedBy: "",
+      };
+    });
+}
+
+const STRENGTH = /\b\d+(?:[.,]\d+)?\s*(?:mg|mcg|µg|g|ml|units?|iu|%)(?:\s*\/\s*\d*\s*(?:ml|dose))?(?![a-z])/i;
+const ROUTE = /\b(oral(?:ly)?|by mouth|po|intravenous(?:ly)?|iv|intramuscular(?:ly)?|im|subcutaneous(?:ly)?|sc|topical(?:ly)?|inhaled|inhalation|sublingual|rectal|transdermal|nasal|ophthalmic)\b/i;
+const FREQUENCY = new RegExp(
+  [
+    "\\b(?:once|twice|three times|four times)\\s+(?:a\\s+)?(?:daily|day|weekly|week)\\b",
+    "\\b\\d+\\s*(?:x|times)\\s*(?:a|per)?\\s*(?:day|daily|week)\\b",
+    "\\bevery\\s+\\d+\\s*(?:hours?|hrs?|h|days?|weeks?)\\b",
+    "\\b(?:od|bd|bid|tds|tid|qid|qds|prn|nocte|mane|daily|nightly|weekly|as needed|at night|in the morning)\\b",
+  ].join("|"),
+  "i",
+);
+const DISCONTINUED = /\(?\b(?:discontinued|stopped)\b\)?/i;
+
+/**
+ * Reads the free-text medication list of earlier versions, one entry per line, picking
+ * out strength, route, frequency and a "discontinued"/"stopped" marker; the rest of the
+ * line is the drug name. Entries stay shared with pharmacy, which could read them before.
+ * Ids follow the line number, so reading the same text twice gives the same entries.
+ */
+export function parseLegacyMedications(text: string): Medication[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim().replace(/^[-*•]\s*/, ""))
+    .filter(Boolean)
+    .map((line, i) => {
+      let rest = line;
+      const take = (re: RegExp) => {
+        const m = rest.match(re);
+        if (!m) return "";
+        rest = rest.replace(m[0], " ");
+        return m[0].trim();
+      };
+      const discontinued = !!take(DISCONTINUED);
+      const strength = take(STRENGTH);
+      const route = take(ROUTE).toLowerCase();
+      const frequency = take(FREQUENCY).toLowerCase();
+      const name = rest.replace(/\s*[,;]\s*/g, " ").replace(/\s+/g, " ").trim().replace(/^[-–:]+|[-–:]+$/g, "").trim();
+      return {
+        ...newMedication(),
+        id: `legacy-${i + 1}`,
+        name: name || line,
+        strength,
+        route: route === "po" || route === "by mouth" ? "oral" : route,
+        frequency,
+        status: discontinued ? "discontinued" : "active",
+        sharedWithPharmacy: true,
+      };
+    });
+}
+
+/**
+ * Brings a record from an older format up to date: fills missing fields and turns
+ * free-text allergy and medication lists into entries.
+ */
+export function normalizeFullRecord(
+  raw: Partial<Omit<FullRecord, "allergies" | "medications">> & { allergies?: unknown; medications?: unknown },
+): FullRecord {
+  const allergies = typeof raw.allergies === "string"
+    ? parseLegacyAllergies(raw.allergies)
+    : Array.isArray(raw.allergies) ? (raw.allergies as Allergy[]).map((a) => ({ ...newAllergy(), ...a })) : [];
+  const medications = typeof raw.medications === "string"
+    ? parseLegacyMedications(raw.medications)
+    : Array.isArray(raw.medications) ? (raw.medications as Medication[]).map((m) => ({ ...newMedication(), ...m })) : [];
+  return { ...emptyFullRecord(), ...raw, allergies, medications };
+}
+
+/** A field as text, for diffs: allergies and medications one entry per line. */
+export function recordFieldText(record: FullRecord, key: keyof FullRecord): string {
+  if (key === "allergies") return record.allergies.map(allergySummary).join("\n");
+  if (key === "medications") return record.medications.map(medicationSummary).join("\n");
+  return record[key] ?? "";
+}
+
+/** The record's document name in health/; see healthRdf.ts for its shape. */
+export const FULL_RECORD_DOC = "full-record.ttl";
+
+export function fullRecordUrl(podBaseUrl: string): string {
+  return `${podBaseUrl}health/${FULL_RECORD_DOC}`;
+}
+
+/** Reads a full record from a Turtle response. */
+export async function fullRecordFromResponse(res: Response, url: string): Promise<FullRecord> {
+  return fullRecordFromDataset(await datasetFromResponse(res), url);
+}
+
 export async function loadFullRecord(
   fetchFn: typeof fetch,
   podBaseUrl: string,
   autoCreateOn404: boolean = true,
-): Promise<{ data: FullRecord | null; status: number }> {
-  const url = `${podBaseUrl}health/full-record.json`;
+): Promise<{ data: FullRecord | null; status: number; etag: string | null }> {
+  const url = fullRecordUrl(podBaseUrl);
   const res = await fetchFn(url, {
-    headers: { Accept: "application/json" },
+    headers: { Accept: "text/turtle" },
     cache: "no-store",
   });
 
   if (res.status === 404) {
-    if (!autoCreateOn404) return { data: null, status: 404 };
+    if (!autoCreateOn404) return { data: null, status: 404, etag: null };
 
     const emptyRecord = emptyFullRecord();
-    await saveFullRecord(fetchFn, podBaseUrl, emptyRecord);
-    return { data: emptyRecord, status: 200 };
+    const etag = await saveFullRecord(fetchFn, podBaseUrl, emptyRecord, null);
+    return { data: emptyRecord, status: 200, etag };
   }
 
-  if (res.status === 403) return { data: null, status: 403 };
+  if (res.status === 403) return { data: null, status: 403, etag: null };
   if (!res.ok) throw new Error(res.statusText);
 
-  return { data: (await res.json()) as FullRecord, status: res.status };
+  const etag = res.headers.get("ETag");
+  return { data: await fullRecordFromResponse(res, url), status: res.status, etag };
 }
 
+/**
+ * Writes the record if it is still at `etag` (see preconditions) and returns the new
+ * ETag. Throws WriteConflictError when someone else saved in between.
+ */
 export async function saveFullRecord(
   fetchFn: typeof fetch,
   podBaseUrl: string,
   record: FullRecord,
-): Promise<void> {
-  const url = `${podBaseUrl}health/full-record.json`;
+  etag?: string | null,
+): Promise<string | null> {
+  const url = fullRecordUrl(podBaseUrl);
+  const stored = await storedDocument(fetchFn, url, etag);
   const res = await fetchFn(url, {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(record, null, 2),
+    headers: { "Content-Type": "text/turtle", ...preconditions(stored.etag) },
+    body: await fullRecordToTurtle(record, url, stored.dataset),
+  });
+  if (res.status === 412) throw await conflictFor(fetchFn, url, (r) => fullRecordFromResponse(r, url));
+  if (!res.ok) throw new Error(res.statusText);
+  return etagAfterWrite(fetchFn, url, res);
+}
+
+// =======================
+// Medications shared with pharmacy
+// =======================
+
+/**
+ * The record's medications shared with pharmacy, kept in their own document in health/
+ * so that a pharmacy's grant covers them alone (see applyAccessForFullRecord).
+ */
+export const PHARMACY_MEDICATIONS_DOC = "pharmacy-medications.ttl";
+
+export function pharmacyMedicationsUrl(podBaseUrl: string): string {
+  return `${podBaseUrl}health/${PHARMACY_MEDICATIONS_DOC}`;
+}
+
+/** Statuses are the raw response status when the document cannot be read (401, 403, 404). */
+export async function loadPharmacyMedications(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+): Promise<{ data: Medication[] | null; status: number }> {
+  const res = await fetchFn(pharmacyMedicationsUrl(podBaseUrl), {
+    headers: { Accept: "text/turtle" },
+    cache: "no-store",
+  });
+  if (res.status === 401 || res.status === 403 || res.status === 404) return { data: null, status: res.status };
+  if (!res.ok) throw new Error(res.statusText);
+  return { data: pharmacyMedicationsFromDataset(await datasetFromResponse(res)), status: res.status };
+}
+
+/**
+ * Rewrites the pharmacy's copy from the record unless it already matches, and returns
+ * whether it did. Call after each record save; the patient's sessions also call it on
+ * load, which fills it in for records saved before it existed.
+ */
+export async function syncPharmacyMedications(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+  record: FullRecord,
+): Promise<boolean> {
+  const url = pharmacyMedicationsUrl(podBaseUrl);
+  const shared = record.medications.filter((m) => m.sharedWithPharmacy);
+  const stored = await storedDocument(fetchFn, url, undefined);
+  const current = stored.dataset ? pharmacyMedicationsFromDataset(stored.dataset) : null;
+  const keys = Object.keys(newMedication()).sort();
+  if (current && JSON.stringify(current, keys) === JSON.stringify(shared, keys)) return false;
+
+  const res = await fetchFn(url, {
+    method: "PUT",
+    headers: { "Content-Type": "text/turtle", ...preconditions(stored.etag) },
+    body: await pharmacyMedicationsToTurtle(shared, url, `${fullRecordUrl(podBaseUrl)}#record`, stored.dataset),
   });
   if (!res.ok) throw new Error(res.statusText);
+  return true;
 }
 
+// =======================
+// Full record history
+// =======================
+
+/**
+ * Every saved version of the full record, as one resource per save under
+ * health/history/full-record/. Names start with the save time, so listing order is
+ * history order; entries are created with If-None-Match and never rewritten.
+ */
+export type RecordVersion = {
+  /** Where the entry is stored; filled in when loaded, not part of the entry. */
+  url?: string;
+  savedAt: string;
+  /** Empty on the baseline entry: the record was written before history was kept. */
+  authorWebId: string;
+  /** Fields that differ from the previous entry. */
+  changedFields: (keyof FullRecord)[];
+  summary: string;
+  /** URL of the entry this one restored, if it was a restore. */
+  restoredFrom?: string;
+  record: FullRecord;
+};
+
+export function recordHistoryContainerUrl(podBaseUrl: string): string {
+  return `${podBaseUrl}health/history/full-record/`;
+}
+
+export function changedRecordFields(before: FullRecord | null, after: FullRecord): (keyof FullRecord)[] {
+  return (Object.keys(FULL_RECORD_LABELS) as (keyof FullRecord)[]).filter(
+    (key) => JSON.stringify(before?.[key] ?? "") !== JSON.stringify(after[key] ?? ""),
+  );
+}
+
+function summarizeChanges(changed: (keyof FullRecord)[], first: boolean, restoredFrom?: RecordVersion): string {
+  if (restoredFrom) return `Restored the version saved ${restoredFrom.savedAt}`;
+  if (first) return "First recorded version";
+  if (changed.length === 0) return "Saved without changes";
+  return `Changed ${changed.map((key) => FULL_RECORD_LABELS[key]).join(", ")}`;
+}
+
+async function loadRecordVersion(fetchFn: typeof fetch, url: string): Promise<RecordVersion | null> {
+  const res = await fetchFn(url, { headers: { Accept: "application/json" }, cache: "no-store" });
+  if (res.status === 401 || res.status === 403 || res.status === 404) return null;
+  if (!res.ok) throw new Error(res.statusText);
+  const version = (await res.json()) as RecordVersion;
+  return { ...version, record: normalizeFullRecord(version.record), url };
+}
+
+async function versionUrls(fetchFn: typeof fetch, podBaseUrl: string): Promise<string[]> {
+  const members = await listContainerMembers(fetchFn, recordHistoryContainerUrl(podBaseUrl));
+  return members.filter((u) => u.endsWith(".json")).sort();
+}
+
+/** Newest first. Entries the caller cannot read are skipped. */
+export async function listRecordVersions(fetchFn: typeof fetch, podBaseUrl: string): Promise<RecordVersion[]> {
+  const urls = await versionUrls(fetchFn, podBaseUrl);
+  const versions = await Promise.all(urls.map((url) => loadRecordVersion(fetchFn, url)));
+  return versions.filter((v): v is RecordVersion => v !== null).reverse();
+}
+
+/**
+ * Adds the record as just saved to its history, summarised against the latest entry.
+ * Call after each successful saveFullRecord.
+ */
+export async function appendRecordVersion(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+  args: { record: FullRecord; authorWebId: string; restoredFrom?: RecordVersion },
+): Promise<RecordVersion> {
+  const latestUrl = (await versionUrls(fetchFn, podBaseUrl)).at(-1);
+  const latest = latestUrl ? await loadRecordVersion(fetchFn, latestUrl) : null;
+
+  const savedAt = new Date().toISOString();
+  const changedFields = changedRecordFields(latest?.record ?? null, args.record);
+  const version: RecordVersion = {
+    savedAt,
+    authorWebId: args.authorWebId,
+    changedFields,
+    summary: summarizeChanges(changedFields, !latestUrl, args.restoredFrom),
+    ...(args.restoredFrom?.url ? { restoredFrom: args.restoredFrom.url } : {}),
+    record: args.record,
+  };
+
+  return putRecordVersion(fetchFn, podBaseUrl, version);
+}
+
+/**
+ * Before the first tracked save, adds the stored record as the first history entry so
+ * that the first edit can be undone. Does nothing once history has entries, or when no
+ * record is stored yet. Call before saveFullRecord.
+ */
+export async function ensureRecordHistoryBaseline(fetchFn: typeof fetch, podBaseUrl: string): Promise<void> {
+  if ((await versionUrls(fetchFn, podBaseUrl)).length > 0) return;
+  const { data } = await loadFullRecord(fetchFn, podBaseUrl, false);
+  if (!data) return;
+
+  await putRecordVersion(fetchFn, podBaseUrl, {
+    savedAt: new Date().toISOString(),
+    authorWebId: "",
+    changedFields: [],
+    summary: "Version before history was kept",
+    record: data,
+  });
+}
+
+async function putRecordVersion(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+  version: RecordVersion,
+): Promise<RecordVersion> {
+  const stamp = version.savedAt.replace(/[:.]/g, "-");
+  const url = `${recordHistoryContainerUrl(podBaseUrl)}${stamp}-${newFileId().slice(0, 8)}.json`;
+  const res = await fetchFn(url, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", "If-None-Match": "*" },
+    body: JSON.stringify(version, null, 2),
+  });
+  if (!res.ok) throw new Error(`Failed to record history: ${res.status} ${res.statusText}`);
+  return { ...version, url };
+}
+
+export function patientFilesContainerUrl(podBaseUrl: string): string {
+  return `${podBaseUrl}health/files/`;
+}
+
+/** Each file is its own resource so that it can carry its own ACR. */
+export function patientFileUrl(podBaseUrl: string, fileId: string): string {
+  return `${patientFilesContainerUrl(podBaseUrl)}${encodeURIComponent(fileId)}.ttl`;
+}
+
+async function patientFileFromResponse(res: Response, url: string): Promise<PatientFile> {
+  const etag = res.headers.get("ETag");
+  const file = patientFileFromDataset(await datasetFromResponse(res), url);
+  // Fall back to the document name for files written without schema:identifier
+  const id = file.id || decodeURIComponent(url.slice(url.lastIndexOf("/") + 1).replace(/\.ttl$/, ""));
+  return { ...file, id, etag };
+}
+
+function newFileId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+async function putPatientFile(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+  file: PatientFile,
+): Promise<PatientFile> {
+  const { etag, ...fields } = file;
+  const url = patientFileUrl(podBaseUrl, file.id);
+  const stored = await storedDocument(fetchFn, url, etag);
+  const res = await fetchFn(url, {
+    method: "PUT",
+    headers: { "Content-Type": "text/turtle", ...preconditions(stored.etag) },
+    body: await patientFileToTurtle(fields, url, stored.dataset),
+  });
+  if (res.status === 412) throw await conflictFor(fetchFn, url, (r) => patientFileFromResponse(r, url));
+  if (!res.ok) throw new Error(res.statusText);
+  return { ...fields, etag: await etagAfterWrite(fetchFn, url, res) };
+}
+
+/**
+ * Lists health/files/ and loads every member the caller can read.
+ * Files that are not shared with the caller answer 401/403 and are skipped,
+ * so the result is already filtered by the pod server.
+ */
 export async function loadPatientFiles(
   fetchFn: typeof fetch,
   podBaseUrl: string,
 ): Promise<PatientFile[]> {
-  const url = `${podBaseUrl}health/files.json`;
-  const res = await fetchFn(url, { cache: "no-store" });
+  return (await loadPatientFilesWithBlocked(fetchFn, podBaseUrl)).files;
+}
 
-  if (res.status === 404) return [];
-  if (!res.ok) throw new Error(res.statusText);
+/** As loadPatientFiles, also listing the files the pod refused (401/403) so they can be audited. */
+export async function loadPatientFilesWithBlocked(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+): Promise<{ files: PatientFile[]; blockedUrls: string[] }> {
+  const members = await listContainerMembers(fetchFn, patientFilesContainerUrl(podBaseUrl));
+  const fileUrls = members.filter((u) => u.endsWith(".ttl"));
+  const blockedUrls: string[] = [];
+
+  const files = await Promise.all(
+    fileUrls.map(async (url): Promise<PatientFile | null> => {
+      const res = await fetchFn(url, {
+        headers: { Accept: "text/turtle" },
+        cache: "no-store",
+      });
+      if (res.status === 401 || res.status === 403) {
+        blockedUrls.push(url);
+        return null;
+      }
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(res.statusText);
+      return patientFileFromResponse(res, url);
+    }),
+  );
 
-  return (await res.json()) as PatientFile[];
+  return {
+    files: files
+      .filter((f): f is PatientFile => f !== null)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    blockedUrls: blockedUrls.sort(),
+  };
 }
 
 export async function savePatientFile(
   fetchFn: typeof fetch,
   podBaseUrl: string,
   file: Omit<PatientFile, "id" | "createdAt" | "updatedAt">,
-): Promise<void> {
-  const files = await loadPatientFiles(fetchFn, podBaseUrl);
+): Promise<PatientFile> {
   const now = new Date().toISOString();
-
-  const id =
-    typeof crypto !== "undefined" && "randomUUID" in crypto
-      ? crypto.randomUUID()
-      : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-
-  files.push({
+  // A fresh id must not exist yet
+  return putPatientFile(fetchFn, podBaseUrl, {
     ...file,
-    id,
+    id: newFileId(),
     createdAt: now,
     updatedAt: now,
+    etag: null,
   });
+}
 
-  const url = `${podBaseUrl}health/files.json`;
-  const res = await fetchFn(url, {
-    method: "PUT",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(files, null, 2),
-  });
-  if (!res.ok) throw new Error(res.statusText);
+/** Rewrites a file if it is unchanged since `file.etag` was read; see saveFullRecord. */
+export async function updatePatientFile(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+  file: PatientFile,
+): Promise<PatientFile> {
+  return putPatientFile(fetchFn, podBaseUrl, { ...file, updatedAt: new Date().toISOString() });
 }
 
+/** Deletes a file unless it changed since `etag` was read. */
 export async function deletePatientFile(
   fetchFn: typeof fetch,
   podBaseUrl: string,
   fileId: string,
+  etag?: string | null,
 ): Promise<void> {
-  const files = await loadPatientFiles(fetchFn, podBaseUrl);
-  const filtered = files.filter((f) => f.id !== fileId);
+  const url = patientFileUrl(podBaseUrl, fileId);
+  const res = await fetchFn(url, { method: "DELETE", headers: etag ? { "If-Match": etag } : {} });
+  if (res.status === 412) throw await conflictFor(fetchFn, url, (r) => patientFileFromResponse(r, url));
+  if (!res.ok && res.status !== 404) throw new Error(res.statusText);
+}
+
+// =======================
+// Attachments
+// =======================
+
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
 
-  const url = `${podBaseUrl}health/files.json`;
+export function attachmentsContainerUrl(podBaseUrl: string): string {
+  return `${podBaseUrl}health/attachments/`;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stores an uploaded file under health/attachments/ with a fresh name, so replacing a
+ * file's attachment never overwrites one that other metadata may still link to. The
+ * caller links the result from the file's metadata and gives it the file's ACR.
+ */
+export async function uploadAttachment(fetchFn: typeof fetch, podBaseUrl: string, file: File): Promise<FileAttachment> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`);
+  }
+  const data = await file.arrayBuffer();
+  const contentType = file.type || "application/octet-stream";
+  const ext = /\.[a-z0-9]{1,8}$/i.exec(file.name)?.[0].toLowerCase() ?? "";
+  const container = attachmentsContainerUrl(podBaseUrl);
+  await ensureContainer(fetchFn, container);
+
+  const url = `${container}${newFileId()}${ext}`;
   const res = await fetchFn(url, {
+    method: "PUT",
+    headers: { "Content-Type": contentType, "If-None-Match": "*" },
+    body: data,
+  });
+  if (!res.ok) throw new Error(`Failed to upload ${file.name}: ${res.status} ${res.statusText}`);
+  return { url, name: file.name, contentType, size: data.byteLength, sha256: await sha256Hex(data) };
+}
+
+/** Reads an attachment and checks it against its recorded SHA-256. */
+export async function loadAttachment(fetchFn: typeof fetch, attachment: FileAttachment): Promise<Blob> {
+  const res = await fetchFn(attachment.url, { cache: "no-store" });
+  if (!res.ok) throw new Error(`Failed to read ${attachment.name}: ${res.status} ${res.statusText}`);
+  const data = await res.arrayBuffer();
+  if ((await sha256Hex(data)) !== attachment.sha256) throw new AttachmentIntegrityError(attachment.url);
+  return new Blob([data], { type: attachment.contentType });
+}
+
+export async function deleteAttachment(fetchFn: typeof fetch, url: string): Promise<void> {
+  const res = await fetchFn(url, { method: "DELETE" });
+  if (!res.ok && res.status !== 404) throw new Error(res.statusText);
+}
+
+// =======================
+// JSON to Turtle migration
+// =======================
+
+export type JsonMigration = {
+  /** Whether full-record.json was converted; its ACR must be carried over. */
+  record: boolean;
+  /** Files converted to Turtle, whose ACRs must be written from their sharing flags. */
+  files: PatientFile[];
+  /** JSON resources to delete once the Turtle copies have their ACRs. */
+  legacyUrls: string[];
+};
+
+export function legacyFullRecordUrl(podBaseUrl: string): string {
+  return `${podBaseUrl}health/full-record.json`;
+}
+
+async function readLegacyJson<T>(fetchFn: typeof fetch, url: string): Promise<T | null> {
+  const res = await fetchFn(url, { headers: { Accept: "application/json" }, cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(res.statusText);
+  return (await res.json()) as T;
+}
+
+/** Creates the Turtle copy; one left by an interrupted migration is kept as it is. */
+async function createUnlessPresent(write: () => Promise<unknown>): Promise<void> {
+  try {
+    await write();
+  } catch (e) {
+    if (!(e instanceof WriteConflictError)) throw e;
+  }
+}
+
+/**
+ * Owner only. Converts the JSON health data of earlier versions to Turtle: the legacy
+ * single health/files.json, per-file health/files/<id>.json and health/full-record.json.
+ * The JSON originals are left for removeMigratedJson, so that their access can be
+ * carried over first; re-running after an interruption is safe.
+ */
+export async function migrateJsonHealthData(fetchFn: typeof fetch, podBaseUrl: string): Promise<JsonMigration> {
+  const result: JsonMigration = { record: false, files: [], legacyUrls: [] };
+
+  const recordUrl = legacyFullRecordUrl(podBaseUrl);
+  const record = await readLegacyJson<Parameters<typeof normalizeFullRecord>[0]>(fetchFn, recordUrl);
+  if (record) {
+    await createUnlessPresent(() => saveFullRecord(fetchFn, podBaseUrl, normalizeFullRecord(record), null));
+    result.record = true;
+    result.legacyUrls.push(recordUrl);
+  }
+
+  const legacyListUrl = `${podBaseUrl}health/files.json`;
+  const listed = await readLegacyJson<PatientFile[]>(fetchFn, legacyListUrl);
+  if (listed) {
+    if (listed.length) await ensureContainer(fetchFn, patientFilesContainerUrl(podBaseUrl));
+    for (const file of listed) {
+      await createUnlessPresent(() => putPatientFile(fetchFn, podBaseUrl, { ...file, etag: null }));
+      result.files.push(file);
+    }
+    result.legacyUrls.push(legacyListUrl);
+  }
+
+  const members = await listContainerMembers(fetchFn, patientFilesContainerUrl(podBaseUrl));
+  for (const url of members.filter((u) => u.endsWith(".json"))) {
+    const file = await readLegacyJson<PatientFile>(fetchFn, url);
+    if (!file) continue;
+    await createUnlessPresent(() => putPatientFile(fetchFn, podBaseUrl, { ...file, etag: null }));
+    result.files.push(file);
+    result.legacyUrls.push(url);
+  }
+
+  return result;
+}
+
+export async function removeMigratedJson(fetchFn: typeof fetch, urls: string[]): Promise<void> {
+  for (const url of urls) {
+    const res = await fetchFn(url, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) throw new Error(`Failed to remove ${url}: ${res.status} ${res.statusText}`);
+  }
+}
+
+/** Ids of break-glass grants the patient has already been shown, kept in their own pod. */
+export async function loadSeenBreakGlassIds(fetchFn: typeof fetch, podBaseUrl: string): Promise<string[]> {
+  const res = await fetchFn(`${podBaseUrl}health/break-glass-seen.json`, { cache: "no-store" });
+  if (res.status === 404) return [];
+  if (!res.ok) throw new Error(res.statusText);
+  return (await res.json()) as string[];
+}
+
+export async function saveSeenBreakGlassIds(
+  fetchFn: typeof fetch,
+  podBaseUrl: string,
+  ids: string[],
+): Promise<void> {
+  const res = await fetchFn(`${podBaseUrl}health/break-glass-seen.json`, {
     method: "PUT",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(filtered, null, 2),
+    body: JSON.stringify(ids, null, 2),
   });
   if (!res.ok) throw new Error(res.statusText);
-}
\ No newline at end of file
+}
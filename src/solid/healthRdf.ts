@@ -0,0 +1,448 @@
+// src/solid/healthRdf.ts
+import {
+  addLiteral, addStringNoLocale, addUrl, buildThing, createSolidDataset, createThing, getInteger,
+  getLiteral, getPropertyAll, getStringNoLocale, getStringNoLocaleAll, getThing, getThingAll, getUrl, getUrlAll,
+  removeAll, removeThing, removeUrl, responseToSolidDataset, setThing, solidDatasetAsTurtle,
+} from "@inrupt/solid-client";
+import type { SolidDataset, Thing } from "@inrupt/solid-client";
+import { DataFactory } from "n3";
+import { isWebIdUrl, newMedication, parseLegacyAllergies, parseLegacyMedications } from "./healthData";
+import type { Allergy, FileAttachment, FullRecord, Medication, PatientFile } from "./healthData";
+import { NS, RDF_TYPE } from "./rdf";
+
+/**
+ * Turtle serialisation of the health data, so other Solid apps can read it:
+ * - full-record.ttl: `<#record>` a schema:Patient / fhir:Patient with name, birth date,
+ *   address and notes (schema:description). Each line of the diagnosis list is its own
+ *   fhir:Condition, named by schema:name and ordered by schema:position; the blood type
+ *   is `<#blood-type>`, a LOINC 882-1 fhir:Observation with schema:value.
+ * - Each allergy is `<#allergy-<id>>`, a fhir:AllergyIntolerance naming the substance
+ *   by schema:name. Its reaction (fhir:reaction with fhir:description and fhir:severity)
+ *   and the verifying clinician (fhir:asserter with fhir:reference or fhir:display) are
+ *   FHIR RDF values: nodes named after the allergy whose fhir:v holds the value.
+ * - Each medication is `<#medication-<id>>`, a fhir:MedicationStatement carrying its
+ *   dosage as schema:strengthValue, schema:administrationRoute and schema:frequency, its
+ *   dates as schema:startDate/endDate, the prescriber as schema:author (a link to their
+ *   WebID, or their name as text) and its FHIR status ("active" or "stopped") as fhir:status.
+ * Allergies and medications written before those lists were structured have no
+ * schema:identifier and are parsed from their name; ones written before the FHIR RDF
+ * values carry plain literals, which are still read.
+ * - pharmacy-medications.ttl: the medications shared with pharmacy, written as in the
+ *   record and about its `<#record>`. It has its own ACR, so a pharmacy reads only these.
+ * - files/<id>.ttl: `<#file>` a schema:DigitalDocument, also typed fhir:DiagnosticReport
+ *   (lab, imaging) or fhir:DocumentReference. Who it is shared with is schema:audience.
+ *   An uploaded document is `<#attachment>`, a schema:MediaObject linked by
+ *   schema:associatedMedia, whose schema:contentUrl is the binary in health/attachments/
+ *   and which records its schema:encodingFormat, schema:contentSize and schema:sha256.
+ *
+ * Other apps may add their own statements to these documents. A write starts from the
+ * stored dataset and replaces only what this app states on the Things it names.
+ *
+ * Things are built and read with @inrupt/solid-client; healthData.ts does the HTTP so
+ * that writes stay conditional on ETags.
+ */
+
+const S = NS.schema;
+const FHIR = NS.fhir;
+const LOINC_BLOOD_TYPE = "http://loinc.org/rdf#882-1";
+
+type ListField = "diagnoses";
+
+const LIST_ITEMS: Record<ListField, { fragment: string; types: string[] }> = {
+  diagnoses: { fragment: "condition", types: [`${FHIR}Condition`, `${S}MedicalCondition`] },
+};
+
+const ALLERGY_TYPE = `${FHIR}AllergyIntolerance`;
+const MEDICATION_TYPE = `${FHIR}MedicationStatement`;
+
+type SharingFlag = "sharedWithDoctor" | "sharedWithEmergency" | "sharedWithNurse" | "sharedWithPharmacy";
+
+const AUDIENCES: Record<"doctor" | "emergency" | "nurse" | "pharmacy", SharingFlag> = {
+  doctor:    "sharedWithDoctor",
+  emergency: "sharedWithEmergency",
+  nurse:     "sharedWithNurse",
+  pharmacy:  "sharedWithPharmacy",
+};
+
+const FILE_TYPES: PatientFile["type"][] = ["lab", "prescription", "imaging", "report", "note"];
+
+function typed(value: string, datatype: "date" | "dateTime") {
+  return DataFactory.literal(value, DataFactory.namedNode(`${NS.xsd}${datatype}`));
+}
+
+function withText(thing: Thing, predicate: string, value: string): Thing {
+  return value ? addStringNoLocale(thing, predicate, value) : thing;
+}
+
+function text(thing: Thing | null, predicate: string): string {
+  return (thing && getStringNoLocale(thing, predicate)) ?? "";
+}
+
+function lines(value: string): string[] {
+  return value.split("\n").map((l) => l.trim()).filter(Boolean);
+}
+
+function thingsOfType(dataset: SolidDataset, type: string): Thing[] {
+  return getThingAll(dataset).filter((t) => getUrlAll(t, RDF_TYPE).includes(type));
+}
+
+/** Types and predicates this app writes; anything else on its Things belongs to someone else. */
+const OWN_TYPES = [
+  `${S}Patient`, `${FHIR}Patient`, `${FHIR}Condition`, `${S}MedicalCondition`, ALLERGY_TYPE, MEDICATION_TYPE,
+  `${FHIR}Observation`, `${S}DigitalDocument`, `${FHIR}DiagnosticReport`, `${FHIR}DocumentReference`, `${S}MediaObject`,
+];
+const OWN_PREDICATES = [
+  ...["name", "birthDate", "address", "description", "identifier", "position", "about", "code", "value",
+    "strengthValue", "administrationRoute", "frequency", "startDate", "endDate", "author", "audience", "genre",
+    "dateCreated", "dateModified", "text", "creator", "associatedMedia", "contentUrl", "encodingFormat",
+    "contentSize", "sha256"].map((p) => `${S}${p}`),
+  ...["reaction", "description", "severity", "asserter", "reference", "display", "status", "v"]
+    .map((p) => `${FHIR}${p}`),
+];
+
+/**
+ * The stored dataset without this app's statements on the Things it names (`#<prefix>...`
+ * in the document); Things left with nothing are dropped.
+ */
+function withoutOwnStatements(dataset: SolidDataset, docUrl: string, prefixes: string[]): SolidDataset {
+  let out = dataset;
+  for (const thing of getThingAll(dataset)) {
+    if (!prefixes.some((p) => thing.url.startsWith(`${docUrl}#${p}`))) continue;
+    let kept = OWN_TYPES.reduce((t, type) => removeUrl(t, RDF_TYPE, type), thing);
+    kept = OWN_PREDICATES.reduce((t, predicate) => removeAll(t, predicate), kept);
+    out = getPropertyAll(kept).length ? setThing(out, kept) : removeThing(out, thing);
+  }
+  return out;
+}
+
+/** Adds to the Thing at `url`, keeping what others state on it. */
+function updateThing(dataset: SolidDataset, url: string, update: (thing: Thing) => Thing): SolidDataset {
+  return setThing(dataset, update(getThing(dataset, url) ?? createThing({ url })));
+}
+
+/**
+ * Writes a FHIR RDF primitive along `path` from `subjectUrl`: each step is a node named
+ * `<subject>-<steps>`, and the last one holds the value as fhir:v.
+ */
+function setFhirValue(dataset: SolidDataset, subjectUrl: string, path: string[], value: string): SolidDataset {
+  if (!value) return dataset;
+  let out = dataset;
+  let from = subjectUrl;
+  path.forEach((step, i) => {
+    const node = `${subjectUrl}-${path.slice(0, i + 1).join("-")}`;
+    const predicate = `${FHIR}${step}`;
+    out = updateThing(out, from, (t) => (getUrlAll(t, predicate).includes(node) ? t : addUrl(t, predicate, node)));
+    from = node;
+  });
+  return updateThing(out, from, (t) => addStringNoLocale(t, `${FHIR}v`, value));
+}
+
+/** Reads a FHIR RDF primitive along `path`; "" when any step is missing. */
+function fhirValue(dataset: SolidDataset, subject: Thing, path: string[]): string {
+  let node: Thing | null = subject;
+  for (const step of path) {
+    const url: string | null = node && getUrl(node, `${FHIR}${step}`);
+    node = url ? getThing(dataset, url) : null;
+  }
+  return text(node, `${FHIR}v`);
+}
+
+export const TURTLE_PREFIXES = { schema: S, fhir: FHIR, xsd: NS.xsd };
+
+// =======================
+// Full record
+// =======================
+
+/** Fragments of the Things a full record document names. */
+const RECORD_FRAGMENTS = ["record", "condition-", "allergy-", "medication-", "blood-type"];
+
+/** `stored` is the document as last read; statements other apps added to it are kept. */
+export function fullRecordToTurtle(record: FullRecord, docUrl: string, stored?: SolidDataset | null): Promise<string> {
+  const recordUrl = `${docUrl}#record`;
+  let dataset = withoutOwnStatements(stored ?? createSolidDataset(), docUrl, RECORD_FRAGMENTS);
+
+  dataset = updateThing(dataset, recordUrl, (thing) => {
+    let patient = buildThing(thing).addUrl(RDF_TYPE, `${S}Patient`).addUrl(RDF_TYPE, `${FHIR}Patient`).build();
+    patient = withText(patient, `${S}name`, record.patientName);
+    if (record.dateOfBirth) patient = addLiteral(patient, `${S}birthDate`, typed(record.dateOfBirth, "date"));
+    patient = withText(patient, `${S}address`, record.address);
+    return withText(patient, `${S}description`, record.notes);
+  });
+
+  for (const field of Object.keys(LIST_ITEMS) as ListField[]) {
+    const { fragment, types } = LIST_ITEMS[field];
+    lines(record[field]).forEach((line, i) => {
+      dataset = updateThing(dataset, `${docUrl}#${fragment}-${i + 1}`, (thing) =>
+        types.reduce((b, type) => b.addUrl(RDF_TYPE, type), buildThing(thing))
+          .addStringNoLocale(`${S}name`, line)
+          .addInteger(`${S}position`, i + 1)
+          .addUrl(`${S}about`, recordUrl)
+          .build(),
+      );
+    });
+  }
+
+  record.allergies.forEach((a, i) => {
+    dataset = setAllergy(dataset, a, i + 1, docUrl, recordUrl);
+  });
+  record.medications.forEach((m, i) => {
+    dataset = setMedication(dataset, m, i + 1, docUrl, recordUrl);
+  });
+
+  if (record.bloodType.trim()) {
+    dataset = updateThing(dataset, `${docUrl}#blood-type`, (thing) =>
+      buildThing(thing)
+        .addUrl(RDF_TYPE, `${FHIR}Observation`)
+        .addUrl(`${S}code`, LOINC_BLOOD_TYPE)
+        .addStringNoLocale(`${S}name`, "Blood type")
+        .addStringNoLocale(`${S}value`, record.bloodType.trim())
+        .addUrl(`${S}about`, recordUrl)
+        .build(),
+    );
+  }
+
+  return solidDatasetAsTurtle(dataset, { prefixes: TURTLE_PREFIXES });
+}
+
+function setAllergy(
+  dataset: SolidDataset,
+  a: Allergy,
+  position: number,
+  docUrl: string,
+  recordUrl: string,
+): SolidDataset {
+  const url = `${docUrl}#allergy-${a.id}`;
+  let out = updateThing(dataset, url, (thing) =>
+    buildThing(thing)
+      .addUrl(RDF_TYPE, ALLERGY_TYPE)
+      .addStringNoLocale(`${S}identifier`, a.id)
+      .addStringNoLocale(`${S}name`, a.substance)
+      .addInteger(`${S}position`, position)
+      .addUrl(`${S}about`, recordUrl)
+      .build(),
+  );
+  out = setFhirValue(out, url, ["reaction", "description"], a.reaction);
+  out = setFhirValue(out, url, ["reaction", "severity"], a.severity);
+  const asserter = isWebIdUrl(a.verifiedBy) ? "reference" : "display";
+  return setFhirValue(out, url, ["asserter", asserter], a.verifiedBy);
+}
+
+const SEVERITIES: Allergy["severity"][] = ["mild", "moderate", "severe"];
+
+function allergiesFromDataset(dataset: SolidDataset): Allergy[] {
+  return thingsOfType(dataset, ALLERGY_TYPE)
+    .map((t) => ({ thing: t, position: getInteger(t, `${S}position`) ?? 0 }))
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ thing, position }): Allergy[] => {
+      const substance = text(thing, `${S}name`);
+      const id = text(thing, `${S}identifier`);
+      if (!id) return parseLegacyAllergies(substance).map((a) => ({ ...a, id: `legacy-${position}` }));
+      // Plain literals are how allergies were written before the FHIR RDF values
+      const severity = (fhirValue(dataset, thing, ["reaction", "severity"]) || text(thing, `${FHIR}severity`)) as
+        Allergy["severity"];
+      return [{
+        id,
+        substance,
+        reaction: fhirValue(dataset, thing, ["reaction", "description"]) || text(thing, `${FHIR}reaction`),
+        severity: SEVERITIES.includes(severity) ? severity : "",
+        verifiedBy:
+          fhirValue(dataset, thing, ["asserter", "reference"]) ||
+          fhirValue(dataset, thing, ["asserter", "display"]) ||
+          text(thing, `${FHIR}asserter`),
+      }];
+    });
+}
+
+function setMedication(
+  dataset: SolidDataset,
+  m: Medication,
+  position: number,
+  docUrl: string,
+  recordUrl: string,
+): SolidDataset {
+  const url = `${docUrl}#medication-${m.id}`;
+  const out = updateThing(dataset, url, (base) => {
+    let thing = buildThing(base)
+      .addUrl(RDF_TYPE, MEDICATION_TYPE)
+      .addStringNoLocale(`${S}identifier`, m.id)
+      .addStringNoLocale(`${S}name`, m.name)
+      .addInteger(`${S}position`, position)
+      .addUrl(`${S}about`, recordUrl)
+      .build();
+    thing = withText(thing, `${S}strengthValue`, m.strength);
+    thing = withText(thing, `${S}administrationRoute`, m.route);
+    thing = withText(thing, `${S}frequency`, m.frequency);
+    if (m.startDate) thing = addLiteral(thing, `${S}startDate`, typed(m.startDate, "date"));
+    if (m.stopDate) thing = addLiteral(thing, `${S}endDate`, typed(m.stopDate, "date"));
+    if (isWebIdUrl(m.prescriberWebId)) thing = addUrl(thing, `${S}author`, m.prescriberWebId);
+    else thing = withText(thing, `${S}author`, m.prescriberWebId);
+    if (m.sharedWithPharmacy) thing = addStringNoLocale(thing, `${S}audience`, "pharmacy");
+    return thing;
+  });
+  // MedicationStatement.status codes: a discontinued medication is "stopped"
+  return setFhirValue(out, url, ["status"], m.status === "discontinued" ? "stopped" : "active");
+}
+
+/** FHIR statuses read as discontinued; "discontinued" is how earlier versions wrote it. */
+const STOPPED_STATUSES = ["stopped", "completed", "not-taken", "discontinued"];
+
+function medicationsFromDataset(dataset: SolidDataset): Medication[] {
+  return thingsOfType(dataset, MEDICATION_TYPE)
+    .map((t) => ({ thing: t, position: getInteger(t, `${S}position`) ?? 0 }))
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ thing, position }): Medication[] => {
+      const name = text(thing, `${S}name`);
+      const id = text(thing, `${S}identifier`);
+      if (!id) return parseLegacyMedications(name).map((m) => ({ ...m, id: `legacy-${position}` }));
+      return [{
+        ...newMedication(),
+        id,
+        name,
+        strength: text(thing, `${S}strengthValue`),
+        route: text(thing, `${S}administrationRoute`),
+        frequency: text(thing, `${S}frequency`),
+        startDate: getLiteral(thing, `${S}startDate`)?.value ?? "",
+        stopDate: getLiteral(thing, `${S}endDate`)?.value ?? "",
+        prescriberWebId: getUrl(thing, `${S}author`) ?? text(thing, `${S}author`),
+        status: STOPPED_STATUSES.includes(fhirValue(dataset, thing, ["status"]) || text(thing, `${FHIR}status`))
+          ? "discontinued"
+          : "active",
+        sharedWithPharmacy: getStringNoLocaleAll(thing, `${S}audience`).includes("pharmacy"),
+      }];
+    });
+}
+
+export function pharmacyMedicationsToTurtle(
+  medications: Medication[],
+  docUrl: string,
+  recordUrl: string,
+  stored?: SolidDataset | null,
+): Promise<string> {
+  let dataset = withoutOwnStatements(stored ?? createSolidDataset(), docUrl, ["medication-"]);
+  medications.forEach((m, i) => {
+    dataset = setMedication(dataset, m, i + 1, docUrl, recordUrl);
+  });
+  return solidDatasetAsTurtle(dataset, { prefixes: TURTLE_PREFIXES });
+}
+
+export function pharmacyMedicationsFromDataset(dataset: SolidDataset): Medication[] {
+  return medicationsFromDataset(dataset);
+}
+
+export function fullRecordFromDataset(dataset: SolidDataset, docUrl: string): FullRecord {
+  const patient = getThing(dataset, `${docUrl}#record`) ?? thingsOfType(dataset, `${S}Patient`)[0] ?? null;
+
+  const list = (field: ListField) =>
+    thingsOfType(dataset, LIST_ITEMS[field].types[0])
+      .map((t) => ({ name: text(t, `${S}name`), position: getInteger(t, `${S}position`) ?? 0 }))
+      .filter((item) => item.name)
+      .sort((a, b) => a.position - b.position)
+      .map((item) => item.name)
+      .join("\n");
+
+  const bloodType = thingsOfType(dataset, `${FHIR}Observation`)
+    .find((t) => getUrl(t, `${S}code`) === LOINC_BLOOD_TYPE);
+
+  return {
+    patientName: text(patient, `${S}name`),
+    dateOfBirth: (patient && getLiteral(patient, `${S}birthDate`)?.value) ?? "",
+    bloodType: bloodType ? text(bloodType, `${S}value`) : "",
+    address: text(patient, `${S}address`),
+    allergies: allergiesFromDataset(dataset),
+    diagnoses: list("diagnoses"),
+    medications: medicationsFromDataset(dataset),
+    notes: text(patient, `${S}description`),
+  };
+}
+
+// =======================
+// Patient files
+// =======================
+
+/** `stored` is the document as last read; statements other apps added to it are kept. */
+export function patientFileToTurtle(
+  file: Omit<PatientFile, "etag">,
+  docUrl: string,
+  stored?: SolidDataset | null,
+): Promise<string> {
+  const report = file.type === "lab" || file.type === "imaging";
+  let dataset = withoutOwnStatements(stored ?? createSolidDataset(), docUrl, ["file", "attachment"]);
+  let thing = buildThing(getThing(dataset, `${docUrl}#file`) ?? createThing({ url: `${docUrl}#file` }))
+    .addUrl(RDF_TYPE, `${S}DigitalDocument`)
+    .addUrl(RDF_TYPE, report ? `${FHIR}DiagnosticReport` : `${FHIR}DocumentReference`)
+    .addStringNoLocale(`${S}identifier`, file.id)
+    .addStringNoLocale(`${S}genre`, file.type)
+    .addLiteral(`${S}dateCreated`, typed(file.createdAt, "dateTime"))
+    .addLiteral(`${S}dateModified`, typed(file.updatedAt, "dateTime"))
+    .build();
+  thing = withText(thing, `${S}name`, file.title);
+  thing = withText(thing, `${S}description`, file.description);
+  thing = withText(thing, `${S}text`, file.content);
+  if (isWebIdUrl(file.createdBy)) thing = addUrl(thing, `${S}creator`, file.createdBy);
+  else thing = withText(thing, `${S}creator`, file.createdBy);
+  for (const [audience, flag] of Object.entries(AUDIENCES)) {
+    if (file[flag]) thing = addStringNoLocale(thing, `${S}audience`, audience);
+  }
+
+  if (file.attachment) {
+    const media = attachmentThing(file.attachment, getThing(dataset, `${docUrl}#attachment`) ?? `${docUrl}#attachment`);
+    thing = addUrl(thing, `${S}associatedMedia`, media);
+    dataset = setThing(dataset, media);
+  }
+
+  return solidDatasetAsTurtle(setThing(dataset, thing), { prefixes: TURTLE_PREFIXES });
+}
+
+function attachmentThing(a: FileAttachment, base: Thing | string): Thing {
+  return buildThing(typeof base === "string" ? createThing({ url: base }) : base)
+    .addUrl(RDF_TYPE, `${S}MediaObject`)
+    .addUrl(`${S}contentUrl`, a.url)
+    .addStringNoLocale(`${S}name`, a.name)
+    .addStringNoLocale(`${S}encodingFormat`, a.contentType)
+    .addInteger(`${S}contentSize`, a.size)
+    .addStringNoLocale(`${S}sha256`, a.sha256)
+    .build();
+}
+
+function attachmentFromDataset(dataset: SolidDataset, file: Thing): FileAttachment | undefined {
+  const mediaUrl = getUrl(file, `${S}associatedMedia`);
+  const media = mediaUrl ? getThing(dataset, mediaUrl) : null;
+  const url = media && getUrl(media, `${S}contentUrl`);
+  if (!media || !url) return undefined;
+  return {
+    url,
+    name: text(media, `${S}name`),
+    contentType: text(media, `${S}encodingFormat`) || "application/octet-stream",
+    size: getInteger(media, `${S}contentSize`) ?? 0,
+    sha256: text(media, `${S}sha256`),
+  };
+}
+
+export function patientFileFromDataset(dataset: SolidDataset, docUrl: string): Omit<PatientFile, "etag"> {
+  const thing = getThing(dataset, `${docUrl}#file`) ?? thingsOfType(dataset, `${S}DigitalDocument`)[0];
+  if (!thing) throw new Error(`${docUrl} does not describe a file.`);
+
+  const genre = text(thing, `${S}genre`) as PatientFile["type"];
+  const audiences = new Set(getStringNoLocaleAll(thing, `${S}audience`));
+  const attachment = attachmentFromDataset(dataset, thing);
+  return {
+    id: text(thing, `${S}identifier`),
+    title: text(thing, `${S}name`),
+    description: text(thing, `${S}description`),
+    content: text(thing, `${S}text`),
+    type: FILE_TYPES.includes(genre) ? genre : "note",
+    createdAt: getLiteral(thing, `${S}dateCreated`)?.value ?? "",
+    updatedAt: getLiteral(thing, `${S}dateModified`)?.value ?? "",
+    createdBy: getUrl(thing, `${S}creator`) ?? text(thing, `${S}creator`),
+    sharedWithDoctor: audiences.has("doctor"),
+    sharedWithEmergency: audiences.has("emergency"),
+    sharedWithNurse: audiences.has("nurse"),
+    sharedWithPharmacy: audiences.has("pharmacy"),
+    ...(attachment ? { attachment } : {}),
+  };
+}
+
+/** Parses a Turtle response into a dataset; the response URL is the base. */
+export function datasetFromResponse(res: Response): Promise<SolidDataset> {
+  return responseToSolidDataset(res);
+}
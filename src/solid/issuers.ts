@@ -0,0 +1,107 @@
+// src/solid/issuers.ts
+import { KNOWN_ISSUERS, SOLID_ISSUER } from "./config";
+import { parseTurtle, NS } from "./rdf";
+
+/**
+ * OIDC issuers. Patients may hold pods at any Solid provider, so login takes the issuer
+ * the user picks, and ACR matchers pin each agent to the issuers its profile lists under
+ * solid:oidcIssuer rather than to the app's default issuer.
+ */
+
+type ProfileFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type AgentIssuers = Record<string, string[]>;
+
+const LAST_ISSUER_KEY = "solid-healthcare:last-issuer";
+const SOLID_OIDC_ISSUER = `${NS.solid}oidcIssuer`;
+
+/**
+ * Checks a provider typed or picked at login. The issuer is kept as written: acp:issuer
+ * is matched literally against the token's iss, which some providers write without a
+ * trailing slash. Only a missing scheme is filled in.
+ */
+export function parseIssuer(input: string): string {
+  const text = input.trim();
+  const withScheme = /^https?:\/\//i.test(text) ? text : `https://${text}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new Error(`"${input}" is not a valid provider URL.`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`"${input}" must use http or https.`);
+  }
+  return withScheme;
+}
+
+/** For display and picker matching only; ACR matchers keep the issuer as stated. */
+export function sameIssuer(a: string, b: string): boolean {
+  const strip = (s: string) => s.trim().replace(/\/+$/, "").toLowerCase();
+  return strip(a) === strip(b);
+}
+
+/** The issuer chosen at the last login, else the configured default. */
+export function getLastIssuer(): string {
+  try {
+    return localStorage.getItem(LAST_ISSUER_KEY) || SOLID_ISSUER;
+  } catch {
+    return SOLID_ISSUER;
+  }
+}
+
+export function rememberIssuer(issuer: string): void {
+  try {
+    localStorage.setItem(LAST_ISSUER_KEY, issuer);
+  } catch {
+    // storage disabled: the picker falls back to the default next time
+  }
+}
+
+/** Configured providers for the picker, the default issuer first. */
+export function knownIssuers(): { name: string; url: string }[] {
+  const own = KNOWN_ISSUERS.find((i) => sameIssuer(i.url, SOLID_ISSUER)) ?? {
+    name: new URL(SOLID_ISSUER).host,
+    url: SOLID_ISSUER,
+  };
+  return [own, ...KNOWN_ISSUERS.filter((i) => !sameIssuer(i.url, SOLID_ISSUER))];
+}
+
+const discovered = new Map<string, Promise<string[]>>();
+
+/**
+ * Reads solid:oidcIssuer from a WebID's profile. Profiles are public, so this works
+ * before login. Lookups are cached per WebID; failures are not, so they retry.
+ */
+export function discoverOidcIssuers(webId: string, fetchFn: ProfileFetch = fetch): Promise<string[]> {
+  const cached = discovered.get(webId);
+  if (cached) return cached;
+
+  const doc = webId.split("#")[0];
+  const run = (async () => {
+    const res = await fetchFn(doc, { method: "GET", headers: { Accept: "text/turtle" }, cache: "no-store" });
+    if (!res.ok) throw new Error(`Failed to read profile ${doc}: ${res.status}`);
+    const issuers = parseTurtle(await res.text(), doc).objectIds(webId, SOLID_OIDC_ISSUER);
+    // As stated in the profile: that is the form the provider writes into its tokens
+    return Array.from(new Set(issuers));
+  })();
+
+  discovered.set(webId, run);
+  run.catch(() => discovered.delete(webId));
+  return run;
+}
+
+/**
+ * Issuers to pin each agent to in ACR matchers. Agents whose profile cannot be read or
+ * lists no issuer fall back to the app's default issuer.
+ */
+export async function resolveAgentIssuers(fetchFn: ProfileFetch, webIds: string[]): Promise<AgentIssuers> {
+  const unique = Array.from(new Set(webIds));
+  const entries = await Promise.all(
+    unique.map(async (webId): Promise<[string, string[]]> => {
+      const issuers = await discoverOidcIssuers(webId, fetchFn).catch(() => []);
+      return [webId, issuers.length ? issuers : [SOLID_ISSUER]];
+    }),
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,34 @@
+// src/solid/jcs.ts
+
+/**
+ * JSON Canonicalization Scheme (RFC 8785). Object members are sorted by their
+ * UTF-16 code units at every depth; numbers and strings use the ECMAScript
+ * serialisation that JSON.stringify already implements. Members whose value is
+ * undefined are omitted, as JSON.stringify would.
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      if (!Number.isFinite(value)) throw new Error("JCS: non-finite numbers cannot be canonicalised");
+      return JSON.stringify(value);
+    case "string":
+      return JSON.stringify(value);
+    case "object":
+      break;
+    default:
+      throw new Error(`JCS: unsupported value of type ${typeof value}`);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalize(v === undefined ? null : v)).join(",")}]`;
+  }
+
+  const obj = value as Record<string, unknown>;
+  // Default sort compares UTF-16 code units, which is what RFC 8785 §3.2.3 requires
+  const keys = Object.keys(obj).filter((k) => obj[k] !== undefined).sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalize(obj[k])}`).join(",")}}`;
+}
@@ -0,0 +1,92 @@
+// src/solid/ldp.ts
+
+/**
+ * LDP container helpers shared by the health data and governance layers.
+ */
+
+export async function ensureContainer(fetchFn: typeof fetch, containerUrl: string): Promise<void> {
+  const res = await fetchFn(containerUrl, { method: "GET", cache: "no-store" });
+  if (res.ok) return;
+
+  if (res.status !== 404) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Cannot access container ${containerUrl}: ${res.status}\n${t}`);
+  }
+
+  const turtle = `
+@prefix ldp: <http://www.w3.org/ns/ldp#>.
+<> a ldp:BasicContainer, ldp:Container .
+`.trim();
+
+  const created = await fetchFn(containerUrl, {
+    method: "PUT",
+    headers: { "Content-Type": "text/turtle; charset=utf-8" },
+    body: turtle,
+  });
+
+  if (!created.ok && created.status !== 412) {
+    const t = await created.text().catch(() => "");
+    throw new Error(`Failed to create container ${containerUrl}: ${created.status}\n${t}`);
+  }
+}
+
+/** Creates an empty Turtle document unless one is there already, e.g. to put an ACR on it. */
+export async function ensureDocument(fetchFn: typeof fetch, url: string): Promise<void> {
+  const res = await fetchFn(url, {
+    method: "PUT",
+    headers: { "Content-Type": "text/turtle; charset=utf-8", "If-None-Match": "*" },
+    body: "",
+  });
+
+  if (!res.ok && res.status !== 412) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed to create ${url}: ${res.status}\n${t}`);
+  }
+}
+
+export async function listContainerMembers(fetchFn: typeof fetch, containerUrl: string): Promise<string[]> {
+  const res = await fetchFn(containerUrl, {
+    method: "GET",
+    headers: { Accept: "text/turtle", "Cache-Control": "no-store" },
+    cache: "no-store",
+  });
+  if (res.status === 404) return [];
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed to list container ${containerUrl}: ${res.status}\n${t}`);
+  }
+
+  const body = await res.text();
+  const urls = new Set<string>();
+
+  // CSS puts ldp:contains on a single line with comma-separated relative IRIs:
+  // <> posix:mtime 123; ldp:contains <a.json>, <b.json>, <c.json>.
+  // We find the ldp:contains line, then extract all <...> IRIs from it.
+  const lines = body.split("\n");
+  let inContains = false;
+
+  for (const line of lines) {
+    const isContainsLine = inContains || line.includes("ldp:contains");
+    if (!isContainsLine) continue;
+
+    inContains = true;
+
+    // Extract all relative IRIs on this line
+    const iriRe = /<([^>]+)>/g;
+    let m: RegExpExecArray | null;
+    while ((m = iriRe.exec(line))) {
+      const raw = m[1];
+      // Skip the self-referential <> and absolute URIs that aren't members
+      if (raw && !raw.startsWith("http") && raw !== "") {
+        urls.add(new URL(raw, containerUrl).toString());
+      }
+    }
+
+    // The statement ends with a period (possibly after the last IRI)
+    if (line.trimEnd().endsWith(".")) {
+      inContains = false;
+    }
+  }
+
+  return Array.from(urls);
+}
@@ -0,0 +1,65 @@
+// src/solid/rdf.ts
+import { Parser } from "n3";
+import type { Quad, Term } from "n3";
+
+/**
+ * Thin read-only view over parsed Turtle. Subjects and objects are keyed by
+ * termId(): IRIs as-is, blank nodes as "_:label", literals by their lexical value.
+ */
+export type Graph = {
+  quads: Quad[];
+  objects: (subject: string, predicate: string) => Term[];
+  objectIds: (subject: string, predicate: string) => string[];
+  subjectsOfType: (type: string) => string[];
+};
+
+export const NS = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  acp: "http://www.w3.org/ns/solid/acp#",
+  acl: "http://www.w3.org/ns/auth/acl#",
+  ldp: "http://www.w3.org/ns/ldp#",
+  solid: "http://www.w3.org/ns/solid/terms#",
+  sec: "https://w3id.org/security#",
+  pim: "http://www.w3.org/ns/pim/space#",
+  schema: "http://schema.org/",
+  fhir: "http://hl7.org/fhir/",
+  xsd: "http://www.w3.org/2001/XMLSchema#",
+} as const;
+
+export const RDF_TYPE = `${NS.rdf}type`;
+
+export function termId(term: Term): string {
+  return term.termType === "BlankNode" ? `_:${term.value}` : term.value;
+}
+
+export function parseTurtle(turtle: string, baseIri: string): Graph {
+  const quads = new Parser({ baseIRI: baseIri, format: "text/turtle" }).parse(turtle);
+
+  const bySubject = new Map<string, Quad[]>();
+  for (const q of quads) {
+    const key = termId(q.subject);
+    const list = bySubject.get(key);
+    if (list) list.push(q);
+    else bySubject.set(key, [q]);
+  }
+
+  function objects(subject: string, predicate: string): Term[] {
+    return (bySubject.get(subject) ?? [])
+      .filter((q) => q.predicate.value === predicate)
+      .map((q) => q.object);
+  }
+
+  return {
+    quads,
+    objects,
+    objectIds: (subject, predicate) => objects(subject, predicate).map(termId),
+    subjectsOfType: (type) =>
+      Array.from(
+        new Set(
+          quads
+            .filter((q) => q.predicate.value === RDF_TYPE && q.object.value === type)
+            .map((q) => termId(q.subject)),
+        ),
+      ),
+  };
+}
@@ -1,10 +1,12 @@
 // src/solid/session.ts
 import {
+  EVENTS,
   getDefaultSession,
   handleIncomingRedirect,
   login as solidLogin,
 } from "@inrupt/solid-client-authn-browser";
 import { SOLID_ISSUER, CLIENT_ID, REDIRECT_URL, POST_LOGOUT_URL } from "./config";
+import { parseIssuer, rememberIssuer } from "./issuers";
 
 export type AuthenticatedFetch = typeof getDefaultSession extends () => infer S
   ? S extends { fetch: infer F }
@@ -14,8 +16,20 @@ export type AuthenticatedFetch = typeof getDefaultSession extends () => infer S
 
 export const session = getDefaultSession();
 
+/**
+ * Completes a login redirect, or silently restores the previous session on reload
+ * (a prompt-less round trip to the issuer; the session comes back via SESSION_RESTORED).
+ */
 export async function initSessionFromRedirect(): Promise<void> {
-  await handleIncomingRedirect();
+  await handleIncomingRedirect({ restorePreviousSession: true });
+}
+
+/** Calls listener when the tokens run out without a refresh; returns the unsubscribe. */
+export function onSessionExpired(listener: () => void): () => void {
+  session.events.on(EVENTS.SESSION_EXPIRED, listener);
+  return () => {
+    session.events.off(EVENTS.SESSION_EXPIRED, listener);
+  };
 }
 
 export function isLoggedIn(): boolean {
@@ -26,9 +40,12 @@ export function getWebId(): string | undefined {
   return session.info.webId;
 }
 
-export async function login(): Promise<void> {
+/** Logs in at the given provider (default: the configured issuer) and remembers the choice. */
+export async function login(issuer: string = SOLID_ISSUER): Promise<void> {
+  const oidcIssuer = parseIssuer(issuer);
+  rememberIssuer(oidcIssuer);
   await solidLogin({
-    oidcIssuer: SOLID_ISSUER,
+    oidcIssuer,
     redirectUrl: REDIRECT_URL,
     clientId: CLIENT_ID,
   });
@@ -0,0 +1,275 @@
+// src/solid/signing.ts
+import type { AuthenticatedFetch } from "./session";
+import { canonicalize } from "./jcs";
+import { parseTurtle, NS, RDF_TYPE } from "./rdf";
+import type { Graph } from "./rdf";
+
+/**
+ * Per-actor ECDSA P-256 signing keys:
+ * - Private key: non-extractable CryptoKey in this browser's IndexedDB, keyed by WebID.
+ * - Public key: JWK literal on a `<card#signing-key-<thumbprint>>` node in the actor's
+ *   profile document, added with an N3 PATCH. Old keys are never removed, so records
+ *   signed in another browser or before a key change still verify.
+ *
+ * A signature's keyId is that node's IRI; verifiers only trust keys whose IRI lies in
+ * the signer's own profile document and whose sec:controller is the signer.
+ */
+
+export type Signature = {
+  alg: "ES256";
+  keyId: string;
+  /** base64url of the raw (r || s) ECDSA signature over the JCS payload. */
+  value: string;
+};
+
+export type SignatureCheck =
+  | { status: "valid"; keyId: string }
+  | { status: "unsigned" }
+  | { status: "invalid"; detail: string };
+
+type StoredKey = {
+  webId: string;
+  keyId: string;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+  /** Set once the public key is in the profile; unpublished keys never sign. */
+  published: boolean;
+};
+
+const ALGORITHM: EcKeyGenParams = { name: "ECDSA", namedCurve: "P-256" };
+const SIGN_PARAMS: EcdsaParams = { name: "ECDSA", hash: "SHA-256" };
+
+const DB_NAME = "solid-healthcare-signing";
+const STORE = "keys";
+
+const SEC_JSON_WEB_KEY = `${NS.sec}JsonWebKey`;
+const SEC_PUBLIC_KEY_JWK = `${NS.sec}publicKeyJwk`;
+const SEC_CONTROLLER = `${NS.sec}controller`;
+const SEC_ASSERTION_METHOD = `${NS.sec}assertionMethod`;
+
+function profileDocOf(webId: string): string {
+  return webId.split("#")[0];
+}
+
+function base64url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(text: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+/** RFC 7638 thumbprint of an EC public key. */
+async function jwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  const { crv, kty, x, y } = jwk;
+  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalize({ crv, kty, x, y })));
+  return base64url(new Uint8Array(buf));
+}
+
+// =======================
+// IndexedDB key store
+// =======================
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "webId" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function loadKey(webId: string): Promise<StoredKey | null> {
+  if (typeof indexedDB === "undefined") return null;
+  return (await withStore<StoredKey | undefined>("readonly", (s) => s.get(webId))) ?? null;
+}
+
+async function saveKey(key: StoredKey): Promise<void> {
+  await withStore("readwrite", (s) => s.put(key));
+}
+
+// =======================
+// Publishing
+// =======================
+
+async function profileHasKey(fetchFn: AuthenticatedFetch, webId: string, keyId: string): Promise<boolean> {
+  const doc = profileDocOf(webId);
+  const res = await fetchFn(doc, { method: "GET", headers: { Accept: "text/turtle" }, cache: "no-store" });
+  if (!res.ok) return false;
+  const graph = parseTurtle(await res.text(), doc);
+  return graph.objectIds(keyId, SEC_PUBLIC_KEY_JWK).length > 0;
+}
+
+async function publishPublicKey(
+  fetchFn: AuthenticatedFetch,
+  webId: string,
+  keyId: string,
+  jwk: JsonWebKey,
+): Promise<void> {
+  const doc = profileDocOf(webId);
+  const { crv, kty, x, y } = jwk;
+
+  const patch = `
+@prefix solid: <${NS.solid}>.
+@prefix sec: <${NS.sec}>.
+
+_:publishKey a solid:InsertDeletePatch;
+  solid:inserts {
+    <${webId}> sec:assertionMethod <${keyId}> .
+    <${keyId}> a sec:JsonWebKey ;
+      sec:controller <${webId}> ;
+      sec:publicKeyJwk ${JSON.stringify(canonicalize({ crv, kty, x, y }))} .
+  } .
+`.trim();
+
+  const res = await fetchFn(doc, {
+    method: "PATCH",
+    headers: { "Content-Type": "text/n3" },
+    body: patch,
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Failed to publish signing key to ${doc}: ${res.status}\n${t}`);
+  }
+}
+
+const pending = new Map<string, Promise<void>>();
+
+/**
+ * Makes sure this browser holds a signing key for webId and that its public half
+ * is in the profile. Run after login; until it completes, records are unsigned.
+ */
+export function ensureSigningKey(fetchFn: AuthenticatedFetch, webId: string): Promise<void> {
+  const inFlight = pending.get(webId);
+  if (inFlight) return inFlight;
+
+  const run = (async () => {
+    if (typeof indexedDB === "undefined") return;
+
+    let stored = await loadKey(webId);
+    if (!stored) {
+      const pair = await crypto.subtle.generateKey(ALGORITHM, false, ["sign", "verify"]);
+      const publicJwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+      const keyId = `${profileDocOf(webId)}#signing-key-${await jwkThumbprint(publicJwk)}`;
+      stored = { webId, keyId, privateKey: pair.privateKey, publicJwk, published: false };
+      await saveKey(stored);
+    }
+    if (stored.published) return;
+
+    // A previous attempt may have patched the profile but not recorded it
+    if (!(await profileHasKey(fetchFn, webId, stored.keyId))) {
+      await publishPublicKey(fetchFn, webId, stored.keyId, stored.publicJwk);
+    }
+    await saveKey({ ...stored, published: true });
+  })();
+
+  pending.set(webId, run);
+  run.catch(() => pending.delete(webId));
+  return run;
+}
+
+// =======================
+// Signing / verification
+// =======================
+
+/**
+ * Signs the JCS form of a record as webId. Returns null when this browser has no
+ * published key for webId, so callers write the record unsigned rather than fail.
+ */
+export async function signRecord(webId: string, record: object): Promise<Signature | null> {
+  let stored: StoredKey | null;
+  try {
+    stored = await loadKey(webId);
+  } catch {
+    return null;
+  }
+  if (!stored?.published) return null;
+
+  const sig = await crypto.subtle.sign(SIGN_PARAMS, stored.privateKey, new TextEncoder().encode(canonicalize(record)));
+  return { alg: "ES256", keyId: stored.keyId, value: base64url(new Uint8Array(sig)) };
+}
+
+/** Resolves a keyId to its public key; one profile fetch per document. */
+export type KeyResolver = (signerWebId: string, keyId: string) => Promise<CryptoKey | null>;
+
+export function createKeyResolver(fetchFn: AuthenticatedFetch): KeyResolver {
+  const docs = new Map<string, Promise<Graph | null>>();
+
+  function loadDoc(doc: string) {
+    let p = docs.get(doc);
+    if (!p) {
+      p = (async () => {
+        const res = await fetchFn(doc, { method: "GET", headers: { Accept: "text/turtle" }, cache: "no-store" });
+        if (!res.ok) return null;
+        return parseTurtle(await res.text(), doc);
+      })().catch(() => null);
+      docs.set(doc, p);
+    }
+    return p;
+  }
+
+  return async (signerWebId, keyId) => {
+    const doc = profileDocOf(signerWebId);
+    if (profileDocOf(keyId) !== doc) return null;
+
+    const graph = await loadDoc(doc);
+    if (!graph) return null;
+    if (!graph.objectIds(keyId, RDF_TYPE).includes(SEC_JSON_WEB_KEY)) return null;
+    if (!graph.objectIds(keyId, SEC_CONTROLLER).includes(signerWebId)) return null;
+    if (!graph.objectIds(signerWebId, SEC_ASSERTION_METHOD).includes(keyId)) return null;
+
+    const [jwkText] = graph.objectIds(keyId, SEC_PUBLIC_KEY_JWK);
+    if (!jwkText) return null;
+
+    try {
+      return await crypto.subtle.importKey("jwk", JSON.parse(jwkText) as JsonWebKey, ALGORITHM, false, ["verify"]);
+    } catch {
+      return null;
+    }
+  };
+}
+
+/** Verifies a record's `signature` member against the signer's published key. */
+export async function verifyRecordSignature(
+  resolveKey: KeyResolver,
+  signerWebId: string,
+  record: { signature?: Signature },
+): Promise<SignatureCheck> {
+  const { signature, ...rest } = record;
+  if (!signature) return { status: "unsigned" };
+  if (signature.alg !== "ES256") return { status: "invalid", detail: `Unsupported algorithm ${signature.alg}.` };
+
+  const key = await resolveKey(signerWebId, signature.keyId);
+  if (!key) return { status: "invalid", detail: "Signing key is not published in the signer's profile." };
+
+  let ok = false;
+  try {
+    ok = await crypto.subtle.verify(
+      SIGN_PARAMS,
+      key,
+      fromBase64url(signature.value),
+      new TextEncoder().encode(canonicalize(rest)),
+    );
+  } catch {
+    ok = false;
+  }
+
+  return ok ? { status: "valid", keyId: signature.keyId } : { status: "invalid", detail: "Signature does not match." };
+}
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CONFIG_URL?: string;
+  readonly VITE_SOLID_ISSUER?: string;
+  readonly VITE_APP_URL?: string;
+  readonly VITE_CLIENT_NAME?: string;
+  readonly VITE_GOVERNANCE_POD_BASE?: string;
+  readonly VITE_GOVERNANCE_WEBID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
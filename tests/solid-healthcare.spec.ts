@@ -39,7 +39,7 @@ const ACCOUNTS = {
 type Account = keyof typeof ACCOUNTS;
 
 const URL = {
-  health: `${CSS}/patient/health/full-record.json`,
+  health: `${CSS}/patient/health/full-record.ttl`,
   acr: `${CSS}/patient/health/.acr`,
   auditDir: `${CSS}/governance/audit/events/`,
 };
@@ -171,6 +171,7 @@ async function waitForEmergencyRead200(
   // Try selecting patient1 first, because emergency role depends on selectedPatient
   await selectPatient1IfSelectorExists(page);
   await page.waitForTimeout(1500);
+  await acceptNoticeIfPresent(page);
 
   // If login or selection already triggered the GET 200, stop here
   if (tracker.gets.includes(200)) return;
@@ -182,6 +183,7 @@ async function waitForEmergencyRead200(
   // Select patient1 again after reload in case the UI reset
   await selectPatient1IfSelectorExists(page);
   await page.waitForTimeout(1500);
+  await acceptNoticeIfPresent(page);
 
   await expect.poll(
     async () => tracker.gets.includes(200),
@@ -630,10 +632,9 @@ async function trySelectPatientOptionAndDetectGet200(
   await selector.selectOption(optionValue);
   await page.waitForTimeout(1500);
 
-  if (role === 'doctor') {
-    await acceptNoticeIfPresent(page);
-    await page.waitForTimeout(1200);
-  }
+  // Every grantee role must accept the legal notice before reading
+  await acceptNoticeIfPresent(page);
+  await page.waitForTimeout(1200);
 
   const recent = tracker.gets.slice(before);
   return recent.includes(200);
@@ -651,10 +652,9 @@ async function trySelectPatientOptionAndDetect403OrBlocked(
   await selector.selectOption(optionValue);
   await page.waitForTimeout(1500);
 
-  if (role === 'doctor') {
-    await acceptNoticeIfPresent(page);
-    await page.waitForTimeout(1200);
-  }
+  // Every grantee role must accept the legal notice before reading
+  await acceptNoticeIfPresent(page);
+  await page.waitForTimeout(1200);
 
   const recent = tracker.gets.slice(before);
   const body = await page.locator('body').innerText().catch(() => '');
@@ -682,7 +682,7 @@ async function waitForFirstPatientFieldValue(page: Page, expected: string, timeo
 }
 
 async function saveCurrentRecord(page: Page) {
-  const put = onResponse(page, 'full-record.json', 'PUT');
+  const put = onResponse(page, 'full-record.ttl', 'PUT');
   await page.click('button:has-text("Save to pod")');
   const res = await put;
   expect([200, 204, 205]).toContain(res.status());
@@ -852,7 +852,7 @@ function attachFullRecordTracker(page: Page) {
   const puts: number[] = [];
 
   const handler = (r: any) => {
-    if (!r.url().includes('full-record.json')) return;
+    if (!r.url().includes('full-record.ttl')) return;
     const method = r.request().method();
     if (method === 'GET') gets.push(r.status());
     if (method === 'PUT') puts.push(r.status());
@@ -1111,8 +1111,21 @@ async function allAuditEvents(browser: Browser): Promise<Record<string, any>[]>
 
 async function hashEventWithoutEventHash(page: Page, event: Record<string, any>) {
   return page.evaluate(async (e) => {
-    const { eventHash, ...rest } = e as Record<string, unknown>;
-    const canon = JSON.stringify(rest, Object.keys(rest).sort());
+    // eventHash covers everything except itself and the signature made over it
+    const rest = { ...(e as Record<string, unknown>) };
+    delete rest.eventHash;
+    delete rest.signature;
+    // sha256-jcs-v2 sorts keys at every depth (RFC 8785); older events only sorted top-level keys
+    const jcs = (v: unknown): string => {
+      if (v === null || typeof v !== 'object') return JSON.stringify(v);
+      if (Array.isArray(v)) return `[${v.map((x) => jcs(x === undefined ? null : x)).join(',')}]`;
+      const o = v as Record<string, unknown>;
+      const keys = Object.keys(o).filter((k) => o[k] !== undefined).sort();
+      return `{${keys.map((k) => `${JSON.stringify(k)}:${jcs(o[k])}`).join(',')}}`;
+    };
+    const canon = rest.hashAlg === 'sha256-jcs-v2'
+      ? jcs(rest)
+      : JSON.stringify(rest, Object.keys(rest).sort());
     const buf = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canon));
     return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, '0')).join('');
   }, event);
@@ -1132,7 +1145,7 @@ async function doctorEditFirstFieldAndSaveExactly(page: Page, newValue: string)
   const saveBtn = page.locator('button:has-text("Save to pod")').first();
   await expect(saveBtn).toBeVisible({ timeout: 10000 });
 
-  const put = onResponse(page, 'full-record.json', 'PUT');
+  const put = onResponse(page, 'full-record.ttl', 'PUT');
   await saveBtn.click();
   const res = await put;
 
@@ -1340,6 +1353,380 @@ test.describe('TC-AC: Access Control', () => {
       await dCtx.close();
     }
   });
+
+  test('TC-AC-13 | File not shared with doctor is denied by its own ACR - 401/403', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const title = uniqueValue('PRIVATE_FILE');
+
+    // Step 1: patient1 adds a file with the Doctor share unchecked, then grants doctor access
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await p.locator('button:has-text("Add File")').first().click();
+      await p.getByPlaceholder('e.g. Blood Panel Results').fill(title);
+      await p.getByPlaceholder('e.g. Dr. Smith').fill('Patient');
+
+      const doctorShare = p.locator('label:has-text("Doctor") input[type="checkbox"]').first();
+      await doctorShare.uncheck();
+
+      const put = onResponse(p, '/health/files/', 'PUT');
+      await p.locator('button:has-text("Add File")').last().click();
+      expect([200, 201, 204, 205]).toContain((await put).status());
+
+      await grantDoctorAccessExactly(p);
+    } finally {
+      await pCtx.close();
+    }
+
+    // Step 2: doctor loads patient1 files; the private file must be refused by the pod
+    const { context: dCtx, page: d, tracker } = await loginAndTrack(browser, 'doctor');
+    const fileGets: number[] = [];
+    d.on('response', (r) => {
+      if (r.request().method() === 'GET' && /\/health\/files\/[^/]+\.json$/.test(r.url())) {
+        fileGets.push(r.status());
+      }
+    });
+
+    try {
+      await waitForTrackedGet200(d, tracker, 'doctor', 20000);
+
+      await expect.poll(
+        async () => fileGets.some((s) => s === 401 || s === 403),
+        { timeout: 20000, intervals: [500, 1000, 1000, 1500, 2000, 2500] }
+      ).toBe(true);
+      await expect(d.locator(`text=${title}`)).toHaveCount(0);
+    } finally {
+      tracker.dispose();
+      await dCtx.close();
+    }
+  });
+
+  test('TC-AC-14 | Nurse read after grant - 200', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await setToggleRowExactly(p, 'Nurse — read & write', true);
+      await clickApplyAccessControl(p);
+    } finally {
+      await pCtx.close();
+    }
+
+    const { context: nCtx, page: n, tracker } = await loginAndTrack(browser, 'nurse');
+    try {
+      await ensureOnApp(n);
+      await selectPatient1IfSelectorExists(n);
+      await acceptNoticeIfPresent(n);
+
+      await expect.poll(
+        async () => tracker.gets.includes(200),
+        { timeout: 20000, intervals: [500, 1000, 1000, 1500, 2000, 2500] }
+      ).toBe(true);
+    } finally {
+      tracker.dispose();
+      await nCtx.close();
+    }
+  });
+
+  test('TC-AC-15 | Grant scoped to lab files admits those files but not the full record', async ({ browser }) => {
+    test.setTimeout(240000);
+
+    const title = uniqueValue('LAB_SCOPED');
+
+    // Step 1: patient1 adds a lab file, then grants the doctor lab files only, for treatment
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await p.locator('button:has-text("Add File")').first().click();
+      await p.getByPlaceholder('e.g. Blood Panel Results').fill(title);
+      await p.getByPlaceholder('e.g. Dr. Smith').fill('Patient');
+      const put = onResponse(p, '/health/files/', 'PUT');
+      await p.locator('button:has-text("Add File")').last().click();
+      expect([200, 201, 204, 205]).toContain((await put).status());
+
+      await setToggleRowExactly(p, 'Doctor — read & write', true);
+      await p.getByLabel('Doctor purpose of use').selectOption('treatment');
+      await p.getByLabel('Doctor access scope').selectOption('file-types');
+      await p.getByLabel('Doctor purpose details').fill('follow-up of blood results');
+      await clickApplyAccessControl(p);
+    } finally {
+      await pCtx.close();
+    }
+
+    // Step 2: the notice states purpose and scope; afterwards the lab file loads, the record is never fetched
+    const { context: dCtx, page: d, tracker } = await loginAndTrack(browser, 'doctor');
+    try {
+      await ensureOnApp(d);
+      await selectPatient1IfSelectorExists(d);
+      await expect(d.getByText('Treatment: follow-up of blood results')).toBeVisible({ timeout: 20000 });
+      await expect(d.getByText('lab files only')).toBeVisible();
+      await acceptNoticeIfPresent(d);
+
+      await expect(d.getByText(title)).toBeVisible({ timeout: 20000 });
+      await waitForBodyText(d, /selected files only, not the full record/);
+      expect(tracker.gets).not.toContain(200);
+    } finally {
+      tracker.dispose();
+      await dCtx.close();
+    }
+
+    // Restore the default scope so later tests see the usual doctor grant
+    const { context: rCtx, page: r } = await loginViaUI(browser, 'patient1');
+    try {
+      await setToggleRowExactly(r, 'Doctor — read & write', true);
+      const scope = r.getByLabel('Doctor access scope');
+      await expect(scope).toHaveValue('file-types', { timeout: 20000 });
+      await scope.selectOption('record-and-shared-files');
+      await clickApplyAccessControl(r);
+    } finally {
+      await rCtx.close();
+    }
+  });
+
+  test('TC-AC-16 | Doctor picker lists patients who granted access and filters by search', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await grantDoctorAccessExactly(p);
+    } finally {
+      await pCtx.close();
+    }
+
+    const { context: dCtx, page: d } = await loginViaUI(browser, 'doctor');
+    try {
+      await ensureOnApp(d);
+      const select = d.locator('#patientSelect');
+      await expect(select).toBeVisible({ timeout: 20000 });
+      await expect(select.locator('option[value="patient1"]')).toHaveCount(1);
+
+      await d.getByLabel('Search patients').fill('Patient 1');
+      const texts = await select.locator('option').allTextContents();
+      expect(texts.length).toBeGreaterThan(0);
+      for (const t of texts) expect(t).toMatch(/Patient 1/);
+    } finally {
+      await dCtx.close();
+    }
+
+    // The registry itself is not public
+    const listing = await bareRequest(`${CSS}/governance/registry/patients/`);
+    expect([401, 403]).toContain(listing.status);
+  });
+
+  test('TC-AC-17 | Grants name a practitioner from the governance practitioner registry', async ({ browser }) => {
+    test.setTimeout(120000);
+
+    // Only signed-in agents may read the registry
+    const registry = await bareRequest(`${CSS}/governance/registry/practitioners.ttl`);
+    expect([401, 403]).toContain(registry.status);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await setToggleRowExactly(p, 'Doctor — read & write', true);
+      const practitioner = p.getByLabel('Doctor practitioner');
+      await expect(practitioner).toBeVisible({ timeout: 20000 });
+      await expect(practitioner).toHaveValue(`${CSS}/doctor/profile/card#me`);
+      await expect(practitioner.locator('option')).toContainText(['Demo Hospital']);
+    } finally {
+      await pCtx.close();
+    }
+  });
+
+  test('TC-AC-18 | Concurrent record edits open a merge dialog instead of overwriting', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const { context: aCtx, page: a } = await loginViaUI(browser, 'patient1');
+    const { context: bCtx, page: b } = await loginViaUI(browser, 'patient1');
+    try {
+      const stamp = Date.now();
+      await expect(a.getByLabel('Notes')).toBeVisible({ timeout: 20000 });
+      await expect(b.getByLabel('Notes')).toBeVisible({ timeout: 20000 });
+
+      // B saves first; A's version of the record is now stale
+      await b.getByLabel('Notes').fill(`Saved by B ${stamp}`);
+      await b.getByRole('button', { name: 'Save to pod' }).click();
+      await expect(b.getByText('Record saved to pod.')).toBeVisible({ timeout: 20000 });
+
+      await a.getByLabel('Notes').fill(`Saved by A ${stamp}`);
+      await a.getByRole('button', { name: 'Save to pod' }).click();
+
+      const dialog = a.getByRole('dialog', { name: 'Record changed while you were editing' });
+      await expect(dialog).toBeVisible({ timeout: 20000 });
+      await expect(dialog).toContainText(`Saved by A ${stamp}`);
+      await expect(dialog).toContainText(`Saved by B ${stamp}`);
+
+      await dialog.getByRole('button', { name: 'Take all theirs' }).click();
+      await dialog.getByRole('button', { name: 'Save merged version' }).click();
+      await expect(a.getByText('Record saved to pod.')).toBeVisible({ timeout: 20000 });
+      await expect(a.getByLabel('Notes')).toHaveValue(`Saved by B ${stamp}`);
+    } finally {
+      await aCtx.close();
+      await bCtx.close();
+    }
+  });
+
+  test('TC-AC-19 | The full record is stored as Turtle with schema.org and FHIR terms', async ({ browser }) => {
+    test.setTimeout(120000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      const stamp = Date.now();
+      await expect(p.getByLabel('Diagnoses')).toBeVisible({ timeout: 20000 });
+      await p.getByLabel('Diagnoses').fill(`Hypertension ${stamp}\nAsthma ${stamp}`);
+
+      const put = onResponse(p, 'full-record.ttl', 'PUT');
+      await p.getByRole('button', { name: 'Save to pod' }).click();
+      const res = await put;
+      expect([200, 201, 204, 205]).toContain(res.status());
+
+      expect(res.request().headers()['content-type']).toContain('text/turtle');
+      const body = res.request().postData() ?? '';
+      expect(body).toContain('schema:Patient');
+      expect(body).toContain('fhir:Condition');
+      expect(body).toContain(`Hypertension ${stamp}`);
+
+      // Reloading reads the Turtle back into the form, in order
+      await p.reload();
+      await expect(p.getByLabel('Diagnoses')).toHaveValue(`Hypertension ${stamp}\nAsthma ${stamp}`, { timeout: 20000 });
+    } finally {
+      await pCtx.close();
+    }
+  });
+
+  test('TC-AC-20 | Patient adds a structured medication entry that survives a reload', async ({ browser }) => {
+    test.setTimeout(120000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      const drug = `Metformin ${Date.now()}`;
+      const meds = p.getByRole('group', { name: 'Medications' });
+      await expect(meds).toBeVisible({ timeout: 20000 });
+
+      await meds.getByRole('button', { name: 'Add medication' }).click();
+      const row = meds.getByTestId('medication-row').last();
+      await row.getByRole('textbox', { name: /^Drug / }).fill(drug);
+      await row.getByRole('textbox', { name: /^Strength / }).fill('500 mg');
+      await row.getByRole('textbox', { name: /^Route / }).fill('oral');
+      await row.getByRole('textbox', { name: /^Frequency / }).fill('twice daily');
+      // A prescriber without a WebID is flagged inline and kept as their name
+      await row.getByRole('textbox', { name: /^Prescriber / }).fill('Dr Smith');
+      await expect(row.getByText("Not a WebID (https://…); it is saved as the prescriber's name.")).toBeVisible();
+      await row.getByRole('combobox', { name: /^Status / }).selectOption('discontinued');
+      await row.getByRole('checkbox', { name: `Share ${drug} with pharmacy` }).check();
+
+      const put = onResponse(p, 'full-record.ttl', 'PUT');
+      const pharmacyPut = onResponse(p, 'pharmacy-medications.ttl', 'PUT');
+      await p.getByRole('button', { name: 'Save to pod' }).click();
+      const res = await put;
+      expect([200, 201, 204, 205]).toContain(res.status());
+      const body = res.request().postData() ?? '';
+      expect(body).toContain('fhir:MedicationStatement');
+      expect(body).toContain('schema:strengthValue');
+      // FHIR RDF status codes: a discontinued medication is "stopped", held as fhir:v
+      expect(body).toContain('fhir:v "stopped"');
+      expect(body).not.toContain('"discontinued"');
+
+      // The pharmacy's own document holds the shared medications and nothing from the record
+      const pharmacyRes = await pharmacyPut;
+      expect([200, 201, 204, 205]).toContain(pharmacyRes.status());
+      const pharmacyBody = pharmacyRes.request().postData() ?? '';
+      expect(pharmacyBody).toContain(drug);
+      expect(pharmacyBody).not.toContain('schema:Patient');
+
+      await p.reload();
+      const saved = p.getByRole('group', { name: 'Medications' }).getByTestId('medication-row').last();
+      await expect(saved.getByRole('textbox', { name: /^Drug / })).toHaveValue(drug, { timeout: 20000 });
+      await expect(saved.getByRole('textbox', { name: /^Strength / })).toHaveValue('500 mg');
+      await expect(saved.getByRole('textbox', { name: /^Frequency / })).toHaveValue('twice daily');
+      await expect(saved.getByRole('textbox', { name: /^Prescriber / })).toHaveValue('Dr Smith');
+      await expect(saved.getByRole('combobox', { name: /^Status / })).toHaveValue('discontinued');
+      await expect(saved.getByRole('checkbox', { name: `Share ${drug} with pharmacy` })).toBeChecked();
+    } finally {
+      await pCtx.close();
+    }
+  });
+
+  test('TC-AC-21 | Saving is blocked for a severe allergy to a listed medication and warns for a milder one', async ({ browser }) => {
+    test.setTimeout(120000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      const allergies = p.getByRole('group', { name: 'Allergies' });
+      const meds = p.getByRole('group', { name: 'Medications' });
+      await expect(allergies).toBeVisible({ timeout: 20000 });
+
+      await allergies.getByRole('button', { name: 'Add allergy' }).click();
+      const allergy = allergies.getByTestId('allergy-row').last();
+      await allergy.getByRole('textbox', { name: /^Substance / }).fill('Penicillin');
+      await allergy.getByRole('textbox', { name: /^Reaction / }).fill('hives');
+      await allergy.getByRole('combobox', { name: /^Severity / }).selectOption('severe');
+      await meds.getByRole('button', { name: 'Add medication' }).click();
+      const med = meds.getByTestId('medication-row').last();
+      await med.getByRole('textbox', { name: /^Drug / }).fill('Amoxicillin');
+
+      // Step 1: a severe allergy to the drug's class blocks the save
+      await p.getByRole('button', { name: 'Save to pod' }).click();
+      const alert = p.getByRole('alert').filter({ hasText: 'Not saved' });
+      await expect(alert).toContainText('Amoxicillin is a penicillin, and the patient is allergic to Penicillin (severe).');
+
+      // Step 2: a moderate allergy asks for confirmation instead
+      await allergy.getByRole('combobox', { name: /^Severity / }).selectOption('moderate');
+      await expect(alert).toHaveCount(0);
+      await p.getByRole('button', { name: 'Save to pod' }).click();
+      await expect(p.getByText('Possible allergy conflict')).toBeVisible();
+      await p.getByRole('button', { name: 'Save anyway' }).click();
+      await expect(p.getByText('Record saved to pod.').last()).toBeVisible({ timeout: 20000 });
+
+      // Leave the record without the conflict for other tests
+      await allergy.getByRole('button', { name: /^Remove allergy/ }).click();
+      await med.getByRole('button', { name: /^Remove medication/ }).click();
+      const put = onResponse(p, 'full-record.ttl', 'PUT');
+      await p.getByRole('button', { name: 'Save to pod' }).click();
+      expect([200, 201, 204, 205]).toContain((await put).status());
+    } finally {
+      await pCtx.close();
+    }
+  });
+
+  test('TC-AC-22 | A file attachment is stored as a binary with its checksum and previews in the browser', async ({ browser }) => {
+    test.setTimeout(120000);
+
+    // 1×1 transparent PNG
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+      'base64'
+    );
+    const title = uniqueValue('SCAN');
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await p.locator('button:has-text("Add File")').first().click();
+      await p.getByPlaceholder('e.g. Blood Panel Results').fill(title);
+      await p.getByPlaceholder('e.g. Dr. Smith').fill('Patient');
+      await p.getByLabel('Attachment').setInputFiles({ name: 'scan.png', mimeType: 'image/png', buffer: png });
+
+      const binary = onResponse(p, '/health/attachments/', 'PUT');
+      const meta = onResponse(p, '/health/files/', 'PUT');
+      await p.locator('button:has-text("Add File")').last().click();
+      const binaryRes = await binary;
+      expect([200, 201, 204, 205]).toContain(binaryRes.status());
+      expect(binaryRes.request().headers()['content-type']).toBe('image/png');
+      const metaRes = await meta;
+      expect([200, 201, 204, 205]).toContain(metaRes.status());
+      const body = metaRes.request().postData() ?? '';
+      expect(body).toContain('schema:associatedMedia');
+      expect(body).toContain(binaryRes.url());
+
+      const attachment = p.getByTestId('file-attachment').filter({ hasText: 'scan.png' }).first();
+      await expect(attachment).toBeVisible({ timeout: 20000 });
+      await attachment.getByRole('button', { name: 'Preview' }).click();
+      const preview = p.getByRole('dialog', { name: 'Preview of scan.png' });
+      await expect(preview.getByRole('img', { name: 'scan.png' })).toBeVisible({ timeout: 20000 });
+      await preview.getByRole('button', { name: 'Close preview' }).click();
+      await expect(preview).toHaveCount(0);
+    } finally {
+      await pCtx.close();
+    }
+  });
 });
 
 test.describe('TC-RV: Revocation', () => {
@@ -1448,11 +1835,11 @@ test.describe('TC-RV: Revocation', () => {
 
     p.on('response', async (r) => {
       if (r.url().includes('governance/grants/state/') && r.url().endsWith('.json')) {
-        grantStateUrl = r.url();
-
         try {
           const json = await r.json();
-          if (json && typeof json === 'object') {
+          // The patient now reads grant state for every role; keep the doctor's
+          if (json && typeof json === 'object' && json.granteeRole === 'doctor') {
+            grantStateUrl = r.url();
             lastGoodGrantStateJson = json;
           }
           // console.log('Captured grant state URL:', grantStateUrl);
@@ -1487,7 +1874,8 @@ test.describe('TC-RV: Revocation', () => {
       expect(lastGoodGrantStateJson).toBeTruthy();
       expect(lastGoodGrantStateJson.key).toBeTruthy();
       expect(lastGoodGrantStateJson.patientWebId).toBe('http://localhost:3000/patient/profile/card#me');
-      expect(lastGoodGrantStateJson.doctorWebId).toBe('http://localhost:3000/doctor/profile/card#me');
+      expect(lastGoodGrantStateJson.granteeWebId).toBe('http://localhost:3000/doctor/profile/card#me');
+      expect(lastGoodGrantStateJson.granteeRole).toBe('doctor');
       expect(lastGoodGrantStateJson.scopeUrl).toBe('http://localhost:3000/patient/health/');
       expect(lastGoodGrantStateJson.updatedAt).toBeTruthy();
 
@@ -1861,6 +2249,122 @@ test.describe('TC-RV: Revocation', () => {
     }
   });
 
+  test('TC-RV-09 | Time-limited grant stores expiresAt in governance grant state', async ({ browser }) => {
+    test.setTimeout(120000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    const doctorStates: { status?: string; expiresAt?: string }[] = [];
+
+    p.on('request', (req) => {
+      if (req.method() !== 'PUT' || !req.url().includes('governance/grants/state/')) return;
+      try {
+        const body = JSON.parse(req.postData() ?? '{}');
+        if (body.granteeRole === 'doctor') doctorStates.push(body);
+      } catch {
+        // ignore non-JSON bodies
+      }
+    });
+
+    try {
+      await setToggleRowExactly(p, 'Doctor — read & write', true);
+      await p.getByLabel('Doctor access duration').selectOption({ label: '7 days' });
+
+      const appliedAt = Date.now();
+      await clickApplyAccessControl(p);
+
+      await expect.poll(async () => doctorStates.length, { timeout: 20000 }).toBeGreaterThan(0);
+
+      const state = doctorStates[doctorStates.length - 1];
+      expect(state.status).toBe('active');
+      const expiresAt = Date.parse(state.expiresAt ?? '');
+      const sevenDays = 7 * 86_400_000;
+      expect(expiresAt).toBeGreaterThanOrEqual(appliedAt + sevenDays - 60000);
+      expect(expiresAt).toBeLessThanOrEqual(Date.now() + sevenDays + 60000);
+
+      // The panel now offers the live expiry; applying again leaves the grant untouched
+      await expect(p.getByLabel('Doctor access duration')).toHaveValue('current');
+      const statesBefore = doctorStates.length;
+      await clickApplyAccessControl(p);
+      await p.waitForTimeout(2000);
+      expect(doctorStates.length).toBe(statesBefore);
+
+      // Leave an open-ended grant behind for the following suites
+      await p.getByLabel('Doctor access duration').selectOption({ label: 'No expiry' });
+      await clickApplyAccessControl(p);
+    } finally {
+      await pCtx.close();
+    }
+  });
+
+});
+
+test.describe('TC-BG: Break-glass', () => {
+  test('TC-BG-01 | Emergency break-glass without patient grant - justification required, BREAK_GLASS logged, issued by governance, read 200', async ({ browser }) => {
+    test.setTimeout(240000);
+
+    // Step 1: patient1 has not granted emergency access (this also rewrites the ACRs)
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await revokeEmergencyAccessExactly(p);
+    } finally {
+      await pCtx.close();
+    }
+
+    // Step 2: emergency is blocked and offered break-glass
+    const { context: eCtx, page: e, tracker } = await loginAndTrack(browser, 'emergency');
+    const auditTypes: string[] = [];
+    const requestPosts: { url: string; status: number }[] = [];
+    e.on('request', (req) => {
+      if (req.method() !== 'PUT' || !req.url().includes('governance/audit/events/')) return;
+      try {
+        auditTypes.push(JSON.parse(req.postData() ?? '{}').type);
+      } catch {
+        // ignore non-JSON bodies
+      }
+    });
+    e.on('response', (res) => {
+      if (res.request().method() === 'POST' && res.url().includes('governance/grants/break-glass/')) {
+        requestPosts.push({ url: res.url(), status: res.status() });
+      }
+    });
+
+    try {
+      await selectPatient1IfSelectorExists(e);
+      const justification = e.locator('#breakGlassJustification');
+      await expect(justification).toBeVisible({ timeout: 20000 });
+
+      const button = e.getByRole('button', { name: 'Break glass' });
+      await justification.fill('too short');
+      await expect(button).toBeDisabled();
+
+      await justification.fill('Unconscious patient in A&E, need allergy history before treatment');
+      await expect(button).toBeEnabled();
+      await button.click();
+
+      // The clinician only appends a request; nothing opens until governance issues it
+      await expect.poll(async () => auditTypes.includes('BREAK_GLASS'), { timeout: 20000 }).toBe(true);
+      await expect.poll(async () => requestPosts.length, { timeout: 20000 }).toBeGreaterThan(0);
+      expect(requestPosts[0].url).toMatch(/\/grants\/break-glass\/[0-9a-f]{20}\/requests\/$/);
+      expect(requestPosts[0].status).toBe(201);
+      await expect(e.getByText(/Break-glass request sent/)).toBeVisible({ timeout: 10000 });
+      // Issuing needs the governance service, and the clinician is told so
+      await expect(e.getByRole('status').filter({ hasText: 'Break-glass request sent' }))
+        .toContainText('only while governance is signed in to its dashboard');
+      expect(tracker.gets.includes(200)).toBe(false);
+
+      // Step 3: an open governance dashboard issues it, and the record opens for the clinician
+      const { context: gCtx } = await loginViaUI(browser, 'governance');
+      try {
+        await expect(e.getByText(/Break-glass access active until/)).toBeVisible({ timeout: 60000 });
+        await expect.poll(async () => tracker.gets.includes(200), { timeout: 20000 }).toBe(true);
+      } finally {
+        await gCtx.close();
+      }
+    } finally {
+      tracker.dispose();
+      await eCtx.close();
+    }
+  });
 });
 
 const PATIENT_WEBID = 'http://localhost:3000/patient/profile/card#me';
@@ -2107,7 +2611,7 @@ test.describe('TC-AU: Audit Evidence', () => {
       if (req.url().includes('/governance/audit/events/')) {
         timeline.push({ kind: 'audit', at: Date.now() });
       }
-      if (req.url().includes('full-record.json') && req.method() === 'GET') {
+      if (req.url().includes('full-record.ttl') && req.method() === 'GET') {
         timeline.push({ kind: 'get', at: Date.now() });
       }
     };
@@ -2512,4 +3016,409 @@ test.describe('TC-AU: Audit Evidence', () => {
     }
   });
 
+  test('TC-AU-10 | New audit events are hash-chained and the dashboard reports the chain intact', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    // Step 1: governance bootstrap creates the chain head container (idempotent)
+    const { context: gCtx1, page: g1 } = await loginViaUI(browser, 'governance');
+    try {
+      await g1.getByRole('button', { name: /bootstrap/i }).first().click();
+      await waitForBodyText(g1, /bootstrapped successfully/i, 30000);
+    } finally {
+      await gCtx1.close();
+    }
+
+    // Step 2: two patient grants produce two chained events
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    const written: { seq?: number; prevHash?: string; eventHash?: string; hashAlg?: string }[] = [];
+    p.on('request', (req) => {
+      if (req.method() !== 'PUT' || !req.url().includes('governance/audit/events/')) return;
+      try {
+        written.push(JSON.parse(req.postData() ?? '{}'));
+      } catch {
+        // ignore non-JSON bodies
+      }
+    });
+
+    try {
+      await grantDoctorAccessExactly(p);
+      await revokeDoctorAccessExactly(p);
+      await expect.poll(async () => written.length, { timeout: 20000 }).toBeGreaterThanOrEqual(2);
+    } finally {
+      await pCtx.close();
+    }
+
+    for (const ev of written) {
+      expect(typeof ev.seq).toBe('number');
+      expect(String(ev.prevHash)).toMatch(/^[a-f0-9]{64}$/);
+      expect(ev.hashAlg).toBe('sha256-jcs-v2');
+    }
+    const [a, b] = written.slice(-2);
+    expect(b.seq).toBe((a.seq ?? 0) + 1);
+    expect(b.prevHash).toBe(a.eventHash);
+
+    // Step 3: the dashboard verifies the whole chain
+    const { context: gCtx2, page: g2 } = await loginViaUI(browser, 'governance');
+    try {
+      await expect(g2.getByText('Audit chain intact')).toBeVisible({ timeout: 30000 });
+    } finally {
+      await gCtx2.close();
+    }
+  });
+
+  test('TC-AU-11 | Audit events are signed with a key published in the actor profile', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const patientWebId = `${CSS}/patient/profile/card#me`;
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    const written: { eventId?: string; signature?: { alg?: string; keyId?: string; value?: string } }[] = [];
+    p.on('request', (req) => {
+      if (req.method() !== 'PUT' || !req.url().includes('governance/audit/events/')) return;
+      try {
+        written.push(JSON.parse(req.postData() ?? '{}'));
+      } catch {
+        // ignore non-JSON bodies
+      }
+    });
+
+    try {
+      // Step 1: a fresh browser generates a key and publishes it to the profile after login
+      await expect.poll(
+        () => p.evaluate((webId) => new Promise<boolean>((resolve) => {
+          const open = indexedDB.open('solid-healthcare-signing', 1);
+          open.onupgradeneeded = () => open.result.createObjectStore('keys', { keyPath: 'webId' });
+          open.onsuccess = () => {
+            const get = open.result.transaction('keys', 'readonly').objectStore('keys').get(webId);
+            get.onsuccess = () => { resolve(!!get.result?.published); open.result.close(); };
+            get.onerror = () => { resolve(false); open.result.close(); };
+          };
+          open.onerror = () => resolve(false);
+        }), patientWebId),
+        { timeout: 20000 },
+      ).toBe(true);
+
+      const profile = await p.evaluate(async (url) => (await fetch(url, { cache: 'no-store' })).text(), `${CSS}/patient/profile/card`);
+      expect(profile).toContain('publicKeyJwk');
+
+      // Step 2: the next event the patient writes carries an ES256 signature with that key
+      await grantDoctorAccessExactly(p);
+      await expect.poll(async () => written.length, { timeout: 20000 }).toBeGreaterThanOrEqual(1);
+    } finally {
+      await pCtx.close();
+    }
+
+    const ev = written[written.length - 1];
+    expect(ev.signature?.alg).toBe('ES256');
+    expect(String(ev.signature?.keyId)).toMatch(/\/patient\/profile\/card#signing-key-/);
+    expect(String(ev.signature?.value)).toMatch(/^[A-Za-z0-9_-]{86}$/);
+
+    // Step 3: governance verifies it against the published key
+    const { context: gCtx, page: g } = await loginViaUI(browser, 'governance');
+    try {
+      await expect(g.getByText('Signed', { exact: true }).first()).toBeVisible({ timeout: 30000 });
+    } finally {
+      await gCtx.close();
+    }
+  });
+
+  test('TC-AU-12 | Doctor reads are logged as READ, and reads without a grant as READ_BLOCKED', async ({ browser }) => {
+    test.setTimeout(240000);
+
+    // Step 1: with a grant, the doctor loads the record
+    const { context: pCtx1, page: p1 } = await loginViaUI(browser, 'patient1');
+    try {
+      await grantDoctorAccessExactly(p1);
+    } finally {
+      await pCtx1.close();
+    }
+
+    const { context: dCtx1, page: d1, tracker } = await loginAndTrack(browser, 'doctor');
+    try {
+      await ensureOnApp(d1);
+      await selectPatient1IfSelectorExists(d1);
+      await acceptNoticeIfPresent(d1);
+      await expect.poll(async () => tracker.gets.includes(200), { timeout: 20000 }).toBe(true);
+    } finally {
+      tracker.dispose();
+      await dCtx1.close();
+    }
+
+    // Step 2: after revocation the doctor is turned away by the grant gate
+    const { context: pCtx2, page: p2 } = await loginViaUI(browser, 'patient1');
+    try {
+      await revokeDoctorAccessExactly(p2);
+    } finally {
+      await pCtx2.close();
+    }
+
+    const { context: dCtx2, page: d2 } = await loginViaUI(browser, 'doctor');
+    try {
+      await selectPatient1IfSelectorExists(d2);
+      await expect.poll(
+        async () => (await d2.locator('body').innerText().catch(() => '')).includes(NO_GRANT_TEXT),
+        { timeout: 20000 },
+      ).toBe(true);
+    } finally {
+      await dCtx2.close();
+    }
+
+    // Step 3: both accesses are in the governance log against the full record
+    const body = await waitForGovernanceDashboardEvidence(
+      browser,
+      (text) => /\bREAD\b/.test(text) && text.includes('READ_BLOCKED') && text.includes('full-record.ttl'),
+      30000,
+    );
+    expect(body).toContain('READ_BLOCKED');
+  });
+
+  test('TC-AU-13 | Patient sees who accessed their record; the audit view is not public', async ({ browser }) => {
+    test.setTimeout(240000);
+
+    // Step 1: governance bootstrap creates the per-patient audit views (idempotent)
+    const { context: gCtx, page: g } = await loginViaUI(browser, 'governance');
+    try {
+      await g.getByRole('button', { name: /bootstrap/i }).first().click();
+      await waitForBodyText(g, /bootstrapped successfully/i, 30000);
+    } finally {
+      await gCtx.close();
+    }
+
+    // Step 2: patient grants, doctor reads
+    const { context: pCtx1, page: p1 } = await loginViaUI(browser, 'patient1');
+    try {
+      await grantDoctorAccessExactly(p1);
+    } finally {
+      await pCtx1.close();
+    }
+
+    const { context: dCtx, page: d, tracker } = await loginAndTrack(browser, 'doctor');
+    try {
+      await ensureOnApp(d);
+      await selectPatient1IfSelectorExists(d);
+      await acceptNoticeIfPresent(d);
+      await expect.poll(async () => tracker.gets.includes(200), { timeout: 20000 }).toBe(true);
+    } finally {
+      tracker.dispose();
+      await dCtx.close();
+    }
+
+    // Step 3: the patient's timeline shows the grant, the acknowledgement and the read
+    const { context: pCtx2, page: p2 } = await loginViaUI(browser, 'patient1');
+    try {
+      await expect(p2.getByText('Who accessed my record')).toBeVisible({ timeout: 20000 });
+      await expect(p2.getByText(/Doctor \(doctor\) viewed your full record/).first()).toBeVisible({ timeout: 20000 });
+      await expect(p2.getByText(/Doctor \(doctor\) accepted the data use notice/).first()).toBeVisible();
+      await expect(p2.getByText(/You granted access to Doctor \(doctor\)/).first()).toBeVisible();
+    } finally {
+      await pCtx2.close();
+    }
+
+    // Step 4: the audit views are not readable without authentication
+    const r = await bareRequest(`${CSS}/governance/audit/patients/`);
+    expect([401, 403]).toContain(r.status);
+  });
+
+  test('TC-AU-14 | Publishing new terms requires grantees to review the changes and accept again', async ({ browser }) => {
+    test.setTimeout(240000);
+
+    // Step 1: doctor holds a grant and has accepted the current terms
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await grantDoctorAccessExactly(p);
+    } finally {
+      await pCtx.close();
+    }
+
+    const { context: dCtx1, page: d1, tracker } = await loginAndTrack(browser, 'doctor');
+    try {
+      await ensureOnApp(d1);
+      await selectPatient1IfSelectorExists(d1);
+      await acceptNoticeIfPresent(d1);
+      await expect.poll(async () => tracker.gets.includes(200), { timeout: 20000 }).toBe(true);
+    } finally {
+      tracker.dispose();
+      await dCtx1.close();
+    }
+
+    // Step 2: governance publishes a new version with an extra clause
+    const clause = `Clause added by TC-AU-14 at ${Date.now()}.`;
+    const { context: gCtx, page: g } = await loginViaUI(browser, 'governance');
+    try {
+      const textarea = g.getByLabel('Terms of use text');
+      await expect(textarea).not.toHaveValue('', { timeout: 20000 });
+      await textarea.fill(`${await textarea.inputValue()}\n${clause}`);
+      await g.getByRole('button', { name: 'Publish new version' }).click();
+      await waitForBodyText(g, /TERMS_PUBLISH/, 30000);
+    } finally {
+      await gCtx.close();
+    }
+
+    // Step 3: the doctor is shown the notice again, with the new clause as an addition
+    const { context: dCtx2, page: d2 } = await loginViaUI(browser, 'doctor');
+    try {
+      await selectPatient1IfSelectorExists(d2);
+      await expect(d2.getByText(/The terms have changed since you accepted v\d+\.0/)).toBeVisible({ timeout: 20000 });
+      await expect(d2.getByTestId('legal-notice-diff')).toContainText(clause);
+      expect(await acceptNoticeIfPresent(d2)).toBe(true);
+      await expect(d2.getByText(NO_GRANT_TEXT)).toHaveCount(0);
+    } finally {
+      await dCtx2.close();
+    }
+  });
+
+  test('TC-AU-15 | Record saves are kept as versions; restoring one is audited', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      const stamp = Date.now();
+      const notes = p.getByLabel('Notes');
+      await expect(notes).toBeVisible({ timeout: 20000 });
+
+      for (const text of [`First note ${stamp}`, `Second note ${stamp}`]) {
+        await notes.fill(text);
+        await p.getByRole('button', { name: 'Save to pod' }).click();
+        await expect(p.getByText('Record saved to pod.').last()).toBeVisible({ timeout: 20000 });
+      }
+
+      // Step 1: the drawer lists both saves, the older one diffed against the record on screen
+      await p.getByRole('button', { name: 'History', exact: true }).click();
+      const drawer = p.getByRole('dialog', { name: 'Record history' });
+      await expect(drawer.getByText('Changed Notes').first()).toBeVisible({ timeout: 20000 });
+      await drawer.getByRole('listitem').nth(1).getByRole('button').first().click();
+      await expect(drawer.getByTestId('record-version-diff')).toContainText(`First note ${stamp}`);
+
+      // Step 2: restoring writes the old version back and adds a new history entry
+      await drawer.getByRole('button', { name: 'Restore this version' }).click();
+      await p.getByRole('button', { name: 'Restore', exact: true }).click();
+      await expect(p.getByText('Earlier version restored.')).toBeVisible({ timeout: 20000 });
+      await expect(drawer.getByText(/^Restored the version saved/).first()).toBeVisible({ timeout: 20000 });
+      await drawer.getByRole('button', { name: 'Close record history' }).click();
+      await expect(notes).toHaveValue(`First note ${stamp}`);
+
+      // Step 3: the restore is in the patient's audit timeline
+      await p.getByRole('button', { name: 'Refresh access history' }).click();
+      await expect(p.getByText('You restored an earlier version of your full record').first()).toBeVisible({ timeout: 20000 });
+    } finally {
+      await pCtx.close();
+    }
+  });
+
+});
+
+test.describe('TC-CF: Runtime configuration', () => {
+  test('TC-CF-01 | Client ID document is generated from the served runtime config', async () => {
+    const cfg = await bareRequest(`${APP}/config.json`);
+    expect(cfg.status).toBe(200);
+    const config = JSON.parse(cfg.body) as { solidIssuer: string; appUrl: string; clientName: string };
+    expect(config.solidIssuer).toBe(`${CSS}/`);
+
+    const client = await bareRequest(`${APP}/clientid.json`);
+    expect(client.status).toBe(200);
+    const doc = JSON.parse(client.body) as { client_id: string; client_name: string; redirect_uris: string[] };
+    expect(doc.client_id).toBe(`${config.appUrl}clientid.json`);
+    expect(doc.client_name).toBe(config.clientName);
+    expect(doc.redirect_uris).toEqual([config.appUrl]);
+  });
+});
+
+test.describe('TC-LG: Login providers', () => {
+  test('TC-LG-01 | Issuer picker restores the last provider and discovers one from a WebID', async ({ browser }) => {
+    const context = await browser.newContext();
+    await context.addInitScript(() => {
+      localStorage.setItem('solid-healthcare:last-issuer', 'https://solidcommunity.net/');
+    });
+    const page = await context.newPage();
+    try {
+      await page.goto(APP, { waitUntil: 'domcontentloaded' });
+      await expect(page.getByRole('button', { name: 'Continue to solidcommunity.net' })).toBeVisible({ timeout: 15000 });
+
+      await page.getByLabel('Your WebID').fill(`${CSS}/doctor/profile/card#me`);
+      await page.getByRole('button', { name: 'Find provider' }).click();
+      await expect(page.getByRole('button', { name: 'Continue to localhost:3000' })).toBeVisible({ timeout: 15000 });
+    } finally {
+      await context.close();
+    }
+  });
+
+  test('TC-LG-02 | Reloading the page restores the session instead of logging out', async ({ browser }) => {
+    const { context, page } = await loginViaUI(browser, 'patient1');
+    try {
+      await expect(page.getByRole('button', { name: 'Log out' })).toBeVisible({ timeout: 20000 });
+      await page.reload({ waitUntil: 'domcontentloaded' });
+      await page.waitForURL(APP_URL_RE, { timeout: 30000 });
+      await expect(page.getByRole('button', { name: 'Log out' })).toBeVisible({ timeout: 30000 });
+      await expect(page.getByRole('button', { name: 'Log in with Solid pod' })).toHaveCount(0);
+    } finally {
+      await context.close();
+    }
+  });
+});
+
+test.describe('TC-FH: FHIR exchange', () => {
+  test('TC-FH-01 | Patient imports a FHIR Bundle with per-resource errors and exports the record as a Bundle', async ({ browser }) => {
+    test.setTimeout(180000);
+
+    const stamp = Date.now();
+    const bundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        { fullUrl: 'urn:uuid:p1', resource: { resourceType: 'Patient', id: 'p1' } },
+        {
+          fullUrl: 'urn:uuid:c1',
+          resource: { resourceType: 'Condition', id: 'c1', code: { text: `Asthma ${stamp}` }, subject: { reference: 'urn:uuid:p1' } },
+        },
+        {
+          fullUrl: 'urn:uuid:m1',
+          resource: { resourceType: 'MedicationStatement', id: 'm1', medicationCodeableConcept: { text: 'Salbutamol' }, subject: { reference: 'urn:uuid:p1' } },
+        },
+        {
+          fullUrl: 'urn:uuid:c2',
+          resource: { resourceType: 'Condition', id: 'c2', code: { coding: 'x' }, subject: { reference: 'urn:uuid:p1' } },
+        },
+      ],
+    };
+
+    const { context: pCtx, page: p } = await loginViaUI(browser, 'patient1');
+    try {
+      await expect(p.getByLabel('Diagnoses')).toBeVisible({ timeout: 20000 });
+
+      // Step 1: the preview names the invalid resource and imports the rest
+      await p.locator('input[type="file"][accept*="fhir"]').setInputFiles({
+        name: 'bundle.fhir.json',
+        mimeType: 'application/fhir+json',
+        buffer: Buffer.from(JSON.stringify(bundle)),
+      });
+      const preview = p.getByTestId('fhir-import-preview');
+      await expect(preview).toContainText('2 resources ready to import');
+      await expect(preview).toContainText('MedicationStatement/m1: status is required.');
+      await expect(preview).toContainText('Condition/c2: code.coding must be a list.');
+
+      await preview.getByRole('button', { name: 'Import', exact: true }).click();
+      await expect(p.getByText(/Imported 2 FHIR resources\. 2 skipped\./)).toBeVisible({ timeout: 20000 });
+      await expect(p.getByLabel('Diagnoses')).toHaveValue(new RegExp(`Asthma ${stamp}`));
+      const drugs = await p.getByRole('group', { name: 'Medications' }).locator('input[aria-label^="Drug"]')
+        .evaluateAll((els) => els.map((el) => (el as HTMLInputElement).value));
+      expect(drugs).not.toContain('Salbutamol');
+
+      // Step 2: the export carries the imported diagnosis as a Condition
+      const [download] = await Promise.all([
+        p.waitForEvent('download'),
+        p.getByRole('button', { name: 'Export as FHIR Bundle' }).click(),
+      ]);
+      const chunks: Buffer[] = [];
+      for await (const chunk of await download.createReadStream()) chunks.push(chunk as Buffer);
+      const exported = JSON.parse(Buffer.concat(chunks).toString('utf8')) as {
+        resourceType: string;
+        entry: { resource: { resourceType: string; code?: { text?: string } } }[];
+      };
+      expect(exported.resourceType).toBe('Bundle');
+      expect(exported.entry[0].resource.resourceType).toBe('Patient');
+      expect(exported.entry.some((e) =>
+        e.resource.resourceType === 'Condition' && e.resource.code?.text === `Asthma ${stamp}`)).toBe(true);
+    } finally {
+      await pCtx.close();
+    }
+  });
 });